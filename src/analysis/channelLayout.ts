@@ -0,0 +1,121 @@
+/**
+ * Channel Layout Module
+ *
+ * Maps interleaved channel order to speaker positions and provides the
+ * ITU-R BS.1770-4 channel weighting used by the loudness measurement.
+ *
+ * Channel order follows the WAV / SMPTE convention used by decoders:
+ * L R C LFE Ls Rs (5.1), L R C LFE Lb Rb Ls Rs (7.1).
+ */
+
+import type { ChannelLayoutName, SpeakerPosition } from '../core/types.js';
+
+export type { SpeakerPosition };
+
+export interface ChannelLayout {
+  name: ChannelLayoutName;
+  positions: SpeakerPosition[];
+}
+
+// Default layouts by channel count (WAV/SMPTE order)
+const DEFAULT_LAYOUTS: Record<number, ChannelLayout> = {
+  1: { name: 'mono', positions: ['M'] },
+  2: { name: 'stereo', positions: ['L', 'R'] },
+  3: { name: '3.0', positions: ['L', 'R', 'C'] },
+  4: { name: 'quad', positions: ['L', 'R', 'Ls', 'Rs'] },
+  5: { name: '5.0', positions: ['L', 'R', 'C', 'Ls', 'Rs'] },
+  6: { name: '5.1', positions: ['L', 'R', 'C', 'LFE', 'Ls', 'Rs'] },
+  7: { name: '6.1', positions: ['L', 'R', 'C', 'LFE', 'Lb', 'Ls', 'Rs'] },
+  8: { name: '7.1', positions: ['L', 'R', 'C', 'LFE', 'Lb', 'Rb', 'Ls', 'Rs'] }
+};
+
+// WAVE_FORMAT_EXTENSIBLE dwChannelMask bits, in interleave order
+const MASK_POSITIONS: Array<[number, SpeakerPosition]> = [
+  [0x1, 'L'],     // FRONT_LEFT
+  [0x2, 'R'],     // FRONT_RIGHT
+  [0x4, 'C'],     // FRONT_CENTER
+  [0x8, 'LFE'],   // LOW_FREQUENCY
+  [0x10, 'Lb'],   // BACK_LEFT
+  [0x20, 'Rb'],   // BACK_RIGHT
+  [0x40, 'L'],    // FRONT_LEFT_OF_CENTER
+  [0x80, 'R'],    // FRONT_RIGHT_OF_CENTER
+  [0x100, 'Lb'],  // BACK_CENTER
+  [0x200, 'Ls'],  // SIDE_LEFT
+  [0x400, 'Rs']   // SIDE_RIGHT
+];
+
+// Named layouts by channel mask
+const MASK_LAYOUT_NAMES: Record<number, ChannelLayoutName> = {
+  0x4: 'mono',
+  0x3: 'stereo',
+  0x7: '3.0',
+  0x33: 'quad',
+  0x603: 'quad',
+  0x37: '5.0',
+  0x607: '5.0',
+  0x3F: '5.1',
+  0x60F: '5.1',
+  0x70F: '6.1',
+  0x63F: '7.1'
+};
+
+// ITU-R BS.1770-4 Table 3: +1.5 dB (G = 1.41) for surround channels
+const SURROUND_WEIGHT = 1.41;
+
+/**
+ * Infer channel layout from channel count, or from the WAV channel mask
+ * when the container provides one that matches the channel count.
+ * Unknown counts fall back to unweighted front channels.
+ */
+export function getChannelLayout(channelCount: number, channelMask?: number): ChannelLayout {
+  if (channelMask) {
+    const fromMask = getChannelLayoutFromMask(channelMask, channelCount);
+    if (fromMask) return fromMask;
+  }
+  const layout = DEFAULT_LAYOUTS[channelCount];
+  if (layout) return layout;
+  return {
+    name: 'unknown',
+    positions: Array.from({ length: channelCount }, (_, i) => (i % 2 === 0 ? 'L' : 'R') as SpeakerPosition)
+  };
+}
+
+/**
+ * Build a layout from a WAVE_FORMAT_EXTENSIBLE channel mask.
+ * Returns null if the mask does not describe exactly `channelCount` speakers.
+ */
+export function getChannelLayoutFromMask(channelMask: number, channelCount: number): ChannelLayout | null {
+  const positions: SpeakerPosition[] = [];
+  for (const [bit, position] of MASK_POSITIONS) {
+    if (channelMask & bit) positions.push(position);
+  }
+  if (positions.length !== channelCount) return null;
+  if (channelCount === 1) return DEFAULT_LAYOUTS[1];
+  return { name: MASK_LAYOUT_NAMES[channelMask] ?? 'unknown', positions };
+}
+
+/**
+ * BS.1770-4 weight for a single speaker position.
+ * LFE is excluded from the measurement; surrounds are weighted +1.5 dB.
+ * Back surrounds use the same weight as side surrounds (libebur128 convention).
+ */
+export function getPositionWeight(position: SpeakerPosition): number {
+  switch (position) {
+    case 'LFE':
+      return 0;
+    case 'Ls':
+    case 'Rs':
+    case 'Lb':
+    case 'Rb':
+      return SURROUND_WEIGHT;
+    default:
+      return 1.0;
+  }
+}
+
+/**
+ * Per-channel BS.1770-4 weights for a layout
+ */
+export function getChannelWeights(layout: ChannelLayout): number[] {
+  return layout.positions.map(getPositionWeight);
+}
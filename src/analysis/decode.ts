@@ -1,15 +1,47 @@
+import { decodeNative, type SampleFormat } from "./decoders";
+
 export interface DecodedAudio {
   sampleRate: number;
   channels: number;
   channelData: Float32Array[];
+  // === NEW: Source format (native decoder only) ===
+  bitDepth?: number;
+  sampleFormat?: SampleFormat;
+  channelMask?: number;
+  decoder: "native" | "webaudio";
+  warnings?: string[];
 }
 
-export async function decodeToPCM(file: File): Promise<DecodedAudio> {
-  const ab = await file.arrayBuffer();
+/**
+ * Decode a file's bytes to PCM.
+ * WAV/RF64/AIFF/FLAC are decoded natively at their original sample rate and
+ * bit depth; lossy formats go through Web Audio (resampled by the browser).
+ * The bytes are left intact so the caller can parse tags from the same read.
+ */
+export async function decodeToPCM(ab: ArrayBuffer, filename: string): Promise<DecodedAudio> {
+
+  try {
+    const native = decodeNative(ab);
+    if (native) {
+      return {
+        sampleRate: native.sampleRate,
+        channels: native.channels,
+        channelData: native.channelData,
+        bitDepth: native.bitDepth,
+        sampleFormat: native.sampleFormat,
+        channelMask: native.channelMask,
+        decoder: "native",
+        warnings: native.warnings
+      };
+    }
+  } catch (e) {
+    console.warn(`Native decode failed for ${filename}, falling back to Web Audio:`, e);
+  }
+
   const ctx = new OfflineAudioContext(1, 1, 48000);
   const audio = await ctx.decodeAudioData(ab.slice(0));
   const channels = audio.numberOfChannels;
   const channelData: Float32Array[] = [];
   for (let ch = 0; ch < channels; ch++) channelData.push(audio.getChannelData(ch).slice());
-  return { sampleRate: audio.sampleRate, channels, channelData };
+  return { sampleRate: audio.sampleRate, channels, channelData, decoder: "webaudio" };
 }
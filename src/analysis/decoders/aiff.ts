@@ -0,0 +1,130 @@
+/**
+ * AIFF / AIFF-C container parser
+ *
+ * Supports uncompressed AIFF (big-endian signed PCM) and the AIFF-C
+ * compression types that carry raw PCM: NONE, twos, sowt (little-endian),
+ * in24, in32, fl32/FL32 and fl64/FL64. Other AIFF-C codecs return null.
+ */
+
+import { readFourCC, deinterleavePCM, missingFramesWarnings, type NativeDecodedAudio, type SampleFormat } from './pcm.js';
+
+export function isAiff(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const form = readFourCC(bytes, 8);
+  return readFourCC(bytes, 0) === 'FORM' && (form === 'AIFF' || form === 'AIFC');
+}
+
+/**
+ * Read an IEEE 754 80-bit extended float (AIFF sample rate)
+ */
+function readExtended(view: DataView, offset: number): number {
+  const expon = view.getUint16(offset, false);
+  const hiMant = view.getUint32(offset + 2, false);
+  const loMant = view.getUint32(offset + 6, false);
+  const sign = expon & 0x8000 ? -1 : 1;
+  const exp = expon & 0x7FFF;
+  if (exp === 0 && hiMant === 0 && loMant === 0) return 0;
+  const mantissa = hiMant * Math.pow(2, -31) + loMant * Math.pow(2, -63);
+  return sign * mantissa * Math.pow(2, exp - 16383);
+}
+
+interface CommChunk {
+  channels: number;
+  frames: number;
+  sampleSize: number;
+  sampleRate: number;
+  compression: string;
+}
+
+export function decodeAiff(buffer: ArrayBuffer): NativeDecodedAudio | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (!isAiff(bytes)) throw new Error('Invalid AIFF: missing FORM/AIFF header');
+
+  const isAifc = readFourCC(bytes, 8) === 'AIFC';
+  let comm: CommChunk | null = null;
+  let ssndOffset = -1;
+  let ssndSize = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readFourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, false);
+    const body = offset + 8;
+
+    if (id === 'COMM') {
+      comm = {
+        channels: view.getUint16(body, false),
+        frames: view.getUint32(body + 2, false),
+        sampleSize: view.getUint16(body + 6, false),
+        sampleRate: readExtended(view, body + 8),
+        compression: isAifc && size >= 22 ? readFourCC(bytes, body + 18) : 'NONE'
+      };
+    } else if (id === 'SSND') {
+      const dataOffset = view.getUint32(body, false);
+      ssndOffset = body + 8 + dataOffset;
+      ssndSize = Math.min(size - 8 - dataOffset, bytes.length - ssndOffset);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (!comm) throw new Error('Invalid AIFF: no COMM chunk found');
+  if (ssndOffset < 0) throw new Error('Invalid AIFF: no SSND chunk found');
+
+  let sampleFormat: SampleFormat = 'int';
+  let littleEndian = false;
+  let bitDepth = comm.sampleSize;
+
+  switch (comm.compression) {
+    case 'NONE':
+    case 'twos':
+      break;
+    case 'sowt':
+      littleEndian = true;
+      break;
+    case 'in24':
+      bitDepth = 24;
+      break;
+    case 'in32':
+      bitDepth = 32;
+      break;
+    case 'fl32':
+    case 'FL32':
+      sampleFormat = 'float';
+      bitDepth = 32;
+      break;
+    case 'fl64':
+    case 'FL64':
+      sampleFormat = 'float';
+      bitDepth = 64;
+      break;
+    default:
+      return null;
+  }
+
+  const bytesPerSample = Math.ceil(bitDepth / 8);
+  // Truncated files: decode what is present and say what is missing
+  const frames = Math.min(comm.frames, Math.floor(ssndSize / (bytesPerSample * comm.channels)));
+  const sampleRate = Math.round(comm.sampleRate);
+
+  const channelData = deinterleavePCM(view, ssndOffset, {
+    channels: comm.channels,
+    frames,
+    bytesPerSample,
+    bitDepth,
+    sampleFormat,
+    littleEndian,
+    unsigned8Bit: false
+  });
+
+  return {
+    container: isAifc ? 'aifc' : 'aiff',
+    sampleRate,
+    channels: comm.channels,
+    channelData,
+    bitDepth,
+    sampleFormat,
+    warnings: missingFramesWarnings(isAifc ? 'AIFF-C SSND chunk' : 'AIFF SSND chunk', frames, comm.frames, sampleRate)
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * FLAC decoder
+ *
+ * Pure TypeScript implementation of the FLAC bitstream:
+ * - STREAMINFO metadata (other metadata blocks are skipped)
+ * - CONSTANT, VERBATIM, FIXED and LPC subframes with wasted bits
+ * - Rice / Rice2 partitioned residuals including escape partitions
+ * - Left/side, right/side and mid/side stereo decorrelation
+ *
+ * Frame CRCs are not verified; a frame that fails to parse ends decoding
+ * and the samples decoded so far are returned with a warning.
+ */
+
+import { readFourCC, type NativeDecodedAudio } from './pcm.js';
+
+export function isFlac(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && readFourCC(bytes, 0) === 'fLaC';
+}
+
+interface StreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+}
+
+/**
+ * MSB-first bit reader over a byte array
+ */
+class BitReader {
+  private bytes: Uint8Array;
+  bytePos: number;
+  private bitPos = 0; // Bits consumed in current byte (0-7)
+
+  constructor(bytes: Uint8Array, offset: number) {
+    this.bytes = bytes;
+    this.bytePos = offset;
+  }
+
+  get eof(): boolean {
+    return this.bytePos >= this.bytes.length;
+  }
+
+  readBit(): number {
+    if (this.bytePos >= this.bytes.length) throw new Error('FLAC: unexpected end of stream');
+    const bit = (this.bytes[this.bytePos] >> (7 - this.bitPos)) & 1;
+    if (++this.bitPos === 8) {
+      this.bitPos = 0;
+      this.bytePos++;
+    }
+    return bit;
+  }
+
+  /** Read up to 53 bits as an unsigned number */
+  readBits(n: number): number {
+    let value = 0;
+    while (n > 0) {
+      if (this.bytePos >= this.bytes.length) throw new Error('FLAC: unexpected end of stream');
+      const available = 8 - this.bitPos;
+      const take = Math.min(available, n);
+      const shift = available - take;
+      const chunk = (this.bytes[this.bytePos] >> shift) & ((1 << take) - 1);
+      value = value * (1 << take) + chunk;
+      n -= take;
+      this.bitPos += take;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+    }
+    return value;
+  }
+
+  readSigned(n: number): number {
+    if (n === 0) return 0;
+    const value = this.readBits(n);
+    const half = Math.pow(2, n - 1);
+    return value >= half ? value - half * 2 : value;
+  }
+
+  /** Count zero bits up to the next 1 bit (consumed) */
+  readUnary(): number {
+    let count = 0;
+    while (true) {
+      if (this.bytePos >= this.bytes.length) throw new Error('FLAC: unexpected end of stream');
+      // Fast path: rest of the current byte is zero
+      const rest = this.bytes[this.bytePos] & (0xFF >> this.bitPos);
+      if (rest === 0) {
+        count += 8 - this.bitPos;
+        this.bitPos = 0;
+        this.bytePos++;
+        continue;
+      }
+      const leading = Math.clz32(rest) - 24 - this.bitPos;
+      count += leading;
+      this.bitPos += leading + 1;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+      return count;
+    }
+  }
+
+  alignToByte(): void {
+    if (this.bitPos !== 0) {
+      this.bitPos = 0;
+      this.bytePos++;
+    }
+  }
+}
+
+const BLOCK_SIZES = [0, 192, 576, 1152, 2304, 4608, 0, 0, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768];
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+function parseStreamInfo(bytes: Uint8Array, offset: number): StreamInfo {
+  const r = new BitReader(bytes, offset);
+  const minBlockSize = r.readBits(16);
+  const maxBlockSize = r.readBits(16);
+  r.readBits(24); // min frame size
+  r.readBits(24); // max frame size
+  const sampleRate = r.readBits(20);
+  const channels = r.readBits(3) + 1;
+  const bitsPerSample = r.readBits(5) + 1;
+  const totalSamples = r.readBits(36);
+  return { minBlockSize, maxBlockSize, sampleRate, channels, bitsPerSample, totalSamples };
+}
+
+export function decodeFlac(buffer: ArrayBuffer): NativeDecodedAudio {
+  const bytes = new Uint8Array(buffer);
+  if (!isFlac(bytes)) throw new Error('Invalid FLAC: missing fLaC marker');
+
+  // Metadata blocks
+  let offset = 4;
+  let info: StreamInfo | null = null;
+  let isLast = false;
+  while (!isLast && offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    isLast = (header & 0x80) !== 0;
+    const type = header & 0x7F;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (type === 0) info = parseStreamInfo(bytes, offset + 4);
+    offset += 4 + length;
+  }
+
+  if (!info) throw new Error('Invalid FLAC: no STREAMINFO block');
+
+  const { channels, bitsPerSample, sampleRate } = info;
+  let capacity = info.totalSamples > 0 ? info.totalSamples : sampleRate * 60;
+  let outputs: Int32Array[] = Array.from({ length: channels }, () => new Int32Array(capacity));
+  let written = 0;
+  const warnings: string[] = [];
+
+  const reader = new BitReader(bytes, offset);
+  // Subframes decode into doubles: a 32-bit stream's side channel needs 33 bits
+  const block: Float64Array[] = Array.from({ length: channels }, () => new Float64Array(info!.maxBlockSize || 65536));
+
+  // Stop at the declared length: an ID3v1/APE tag or padding may follow the last frame
+  const expected = info.totalSamples;
+  while (!reader.eof && (expected === 0 || written < expected)) {
+    let blockSize: number;
+    try {
+      blockSize = decodeFrame(reader, info, block);
+    } catch (err) {
+      if (written === 0) throw err;
+      const reason = err instanceof Error ? err.message : String(err);
+      warnings.push(`FLAC stream stops at an undecodable frame after ${(written / sampleRate).toFixed(2)}s (${reason})`);
+      break;
+    }
+
+    if (written + blockSize > capacity) {
+      capacity = Math.max(capacity * 2, written + blockSize);
+      outputs = outputs.map(out => {
+        const grown = new Int32Array(capacity);
+        grown.set(out.subarray(0, written));
+        return grown;
+      });
+    }
+    for (let ch = 0; ch < channels; ch++) {
+      outputs[ch].set(block[ch].subarray(0, blockSize), written);
+    }
+    written += blockSize;
+  }
+  if (warnings.length === 0 && written < expected) {
+    warnings.push(`FLAC stream ends after ${(written / sampleRate).toFixed(2)}s of the ${(expected / sampleRate).toFixed(2)}s in STREAMINFO`);
+  }
+
+  const scale = 1 / Math.pow(2, bitsPerSample - 1);
+  const channelData = outputs.map(out => {
+    const f = new Float32Array(written);
+    for (let i = 0; i < written; i++) f[i] = out[i] * scale;
+    return f;
+  });
+
+  return {
+    container: 'flac',
+    sampleRate,
+    channels,
+    channelData,
+    bitDepth: bitsPerSample,
+    sampleFormat: 'int',
+    warnings
+  };
+}
+
+/**
+ * Decode a single frame into `out` and return its block size
+ */
+function decodeFrame(r: BitReader, info: StreamInfo, out: Float64Array[]): number {
+  // Sync code: 14 bits 0b11111111111110
+  const sync = r.readBits(14);
+  if (sync !== 0x3FFE) {
+    throw new Error(`FLAC: lost frame sync at byte ${r.bytePos}`);
+  }
+  r.readBit(); // reserved
+  r.readBit(); // blocking strategy
+
+  const blockSizeCode = r.readBits(4);
+  const sampleRateCode = r.readBits(4);
+  const channelAssignment = r.readBits(4);
+  const sampleSizeCode = r.readBits(3);
+  r.readBit(); // reserved
+
+  // UTF-8 style coded frame/sample number
+  const first = r.readBits(8);
+  let extra = 0;
+  if (first & 0x80) {
+    let mask = 0x40;
+    while (first & mask) {
+      extra++;
+      mask >>= 1;
+    }
+  }
+  for (let i = 0; i < extra; i++) r.readBits(8);
+
+  let blockSize = BLOCK_SIZES[blockSizeCode];
+  if (blockSizeCode === 6) blockSize = r.readBits(8) + 1;
+  else if (blockSizeCode === 7) blockSize = r.readBits(16) + 1;
+  if (blockSize === 0) throw new Error('FLAC: reserved block size');
+
+  if (sampleRateCode === 12) r.readBits(8);
+  else if (sampleRateCode === 13 || sampleRateCode === 14) r.readBits(16);
+  else if (sampleRateCode === 15) throw new Error('FLAC: invalid sample rate code');
+  // Frame-level sample rate is ignored in favour of STREAMINFO
+
+  const bps = SAMPLE_SIZES[sampleSizeCode] || info.bitsPerSample;
+  r.readBits(8); // CRC-8
+
+  if (blockSize > out[0].length) {
+    for (let ch = 0; ch < out.length; ch++) out[ch] = new Float64Array(blockSize);
+  }
+
+  const channelCount = channelAssignment < 8 ? channelAssignment + 1 : 2;
+  if (channelCount !== info.channels) throw new Error('FLAC: channel count mismatch');
+
+  for (let ch = 0; ch < channelCount; ch++) {
+    // Side channel carries one extra bit
+    let channelBps = bps;
+    if ((channelAssignment === 8 && ch === 1) ||
+        (channelAssignment === 9 && ch === 0) ||
+        (channelAssignment === 10 && ch === 1)) {
+      channelBps++;
+    }
+    decodeSubframe(r, channelBps, blockSize, out[ch]);
+  }
+
+  // Stereo decorrelation
+  const a = out[0];
+  const b = out[1];
+  if (channelAssignment === 8) {
+    for (let i = 0; i < blockSize; i++) b[i] = a[i] - b[i];
+  } else if (channelAssignment === 9) {
+    for (let i = 0; i < blockSize; i++) a[i] = a[i] + b[i];
+  } else if (channelAssignment === 10) {
+    // Plain arithmetic rather than bit ops, which would wrap 33-bit values
+    for (let i = 0; i < blockSize; i++) {
+      const side = b[i];
+      const mid = a[i] * 2 + Math.abs(side % 2);
+      a[i] = (mid + side) / 2;
+      b[i] = (mid - side) / 2;
+    }
+  }
+
+  r.alignToByte();
+  r.readBits(16); // CRC-16
+  return blockSize;
+}
+
+function decodeSubframe(r: BitReader, bps: number, blockSize: number, out: Float64Array): void {
+  if (r.readBit() !== 0) throw new Error('FLAC: invalid subframe padding');
+  const type = r.readBits(6);
+
+  let wasted = 0;
+  if (r.readBit() === 1) {
+    wasted = r.readUnary() + 1;
+    bps -= wasted;
+  }
+
+  if (type === 0) {
+    const value = r.readSigned(bps);
+    out.fill(value, 0, blockSize);
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) out[i] = r.readSigned(bps);
+  } else if (type >= 8 && type <= 12) {
+    const order = type - 8;
+    for (let i = 0; i < order; i++) out[i] = r.readSigned(bps);
+    decodeResidual(r, blockSize, order, out);
+    restoreLinear(out, blockSize, order, FIXED_COEFFICIENTS[order], 0);
+  } else if (type >= 32) {
+    const order = type - 31;
+    for (let i = 0; i < order; i++) out[i] = r.readSigned(bps);
+    const precision = r.readBits(4) + 1;
+    if (precision === 16) throw new Error('FLAC: invalid LPC precision');
+    const shift = r.readSigned(5);
+    const coefs: number[] = [];
+    for (let i = 0; i < order; i++) coefs.push(r.readSigned(precision));
+    decodeResidual(r, blockSize, order, out);
+    restoreLinear(out, blockSize, order, coefs, Math.max(0, shift));
+  } else {
+    throw new Error(`FLAC: reserved subframe type ${type}`);
+  }
+
+  if (wasted > 0) {
+    const mul = Math.pow(2, wasted);
+    for (let i = 0; i < blockSize; i++) out[i] *= mul;
+  }
+}
+
+function decodeResidual(r: BitReader, blockSize: number, order: number, out: Float64Array): void {
+  const method = r.readBits(2);
+  if (method > 1) throw new Error('FLAC: reserved residual coding method');
+  const paramBits = method === 0 ? 4 : 5;
+  const escapeCode = method === 0 ? 0xF : 0x1F;
+  const partitionOrder = r.readBits(4);
+  const partitions = 1 << partitionOrder;
+  const partitionSize = blockSize >> partitionOrder;
+
+  let pos = order;
+  for (let p = 0; p < partitions; p++) {
+    const count = p === 0 ? partitionSize - order : partitionSize;
+    const param = r.readBits(paramBits);
+
+    if (param === escapeCode) {
+      const rawBits = r.readBits(5);
+      for (let i = 0; i < count; i++) out[pos++] = r.readSigned(rawBits);
+      continue;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const q = r.readUnary();
+      const u = param > 0 ? q * (1 << param) + r.readBits(param) : q;
+      // Zigzag decode
+      out[pos++] = u % 2 === 0 ? u / 2 : -(u + 1) / 2;
+    }
+  }
+}
+
+/**
+ * Add prediction to residuals in place.
+ * Uses floating arithmetic for the sum so 32-bit sources cannot overflow.
+ */
+function restoreLinear(out: Float64Array, blockSize: number, order: number, coefs: number[], shift: number): void {
+  if (order === 0) return;
+  const div = Math.pow(2, shift);
+  for (let i = order; i < blockSize; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += coefs[j] * out[i - 1 - j];
+    out[i] += Math.floor(sum / div);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Native decoders barrel export
+ * Lossless containers are decoded in JS to keep the original sample rate
+ * and bit depth; anything else returns null for the Web Audio fallback.
+ */
+
+import { isWav, decodeWav } from './wav.js';
+import { isAiff, decodeAiff } from './aiff.js';
+import { isFlac, decodeFlac } from './flac.js';
+import type { NativeDecodedAudio } from './pcm.js';
+
+export { decodeWav, decodeAiff, decodeFlac, isWav, isAiff, isFlac };
+export type { NativeDecodedAudio, SampleFormat, ContainerFormat } from './pcm.js';
+
+/**
+ * Decode a lossless container natively.
+ * Returns null when the format is not handled (lossy or compressed payloads).
+ */
+export function decodeNative(buffer: ArrayBuffer): NativeDecodedAudio | null {
+  const header = new Uint8Array(buffer, 0, Math.min(12, buffer.byteLength));
+  if (isWav(header)) return decodeWav(buffer);
+  if (isAiff(header)) return decodeAiff(buffer);
+  if (isFlac(header)) return decodeFlac(buffer);
+  return null;
+}
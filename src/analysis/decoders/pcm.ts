@@ -0,0 +1,107 @@
+/**
+ * Shared PCM helpers for native container decoders
+ * Converts interleaved integer/float sample data to normalized Float32 channels
+ */
+
+export type SampleFormat = 'int' | 'float';
+
+export type ContainerFormat = 'wav' | 'rf64' | 'aiff' | 'aifc' | 'flac';
+
+export interface NativeDecodedAudio {
+  container: ContainerFormat;
+  sampleRate: number;
+  channels: number;
+  channelData: Float32Array[];
+  bitDepth: number;
+  sampleFormat: SampleFormat;
+  channelMask?: number; // WAVE_FORMAT_EXTENSIBLE speaker mask
+  warnings?: string[]; // Recoverable problems, e.g. a stream decoded only up to the damage
+}
+
+export interface PcmLayout {
+  channels: number;
+  frames: number;
+  bytesPerSample: number;
+  bitDepth: number; // Valid bits (may be less than container width)
+  sampleFormat: SampleFormat;
+  littleEndian: boolean;
+  unsigned8Bit: boolean; // WAV stores 8-bit PCM unsigned, AIFF signed
+  frameBytes?: number; // Stride between frames when the container pads them (defaults to packed)
+}
+
+/**
+ * Read a 4-character chunk identifier
+ */
+export function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Warn when a chunk holds fewer frames than its header declares
+ */
+export function missingFramesWarnings(chunk: string, frames: number, declaredFrames: number, sampleRate: number): string[] {
+  if (frames >= declaredFrames) return [];
+  return [`${chunk} stops after ${(frames / sampleRate).toFixed(2)}s of the ${(declaredFrames / sampleRate).toFixed(2)}s its header declares`];
+}
+
+/**
+ * Deinterleave PCM data into normalized Float32 channels
+ */
+export function deinterleavePCM(view: DataView, dataOffset: number, layout: PcmLayout): Float32Array[] {
+  const { channels, frames, bytesPerSample, sampleFormat, littleEndian, unsigned8Bit } = layout;
+  const channelData: Float32Array[] = [];
+  for (let ch = 0; ch < channels; ch++) channelData.push(new Float32Array(frames));
+
+  const frameBytes = layout.frameBytes ?? bytesPerSample * channels;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+  if (sampleFormat === 'float') {
+    if (bytesPerSample !== 4 && bytesPerSample !== 8) {
+      throw new Error(`Unsupported float sample size: ${bytesPerSample * 8}-bit`);
+    }
+    for (let i = 0; i < frames; i++) {
+      let pos = dataOffset + i * frameBytes;
+      for (let ch = 0; ch < channels; ch++) {
+        channelData[ch][i] = bytesPerSample === 4
+          ? view.getFloat32(pos, littleEndian)
+          : view.getFloat64(pos, littleEndian);
+        pos += bytesPerSample;
+      }
+    }
+    return channelData;
+  }
+
+  // Integer PCM: normalize by the container width so left-justified
+  // samples with fewer valid bits keep their full-scale reference
+  const scale = 1 / Math.pow(2, bytesPerSample * 8 - 1);
+
+  for (let i = 0; i < frames; i++) {
+    let pos = dataOffset + i * frameBytes;
+    for (let ch = 0; ch < channels; ch++) {
+      let v: number;
+      switch (bytesPerSample) {
+        case 1:
+          v = unsigned8Bit ? bytes[pos] - 128 : (bytes[pos] << 24) >> 24;
+          break;
+        case 2:
+          v = view.getInt16(pos, littleEndian);
+          break;
+        case 3:
+          v = littleEndian
+            ? (bytes[pos] | (bytes[pos + 1] << 8) | (bytes[pos + 2] << 16))
+            : ((bytes[pos] << 16) | (bytes[pos + 1] << 8) | bytes[pos + 2]);
+          if (v & 0x800000) v |= ~0xFFFFFF; // Sign extend
+          break;
+        case 4:
+          v = view.getInt32(pos, littleEndian);
+          break;
+        default:
+          throw new Error(`Unsupported PCM sample size: ${bytesPerSample * 8}-bit`);
+      }
+      channelData[ch][i] = v * scale;
+      pos += bytesPerSample;
+    }
+  }
+
+  return channelData;
+}
@@ -0,0 +1,139 @@
+/**
+ * WAV / RF64 / BW64 container parser
+ *
+ * Supports:
+ * - WAVE_FORMAT_PCM (8/16/24/32-bit integer)
+ * - WAVE_FORMAT_IEEE_FLOAT (32/64-bit float)
+ * - WAVE_FORMAT_EXTENSIBLE (valid bits, channel mask, PCM/float sub-format)
+ * - RF64 / BW64 with ds64 chunk for files larger than 4 GB
+ *
+ * Compressed WAV payloads (ADPCM, MP3-in-WAV, ...) return null so the caller
+ * can fall back to the browser decoder.
+ */
+
+import { readFourCC, deinterleavePCM, missingFramesWarnings, type NativeDecodedAudio, type SampleFormat } from './pcm.js';
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+export function isWav(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const riff = readFourCC(bytes, 0);
+  return (riff === 'RIFF' || riff === 'RF64' || riff === 'BW64') && readFourCC(bytes, 8) === 'WAVE';
+}
+
+interface WavFormat {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  validBits: number;
+  channelMask?: number;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+export function decodeWav(buffer: ArrayBuffer): NativeDecodedAudio | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (!isWav(bytes)) throw new Error('Invalid WAV: missing RIFF/WAVE header');
+
+  const isRF64 = readFourCC(bytes, 0) !== 'RIFF';
+  let ds64DataSize: number | null = null;
+  let fmt: WavFormat | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readFourCC(bytes, offset);
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'ds64') {
+      // riffSize (8), dataSize (8), sampleCount (8)
+      ds64DataSize = readUint64(view, body + 8);
+    } else if (id === 'fmt ') {
+      fmt = parseFmt(view, body, size);
+    } else if (id === 'data') {
+      if (!fmt) throw new Error('Invalid WAV: data chunk before fmt chunk');
+      if (isRF64 && size === 0xFFFFFFFF && ds64DataSize !== null) size = ds64DataSize;
+      // Truncated files: decode what is present and say what is missing
+      const available = Math.min(size, bytes.length - body);
+      return decodeData(view, body, available, size, fmt, isRF64);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('Invalid WAV: no data chunk found');
+}
+
+function parseFmt(view: DataView, offset: number, size: number): WavFormat {
+  let formatTag = view.getUint16(offset, true);
+  const channels = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const blockAlign = view.getUint16(offset + 12, true);
+  const bitsPerSample = view.getUint16(offset + 14, true);
+  let validBits = bitsPerSample;
+  let channelMask: number | undefined;
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+    validBits = view.getUint16(offset + 18, true) || bitsPerSample;
+    channelMask = view.getUint32(offset + 20, true);
+    // First two bytes of the SubFormat GUID carry the real format code
+    formatTag = view.getUint16(offset + 24, true);
+  }
+
+  return { formatTag, channels, sampleRate, blockAlign, bitsPerSample, validBits, channelMask };
+}
+
+function decodeData(
+  view: DataView,
+  dataOffset: number,
+  dataSize: number,
+  declaredSize: number,
+  fmt: WavFormat,
+  isRF64: boolean
+): NativeDecodedAudio | null {
+  let sampleFormat: SampleFormat;
+  if (fmt.formatTag === WAVE_FORMAT_PCM) sampleFormat = 'int';
+  else if (fmt.formatTag === WAVE_FORMAT_IEEE_FLOAT) sampleFormat = 'float';
+  else return null;
+
+  if (fmt.channels === 0 || fmt.sampleRate === 0) {
+    throw new Error('Invalid WAV: zero channels or sample rate');
+  }
+
+  const bytesPerSample = Math.ceil(fmt.bitsPerSample / 8);
+  // blockAlign may pad each frame; one too small to hold the samples is a bad header
+  const packed = bytesPerSample * fmt.channels;
+  const frameBytes = fmt.blockAlign >= packed ? fmt.blockAlign : packed;
+  const frames = Math.floor(dataSize / frameBytes);
+  // A plain RIFF data size of 0xFFFFFFFF is a stream whose length was never written
+  const declaredFrames = !isRF64 && declaredSize === 0xFFFFFFFF ? frames : Math.floor(declaredSize / frameBytes);
+
+  const channelData = deinterleavePCM(view, dataOffset, {
+    channels: fmt.channels,
+    frames,
+    bytesPerSample,
+    bitDepth: fmt.validBits,
+    sampleFormat,
+    littleEndian: true,
+    unsigned8Bit: true,
+    frameBytes
+  });
+
+  return {
+    container: isRF64 ? 'rf64' : 'wav',
+    sampleRate: fmt.sampleRate,
+    channels: fmt.channels,
+    channelData,
+    bitDepth: fmt.validBits,
+    sampleFormat,
+    channelMask: fmt.channelMask,
+    warnings: missingFramesWarnings(isRF64 ? 'RF64 data chunk' : 'WAV data chunk', frames, declaredFrames, fmt.sampleRate)
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Lossy codec emulation
+ * An approximate perceptual coder: sine-windowed MDCT (2048 / hop 1024),
+ * a bitrate-dependent brickwall lowpass and per-band quantisation with the
+ * noise held an SNR below each critical band (higher for tonal bands). Decoding the result shows
+ * the overshoot real MP3 / AAC encodes add on top of the source true peak.
+ */
+
+import type { CodecBitrateResult, CodecEmulation, CodecOvershoot } from '../../core/types.js';
+import { dbFromLinear } from '../../core/format.js';
+import { fft } from '../../utils/fft.js';
+import { computeTruePeakMono } from '../truePeak.js';
+
+export interface CodecSetting {
+  bitrateKbps: number;
+  lowpassHz: number;
+  bandSnrDB: number; // Quantisation noise below each band's energy
+}
+
+export interface CodecEncodeOut {
+  truePeakDBTP: number | null;
+  overshootCount: number;
+  overshoots: CodecOvershoot[]; // Loudest events, in time order
+}
+
+// Typical LAME / AAC-LC lowpass and noise-to-mask targets per bitrate
+export const CODEC_SETTINGS: CodecSetting[] = [
+  { bitrateKbps: 128, lowpassHz: 16000, bandSnrDB: 16 },
+  { bitrateKbps: 256, lowpassHz: 19000, bandSnrDB: 24 },
+  { bitrateKbps: 320, lowpassHz: 20000, bandSnrDB: 28 }
+];
+
+const FRAME = 2048;
+const HOP = FRAME / 2;
+// Critical band edges (Hz) for the quantiser's noise allocation
+const BAND_EDGES_HZ = [
+  0, 100, 200, 300, 400, 510, 630, 770, 920, 1080, 1270, 1480, 1720, 2000, 2320,
+  2700, 3150, 3700, 4400, 5300, 6400, 7700, 9500, 12000, 15500
+];
+// Tonal bands mask less, so they get up to this much more SNR (Johnston's tonality index)
+const TONAL_SNR_BONUS_DB = 18;
+// Decoded samples this close together belong to one overshoot event
+const EVENT_MERGE_S = 0.05;
+const MAX_EVENTS = 20;
+// Headroom kept below 0 dBTP when recommending a ceiling
+const CEILING_MARGIN_DB = 0.1;
+
+// Frames whose input stays this far below the track peak cannot overshoot and are skipped
+const SKIP_BELOW_PEAK_DB = 6;
+
+const WINDOW = new Float32Array(FRAME).map((_, n) => Math.sin(Math.PI * (n + 0.5) / FRAME));
+const N0 = 0.5 + HOP / 2;
+
+// Pre/post twiddle tables for the FFT-based transforms
+const PRE = angles(FRAME, n => -Math.PI * n / FRAME);
+const POST = angles(HOP, k => -Math.PI * N0 * (2 * k + 1) / FRAME);
+const INV_PRE = angles(HOP, k => 2 * Math.PI * N0 * k / FRAME);
+const INV_POST = angles(FRAME, n => Math.PI * (n + N0) / FRAME);
+
+function angles(size: number, angle: (i: number) => number): { cos: Float32Array; sin: Float32Array } {
+  const cos = new Float32Array(size);
+  const sin = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    cos[i] = Math.cos(angle(i));
+    sin[i] = Math.sin(angle(i));
+  }
+  return { cos, sin };
+}
+
+// Scratch buffers shared by the transforms (the emulator runs one frame at a time)
+const re = new Float32Array(FRAME);
+const im = new Float32Array(FRAME);
+
+/** MDCT of one windowed frame via an FRAME-point FFT with pre/post twiddles */
+function mdct(frame: Float32Array, out: Float32Array): void {
+  for (let n = 0; n < FRAME; n++) {
+    re[n] = frame[n] * PRE.cos[n];
+    im[n] = frame[n] * PRE.sin[n];
+  }
+  fft(re, im);
+  for (let k = 0; k < HOP; k++) {
+    out[k] = re[k] * POST.cos[k] - im[k] * POST.sin[k];
+  }
+}
+
+/** Inverse MDCT (unscaled) of HOP coefficients into FRAME samples */
+function imdct(coeffs: Float32Array, out: Float32Array): void {
+  // Inverse DFT of the twiddled spectrum as conj(FFT(conj(z)))
+  for (let k = 0; k < FRAME; k++) {
+    if (k < HOP) {
+      re[k] = coeffs[k] * INV_PRE.cos[k];
+      im[k] = -coeffs[k] * INV_PRE.sin[k];
+    } else {
+      re[k] = 0;
+      im[k] = 0;
+    }
+  }
+  fft(re, im);
+  for (let n = 0; n < FRAME; n++) {
+    out[n] = re[n] * INV_POST.cos[n] + im[n] * INV_POST.sin[n];
+  }
+}
+
+/** 0 for a noise-like band, 1 for a pure tone, from the spectral flatness */
+function tonality(coeffs: Float32Array, start: number, end: number, energy: number): number {
+  const count = end - start;
+  let logSum = 0;
+  for (let k = start; k < end; k++) logSum += Math.log(coeffs[k] * coeffs[k] + 1e-20);
+  const flatnessDB = 10 * Math.log10(Math.exp(logSum / count) / (energy / count));
+  return Math.min(1, Math.max(0, flatnessDB / -60));
+}
+
+/** Zero everything above the lowpass, then quantise each band to its noise allowance */
+function quantise(coeffs: Float32Array, bandBins: number[], cutoffBin: number, snrDB: number): void {
+  for (let k = cutoffBin; k < HOP; k++) coeffs[k] = 0;
+  for (let b = 0; b < bandBins.length - 1; b++) {
+    const start = bandBins[b];
+    const end = Math.min(bandBins[b + 1], cutoffBin);
+    if (end <= start) continue;
+    let energy = 0;
+    for (let k = start; k < end; k++) energy += coeffs[k] * coeffs[k];
+    if (energy === 0) continue;
+    const bandSnrDB = snrDB + TONAL_SNR_BONUS_DB * tonality(coeffs, start, end, energy);
+    const noisePerBin = (energy / (end - start)) * Math.pow(10, -bandSnrDB / 10);
+    // A uniform quantiser's noise power is step² / 12
+    const step = Math.sqrt(12 * noisePerBin);
+    if (step === 0) continue;
+    for (let k = start; k < end; k++) coeffs[k] = Math.round(coeffs[k] / step) * step;
+  }
+}
+
+/**
+ * Encode and decode one channel; the output is aligned with the input.
+ * Frames entirely below minLevel (linear) are skipped and decode as near-silence.
+ */
+export function emulateCodecChannel(x: Float32Array, sampleRate: number, setting: CodecSetting, minLevel = 0): Float32Array {
+  const n = x.length;
+  const binHz = sampleRate / (2 * HOP);
+  const cutoffBin = Math.min(HOP, Math.ceil(Math.min(setting.lowpassHz, sampleRate / 2) / binHz));
+  const bandBins = [...BAND_EDGES_HZ.map(hz => Math.round(hz / binHz)).filter(b => b < HOP), HOP];
+
+  // One hop of padding each side so every sample is covered by two frames
+  const frames = Math.ceil(n / HOP) + 1;
+  const y = new Float32Array((frames + 1) * HOP);
+  const frame = new Float32Array(FRAME);
+  const coeffs = new Float32Array(HOP);
+  const block = new Float32Array(FRAME);
+  // Sine-window TDAC reconstructs with a 2 / HOP scale on the unscaled inverse
+  const scale = 2 / HOP;
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * HOP - HOP;
+    let peak = 0;
+    for (let i = 0; i < FRAME; i++) {
+      const idx = start + i;
+      const v = idx >= 0 && idx < n ? x[idx] : 0;
+      const a = Math.abs(v);
+      if (a > peak) peak = a;
+      frame[i] = v * WINDOW[i];
+    }
+    if (peak < minLevel || peak === 0) continue;
+    mdct(frame, coeffs);
+    quantise(coeffs, bandBins, cutoffBin, setting.bandSnrDB);
+    imdct(coeffs, block);
+    // y is offset by one hop so the leading pad lands at index 0
+    for (let i = 0; i < FRAME; i++) y[f * HOP + i] += block[i] * WINDOW[i] * scale;
+  }
+  return y.subarray(HOP, HOP + n);
+}
+
+/** Group decoded samples above full scale into events; keep the loudest, in time order */
+function findOvershoots(decoded: Float32Array[], sampleRate: number): { count: number; events: CodecOvershoot[] } {
+  const n = decoded[0]?.length ?? 0;
+  const merge = Math.round(EVENT_MERGE_S * sampleRate);
+  const events: { index: number; peak: number }[] = [];
+  let last = -Infinity;
+  for (let i = 0; i < n; i++) {
+    let peak = 0;
+    for (const ch of decoded) {
+      const a = Math.abs(ch[i]);
+      if (a > peak) peak = a;
+    }
+    if (peak <= 1) continue;
+    const current = events[events.length - 1];
+    if (current && i - last <= merge) {
+      if (peak > current.peak) { current.peak = peak; current.index = i; }
+    } else {
+      events.push({ index: i, peak });
+    }
+    last = i;
+  }
+  const loudest = [...events].sort((a, b) => b.peak - a.peak).slice(0, MAX_EVENTS);
+  return {
+    count: events.length,
+    events: loudest
+      .sort((a, b) => a.index - b.index)
+      .map(e => ({ timestamp: e.index / sampleRate, peakDBFS: dbFromLinear(e.peak) }))
+  };
+}
+
+/** Emulate one bitrate across all channels and measure the decoded result */
+export function emulateCodec(channels: Float32Array[], sampleRate: number, setting: CodecSetting): CodecEncodeOut {
+  let sourcePeak = 0;
+  for (const ch of channels) {
+    for (let i = 0; i < ch.length; i++) {
+      const a = Math.abs(ch[i]);
+      if (a > sourcePeak) sourcePeak = a;
+    }
+  }
+  const minLevel = sourcePeak * Math.pow(10, -SKIP_BELOW_PEAK_DB / 20);
+  const decoded = channels.map(ch => emulateCodecChannel(ch, sampleRate, setting, minLevel));
+  let truePeak = 0;
+  for (const ch of decoded) truePeak = Math.max(truePeak, computeTruePeakMono(ch));
+  const { count, events } = findOvershoots(decoded, sampleRate);
+  return {
+    truePeakDBTP: truePeak > 0 ? dbFromLinear(truePeak) : null,
+    overshootCount: count,
+    overshoots: events
+  };
+}
+
+function floor1(v: number): number {
+  return Math.floor(v * 10) / 10;
+}
+
+/**
+ * Emulate every bitrate in CODEC_SETTINGS. The coder is close to linear in
+ * level, so the overshoot measured here carries over to a re-limited master:
+ * the safe ceiling is the source true peak minus that overshoot.
+ */
+export function computeCodecEmulation(
+  channels: Float32Array[],
+  sampleRate: number,
+  sourceTruePeakDBTP: number | null
+): CodecEmulation {
+  const bitrates: CodecBitrateResult[] = CODEC_SETTINGS.map(setting => {
+    const out = emulateCodec(channels, sampleRate, setting);
+    const overshootDB = out.truePeakDBTP !== null && sourceTruePeakDBTP !== null && isFinite(sourceTruePeakDBTP)
+      ? out.truePeakDBTP - sourceTruePeakDBTP
+      : null;
+    return {
+      bitrateKbps: setting.bitrateKbps,
+      lowpassHz: setting.lowpassHz,
+      postEncodeTruePeakDBTP: out.truePeakDBTP,
+      overshootDB,
+      overshootCount: out.overshootCount,
+      overshoots: out.overshoots,
+      safeCeilingDBTP: overshootDB !== null ? Math.min(-CEILING_MARGIN_DB, floor1(-overshootDB - CEILING_MARGIN_DB)) : null
+    };
+  });
+
+  const measured = bitrates.filter(b => b.postEncodeTruePeakDBTP !== null);
+  const worst = measured.reduce<CodecBitrateResult | null>(
+    (w, b) => w === null || b.postEncodeTruePeakDBTP! > w.postEncodeTruePeakDBTP! ? b : w,
+    null
+  );
+  const ceilings = bitrates.map(b => b.safeCeilingDBTP).filter((c): c is number => c !== null);
+
+  return {
+    bitrates,
+    predictedTruePeakDBTP: worst?.postEncodeTruePeakDBTP ?? null,
+    worstBitrateKbps: worst?.bitrateKbps ?? null,
+    overshootCount: worst?.overshootCount ?? 0,
+    safeCeilingDBTP: ceilings.length ? Math.min(...ceilings) : null
+  };
+}
@@ -3,6 +3,7 @@
  * Computes peak, RMS, crest factor, clipping, transients, and envelope characteristics
  */
 
+import type { ClipPlateauAnalysis } from '../../core/types.js';
 import { dbFromLinear } from '../../core/format.js';
 
 export interface DynamicsOut {
@@ -52,6 +53,9 @@ export interface DynamicsOut {
     avgAttackMs: number | null;
     avgDecayMs: number | null;
   };
+
+  // === NEW: Clip plateaus at any level ===
+  clipPlateaus: ClipPlateauAnalysis;
 }
 
 interface ClippingAnalysis {
@@ -250,6 +254,127 @@ function analyzeClipping(channels: Float32Array[], sampleRate: number): Clipping
   };
 }
 
+// === NEW: Clip plateau detection ===
+// A plateau is a run of near-identical samples at a channel's positive or
+// negative extreme. Tolerance: relative (float / 24-bit) plus one 16-bit LSB.
+const PLATEAU_REL_TOL = 1e-5;
+const PLATEAU_ABS_TOL = 1 / 32768;
+const PLATEAU_MIN_RUN = 3;
+// A smooth crest leaves the plateau gently; a clipped edge jumps well past the tolerance
+const PLATEAU_EDGE_RATIO = 4;
+const PLATEAU_MIN_EVENTS = 3;
+const PLATEAU_MIN_LEVEL = 0.001; // -60 dBFS: ignore near-silent channels
+const PLATEAU_MAX_TIMESTAMPS = 20;
+const PLATEAU_BUCKETS: [number, number | null][] = [[3, 3], [4, 4], [5, 7], [8, 15], [16, 31], [32, null]];
+// De-clippers rebuild short, sparse flat tops reliably
+const RESTORE_MAX_RUN_MS = 1;
+const RESTORE_MAX_PCT = 5;
+
+interface PlateauRun {
+  start: number;
+  length: number;
+}
+
+/** Runs on different channels that overlap in time are one clip event */
+function mergePlateauRuns(runs: PlateauRun[]): PlateauRun[] {
+  const merged: PlateauRun[] = [];
+  for (const r of [...runs].sort((a, b) => a.start - b.start)) {
+    const prev = merged[merged.length - 1];
+    if (prev && r.start < prev.start + prev.length) {
+      prev.length = Math.max(prev.length, r.start + r.length - prev.start);
+      continue;
+    }
+    merged.push({ ...r });
+  }
+  return merged;
+}
+
+function analyzeClipPlateaus(channels: Float32Array[], sampleRate: number): ClipPlateauAnalysis {
+  const runs: PlateauRun[] = [];
+  let level = 0;
+
+  for (const channel of channels) {
+    let max = 0, min = 0;
+    for (let i = 0; i < channel.length; i++) {
+      if (channel[i] > max) max = channel[i];
+      if (channel[i] < min) min = channel[i];
+    }
+
+    for (const extreme of [max, min]) {
+      const abs = Math.abs(extreme);
+      if (abs < PLATEAU_MIN_LEVEL) continue;
+      const tol = abs * PLATEAU_REL_TOL + PLATEAU_ABS_TOL;
+      const before = runs.length;
+      let start = -1;
+      for (let i = 0; i <= channel.length; i++) {
+        const onPlateau = i < channel.length && Math.abs(channel[i] - extreme) <= tol;
+        if (onPlateau) {
+          if (start < 0) start = i;
+          continue;
+        }
+        if (start < 0) continue;
+        const length = i - start;
+        const edgeIn = start > 0 ? Math.abs(channel[start - 1] - extreme) : 0;
+        const edgeOut = i < channel.length ? Math.abs(channel[i] - extreme) : 0;
+        if (length >= PLATEAU_MIN_RUN && Math.max(edgeIn, edgeOut) > PLATEAU_EDGE_RATIO * tol) {
+          runs.push({ start, length });
+        }
+        start = -1;
+      }
+      if (runs.length > before) level = Math.max(level, abs);
+    }
+  }
+
+  const n = channels[0]?.length ?? 0;
+  const total = n * channels.length;
+  const plateauSampleCount = runs.reduce((sum, r) => sum + r.length, 0);
+  const plateauSamplePct = total > 0 ? (plateauSampleCount / total) * 100 : 0;
+  const events = mergePlateauRuns(runs);
+  const lengths = events.map(r => r.length).sort((a, b) => a - b);
+  const detected = events.length >= PLATEAU_MIN_EVENTS;
+
+  const runLengthHistogram = PLATEAU_BUCKETS.map(([minSamples, maxSamples]) => ({
+    minSamples,
+    maxSamples,
+    count: lengths.filter(l => l >= minSamples && (maxSamples === null || l <= maxSamples)).length
+  }));
+  const timestamps = [...events]
+    .sort((a, b) => b.length - a.length)
+    .slice(0, PLATEAU_MAX_TIMESTAMPS)
+    .map(r => r.start / sampleRate)
+    .sort((a, b) => a - b);
+
+  const levelDBFS = level > 0 ? dbFromLinear(level) : null;
+  const p95Ms = lengths.length ? (lengths[Math.floor(lengths.length * 0.95)] / sampleRate) * 1000 : 0;
+  const clippedThenAttenuated = detected && level < 0.9999;
+  const restorationCandidate = detected && p95Ms <= RESTORE_MAX_RUN_MS && plateauSamplePct <= RESTORE_MAX_PCT;
+
+  let note: string | null = null;
+  if (detected) {
+    const source = clippedThenAttenuated
+      ? `Flat tops at ${levelDBFS!.toFixed(1)} dBFS: the source clipped and was turned down afterwards.`
+      : "Flat tops at full scale.";
+    const restore = restorationCandidate
+      ? " Runs are short and sparse: a de-clipper can rebuild them before re-mastering."
+      : " Runs are too long or dense for reliable de-clipping.";
+    note = source + restore;
+  }
+
+  return {
+    detected,
+    levelDBFS: detected ? levelDBFS : null,
+    eventCount: events.length,
+    plateauSampleCount,
+    plateauSamplePct,
+    longestRunMs: lengths.length ? (lengths[lengths.length - 1] / sampleRate) * 1000 : null,
+    runLengthHistogram,
+    timestamps,
+    clippedThenAttenuated,
+    restorationCandidate,
+    note
+  };
+}
+
 // === NEW: Dynamic Range Preservation Score ===
 function computeDynamicPreservationScore(
   crestFactorDB: number,
@@ -559,6 +684,7 @@ export function computeDynamics(channels: Float32Array[], sampleRate: number = 4
   }
 
   const clippingAnalysis = analyzeClipping(channels, sampleRate);
+  const clipPlateaus = analyzeClipPlateaus(channels, sampleRate);
 
   const transientTimes = detectTransients(mono, sampleRate);
   const durationMin = n / sampleRate / 60;
@@ -612,6 +738,7 @@ export function computeDynamics(channels: Float32Array[], sampleRate: number = 4
     transientSpacingCV: spacing.cv,
     transientTimingCharacter: spacing.character,
     compressionEstimate: compression,
-    transientSharpness: sharpness
+    transientSharpness: sharpness,
+    clipPlateaus
   };
 }
@@ -0,0 +1,233 @@
+/**
+ * Render glitch detection
+ * Finds the damage bad edits, DAW render errors and buffer underruns leave
+ * inside music: single-sample clicks (first-difference outliers against the
+ * local context), dropouts (runs of digital zero between non-silent audio)
+ * and repeated buffers (a block played twice in a row).
+ */
+
+import type { GlitchAnalysis, GlitchEvent } from '../../core/types.js';
+
+// Clicks: a sample-to-sample jump this many times the local RMS jump
+const CLICK_RATIO = 15;
+// ...and at least this large in absolute terms (-34 dBFS)
+const CLICK_MIN_JUMP = 0.02;
+// Local context on each side of the jump
+const CLICK_CONTEXT_S = 0.0025;
+// Dropouts: exact zeros with music on both sides, no longer than a large
+// audio buffer (longer gaps are arranged silence, e.g. gated material)
+const DROPOUT_MIN_SAMPLES = 16;
+const DROPOUT_MAX_S = 0.1;
+const DROPOUT_CONTEXT_S = 0.02;
+const DROPOUT_CONTEXT_MIN_RMS = 0.003; // -50 dBFS
+// ...isolated: no other zero run this close, and not one of an evenly spaced series
+const DROPOUT_ISOLATION_S = 1;
+const DROPOUT_PERIODIC_TOLERANCE = 0.05;
+// ...and cut into steady music: levels either side within 10 dB, and the
+// last / first millisecond no more than 12 dB below its context (no fade)
+const DROPOUT_MAX_LEVEL_JUMP = 3.16;
+const DROPOUT_EDGE_S = 0.001;
+const DROPOUT_EDGE_FADE = 0.25;
+// Repeated buffers: common audio buffer sizes
+const BUFFER_SIZES = [64, 128, 256, 512, 1024, 2048];
+const REPEAT_MIN_RMS = 0.001; // -60 dBFS
+// Share of sample-to-sample changes a matched block needs (not a flat run)
+const REPEAT_MIN_VARYING = 0.5;
+// Events closer than this (any channel) are one event
+const EVENT_MERGE_S = 0.01;
+const MAX_EVENTS = 50;
+
+interface RawEvent extends GlitchEvent {
+  index: number;
+}
+
+function detectClicks(x: Float32Array, sampleRate: number, channel: number, out: RawEvent[]): void {
+  const n = x.length;
+  const half = Math.max(2, Math.round(CLICK_CONTEXT_S * sampleRate));
+  const jumpSq = (k: number) => (x[k] - x[k - 1]) * (x[k] - x[k - 1]);
+  // Running sum of squared jumps over the context window [lo, hi]
+  let lo = 1, hi = 0, energy = 0;
+
+  for (let i = 2; i < n - 1; i++) {
+    const wantLo = Math.max(1, i - half);
+    const wantHi = Math.min(n - 1, i + half);
+    while (hi < wantHi) energy += jumpSq(++hi);
+    while (lo < wantLo) energy -= jumpSq(lo++);
+
+    const jump = Math.abs(x[i] - x[i - 1]);
+    if (jump < CLICK_MIN_JUMP) continue;
+
+    // Context excludes the jump and its neighbours (a spike is two jumps)
+    const own = jumpSq(i - 1) + jumpSq(i) + jumpSq(i + 1);
+    const count = hi - lo + 1 - 3;
+    if (count <= 0) continue;
+    const contextRms = Math.sqrt(Math.max(0, energy - own) / count);
+    const ratio = contextRms > 0 ? jump / contextRms : Infinity;
+    if (ratio < CLICK_RATIO) continue;
+    out.push({
+      index: i,
+      timestamp: i / sampleRate,
+      type: 'click',
+      channel,
+      confidence: Math.min(1, 0.5 + (ratio - CLICK_RATIO) / (4 * CLICK_RATIO)),
+      durationMs: null
+    });
+  }
+}
+
+function rms(x: Float32Array, start: number, end: number): number {
+  start = Math.max(0, start);
+  end = Math.min(x.length, end);
+  if (end <= start) return 0;
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += x[i] * x[i];
+  return Math.sqrt(sum / (end - start));
+}
+
+/** Runs of exact zeros, long enough to matter, that do not touch the file edges */
+function zeroRuns(x: Float32Array): { start: number; end: number }[] {
+  const runs: { start: number; end: number }[] = [];
+  let start = -1;
+  for (let i = 0; i <= x.length; i++) {
+    if (i < x.length && x[i] === 0) {
+      if (start < 0) start = i;
+      continue;
+    }
+    // A run touching the file edges is leading / trailing silence, not a dropout
+    if (start > 0 && i < x.length && i - start >= DROPOUT_MIN_SAMPLES) runs.push({ start, end: i });
+    start = -1;
+  }
+  return runs;
+}
+
+/**
+ * A dropout is an isolated cut: gates and stutter edits leave zero runs close
+ * together or at a regular spacing, and fade into and out of them.
+ */
+function detectDropouts(x: Float32Array, sampleRate: number, channel: number, out: RawEvent[]): void {
+  const context = Math.round(DROPOUT_CONTEXT_S * sampleRate);
+  const edge = Math.max(1, Math.round(DROPOUT_EDGE_S * sampleRate));
+  const maxLength = DROPOUT_MAX_S * sampleRate;
+  const isolation = DROPOUT_ISOLATION_S * sampleRate;
+  const runs = zeroRuns(x);
+
+  runs.forEach(({ start, end }, k) => {
+    const length = end - start;
+    if (length > maxLength) return;
+
+    const prevGap = k > 0 ? start - runs[k - 1].start : Infinity;
+    const nextGap = k < runs.length - 1 ? runs[k + 1].start - start : Infinity;
+    if (prevGap < isolation || nextGap < isolation) return;
+    if (isFinite(prevGap) && isFinite(nextGap) &&
+      Math.abs(prevGap - nextGap) <= DROPOUT_PERIODIC_TOLERANCE * Math.max(prevGap, nextGap)) return;
+
+    const before = rms(x, start - context, start);
+    const after = rms(x, end, end + context);
+    const level = Math.min(before, after);
+    if (level < DROPOUT_CONTEXT_MIN_RMS) return;
+    // The music on both sides joins up: same level, and no fade into or out of the gap
+    if (Math.max(before, after) / level > DROPOUT_MAX_LEVEL_JUMP) return;
+    if (rms(x, start - edge, start) < DROPOUT_EDGE_FADE * before ||
+      rms(x, end, end + edge) < DROPOUT_EDGE_FADE * after) return;
+
+    out.push({
+      index: start,
+      timestamp: start / sampleRate,
+      type: 'dropout',
+      channel,
+      confidence: Math.min(1, 0.6 + 0.1 * Math.log2(level / DROPOUT_CONTEXT_MIN_RMS)),
+      durationMs: (length / sampleRate) * 1000
+    });
+  });
+}
+
+/**
+ * A repeated buffer matches the previous `size` samples exactly for one
+ * buffer and no longer: periodic material matches for many periods instead.
+ * The matched block must also move: a flat (clipped or held) run matches
+ * itself at every offset.
+ */
+function detectRepeats(x: Float32Array, sampleRate: number, channel: number, out: RawEvent[]): void {
+  for (const size of BUFFER_SIZES) {
+    let run = 0;
+    for (let i = size; i <= x.length; i++) {
+      if (i < x.length && x[i] === x[i - size]) {
+        run++;
+        continue;
+      }
+      if (run >= size && run < 2 * size && varies(x, i - run, i)) {
+        const start = i - run;
+        const level = rms(x, start, i);
+        if (level >= REPEAT_MIN_RMS) {
+          out.push({
+            index: start,
+            timestamp: start / sampleRate,
+            type: 'repeat',
+            channel,
+            // Longer buffers are less likely to match by accident
+            confidence: Math.min(1, 0.7 + 0.05 * Math.log2(size / 64)),
+            durationMs: (size / sampleRate) * 1000
+          });
+        }
+      }
+      run = 0;
+    }
+  }
+}
+
+/** True when most samples in [start, end) differ from the one before */
+function varies(x: Float32Array, start: number, end: number): boolean {
+  let changes = 0;
+  for (let i = start + 1; i < end; i++) if (x[i] !== x[i - 1]) changes++;
+  return changes >= REPEAT_MIN_VARYING * (end - start - 1);
+}
+
+/** One event per type within EVENT_MERGE_S, keeping the most confident */
+function mergeEvents(raw: RawEvent[], sampleRate: number): RawEvent[] {
+  const merge = EVENT_MERGE_S * sampleRate;
+  const merged: RawEvent[] = [];
+  const last = new Map<GlitchEvent['type'], RawEvent>();
+  for (const e of [...raw].sort((a, b) => a.index - b.index)) {
+    const prev = last.get(e.type);
+    if (prev && e.index - prev.index <= merge) {
+      if (prev.channel !== e.channel) prev.channel = null;
+      if (e.confidence > prev.confidence) {
+        prev.confidence = e.confidence;
+        prev.durationMs = e.durationMs;
+      }
+      continue;
+    }
+    const copy = { ...e };
+    merged.push(copy);
+    last.set(e.type, copy);
+  }
+  return merged;
+}
+
+export function computeGlitches(channels: Float32Array[], sampleRate: number): GlitchAnalysis {
+  const raw: RawEvent[] = [];
+  channels.forEach((ch, c) => {
+    detectClicks(ch, sampleRate, c, raw);
+    detectDropouts(ch, sampleRate, c, raw);
+    detectRepeats(ch, sampleRate, c, raw);
+  });
+  // Dropouts and repeats jump at their edges; those jumps are not separate clicks
+  const spans = raw.filter(e => e.type !== 'click');
+  const margin = EVENT_MERGE_S * sampleRate;
+  const merged = mergeEvents(raw.filter(e => e.type !== 'click' || !spans.some(s =>
+    e.index >= s.index - margin && e.index <= s.index + (s.durationMs! / 1000) * sampleRate + margin
+  )), sampleRate);
+  const count = (type: GlitchEvent['type']) => merged.filter(e => e.type === type).length;
+  const events = [...merged]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_EVENTS)
+    .sort((a, b) => a.index - b.index)
+    .map(({ index: _index, ...e }) => e);
+
+  return {
+    clickCount: count('click'),
+    dropoutCount: count('dropout'),
+    repeatCount: count('repeat'),
+    events
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Mains hum detection
+ * Looks for a 50 or 60 Hz fundamental and its harmonic series in the quiet
+ * passages (windows near the noise floor), where ground hum is exposed.
+ * Reports the mains frequency, level against the programme, the harmonics
+ * found, the exposed time ranges and notch filters to remove them.
+ */
+
+import type { HumAnalysis, HumHarmonic, HumNotch } from '../../core/types.js';
+import { fft } from '../../utils/fft.js';
+import { nextPowerOf2 } from '../../utils/math.js';
+
+const MAINS_HZ = [50, 60];
+const MAX_HARMONICS = 8;
+// Windows within this much of the noise floor count as quiet passages
+const QUIET_ABOVE_FLOOR_DB = 20;
+const SILENCE_DB = -100;
+// A harmonic line must stand this far above the neighbouring bins
+const LINE_PROMINENCE_DB = 10;
+const NEIGHBOUR_HZ = 12;
+// A window hums when the fundamental or 2nd harmonic plus one more line are present
+const MIN_LINES = 2;
+// ...and the track hums when most quiet windows do
+const MIN_PERSISTENCE = 0.6;
+const MAX_WINDOWS = 120;
+const NOTCH_Q = 30;
+
+interface WindowLines {
+  index: number;
+  lines: { harmonic: number; frequencyHz: number; power: number; prominenceDB: number }[];
+}
+
+function hann(size: number): Float32Array {
+  return new Float32Array(size).map((_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / size));
+}
+
+function round1(v: number): number {
+  return Math.round(v * 10) / 10;
+}
+
+/** Power spectrum of one Hann-windowed block, scaled so a full-scale sine reads 0.5 (its mean square) */
+function powerSpectrum(mono: Float32Array, start: number, window: Float32Array): Float32Array {
+  const size = window.length;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  for (let i = 0; i < size; i++) re[i] = mono[start + i] * window[i];
+  fft(re, im);
+  // Hann coherent gain is 0.5, so a sine of amplitude A peaks at A * size / 4
+  const scale = 8 / (size * size);
+  const power = new Float32Array(size / 2);
+  for (let k = 0; k < size / 2; k++) power[k] = (re[k] * re[k] + im[k] * im[k]) * scale;
+  return power;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+/** Harmonic lines of one mains frequency that stand out in this spectrum */
+function findLines(power: Float32Array, binHz: number, mainsHz: number): WindowLines['lines'] {
+  const lines: WindowLines['lines'] = [];
+  const neighbours = Math.round(NEIGHBOUR_HZ / binHz);
+  for (let h = 1; h <= MAX_HARMONICS; h++) {
+    const target = Math.round((h * mainsHz) / binHz);
+    if (target + neighbours >= power.length) break;
+    // Mains drifts slightly: take the strongest bin next to the nominal one
+    let peak = target;
+    for (let k = target - 1; k <= target + 1; k++) if (power[k] > power[peak]) peak = k;
+    const around: number[] = [];
+    for (let k = target - neighbours; k <= target + neighbours; k++) {
+      if (Math.abs(k - target) > 2) around.push(power[k]);
+    }
+    const floor = median(around);
+    // Hann spreads a line over three bins; sum them for its power
+    const linePower = power[peak - 1] + power[peak] + power[peak + 1];
+    const prominenceDB = floor > 0 ? 10 * Math.log10(power[peak] / floor) : Infinity;
+    if (prominenceDB >= LINE_PROMINENCE_DB) {
+      // Parabolic interpolation of the peak bin (on dB) for the line's frequency
+      const a = Math.log(power[peak - 1] + 1e-30), b = Math.log(power[peak] + 1e-30), c = Math.log(power[peak + 1] + 1e-30);
+      const offset = a - 2 * b + c !== 0 ? 0.5 * (a - c) / (a - 2 * b + c) : 0;
+      lines.push({ harmonic: h, frequencyHz: (peak + offset) * binHz, power: linePower / 1.5, prominenceDB });
+    }
+  }
+  return lines;
+}
+
+function hums(lines: WindowLines['lines']): boolean {
+  return lines.length >= MIN_LINES && lines.some(l => l.harmonic <= 2);
+}
+
+/**
+ * Quiet passages are found as in the effective bit-depth estimate: window
+ * energies relative to the quietest non-silent window (the noise floor).
+ */
+export function computeHum(mono: Float32Array, sampleRate: number, noiseFloorDB: number): HumAnalysis {
+  const size = nextPowerOf2(Math.round(sampleRate / 2));
+  const none: HumAnalysis = {
+    detected: false, frequencyHz: null, levelDBFS: null, relativeToProgrammeDB: null,
+    harmonicCount: 0, harmonics: [], exposedRanges: [], notches: [], quietSeconds: 0
+  };
+  const count = Math.floor(mono.length / size);
+  if (count === 0) return none;
+
+  const levels: number[] = [];
+  let programmePower = 0, programmeWindows = 0;
+  for (let w = 0; w < count; w++) {
+    let sum = 0;
+    for (let i = w * size; i < (w + 1) * size; i++) sum += mono[i] * mono[i];
+    const ms = sum / size;
+    const db = ms > 0 ? 10 * Math.log10(ms) : -Infinity;
+    levels.push(db);
+    if (db > SILENCE_DB) {
+      programmePower += ms;
+      programmeWindows++;
+    }
+  }
+  const programmeDB = programmeWindows > 0 ? 10 * Math.log10(programmePower / programmeWindows) : null;
+
+  const quiet = levels
+    .map((db, index) => ({ db, index }))
+    .filter(w => w.db > SILENCE_DB && w.db <= noiseFloorDB + QUIET_ABOVE_FLOOR_DB)
+    .sort((a, b) => a.db - b.db)
+    .slice(0, MAX_WINDOWS)
+    .sort((a, b) => a.index - b.index);
+  const quietSeconds = (quiet.length * size) / sampleRate;
+  if (!quiet.length) return { ...none, quietSeconds };
+
+  const window = hann(size);
+  const binHz = sampleRate / size;
+  const spectra = quiet.map(w => powerSpectrum(mono, w.index * size, window));
+
+  // Pick the mains frequency with the more persistent, richer series
+  let best: { mainsHz: number; windows: WindowLines[] } | null = null;
+  for (const mainsHz of MAINS_HZ) {
+    const windows = quiet
+      .map((w, i) => ({ index: w.index, lines: findLines(spectra[i], binHz, mainsHz) }))
+      .filter(w => hums(w.lines));
+    const score = windows.reduce((s, w) => s + w.lines.length, 0);
+    const bestScore = best ? best.windows.reduce((s, w) => s + w.lines.length, 0) : -1;
+    if (score > bestScore) best = { mainsHz, windows };
+  }
+  if (!best || best.windows.length < Math.max(1, MIN_PERSISTENCE * quiet.length)) return { ...none, quietSeconds };
+
+  // Harmonics present in at least half of the humming windows
+  const harmonics: HumHarmonic[] = [];
+  for (let h = 1; h <= MAX_HARMONICS; h++) {
+    const found = best.windows.flatMap(w => w.lines.filter(l => l.harmonic === h));
+    if (found.length * 2 < best.windows.length) continue;
+    harmonics.push({
+      harmonic: h,
+      frequencyHz: round1(median(found.map(l => l.frequencyHz))),
+      levelDBFS: round1(10 * Math.log10(median(found.map(l => l.power)))),
+      prominenceDB: round1(median(found.map(l => l.prominenceDB)))
+    });
+  }
+  const totalPower = harmonics.reduce((s, h) => s + Math.pow(10, h.levelDBFS / 10), 0);
+  const levelDBFS = totalPower > 0 ? round1(10 * Math.log10(totalPower)) : null;
+  const fundamental = harmonics.find(h => h.harmonic === 1);
+
+  // Consecutive humming windows become exposed ranges
+  const windowS = size / sampleRate;
+  const exposedRanges: { startSeconds: number; endSeconds: number }[] = [];
+  for (const w of best.windows) {
+    const last = exposedRanges[exposedRanges.length - 1];
+    const start = round1(w.index * windowS);
+    const end = round1((w.index + 1) * windowS);
+    if (last && Math.abs(last.endSeconds - start) < 0.05) last.endSeconds = end;
+    else exposedRanges.push({ startSeconds: start, endSeconds: end });
+  }
+
+  const notches: HumNotch[] = harmonics.map(h => ({
+    frequencyHz: h.frequencyHz,
+    q: NOTCH_Q,
+    // Cut the line down to the surrounding noise
+    gainDB: -Math.min(30, Math.ceil(h.prominenceDB))
+  }));
+
+  return {
+    detected: true,
+    frequencyHz: fundamental ? fundamental.frequencyHz : best.mainsHz,
+    levelDBFS,
+    relativeToProgrammeDB: levelDBFS !== null && programmeDB !== null ? round1(levelDBFS - programmeDB) : null,
+    harmonicCount: harmonics.length,
+    harmonics,
+    exposedRanges,
+    notches,
+    quietSeconds
+  };
+}
@@ -7,3 +7,10 @@ export { computeDynamics, type DynamicsOut } from './dynamics.js';
 export { computeStereo, type StereoOut } from './stereo.js';
 export { computeBandEnergiesMono, type SpectralOut } from './spectral.js';
 export { computeTHD, type HarmonicDistortion } from './harmonics.js';
+export { computeVinyl, type VinylOut } from './vinyl.js';
+export { computeSpeech, type SpeechOut } from './speech.js';
+export { renderPlatformLimiter, type PlatformLimiterOut } from './platformLimiter.js';
+export { computeGlitches } from './glitches.js';
+export { computeHum } from './hum.js';
+export { computeLimiterActivity } from './limiterActivity.js';
+export { computeCodecEmulation, emulateCodec, CODEC_SETTINGS, type CodecSetting } from './codec.js';
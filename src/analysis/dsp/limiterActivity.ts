@@ -0,0 +1,137 @@
+/**
+ * Limiter activity timeline
+ * Estimates how hard the master limiter works over time. Every 100 ms the
+ * peak of the surrounding 400 ms is compared with an "unlimited" peak rebuilt
+ * from its RMS plus an unlimited crest factor: that of the track's most open
+ * passages, but never less than typical unlimited music when the peaks sit at
+ * full scale (a master limited from start to end has no open passages). The
+ * shortfall is the gain reduction the limiter applied.
+ */
+
+import type { LimiterActivity, LimiterSection } from '../../core/types.js';
+import { dbFromLinear } from '../../core/format.js';
+
+const BLOCK_S = 0.1;
+// Peak and RMS are taken over this many blocks around each block (400 ms)
+const WINDOW_BLOCKS = 4;
+// Blocks quieter than this below the loudest block are not counted
+const GATE_BELOW_LOUDEST_DB = 30;
+// Crest factor percentile taken as the unlimited reference
+const REFERENCE_PERCENTILE = 0.9;
+// 400 ms crest factor unlimited mixed music rarely falls below; applied when
+// the track's peaks are within FULL_SCALE_WINDOW_DB of 0 dBFS (where a
+// mastering limiter puts them)
+const UNLIMITED_CREST_PRIOR_DB = 14;
+const FULL_SCALE_WINDOW_DB = 3;
+// Only peaks this close to the track's ceiling can be held down by a limiter
+const CEILING_WINDOW_DB = 3;
+// Sections: consecutive blocks above 1 dB GR, bridging short gaps
+const SECTION_MIN_GR_DB = 1;
+const SECTION_GAP_BLOCKS = 5;
+const SECTION_MIN_S = 1;
+const MAX_SECTIONS = 5;
+
+function round1(v: number): number {
+  return Math.round(v * 10) / 10;
+}
+
+export function computeLimiterActivity(channels: Float32Array[], sampleRate: number): LimiterActivity | null {
+  const n = channels[0]?.length ?? 0;
+  const blockSize = Math.round(BLOCK_S * sampleRate);
+  const blocks = Math.floor(n / blockSize);
+  if (blocks < WINDOW_BLOCKS) return null;
+
+  // Per-block peak (any channel) and mean square (all channels)
+  const peaks = new Float64Array(blocks);
+  const power = new Float64Array(blocks);
+  for (let b = 0; b < blocks; b++) {
+    let peak = 0, sum = 0;
+    for (const ch of channels) {
+      for (let i = b * blockSize; i < (b + 1) * blockSize; i++) {
+        const v = ch[i];
+        const a = Math.abs(v);
+        if (a > peak) peak = a;
+        sum += v * v;
+      }
+    }
+    peaks[b] = peak;
+    power[b] = sum / (blockSize * channels.length);
+  }
+
+  const peakDB = new Float64Array(blocks);
+  const rmsDB = new Float64Array(blocks);
+  const half = Math.floor(WINDOW_BLOCKS / 2);
+  for (let b = 0; b < blocks; b++) {
+    const start = Math.max(0, Math.min(b - half, blocks - WINDOW_BLOCKS));
+    const end = start + WINDOW_BLOCKS;
+    let sum = 0, peak = 0;
+    for (let j = start; j < end; j++) {
+      sum += power[j];
+      if (peaks[j] > peak) peak = peaks[j];
+    }
+    rmsDB[b] = sum > 0 ? 10 * Math.log10(sum / WINDOW_BLOCKS) : -Infinity;
+    peakDB[b] = peak > 0 ? dbFromLinear(peak) : -Infinity;
+  }
+
+  // Reduce rather than spread: long-form material has too many blocks for call arguments
+  const loudest = rmsDB.reduce((m, v) => Math.max(m, v), -Infinity);
+  if (!isFinite(loudest)) return null;
+  const active: number[] = [];
+  for (let b = 0; b < blocks; b++) if (rmsDB[b] > loudest - GATE_BELOW_LOUDEST_DB) active.push(b);
+
+  const crests = active.map(b => peakDB[b] - rmsDB[b]).sort((a, b) => a - b);
+  const ceilingDB = peakDB.reduce((m, v) => Math.max(m, v), -Infinity);
+  const ownCrestDB = crests[Math.min(crests.length - 1, Math.floor(crests.length * REFERENCE_PERCENTILE))];
+  const referenceCrestDB = ceilingDB >= -FULL_SCALE_WINDOW_DB ? Math.max(ownCrestDB, UNLIMITED_CREST_PRIOR_DB) : ownCrestDB;
+
+  const gainReductionDB = new Array<number>(blocks).fill(0);
+  for (const b of active) {
+    if (peakDB[b] < ceilingDB - CEILING_WINDOW_DB) continue;
+    const unlimited = rmsDB[b] + referenceCrestDB;
+    gainReductionDB[b] = round1(Math.max(0, unlimited - peakDB[b]));
+  }
+
+  const activeGR = active.map(b => gainReductionDB[b]);
+  const pctAbove = (db: number) => activeGR.length ? (activeGR.filter(g => g > db).length / activeGR.length) * 100 : 0;
+
+  return {
+    intervalS: BLOCK_S,
+    gainReductionDB,
+    referenceCrestDB: round1(referenceCrestDB),
+    maxGainReductionDB: activeGR.reduce((m, g) => Math.max(m, g), 0),
+    avgGainReductionDB: activeGR.length ? round1(activeGR.reduce((s, g) => s + g, 0) / activeGR.length) : 0,
+    pctAbove1dB: pctAbove(1),
+    pctAbove3dB: pctAbove(3),
+    pctAbove6dB: pctAbove(6),
+    worstSections: findWorstSections(gainReductionDB)
+  };
+}
+
+/** Runs of limiting (short dips bridged), the heaviest first */
+function findWorstSections(gr: number[]): LimiterSection[] {
+  const sections: LimiterSection[] = [];
+  let start = -1, last = -1;
+  const close = () => {
+    const length = last - start + 1;
+    if (length * BLOCK_S >= SECTION_MIN_S) {
+      const slice = gr.slice(start, last + 1);
+      sections.push({
+        startSeconds: round1(start * BLOCK_S),
+        endSeconds: round1((last + 1) * BLOCK_S),
+        avgGainReductionDB: round1(slice.reduce((s, g) => s + g, 0) / length),
+        maxGainReductionDB: slice.reduce((m, g) => Math.max(m, g), 0)
+      });
+    }
+  };
+  for (let b = 0; b < gr.length; b++) {
+    if (gr[b] <= SECTION_MIN_GR_DB) continue;
+    if (start >= 0 && b - last > SECTION_GAP_BLOCKS) {
+      close();
+      start = -1;
+    }
+    if (start < 0) start = b;
+    last = b;
+  }
+  if (start >= 0) close();
+  return sections.sort((a, b) => b.avgGainReductionDB - a.avgGainReductionDB).slice(0, MAX_SECTIONS);
+}
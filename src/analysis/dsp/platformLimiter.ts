@@ -0,0 +1,151 @@
+/**
+ * Platform limiter render
+ * Applies a normalisation boost and a look-ahead brickwall limiter offline,
+ * the way a streaming player's "loud" mode does, and measures what the
+ * limiter took away.
+ */
+
+import { dbFromLinear } from '../../core/format.js';
+import { FILTER_TAPS, interpolatedPeakAt } from '../truePeak.js';
+
+export interface PlatformLimiterOut {
+  maxGainReductionDB: number;
+  avgGainReductionDB: number | null; // Mean over the samples being limited
+  limitingSeconds: number;
+  limitingPct: number;
+  crestFactorBeforeDB: number | null;
+  crestFactorAfterDB: number | null;
+  postTruePeakDBTP: number | null;
+}
+
+const LOOKAHEAD_S = 0.005;
+const RELEASE_S = 0.1;
+// Gain reduction below this is inaudible and not counted as limiting
+const LIMITING_THRESHOLD_DB = 0.1;
+// Intersample peaks in programme material stay within 6 dB of the samples
+// either side, so quieter sample pairs skip the interpolation
+const ISP_HEADROOM = 2;
+// The polyphase output at m lies between samples m - 6 and m - 5
+const INTERP_DELAY = 6;
+
+/**
+ * True peak between samples j and j + 1: the larger sample, or the 4x
+ * interpolated peak when the pair comes within ISP_HEADROOM of `floor`.
+ * With `scale`, each sample is read through that gain envelope.
+ */
+function intervalPeak(x: Float32Array, j: number, floor: number, scale?: Float32Array): number {
+  const a = Math.abs(x[j]) * (scale ? scale[j] : 1);
+  const b = j + 1 < x.length ? Math.abs(x[j + 1]) * (scale ? scale[j + 1] : 1) : 0;
+  const peak = Math.max(a, b);
+  const m = j + INTERP_DELAY;
+  if (peak * ISP_HEADROOM <= floor || m < FILTER_TAPS - 1 || m >= x.length) return peak;
+  return Math.max(peak, interpolatedPeakAt(x, m, scale));
+}
+
+/**
+ * Gain envelope: the look-ahead minimum of the gain each sample's true peak
+ * requires, smoothed by a boxcar as long as the look-ahead (so it ramps down
+ * before each peak and never exceeds the required gain), then an exponential
+ * release. Streams through the audio; only the envelope is full length.
+ */
+function limiterGain(channels: Float32Array[], sampleRate: number, gain: number, ceiling: number): Float32Array {
+  const n = channels[0].length;
+  const lookahead = Math.max(1, Math.round(LOOKAHEAD_S * sampleRate));
+  const releaseCoef = 1 - Math.exp(-1 / (RELEASE_S * sampleRate));
+  const floor = ceiling / gain;
+  const env = new Float32Array(n);
+
+  // Monotonic deque over the required gain of [i, i + lookahead] (ring buffer)
+  const cap = lookahead + 3;
+  const dequeIdx = new Int32Array(cap);
+  const dequeVal = new Float32Array(cap);
+  let head = 0, tail = 0;
+  let next = 0;
+  let prevInterval = 0;
+
+  // Boxcar over the last `lookahead` held values (ring buffer)
+  const box = new Float32Array(lookahead);
+  let boxSum = 0;
+  let g = 1;
+
+  for (let i = 0; i < n; i++) {
+    const end = Math.min(n - 1, i + lookahead);
+    while (next <= end) {
+      // A sample's true peak covers the intervals on both sides of it
+      let interval = 0;
+      for (const ch of channels) interval = Math.max(interval, intervalPeak(ch, next, floor));
+      const boosted = Math.max(prevInterval, interval) * gain;
+      prevInterval = interval;
+      const required = boosted > ceiling ? ceiling / boosted : 1;
+      while (tail > head && dequeVal[(tail - 1) % cap] >= required) tail--;
+      dequeIdx[tail % cap] = next++;
+      dequeVal[tail % cap] = required;
+      tail++;
+    }
+    while (dequeIdx[head % cap] < i) head++;
+    const held = dequeVal[head % cap];
+
+    boxSum += held - (i >= lookahead ? box[i % lookahead] : 0);
+    box[i % lookahead] = held;
+    const smoothed = boxSum / Math.min(i + 1, lookahead);
+    g = Math.min(smoothed, g + (1 - g) * releaseCoef);
+    env[i] = g;
+  }
+  return env;
+}
+
+export function renderPlatformLimiter(
+  channels: Float32Array[],
+  sampleRate: number,
+  gainDB: number,
+  ceilingDBTP: number
+): PlatformLimiterOut {
+  const n = channels[0]?.length ?? 0;
+  const gain = Math.pow(10, gainDB / 20);
+  const ceiling = Math.pow(10, ceilingDBTP / 20);
+  const env = limiterGain(channels, sampleRate, gain, ceiling);
+
+  const threshold = Math.pow(10, -LIMITING_THRESHOLD_DB / 20);
+  let maxReduction = 1;
+  let limitingSamples = 0;
+  let reductionSumDB = 0;
+  for (let i = 0; i < n; i++) {
+    if (env[i] < maxReduction) maxReduction = env[i];
+    if (env[i] < threshold) {
+      limitingSamples++;
+      reductionSumDB += -dbFromLinear(env[i]);
+    }
+  }
+
+  // Crest factor of the source and of the boosted, limited output, and the
+  // output true peak, read through the envelope rather than rendered to a buffer
+  let peakBefore = 0, sumBefore = 0;
+  let peakAfter = 0, sumAfter = 0;
+  let truePeak = 0;
+  for (const ch of channels) {
+    for (let i = 0; i < n; i++) {
+      const x = ch[i];
+      const y = x * gain * env[i];
+      const ax = Math.abs(x), ay = Math.abs(y);
+      if (ax > peakBefore) peakBefore = ax;
+      if (ay > peakAfter) peakAfter = ay;
+      sumBefore += x * x;
+      sumAfter += y * y;
+      truePeak = Math.max(truePeak, gain * intervalPeak(ch, i, truePeak / gain, env));
+    }
+  }
+
+  const total = n * channels.length;
+  const rmsBefore = total > 0 ? Math.sqrt(sumBefore / total) : 0;
+  const rmsAfter = total > 0 ? Math.sqrt(sumAfter / total) : 0;
+
+  return {
+    maxGainReductionDB: Math.max(0, -dbFromLinear(maxReduction)),
+    avgGainReductionDB: limitingSamples > 0 ? reductionSumDB / limitingSamples : null,
+    limitingSeconds: limitingSamples / sampleRate,
+    limitingPct: n > 0 ? (limitingSamples / n) * 100 : 0,
+    crestFactorBeforeDB: rmsBefore > 0 ? dbFromLinear(peakBefore / rmsBefore) : null,
+    crestFactorAfterDB: rmsAfter > 0 ? dbFromLinear(peakAfter / rmsAfter) : null,
+    postTruePeakDBTP: truePeak > 0 ? dbFromLinear(truePeak) : null
+  };
+}
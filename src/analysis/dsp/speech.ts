@@ -0,0 +1,119 @@
+/**
+ * Speech segmentation module
+ * Energy / zero-crossing voice activity detection for spoken-word masters:
+ * speech segments, room tone at head and tail, and the level between phrases.
+ */
+
+import { dbFromLinear } from '../../core/format.js';
+import { bandpassFilter } from '../../utils/filters.js';
+import type { SpeechSegment } from '../../core/types.js';
+
+export interface SpeechOut {
+  segments: SpeechSegment[];
+  speechSeconds: number;
+  speechRatio: number | null; // Share of the file classified as speech
+  headRoomToneS: number | null; // Before the first speech; null when no speech was found
+  tailRoomToneS: number | null; // After the last speech
+  longestPauseS: number | null;
+  roomToneDBFS: number | null; // RMS of the non-speech frames
+}
+
+const FRAME_S = 0.02;
+// Voice band used for activity detection (telephone band covers most speech energy)
+const VOICE_LOW_HZ = 300;
+const VOICE_HIGH_HZ = 3400;
+// A frame is active this far above the quiet-frame reference
+const ACTIVITY_MARGIN_DB = 10;
+// Never call a frame speech when it is this far below the loudest frame
+const DYNAMIC_FLOOR_DB = 50;
+// Broadband hiss crosses zero far more often than voiced speech
+const MAX_VOICED_ZCR = 0.35;
+// Pauses shorter than this belong to the phrase (hangover); blips shorter than MIN_SPEECH_S are dropped
+const MAX_GAP_S = 0.3;
+const MIN_SPEECH_S = 0.1;
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+export function computeSpeech(mono: Float32Array, sampleRate: number): SpeechOut {
+  const frame = Math.max(1, Math.round(FRAME_S * sampleRate));
+  const frames = Math.floor(mono.length / frame);
+  const duration = mono.length / sampleRate;
+  const empty: SpeechOut = {
+    segments: [], speechSeconds: 0, speechRatio: frames > 0 ? 0 : null,
+    headRoomToneS: null, tailRoomToneS: null, longestPauseS: null, roomToneDBFS: null
+  };
+  if (frames === 0) return empty;
+
+  const voice = bandpassFilter(mono, VOICE_LOW_HZ, VOICE_HIGH_HZ, sampleRate);
+  const voiceDB = new Float32Array(frames);
+  const fullMs = new Float64Array(frames);
+  const zcr = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let v = 0, full = 0, crossings = 0;
+    const start = f * frame;
+    for (let i = start; i < start + frame; i++) {
+      v += voice[i] * voice[i];
+      full += mono[i] * mono[i];
+      if (i > start && (mono[i] >= 0) !== (mono[i - 1] >= 0)) crossings++;
+    }
+    voiceDB[f] = v > 0 ? 10 * Math.log10(v / frame) : -200;
+    fullMs[f] = full / frame;
+    zcr[f] = crossings / frame;
+  }
+
+  const sorted = Array.from(voiceDB).sort((a, b) => a - b);
+  const threshold = Math.max(percentile(sorted, 0.1) + ACTIVITY_MARGIN_DB, sorted[sorted.length - 1] - DYNAMIC_FLOOR_DB);
+
+  // Raw activity, then close short pauses and drop short blips
+  const active = new Uint8Array(frames);
+  for (let f = 0; f < frames; f++) active[f] = voiceDB[f] > threshold && zcr[f] < MAX_VOICED_ZCR ? 1 : 0;
+
+  const runs: [number, number][] = [];
+  for (let f = 0; f < frames; f++) {
+    if (!active[f]) continue;
+    const start = f;
+    while (f + 1 < frames && active[f + 1]) f++;
+    runs.push([start, f + 1]);
+  }
+  const maxGap = Math.round(MAX_GAP_S / FRAME_S);
+  const merged: [number, number][] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && run[0] - last[1] <= maxGap) last[1] = run[1];
+    else merged.push([run[0], run[1]]);
+  }
+  const minFrames = Math.round(MIN_SPEECH_S / FRAME_S);
+  const kept = merged.filter(([s, e]) => e - s >= minFrames);
+  if (kept.length === 0) {
+    const total = fullMs.reduce((a, b) => a + b, 0);
+    return { ...empty, roomToneDBFS: total > 0 ? dbFromLinear(Math.sqrt(total / frames)) : null };
+  }
+
+  const frameTime = frame / sampleRate;
+  const segments = kept.map(([s, e]) => ({ start: s * frameTime, end: e * frameTime }));
+
+  const isSpeech = new Uint8Array(frames);
+  for (const [s, e] of kept) isSpeech.fill(1, s, e);
+  let quietSum = 0, quietFrames = 0;
+  for (let f = 0; f < frames; f++) {
+    if (isSpeech[f]) continue;
+    quietSum += fullMs[f];
+    quietFrames++;
+  }
+
+  let longestPause = 0;
+  for (let i = 1; i < segments.length; i++) longestPause = Math.max(longestPause, segments[i].start - segments[i - 1].end);
+
+  const speechSeconds = segments.reduce((sum, s) => sum + s.end - s.start, 0);
+  return {
+    segments,
+    speechSeconds,
+    speechRatio: speechSeconds / duration,
+    headRoomToneS: segments[0].start,
+    tailRoomToneS: Math.max(0, duration - segments[segments.length - 1].end),
+    longestPauseS: segments.length > 1 ? longestPause : null,
+    roomToneDBFS: quietFrames > 0 && quietSum > 0 ? dbFromLinear(Math.sqrt(quietSum / quietFrames)) : null
+  };
+}
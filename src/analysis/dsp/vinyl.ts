@@ -0,0 +1,119 @@
+/**
+ * Vinyl cutting analysis module
+ * Measures what a cutting lathe struggles with: low-frequency side content
+ * (vertical groove modulation) and sustained high-frequency energy.
+ */
+
+import { dbFromLinear } from '../../core/format.js';
+import { butterworthLP, butterworthHP } from '../../utils/filters.js';
+
+export interface VinylOut {
+  // Side (L−R) content below ~150 Hz; drives vertical stylus motion
+  lowSidePeakDBFS: number | null;
+  lowSideToMidDB: number | null; // Low side RMS relative to low mid RMS
+  lowSideMaxTimestamp: number | null;
+
+  // Energy above ~10 kHz; the cutter head's thermal / slew limit
+  hfRmsDBFS: number | null;
+  hfMaxShortTermDBFS: number | null; // Loudest 1 s window, loudest channel
+  hfMaxTimestamp: number | null;
+}
+
+const LOW_SIDE_HZ = 150;
+const HF_HZ = 10000;
+const WINDOW_S = 1;
+
+/** Two cascaded Butterworth sections (24 dB/oct), filtered in place */
+function lowpass4(x: Float32Array, fc: number, fs: number): Float32Array {
+  butterworthLP(x, fc, fs, x);
+  return butterworthLP(x, fc, fs, x);
+}
+
+function highpass4(x: Float32Array, fc: number, fs: number): Float32Array {
+  butterworthHP(x, fc, fs, x);
+  return butterworthHP(x, fc, fs, x);
+}
+
+function rms(x: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) sum += x[i] * x[i];
+  return x.length > 0 ? Math.sqrt(sum / x.length) : 0;
+}
+
+function measureLowSide(L: Float32Array, R: Float32Array, sampleRate: number):
+  Pick<VinylOut, 'lowSidePeakDBFS' | 'lowSideToMidDB' | 'lowSideMaxTimestamp'> {
+  const n = Math.min(L.length, R.length);
+  const side = new Float32Array(n);
+  const mid = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    side[i] = 0.5 * (L[i] - R[i]);
+    mid[i] = 0.5 * (L[i] + R[i]);
+  }
+  lowpass4(side, LOW_SIDE_HZ, sampleRate);
+  lowpass4(mid, LOW_SIDE_HZ, sampleRate);
+
+  let peak = 0;
+  let peakIdx = 0;
+  for (let i = 0; i < n; i++) {
+    const a = Math.abs(side[i]);
+    if (a > peak) {
+      peak = a;
+      peakIdx = i;
+    }
+  }
+  // Identical channels: nothing to modulate vertically
+  if (peak === 0) return { lowSidePeakDBFS: null, lowSideToMidDB: null, lowSideMaxTimestamp: null };
+
+  const midRms = rms(mid);
+  return {
+    lowSidePeakDBFS: dbFromLinear(peak),
+    lowSideToMidDB: midRms > 0 ? dbFromLinear(rms(side)) - dbFromLinear(midRms) : null,
+    lowSideMaxTimestamp: peakIdx / sampleRate
+  };
+}
+
+function measureHF(channels: Float32Array[], sampleRate: number):
+  Pick<VinylOut, 'hfRmsDBFS' | 'hfMaxShortTermDBFS' | 'hfMaxTimestamp'> {
+  const win = Math.max(1, Math.round(WINDOW_S * sampleRate));
+  let totalSq = 0;
+  let totalN = 0;
+  let maxWindowMs = 0;
+  let maxWindowIdx = 0;
+
+  for (const ch of channels) {
+    const hf = Float32Array.from(ch);
+    highpass4(hf, HF_HZ, sampleRate);
+    for (let start = 0; start < hf.length; start += win) {
+      const end = Math.min(hf.length, start + win);
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += hf[i] * hf[i];
+      totalSq += sum;
+      totalN += end - start;
+      // Ignore a short trailing window; it overstates bursts
+      if (end - start < win && start > 0) continue;
+      const ms = sum / (end - start);
+      if (ms > maxWindowMs) {
+        maxWindowMs = ms;
+        maxWindowIdx = start;
+      }
+    }
+  }
+
+  if (totalN === 0 || totalSq === 0) return { hfRmsDBFS: null, hfMaxShortTermDBFS: null, hfMaxTimestamp: null };
+  return {
+    hfRmsDBFS: dbFromLinear(Math.sqrt(totalSq / totalN)),
+    hfMaxShortTermDBFS: dbFromLinear(Math.sqrt(maxWindowMs)),
+    hfMaxTimestamp: maxWindowIdx / sampleRate
+  };
+}
+
+export function computeVinyl(channels: Float32Array[], sampleRate: number): VinylOut {
+  // Nyquist at or below the HF band: nothing to measure there
+  const hf = sampleRate > 2 * HF_HZ
+    ? measureHF(channels, sampleRate)
+    : { hfRmsDBFS: null, hfMaxShortTermDBFS: null, hfMaxTimestamp: null };
+  const low = channels.length >= 2
+    ? measureLowSide(channels[0], channels[1], sampleRate)
+    : { lowSidePeakDBFS: null, lowSideToMidDB: null, lowSideMaxTimestamp: null };
+  return { ...low, ...hf };
+}
@@ -0,0 +1,6 @@
+/**
+ * Analysis export barrel
+ * File builders with no DOM dependency, shared by the UI downloads and the CLI.
+ */
+
+export { buildMeterLogCsv, buildBroadcastReportCsv, meterLogFileName } from './meterLog.js';
@@ -0,0 +1,66 @@
+/**
+ * Broadcast CSV export
+ * Full-resolution momentary / short-term meter logs per track and the
+ * pass/fail broadcast report, for deliverable paperwork and QC tools.
+ */
+
+import type { BroadcastValidation, TrackAnalysis } from '../../core/types.js';
+
+function timecode(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const h = Math.floor(tenths / 36000);
+  const m = Math.floor((tenths % 36000) / 600);
+  const s = (tenths % 600) / 10;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${s.toFixed(1).padStart(4, '0')}`;
+}
+
+function cell(v: number | string | null): string {
+  if (v === null) return '';
+  if (typeof v === 'number') return String(v);
+  return /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+function row(values: (number | string | null)[]): string {
+  return values.map(cell).join(',');
+}
+
+/** One row per 100 ms reading; empty cells before a window fills or during digital silence */
+export function buildMeterLogCsv(track: TrackAnalysis): string | null {
+  const log = track.loudness.meterLog;
+  if (!log) return null;
+  const lines = [row(['time_s', 'timecode', 'momentary_lufs', 'short_term_lufs'])];
+  for (let i = 0; i < log.momentaryLUFS.length; i++) {
+    const t = i * log.intervalS;
+    lines.push(row([Number(t.toFixed(1)), timecode(t), log.momentaryLUFS[i], log.shortTermLUFS[i] ?? null]));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function meterLogFileName(track: TrackAnalysis): string {
+  const stem = track.parameters.filename.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '-').toLowerCase();
+  return `${String(track.trackNumber).padStart(2, '0')}-${stem}-meter-log.csv`;
+}
+
+export function buildBroadcastReportCsv(report: BroadcastValidation): string {
+  const fmt = (v: number | null) => v !== null ? Number(v.toFixed(1)) : null;
+  const verdict = (pass: boolean) => pass ? 'PASS' : 'FAIL';
+  const tolerance = report.toleranceLU !== null ? `±${report.toleranceLU} LU` : 'none';
+  const lines = [
+    row(['standard', report.standard]),
+    row(['target_lufs', report.targetLUFS]),
+    row(['tolerance', tolerance]),
+    row(['max_true_peak_dbtp', report.maxTruePeakDBTP]),
+    row(['result', `${verdict(report.ready)} (${report.passed}/${report.programmes.length})`]),
+    '',
+    row(['track', 'file', 'integrated_lufs', 'deviation_lu', 'integrated', 'true_peak_dbtp', 'true_peak',
+      'lra_lu', 'max_momentary_lufs', 'max_short_term_lufs', 'result'])
+  ];
+  for (const p of report.programmes) {
+    lines.push(row([
+      p.trackNumber, p.filename, fmt(p.integratedLUFS), fmt(p.deviationLU), verdict(p.integratedPass),
+      fmt(p.maxTruePeakDBTP), verdict(p.truePeakPass), fmt(p.loudnessRangeLU),
+      fmt(p.maxMomentaryLUFS), fmt(p.maxShortTermLUFS), verdict(p.pass)
+    ]));
+  }
+  return lines.join('\n') + '\n';
+}
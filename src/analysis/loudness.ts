@@ -6,6 +6,7 @@
  * - True peak measurement (dBTP) with 4x oversampling
  * - Loudness Range (LRA) per EBU Tech 3342
  * - Short-term and momentary loudness
+ * - Multichannel weighting (LFE excluded, surrounds +1.5 dB) per BS.1770-4
  *
  * True Peak Measurement Provenance:
  * - Primary: ebur128-wasm (https://github.com/streamonkey/ebur128_wasm)
@@ -19,6 +20,9 @@
 
 import { dbFromLinear } from "../core/format";
 import { bandpassFilter } from "../utils/filters";
+import { getChannelLayout, getChannelWeights, type ChannelLayout } from "./channelLayout";
+import type { GatingHistogram, LoudnessMeterLog, SpeechSegment } from "../core/types";
+import { DEFAULT_PROFILE } from "../core/profiles";
 
 // Type for ebur128-wasm module (lazy loaded)
 interface EbuR128Module {
@@ -67,7 +71,7 @@ export function isEbuR128Available(): boolean {
   return ebur128Available;
 }
 
-import { verifyTruePeak, computeSamplePeak, computeTruePeakMono, computeTruePeakStereo } from "./truePeak";
+import { verifyTruePeak, computeSamplePeak, computeTruePeakMono } from "./truePeak";
 
 export interface LoudnessResult {
   integratedLUFS: number;
@@ -78,6 +82,7 @@ export interface LoudnessResult {
   truePeakSource: 'ebur128' | 'fallback';
   truePeakWarning?: string;
   ispMarginDB: number;
+  perChannelTruePeakDBTP: number[];
   maxMomentaryLUFS: number;
   maxShortTermLUFS: number;
   shortTermP10: number;
@@ -113,6 +118,15 @@ export interface LoudnessResult {
     presenceLUFS: number | null;   // 2-6k Hz
     brillianceLUFS: number | null; // 6-20k Hz
   };
+
+  // === NEW: Gating blocks for album-integrated loudness ===
+  gatingHistogram: GatingHistogram;
+
+  // === NEW: Dialogue-gated loudness (speech segments only); null without speech ===
+  dialogueGatedLUFS: number | null;
+
+  // === NEW: Full-resolution momentary / short-term log ===
+  meterLog: LoudnessMeterLog;
 }
 
 // ITU BS.1770 K-weighting pre-filter coefficients (48kHz)
@@ -225,7 +239,8 @@ function msToLUFS(meanSquare: number): number {
 // Compute momentary loudness (400ms windows) and short-term loudness (3s windows)
 function computeWindowedLoudness(
   kWeightedChannels: Float32Array[],
-  sampleRate: number
+  sampleRate: number,
+  channelWeights: number[]
 ): {
   momentaryValues: number[];
   shortTermValues: number[];
@@ -242,9 +257,6 @@ function computeWindowedLoudness(
   const momentaryTimes: number[] = [];
   const shortTermTimes: number[] = [];
 
-  // Channel weights for surround (simplified for stereo: both = 1.0)
-  const channelWeights = kWeightedChannels.map(() => 1.0);
-
   for (let pos = 0; pos < numSamples - hopSize; pos += hopSize) {
     const time = pos / sampleRate;
 
@@ -252,6 +264,7 @@ function computeWindowedLoudness(
     if (pos + momentaryWindow <= numSamples) {
       let sumMs = 0;
       for (let ch = 0; ch < kWeightedChannels.length; ch++) {
+        if (channelWeights[ch] === 0) continue;
         let chSum = 0;
         for (let i = pos; i < pos + momentaryWindow; i++) {
           chSum += kWeightedChannels[ch][i] * kWeightedChannels[ch][i];
@@ -266,6 +279,7 @@ function computeWindowedLoudness(
     if (pos + shortTermWindow <= numSamples) {
       let sumMs = 0;
       for (let ch = 0; ch < kWeightedChannels.length; ch++) {
+        if (channelWeights[ch] === 0) continue;
         let chSum = 0;
         for (let i = pos; i < pos + shortTermWindow; i++) {
           chSum += kWeightedChannels[ch][i] * kWeightedChannels[ch][i];
@@ -280,22 +294,41 @@ function computeWindowedLoudness(
   return { momentaryValues, shortTermValues, momentaryTimes, shortTermTimes };
 }
 
-// Compute integrated loudness with optional gating (ITU BS.1770-4)
-function computeIntegratedLoudness(
+// Align momentary and short-term readings on one 100 ms clock, timed at the window end
+function buildMeterLog(momentaryValues: number[], shortTermValues: number[], sampleRate: number): LoudnessMeterLog {
+  const hopSize = Math.floor(sampleRate / 10);
+  const momentaryLag = Math.round(Math.floor(sampleRate * 0.4) / hopSize);
+  const shortTermLag = Math.round(Math.floor(sampleRate * 3) / hopSize);
+  const rows = momentaryValues.length > 0 ? momentaryValues.length + momentaryLag : 0;
+  const reading = (values: number[], i: number) => {
+    const v = values[i];
+    return v !== undefined && isFinite(v) ? Math.round(v * 100) / 100 : null;
+  };
+
+  const momentaryLUFS: (number | null)[] = [];
+  const shortTermLUFS: (number | null)[] = [];
+  for (let row = 0; row < rows; row++) {
+    momentaryLUFS.push(reading(momentaryValues, row - momentaryLag));
+    shortTermLUFS.push(reading(shortTermValues, row - shortTermLag));
+  }
+  return { intervalS: hopSize / sampleRate, momentaryLUFS, shortTermLUFS };
+}
+
+// Mean square of each 400ms gating block (75% overlap), channel-weighted (ITU BS.1770-4)
+function computeGatingBlocks(
   kWeightedChannels: Float32Array[],
   sampleRate: number,
-  gated: boolean
-): number {
+  channelWeights: number[]
+): number[] {
   const blockSize = Math.floor(sampleRate * 0.4); // 400ms blocks
   const hopSize = Math.floor(blockSize * 0.75); // 75% overlap
   const numSamples = kWeightedChannels[0].length;
-  const channelWeights = kWeightedChannels.map(() => 1.0);
 
-  // Step 1: Calculate loudness of each block
   const blockLoudness: number[] = [];
   for (let pos = 0; pos + blockSize <= numSamples; pos += hopSize) {
     let sumMs = 0;
     for (let ch = 0; ch < kWeightedChannels.length; ch++) {
+      if (channelWeights[ch] === 0) continue;
       let chSum = 0;
       for (let i = pos; i < pos + blockSize; i++) {
         chSum += kWeightedChannels[ch][i] * kWeightedChannels[ch][i];
@@ -304,7 +337,11 @@ function computeIntegratedLoudness(
     }
     blockLoudness.push(sumMs);
   }
+  return blockLoudness;
+}
 
+// Integrated loudness of gating blocks, with optional absolute + relative gating
+function integratedFromBlocks(blockLoudness: number[], gated: boolean): number {
   if (!gated) {
     // Ungated: simple average of all blocks
     const avgMs = blockLoudness.reduce((a, b) => a + b, 0) / blockLoudness.length;
@@ -328,6 +365,96 @@ function computeIntegratedLoudness(
   return msToLUFS(avgGated);
 }
 
+// Integrated loudness over the gating blocks that are at least half speech
+function dialogueGatedFromBlocks(
+  blockLoudness: number[],
+  sampleRate: number,
+  speechSegments: SpeechSegment[]
+): number | null {
+  const blockSeconds = Math.floor(sampleRate * 0.4) / sampleRate;
+  const hopSeconds = Math.floor(Math.floor(sampleRate * 0.4) * 0.75) / sampleRate;
+  const speechBlocks: number[] = [];
+  let seg = 0;
+  for (let b = 0; b < blockLoudness.length; b++) {
+    const start = b * hopSeconds;
+    const end = start + blockSeconds;
+    while (seg < speechSegments.length && speechSegments[seg].end <= start) seg++;
+    let overlap = 0;
+    for (let i = seg; i < speechSegments.length && speechSegments[i].start < end; i++) {
+      overlap += Math.min(end, speechSegments[i].end) - Math.max(start, speechSegments[i].start);
+    }
+    if (overlap >= blockSeconds / 2) speechBlocks.push(blockLoudness[b]);
+  }
+  if (speechBlocks.length === 0) return null;
+  const lufs = integratedFromBlocks(speechBlocks, true);
+  return isFinite(lufs) ? lufs : null;
+}
+
+// Compute integrated loudness with optional gating (ITU BS.1770-4)
+function computeIntegratedLoudness(
+  kWeightedChannels: Float32Array[],
+  sampleRate: number,
+  gated: boolean,
+  channelWeights: number[]
+): number {
+  return integratedFromBlocks(computeGatingBlocks(kWeightedChannels, sampleRate, channelWeights), gated);
+}
+
+// Gating histogram layout: 0.1 LU bins from -70 LUFS (the absolute gate) upward
+export const GATING_HISTOGRAM_MIN_LUFS = -70;
+export const GATING_HISTOGRAM_BIN_LU = 0.1;
+const GATING_HISTOGRAM_BINS = 800; // -70 .. +10 LUFS, enough for full-scale 5.1
+
+/**
+ * Histogram of gating block loudness (blocks below the absolute gate are dropped).
+ * Block counts are additive, so histograms from several tracks can be gated together.
+ */
+function buildGatingHistogram(blockLoudness: number[]): GatingHistogram {
+  const counts = new Array<number>(GATING_HISTOGRAM_BINS).fill(0);
+  for (const ms of blockLoudness) {
+    const lufs = msToLUFS(ms);
+    if (lufs < GATING_HISTOGRAM_MIN_LUFS) continue;
+    const bin = Math.floor((lufs - GATING_HISTOGRAM_MIN_LUFS) / GATING_HISTOGRAM_BIN_LU);
+    counts[Math.min(bin, GATING_HISTOGRAM_BINS - 1)]++;
+  }
+  // Trailing zeros carry no information; keep exports small
+  let last = counts.length;
+  while (last > 0 && counts[last - 1] === 0) last--;
+  return { minLUFS: GATING_HISTOGRAM_MIN_LUFS, binWidthLU: GATING_HISTOGRAM_BIN_LU, counts: counts.slice(0, last) };
+}
+
+/**
+ * Integrated loudness over the combined blocks of several programmes (ITU BS.1770-4 gating).
+ * Used for album loudness: every track's blocks are pooled before the relative gate,
+ * unlike averaging per-track integrated values.
+ * Each bin is represented by its centre, so results are within 0.05 LU of exact gating.
+ */
+export function gatedLoudnessFromHistograms(histograms: GatingHistogram[]): number {
+  const bins = new Map<number, number>(); // bin centre (LUFS) -> block count
+  for (const h of histograms) {
+    h.counts.forEach((count, i) => {
+      if (count === 0) return;
+      const centre = Number((h.minLUFS + (i + 0.5) * h.binWidthLU).toFixed(4));
+      bins.set(centre, (bins.get(centre) ?? 0) + count);
+    });
+  }
+
+  const energy = (lufs: number) => Math.pow(10, (lufs + 0.691) / 10);
+  const gatedMean = (threshold: number) => {
+    let sum = 0, n = 0;
+    for (const [lufs, count] of bins) {
+      if (lufs < threshold) continue;
+      sum += energy(lufs) * count;
+      n += count;
+    }
+    return n > 0 ? sum / n : 0;
+  };
+
+  const absoluteMean = gatedMean(GATING_HISTOGRAM_MIN_LUFS);
+  if (absoluteMean <= 0) return -Infinity;
+  return msToLUFS(gatedMean(msToLUFS(absoluteMean) - 10));
+}
+
 // Compute LRA (Loudness Range) per EBU Tech 3342
 function computeLRA(shortTermValues: number[]): number {
   // Filter out -Infinity values
@@ -504,7 +631,8 @@ const BAND_DEFINITIONS = [
  */
 function computePerBandLoudness(
   channels: Float32Array[],
-  sampleRate: number
+  sampleRate: number,
+  channelWeights: number[]
 ): PerBandLoudness {
   const result: PerBandLoudness = {
     subLUFS: null,
@@ -539,7 +667,7 @@ function computePerBandLoudness(
       const kWeightedBand = applyKWeighting(filteredChannels, sampleRate);
 
       // Compute integrated loudness with ITU gating
-      const bandLUFS = computeIntegratedLoudness(kWeightedBand, sampleRate, true);
+      const bandLUFS = computeIntegratedLoudness(kWeightedBand, sampleRate, true, channelWeights);
       const lufsValue = isFinite(bandLUFS) ? bandLUFS : null;
 
       // Store result based on band name
@@ -558,36 +686,67 @@ function computePerBandLoudness(
   return result;
 }
 
-export function computeLoudness(sampleRate: number, channels: Float32Array[]): LoudnessResult {
+/**
+ * Gain to reach a delivery target, with a short note for the UI.
+ * Kept separate from computeLoudness so a new profile can be applied without re-measuring.
+ */
+export function computeLoudnessCorrection(
+  integratedLUFS: number | null,
+  targetLUFS: number
+): { loudnessCorrectionDB: number; loudnessCorrectionNote: string } {
+  if (integratedLUFS === null || !isFinite(integratedLUFS)) {
+    return { loudnessCorrectionDB: 0, loudnessCorrectionNote: "Unable to measure loudness" };
+  }
+  const loudnessCorrectionDB = targetLUFS - integratedLUFS;
+  let loudnessCorrectionNote: string;
+  if (Math.abs(loudnessCorrectionDB) < 0.5) {
+    loudnessCorrectionNote = `Already at target (${targetLUFS} LUFS)`;
+  } else if (loudnessCorrectionDB > 0) {
+    loudnessCorrectionNote = `+${loudnessCorrectionDB.toFixed(1)} dB to reach ${targetLUFS} LUFS`;
+  } else {
+    loudnessCorrectionNote = `${loudnessCorrectionDB.toFixed(1)} dB to reach ${targetLUFS} LUFS`;
+  }
+  return { loudnessCorrectionDB, loudnessCorrectionNote };
+}
+
+export function computeLoudness(
+  sampleRate: number,
+  channels: Float32Array[],
+  layout: ChannelLayout = getChannelLayout(channels.length),
+  targetLUFS: number = DEFAULT_PROFILE.targetLUFS,
+  speechSegments: SpeechSegment[] = []
+): LoudnessResult {
+  // BS.1770-4 channel weights (LFE = 0, surrounds = 1.41)
+  const channelWeights = getChannelWeights(layout);
+
   // Apply K-weighting for manual loudness calculations (needed for both paths)
   const kWeightedChannels = applyKWeighting(channels, sampleRate);
 
   // Try to use ebur128-wasm for integrated loudness and true peak (gold standard)
-  // Falls back to pure JS implementation if WASM not available
+  // Falls back to pure JS implementation if WASM not available.
+  // ebur128-wasm only exposes mono/stereo integrated loudness, so layouts with
+  // more than two channels always use the weighted JS measurement.
   let integratedLUFS: number;
-  let ebur128TruePeak: number;
-  let usingWasm = false;
-
-  if (ebur128Available && ebur128Module) {
-    usingWasm = true;
-    if (channels.length === 1) {
-      integratedLUFS = ebur128Module.ebur128_integrated_mono(sampleRate, channels[0]);
-      ebur128TruePeak = ebur128Module.ebur128_true_peak_mono(sampleRate, channels[0]);
-    } else {
-      const left = channels[0];
-      const right = channels[1];
-      integratedLUFS = ebur128Module.ebur128_integrated_stereo(sampleRate, left, right);
-      ebur128TruePeak = ebur128Module.ebur128_true_peak_stereo(sampleRate, left, right);
-    }
+  const wasm = ebur128Available ? ebur128Module : null;
+
+  const gatingBlocks = computeGatingBlocks(kWeightedChannels, sampleRate, channelWeights);
+
+  if (wasm && channels.length === 1) {
+    integratedLUFS = wasm.ebur128_integrated_mono(sampleRate, channels[0]);
+  } else if (wasm && channels.length === 2) {
+    integratedLUFS = wasm.ebur128_integrated_stereo(sampleRate, channels[0], channels[1]);
   } else {
-    // Pure JS fallback: use our own K-weighted loudness calculation
-    integratedLUFS = computeIntegratedLoudness(kWeightedChannels, sampleRate, true);
-    // Use JS true peak implementation (ITU-R BS.1770-4 Annex 2)
-    ebur128TruePeak = channels.length === 1
-      ? computeTruePeakMono(channels[0])
-      : computeTruePeakStereo(channels);
+    // Pure JS: our own K-weighted, channel-weighted loudness calculation
+    integratedLUFS = integratedFromBlocks(gatingBlocks, true);
   }
 
+  // Per-channel true peak (ebur128-wasm mono meter, or ITU-R BS.1770-4 Annex 2 in JS)
+  const perChannelTruePeak = channels.map(ch => {
+    const tp = wasm ? wasm.ebur128_true_peak_mono(sampleRate, ch) : computeTruePeakMono(ch);
+    return isFinite(tp) && tp >= 0 ? tp : computeTruePeakMono(ch);
+  });
+  const ebur128TruePeak = Math.max(...perChannelTruePeak);
+
   // Sample peak (non-oversampled)
   const samplePeakLinear = computeSamplePeak(channels);
   const samplePeakDBFS = dbFromLinear(samplePeakLinear);
@@ -600,11 +759,11 @@ export function computeLoudness(sampleRate: number, channels: Float32Array[]): L
   const ispMarginDB = truePeakDBTP - samplePeakDBFS;
 
   // Compute ungated integrated loudness
-  const integratedUngatedLUFS = computeIntegratedLoudness(kWeightedChannels, sampleRate, false);
+  const integratedUngatedLUFS = integratedFromBlocks(gatingBlocks, false);
 
   // Compute momentary and short-term loudness
   const { momentaryValues, shortTermValues, momentaryTimes, shortTermTimes } =
-    computeWindowedLoudness(kWeightedChannels, sampleRate);
+    computeWindowedLoudness(kWeightedChannels, sampleRate, channelWeights);
 
   // Max momentary and short-term
   const maxMomentaryLUFS = momentaryValues.length > 0
@@ -660,22 +819,11 @@ export function computeLoudness(sampleRate: number, channels: Float32Array[]): L
   const loudestSectionLUFS = shortTermValues[loudestIdx] ?? integratedLUFS;
   const tpToLoudnessAtPeak = truePeakDBTP - loudestSectionLUFS;
 
-  // === NEW: Loudness Correction Recommendation ===
-  const targetLUFS = -14; // Spotify/YouTube standard
-  const loudnessCorrectionDB = isFinite(integratedLUFS) ? targetLUFS - integratedLUFS : 0;
-  let loudnessCorrectionNote: string;
-  if (!isFinite(integratedLUFS)) {
-    loudnessCorrectionNote = "Unable to measure loudness";
-  } else if (Math.abs(loudnessCorrectionDB) < 0.5) {
-    loudnessCorrectionNote = "Already at target (-14 LUFS)";
-  } else if (loudnessCorrectionDB > 0) {
-    loudnessCorrectionNote = `+${loudnessCorrectionDB.toFixed(1)} dB to reach -14 LUFS`;
-  } else {
-    loudnessCorrectionNote = `${loudnessCorrectionDB.toFixed(1)} dB to reach -14 LUFS`;
-  }
+  // === NEW: Loudness Correction Recommendation (delivery profile target) ===
+  const { loudnessCorrectionDB, loudnessCorrectionNote } = computeLoudnessCorrection(integratedLUFS, targetLUFS);
 
   // === NEW: Per-Band Loudness (Phase 2.1) ===
-  const perBandLoudness = computePerBandLoudness(channels, sampleRate);
+  const perBandLoudness = computePerBandLoudness(channels, sampleRate, channelWeights);
 
   return {
     integratedLUFS,
@@ -686,6 +834,7 @@ export function computeLoudness(sampleRate: number, channels: Float32Array[]): L
     truePeakSource: tpResult.source,
     truePeakWarning: tpResult.warning,
     ispMarginDB,
+    perChannelTruePeakDBTP: perChannelTruePeak.map(dbFromLinear),
     maxMomentaryLUFS,
     maxShortTermLUFS,
     shortTermP10,
@@ -704,6 +853,9 @@ export function computeLoudness(sampleRate: number, channels: Float32Array[]): L
     tpToLoudnessAtPeak,
     loudnessCorrectionDB,
     loudnessCorrectionNote,
-    perBandLoudness
+    perBandLoudness,
+    gatingHistogram: buildGatingHistogram(gatingBlocks),
+    dialogueGatedLUFS: dialogueGatedFromBlocks(gatingBlocks, sampleRate, speechSegments),
+    meterLog: buildMeterLog(momentaryValues, shortTermValues, sampleRate)
   };
 }
@@ -7,6 +7,18 @@ export interface MediaInfoAudioBasics {
   bitDepth?: number;
   overallBitrate?: number;
   durationSeconds?: number;
+  // === NEW: Codec details ===
+  containerFormat?: string; // e.g. "MPEG-4", "Wave"
+  formatProfile?: string; // e.g. "Layer 3", "LC", "HE-AAC"
+  encoderLibrary?: string; // e.g. "LAME3.100", "Lavf60.3.100"
+  bitrateMode?: "VBR" | "CBR";
+  audioBitrate?: number; // bps, audio stream only
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
 }
 
 export async function analyzeMediaInfo(file: File): Promise<MediaInfoAudioBasics> {
@@ -28,11 +40,16 @@ export async function analyzeMediaInfo(file: File): Promise<MediaInfoAudioBasics
   const general = tracks.find((t) => t["@type"] === "General");
   const audio = tracks.find((t) => t["@type"] === "Audio");
 
-  const samplingRate = audio?.SamplingRate ? Number(audio.SamplingRate) : undefined;
-  const channels = audio?.Channels ? Number(audio.Channels) : undefined;
-  const bitDepth = audio?.BitDepth ? Number(audio.BitDepth) : undefined;
-  const overallBitrate = general?.OverallBitRate ? Number(general.OverallBitRate) : undefined;
-  const durationSeconds = general?.Duration ? Number(general.Duration) : undefined;
+  const samplingRate = toNumber(audio?.SamplingRate);
+  const channels = toNumber(audio?.Channels);
+  const bitDepth = toNumber(audio?.BitDepth);
+  const overallBitrate = toNumber(general?.OverallBitRate);
+  const durationSeconds = toNumber(general?.Duration) ?? toNumber(audio?.Duration);
+
+  const mode = String(audio?.BitRate_Mode ?? general?.OverallBitRate_Mode ?? "").toUpperCase();
+  const bitrateMode = mode === "VBR" || mode === "CBR" ? mode : undefined;
+
+  const encoderLibrary = audio?.Encoded_Library ?? general?.Encoded_Library ?? audio?.Encoded_Library_Name ?? general?.Encoded_Application;
 
   return {
     format: audio?.Format ?? general?.Format,
@@ -40,6 +57,11 @@ export async function analyzeMediaInfo(file: File): Promise<MediaInfoAudioBasics
     channels,
     bitDepth,
     overallBitrate,
-    durationSeconds
+    durationSeconds,
+    containerFormat: general?.Format,
+    formatProfile: audio?.Format_Profile ?? audio?.Format_AdditionalFeatures,
+    encoderLibrary: encoderLibrary ? String(encoderLibrary) : undefined,
+    bitrateMode,
+    audioBitrate: toNumber(audio?.BitRate)
   };
 }
@@ -0,0 +1,105 @@
+/**
+ * Shared helpers for embedded metadata parsers
+ * Text decoding, first-wins field assignment and ISRC validation
+ */
+
+import type { TrackMetadata } from '../../core/types.js';
+
+export function emptyMetadata(): TrackMetadata {
+  return {
+    tagFormats: [],
+    title: null,
+    artist: null,
+    album: null,
+    trackNumber: null,
+    trackTotal: null,
+    isrc: null,
+    upc: null,
+    artworkBytes: null,
+    artworkMime: null,
+    bext: null,
+    ixml: null
+  };
+}
+
+type TextField = 'title' | 'artist' | 'album' | 'isrc' | 'upc';
+
+/**
+ * Assign a text field unless an earlier tag already provided it
+ */
+export function setText(meta: TrackMetadata, field: TextField, value: string | null | undefined): void {
+  if (meta[field] !== null || value === null || value === undefined) return;
+  const trimmed = value.replace(/\0+$/, '').trim();
+  if (trimmed) meta[field] = trimmed;
+}
+
+/**
+ * Parse "3", "3/12" or "03 of 12" style track numbers
+ */
+export function setTrackNumber(meta: TrackMetadata, value: string | null | undefined, total?: string | null): void {
+  if (!value) return;
+  const match = value.match(/^\s*(\d+)(?:\s*(?:\/|of)\s*(\d+))?/);
+  if (!match) return;
+  if (meta.trackNumber === null) meta.trackNumber = parseInt(match[1], 10);
+  const t = match[2] ?? total;
+  if (meta.trackTotal === null && t) {
+    const n = parseInt(t, 10);
+    if (Number.isFinite(n)) meta.trackTotal = n;
+  }
+}
+
+export function addArtwork(meta: TrackMetadata, bytes: number, mime: string | null): void {
+  meta.artworkBytes = (meta.artworkBytes ?? 0) + bytes;
+  if (meta.artworkMime === null && mime) meta.artworkMime = mime;
+}
+
+export function addFormat(meta: TrackMetadata, format: string): void {
+  if (!meta.tagFormats.includes(format)) meta.tagFormats.push(format);
+}
+
+// ---------- Text decoding ----------
+
+const utf8Decoder = new TextDecoder('utf-8');
+const utf16leDecoder = new TextDecoder('utf-16le');
+const utf16beDecoder = new TextDecoder('utf-16be');
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i++) s += String.fromCharCode(bytes[i]);
+  return s;
+}
+
+export function decodeUtf8(bytes: Uint8Array): string {
+  return utf8Decoder.decode(bytes);
+}
+
+/**
+ * Decode UTF-16 honouring a BOM (defaults to big-endian without one)
+ */
+export function decodeUtf16(bytes: Uint8Array): string {
+  if (bytes.length >= 2 && bytes[0] === 0xFF && bytes[1] === 0xFE) return utf16leDecoder.decode(bytes.subarray(2));
+  if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) return utf16beDecoder.decode(bytes.subarray(2));
+  return utf16beDecoder.decode(bytes);
+}
+
+/**
+ * Fixed-width ASCII field (bext, INFO chunks): stop at the first NUL
+ */
+export function readFixedString(bytes: Uint8Array, offset: number, length: number): string {
+  const end = Math.min(offset + length, bytes.length);
+  let stop = offset;
+  while (stop < end && bytes[stop] !== 0) stop++;
+  return decodeUtf8(bytes.subarray(offset, stop)).trim();
+}
+
+// ---------- ISRC ----------
+
+/**
+ * Normalize an ISRC: strip hyphens/spaces, uppercase.
+ * Returns null when the result is not a valid 12-character ISRC.
+ */
+export function normalizeISRC(value: string): string | null {
+  const compact = value.replace(/[-\s]/g, '').toUpperCase();
+  // CC (country) + XXX (registrant) + YY (year) + NNNNN (designation)
+  return /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/.test(compact) ? compact : null;
+}
@@ -0,0 +1,200 @@
+/**
+ * ID3v2 (2.2 / 2.3 / 2.4) and ID3v1 tag parser
+ *
+ * Extracts title, artist, album, track number, ISRC (TSRC), UPC/barcode
+ * (TXXX) and embedded artwork (APIC/PIC) sizes. Tag-level unsynchronisation
+ * is reversed; compressed or encrypted frames are skipped.
+ */
+
+import type { TrackMetadata } from '../../core/types.js';
+import {
+  setText, setTrackNumber, addArtwork, addFormat,
+  decodeLatin1, decodeUtf8, decodeUtf16, readFixedString
+} from './common.js';
+
+export function hasId3v2(bytes: Uint8Array, offset = 0): boolean {
+  return bytes.length >= offset + 10 &&
+    bytes[offset] === 0x49 && bytes[offset + 1] === 0x44 && bytes[offset + 2] === 0x33; // "ID3"
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7F) << 21) | ((bytes[offset + 1] & 0x7F) << 14) |
+    ((bytes[offset + 2] & 0x7F) << 7) | (bytes[offset + 3] & 0x7F);
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function removeUnsync(bytes: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0x00) i++;
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Decode an ID3 text payload given its encoding byte
+ */
+function decodeText(encoding: number, bytes: Uint8Array): string {
+  switch (encoding) {
+    case 1: return decodeUtf16(bytes);
+    case 2: return decodeUtf16(bytes); // UTF-16BE without BOM
+    case 3: return decodeUtf8(bytes);
+    default: return decodeLatin1(bytes);
+  }
+}
+
+/**
+ * Find the end of a NUL-terminated string for the given encoding
+ */
+function findTerminator(bytes: Uint8Array, start: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+}
+
+function readTextFrame(body: Uint8Array): string {
+  if (body.length < 1) return '';
+  // v2.4 allows multiple NUL-separated values; keep the first
+  const text = decodeText(body[0], body.subarray(1));
+  return text.split('\0')[0];
+}
+
+function readTxxx(body: Uint8Array): { description: string; value: string } {
+  const encoding = body[0];
+  const descEnd = findTerminator(body, 1, encoding);
+  const description = decodeText(encoding, body.subarray(1, descEnd));
+  const valueStart = descEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  const value = decodeText(encoding, body.subarray(valueStart)).split('\0')[0];
+  return { description, value };
+}
+
+function readPicture(body: Uint8Array, isV22: boolean): { bytes: number; mime: string | null } {
+  const encoding = body[0];
+  let pos = 1;
+  let mime: string | null;
+  if (isV22) {
+    // 3-char image format ("JPG", "PNG")
+    const fmt = decodeLatin1(body.subarray(1, 4)).toUpperCase();
+    mime = fmt === 'PNG' ? 'image/png' : fmt === 'JPG' ? 'image/jpeg' : null;
+    pos = 4;
+  } else {
+    const mimeEnd = findTerminator(body, pos, 0);
+    mime = decodeLatin1(body.subarray(pos, mimeEnd)) || null;
+    pos = mimeEnd + 1;
+  }
+  pos += 1; // picture type
+  pos = findTerminator(body, pos, encoding) + (encoding === 1 || encoding === 2 ? 2 : 1);
+  return { bytes: Math.max(0, body.length - pos), mime };
+}
+
+/**
+ * Parse an ID3v2 tag at `offset` into `meta`. Returns the total tag size
+ * (header + body + footer) so callers can skip past it.
+ */
+export function parseId3v2(bytes: Uint8Array, offset: number, meta: TrackMetadata): number {
+  if (!hasId3v2(bytes, offset)) return 0;
+
+  const major = bytes[offset + 3];
+  const flags = bytes[offset + 5];
+  const size = syncsafe(bytes, offset + 6);
+  const hasFooter = major === 4 && (flags & 0x10) !== 0;
+  const total = 10 + size + (hasFooter ? 10 : 0);
+
+  if (major < 2 || major > 4) return total;
+  addFormat(meta, `ID3v2.${major}`);
+
+  let tag = bytes.subarray(offset + 10, Math.min(offset + 10 + size, bytes.length));
+  if ((flags & 0x80) && major < 4) tag = removeUnsync(tag);
+
+  let pos = 0;
+  // Extended header
+  if (flags & 0x40 && major >= 3) {
+    pos += major === 4 ? syncsafe(tag, 0) : uint32(tag, 0) + 4;
+  }
+
+  const isV22 = major === 2;
+  const idLen = isV22 ? 3 : 4;
+  const headerLen = isV22 ? 6 : 10;
+
+  while (pos + headerLen <= tag.length) {
+    const id = decodeLatin1(tag.subarray(pos, pos + idLen));
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+    let frameSize: number;
+    let frameFlags = 0;
+    if (isV22) {
+      frameSize = (tag[pos + 3] << 16) | (tag[pos + 4] << 8) | tag[pos + 5];
+    } else {
+      frameSize = major === 4 ? syncsafe(tag, pos + 4) : uint32(tag, pos + 4);
+      frameFlags = (tag[pos + 8] << 8) | tag[pos + 9];
+    }
+
+    const bodyStart = pos + headerLen;
+    let body = tag.subarray(bodyStart, Math.min(bodyStart + frameSize, tag.length));
+    pos = bodyStart + frameSize;
+
+    // Compressed (0x0080 v2.3, 0x0008 v2.4) or encrypted frames are not decoded
+    const compressed = major === 3 ? (frameFlags & 0x0080) : (frameFlags & 0x0008);
+    const encrypted = major === 3 ? (frameFlags & 0x0040) : (frameFlags & 0x0004);
+    if (compressed || encrypted) continue;
+    if (major === 4 && (frameFlags & 0x0002)) body = removeUnsync(body);
+    // v2.4 data length indicator precedes the body
+    if (major === 4 && (frameFlags & 0x0001)) body = body.subarray(4);
+
+    switch (id) {
+      case 'TIT2': case 'TT2':
+        setText(meta, 'title', readTextFrame(body));
+        break;
+      case 'TPE1': case 'TP1':
+        setText(meta, 'artist', readTextFrame(body));
+        break;
+      case 'TALB': case 'TAL':
+        setText(meta, 'album', readTextFrame(body));
+        break;
+      case 'TRCK': case 'TRK':
+        setTrackNumber(meta, readTextFrame(body));
+        break;
+      case 'TSRC': case 'TRC':
+        setText(meta, 'isrc', readTextFrame(body));
+        break;
+      case 'TXXX': case 'TXX': {
+        const { description, value } = readTxxx(body);
+        const key = description.toUpperCase();
+        if (key === 'BARCODE' || key === 'UPC' || key === 'EAN') setText(meta, 'upc', value);
+        else if (key === 'ISRC') setText(meta, 'isrc', value);
+        break;
+      }
+      case 'APIC': case 'PIC': {
+        const pic = readPicture(body, isV22);
+        addArtwork(meta, pic.bytes, pic.mime);
+        break;
+      }
+    }
+  }
+
+  return total;
+}
+
+/**
+ * ID3v1 / v1.1 tag in the last 128 bytes
+ */
+export function parseId3v1(bytes: Uint8Array, meta: TrackMetadata): void {
+  if (bytes.length < 128) return;
+  const start = bytes.length - 128;
+  if (bytes[start] !== 0x54 || bytes[start + 1] !== 0x41 || bytes[start + 2] !== 0x47) return; // "TAG"
+
+  addFormat(meta, 'ID3v1');
+  setText(meta, 'title', readFixedString(bytes, start + 3, 30));
+  setText(meta, 'artist', readFixedString(bytes, start + 33, 30));
+  setText(meta, 'album', readFixedString(bytes, start + 63, 30));
+  // v1.1: zero byte before track number in comment field
+  if (bytes[start + 125] === 0 && bytes[start + 126] !== 0 && meta.trackNumber === null) {
+    meta.trackNumber = bytes[start + 126];
+  }
+}
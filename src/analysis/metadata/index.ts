@@ -0,0 +1,58 @@
+/**
+ * Embedded metadata barrel export
+ * Sniffs the container and dispatches to the matching tag parser.
+ */
+
+import type { TrackMetadata } from '../../core/types.js';
+import { emptyMetadata, decodeLatin1 } from './common.js';
+import { hasId3v2, parseId3v2, parseId3v1 } from './id3.js';
+import { parseFlacMetadata, parseOggMetadata } from './vorbis.js';
+import { isMp4, parseMp4Metadata } from './mp4.js';
+import { parseWavMetadata, parseAiffMetadata } from './riff.js';
+
+export { normalizeISRC } from './common.js';
+export { parseBext, parseIXml } from './riff.js';
+
+/**
+ * Parse embedded tags from a complete file buffer.
+ * Unknown containers return an empty metadata record rather than throwing.
+ */
+export function parseEmbeddedMetadata(buffer: ArrayBuffer): TrackMetadata {
+  const bytes = new Uint8Array(buffer);
+  const meta = emptyMetadata();
+  if (bytes.length < 12) return meta;
+
+  try {
+    const magic = decodeLatin1(bytes.subarray(0, 4));
+    const form = decodeLatin1(bytes.subarray(8, 12));
+
+    if ((magic === 'RIFF' || magic === 'RF64' || magic === 'BW64') && form === 'WAVE') {
+      parseWavMetadata(bytes, meta);
+    } else if (magic === 'FORM' && (form === 'AIFF' || form === 'AIFC')) {
+      parseAiffMetadata(bytes, meta);
+    } else if (magic === 'fLaC') {
+      parseFlacMetadata(bytes, meta);
+    } else if (magic === 'OggS') {
+      parseOggMetadata(bytes, meta);
+    } else if (isMp4(bytes)) {
+      parseMp4Metadata(bytes, meta);
+    } else {
+      // MP3 and other raw streams: leading ID3v2 (FLAC may also carry one)
+      let offset = 0;
+      while (hasId3v2(bytes, offset)) {
+        const size = parseId3v2(bytes, offset, meta);
+        if (size <= 0) break;
+        offset += size;
+      }
+      if (decodeLatin1(bytes.subarray(offset, offset + 4)) === 'fLaC') {
+        parseFlacMetadata(bytes.subarray(offset), meta);
+      }
+      parseId3v1(bytes, meta);
+    }
+  } catch (e) {
+    // Malformed tags must not abort analysis; keep whatever was parsed
+    console.warn('Metadata parse error:', e);
+  }
+
+  return meta;
+}
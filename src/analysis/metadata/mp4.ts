@@ -0,0 +1,118 @@
+/**
+ * MP4 / M4A metadata atom parser
+ *
+ * Walks moov > udta > meta > ilst and reads iTunes-style items:
+ * ©nam, ©ART, ©alb, trkn, covr and freeform (----) ISRC / UPC / BARCODE.
+ */
+
+import type { TrackMetadata } from '../../core/types.js';
+import { setText, addArtwork, addFormat, decodeUtf8, decodeLatin1 } from './common.js';
+
+interface Atom {
+  type: string;
+  start: number; // Payload start
+  end: number;
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+export function isMp4(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && decodeLatin1(bytes.subarray(4, 8)) === 'ftyp';
+}
+
+function* childAtoms(bytes: Uint8Array, start: number, end: number): Generator<Atom> {
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = uint32(bytes, pos);
+    const type = decodeLatin1(bytes.subarray(pos + 4, pos + 8));
+    let header = 8;
+    if (size === 1) {
+      // 64-bit extended size
+      size = uint32(bytes, pos + 8) * 0x100000000 + uint32(bytes, pos + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header) return;
+    yield { type, start: pos + header, end: Math.min(pos + size, end) };
+    pos += size;
+  }
+}
+
+function findChild(bytes: Uint8Array, parent: Atom, type: string): Atom | null {
+  for (const atom of childAtoms(bytes, parent.start, parent.end)) {
+    if (atom.type === type) return atom;
+  }
+  return null;
+}
+
+/**
+ * Return the payload of the first 'data' child (after type + locale)
+ */
+function dataPayload(bytes: Uint8Array, item: Atom): { type: number; payload: Uint8Array } | null {
+  const data = findChild(bytes, item, 'data');
+  if (!data || data.end - data.start < 8) return null;
+  return {
+    type: uint32(bytes, data.start) & 0xFFFFFF,
+    payload: bytes.subarray(data.start + 8, data.end)
+  };
+}
+
+export function parseMp4Metadata(bytes: Uint8Array, meta: TrackMetadata): void {
+  const root: Atom = { type: 'root', start: 0, end: bytes.length };
+  const moov = findChild(bytes, root, 'moov');
+  if (!moov) return;
+  const udta = findChild(bytes, moov, 'udta');
+  if (!udta) return;
+  const metaAtom = findChild(bytes, udta, 'meta');
+  if (!metaAtom) return;
+  // 'meta' is a full box: skip version/flags
+  const ilst = findChild(bytes, { ...metaAtom, start: metaAtom.start + 4 }, 'ilst');
+  if (!ilst) return;
+
+  addFormat(meta, 'MP4 ilst');
+
+  for (const item of childAtoms(bytes, ilst.start, ilst.end)) {
+    if (item.type === '----') {
+      const nameAtom = findChild(bytes, item, 'name');
+      if (!nameAtom) continue;
+      // 'name' is a full box
+      const name = decodeUtf8(bytes.subarray(nameAtom.start + 4, nameAtom.end)).toUpperCase();
+      const data = dataPayload(bytes, item);
+      if (!data) continue;
+      const value = decodeUtf8(data.payload);
+      if (name === 'ISRC') setText(meta, 'isrc', value);
+      else if (name === 'UPC' || name === 'BARCODE' || name === 'EAN') setText(meta, 'upc', value);
+      continue;
+    }
+
+    const data = dataPayload(bytes, item);
+    if (!data) continue;
+
+    switch (item.type) {
+      case '©nam': setText(meta, 'title', decodeUtf8(data.payload)); break;
+      case '©ART': setText(meta, 'artist', decodeUtf8(data.payload)); break;
+      case '©alb': setText(meta, 'album', decodeUtf8(data.payload)); break;
+      case 'trkn':
+        if (data.payload.length >= 6) {
+          const track = (data.payload[2] << 8) | data.payload[3];
+          const total = (data.payload[4] << 8) | data.payload[5];
+          if (meta.trackNumber === null && track > 0) meta.trackNumber = track;
+          if (meta.trackTotal === null && total > 0) meta.trackTotal = total;
+        }
+        break;
+      case 'covr': {
+        // Type 13 = JPEG, 14 = PNG; multiple 'data' children are possible
+        for (const d of childAtoms(bytes, item.start, item.end)) {
+          if (d.type !== 'data') continue;
+          const imgType = uint32(bytes, d.start) & 0xFFFFFF;
+          const mime = imgType === 14 ? 'image/png' : imgType === 13 ? 'image/jpeg' : null;
+          addArtwork(meta, Math.max(0, d.end - d.start - 8), mime);
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * WAV / BWF and AIFF chunk metadata
+ *
+ * WAV: bext (EBU Tech 3285 incl. v2 loudness fields), iXML, LIST/INFO,
+ * embedded 'id3 ' chunk. AIFF: NAME / AUTH text chunks and 'ID3 ' chunk.
+ */
+
+import type { BextMetadata, IXmlMetadata, TrackMetadata } from '../../core/types.js';
+import { parseId3v2 } from './id3.js';
+import { setText, setTrackNumber, addFormat, decodeLatin1, decodeUtf8, readFixedString } from './common.js';
+
+// bext loudness fields are int16 x100; 0x7FFF marks "not set"
+const BEXT_UNSET = 0x7FFF;
+
+function bextLoudness(view: DataView, offset: number): number | null {
+  if (offset + 2 > view.byteLength) return null;
+  const raw = view.getInt16(offset, true);
+  return raw === BEXT_UNSET ? null : raw / 100;
+}
+
+/**
+ * Parse a bext chunk body (EBU Tech 3285)
+ */
+export function parseBext(bytes: Uint8Array, offset: number, size: number): BextMetadata {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const timeLow = view.getUint32(offset + 338, true);
+  const timeHigh = view.getUint32(offset + 342, true);
+  const version = view.getUint16(offset + 346, true);
+  const hasLoudness = version >= 2;
+
+  return {
+    description: readFixedString(bytes, offset, 256),
+    originator: readFixedString(bytes, offset + 256, 32),
+    originatorReference: readFixedString(bytes, offset + 288, 32),
+    originationDate: readFixedString(bytes, offset + 320, 10),
+    originationTime: readFixedString(bytes, offset + 330, 8),
+    timeReferenceSamples: timeHigh * 0x100000000 + timeLow,
+    version,
+    loudnessValueLUFS: hasLoudness ? bextLoudness(view, offset + 412) : null,
+    loudnessRangeLU: hasLoudness ? bextLoudness(view, offset + 414) : null,
+    maxTruePeakDBTP: hasLoudness ? bextLoudness(view, offset + 416) : null,
+    maxMomentaryLUFS: hasLoudness ? bextLoudness(view, offset + 418) : null,
+    maxShortTermLUFS: hasLoudness ? bextLoudness(view, offset + 420) : null,
+    codingHistory: size > 602 ? readFixedString(bytes, offset + 602, size - 602) : ''
+  };
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? match[1].trim() || null : null;
+}
+
+export function parseIXml(raw: string): IXmlMetadata {
+  return {
+    project: xmlValue(raw, 'PROJECT'),
+    scene: xmlValue(raw, 'SCENE'),
+    take: xmlValue(raw, 'TAKE'),
+    tape: xmlValue(raw, 'TAPE'),
+    note: xmlValue(raw, 'NOTE'),
+    raw
+  };
+}
+
+function parseInfoList(bytes: Uint8Array, start: number, end: number, meta: TrackMetadata): void {
+  addFormat(meta, 'RIFF INFO');
+  let pos = start;
+  while (pos + 8 <= end) {
+    const id = decodeLatin1(bytes.subarray(pos, pos + 4));
+    const size = (bytes[pos + 4] | (bytes[pos + 5] << 8) | (bytes[pos + 6] << 16) | (bytes[pos + 7] << 24)) >>> 0;
+    const value = readFixedString(bytes, pos + 8, size);
+    // Note: INFO 'ISRC' is "source", not the recording code
+    switch (id) {
+      case 'INAM': setText(meta, 'title', value); break;
+      case 'IART': setText(meta, 'artist', value); break;
+      case 'IPRD': setText(meta, 'album', value); break;
+      case 'ITRK': case 'IPRT': setTrackNumber(meta, value); break;
+    }
+    pos += 8 + size + (size % 2);
+  }
+}
+
+export function parseWavMetadata(bytes: Uint8Array, meta: TrackMetadata): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const isRF64 = decodeLatin1(bytes.subarray(0, 4)) !== 'RIFF';
+  let dataSize64: number | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = decodeLatin1(bytes.subarray(offset, offset + 4));
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'ds64' && body + 16 <= bytes.length) {
+      dataSize64 = view.getUint32(body + 8, true) + view.getUint32(body + 12, true) * 0x100000000;
+    } else if (id === 'data' && isRF64 && size === 0xFFFFFFFF && dataSize64 !== null) {
+      size = dataSize64;
+    } else if (id === 'bext' && body + 348 <= bytes.length) {
+      addFormat(meta, 'BWF bext');
+      meta.bext = parseBext(bytes, body, Math.min(size, bytes.length - body));
+    } else if (id === 'iXML') {
+      addFormat(meta, 'iXML');
+      const raw = decodeUtf8(bytes.subarray(body, Math.min(body + size, bytes.length))).replace(/\0+$/, '');
+      meta.ixml = parseIXml(raw);
+    } else if (id === 'LIST' && decodeLatin1(bytes.subarray(body, body + 4)) === 'INFO') {
+      parseInfoList(bytes, body + 4, Math.min(body + size, bytes.length), meta);
+    } else if (id === 'id3 ' || id === 'ID3 ') {
+      parseId3v2(bytes, body, meta);
+    }
+
+    offset = body + size + (size % 2);
+  }
+}
+
+export function parseAiffMetadata(bytes: Uint8Array, meta: TrackMetadata): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = decodeLatin1(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, false);
+    const body = offset + 8;
+    const text = () => decodeLatin1(bytes.subarray(body, Math.min(body + size, bytes.length)));
+
+    if (id === 'NAME') {
+      addFormat(meta, 'AIFF text');
+      setText(meta, 'title', text());
+    } else if (id === 'AUTH') {
+      addFormat(meta, 'AIFF text');
+      setText(meta, 'artist', text());
+    } else if (id === 'ID3 ' || id === 'id3 ') {
+      parseId3v2(bytes, body, meta);
+    }
+
+    offset = body + size + (size % 2);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Vorbis comment parser (FLAC, Ogg Vorbis, Ogg Opus)
+ *
+ * FLAC: walks metadata blocks for VORBIS_COMMENT (4) and PICTURE (6).
+ * Ogg: reassembles the comment header packet from the first pages.
+ */
+
+import type { TrackMetadata } from '../../core/types.js';
+import { setText, setTrackNumber, addArtwork, addFormat, decodeUtf8, decodeLatin1 } from './common.js';
+
+function uint32le(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function uint32be(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Parse a FLAC METADATA_BLOCK_PICTURE body; returns image data length
+ */
+function readFlacPicture(bytes: Uint8Array, offset: number): { bytes: number; mime: string | null } {
+  let pos = offset + 4; // picture type
+  const mimeLen = uint32be(bytes, pos);
+  const mime = decodeLatin1(bytes.subarray(pos + 4, pos + 4 + mimeLen)) || null;
+  pos += 4 + mimeLen;
+  const descLen = uint32be(bytes, pos);
+  pos += 4 + descLen + 16; // width, height, depth, colors
+  return { bytes: uint32be(bytes, pos), mime };
+}
+
+/**
+ * Apply a Vorbis comment list (vendor string + key=value entries)
+ */
+export function parseVorbisComment(bytes: Uint8Array, offset: number, end: number, meta: TrackMetadata): void {
+  addFormat(meta, 'Vorbis comment');
+  let pos = offset;
+  const vendorLen = uint32le(bytes, pos);
+  pos += 4 + vendorLen;
+  if (pos + 4 > end) return;
+  const count = uint32le(bytes, pos);
+  pos += 4;
+
+  let trackTotal: string | null = null;
+  let trackNumber: string | null = null;
+
+  for (let i = 0; i < count && pos + 4 <= end; i++) {
+    const len = uint32le(bytes, pos);
+    pos += 4;
+    if (pos + len > end) break;
+    const entry = decodeUtf8(bytes.subarray(pos, pos + len));
+    pos += len;
+
+    const eq = entry.indexOf('=');
+    if (eq < 0) continue;
+    const key = entry.slice(0, eq).toUpperCase();
+    const value = entry.slice(eq + 1);
+
+    switch (key) {
+      case 'TITLE': setText(meta, 'title', value); break;
+      case 'ARTIST': setText(meta, 'artist', value); break;
+      case 'ALBUM': setText(meta, 'album', value); break;
+      case 'ISRC': setText(meta, 'isrc', value); break;
+      case 'BARCODE': case 'UPC': case 'EAN': setText(meta, 'upc', value); break;
+      case 'TRACKNUMBER': trackNumber = value; break;
+      case 'TRACKTOTAL': case 'TOTALTRACKS': trackTotal = value; break;
+      case 'METADATA_BLOCK_PICTURE': {
+        // Base64 FLAC picture block; estimate image size from the encoded length
+        const decodedLen = Math.floor(value.length * 3 / 4);
+        addArtwork(meta, Math.max(0, decodedLen - 32), null);
+        break;
+      }
+    }
+  }
+
+  setTrackNumber(meta, trackNumber, trackTotal);
+}
+
+/**
+ * Walk FLAC metadata blocks after the "fLaC" marker
+ */
+export function parseFlacMetadata(bytes: Uint8Array, meta: TrackMetadata): void {
+  let offset = 4;
+  let isLast = false;
+  while (!isLast && offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    isLast = (header & 0x80) !== 0;
+    const type = header & 0x7F;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const body = offset + 4;
+    const end = Math.min(body + length, bytes.length);
+
+    if (type === 4) {
+      parseVorbisComment(bytes, body, end, meta);
+    } else if (type === 6) {
+      addFormat(meta, 'FLAC picture');
+      const pic = readFlacPicture(bytes, body);
+      addArtwork(meta, pic.bytes, pic.mime);
+    }
+
+    offset = body + length;
+  }
+}
+
+/**
+ * Read Ogg packets from the start of the stream until `maxPackets` are complete
+ */
+function readOggPackets(bytes: Uint8Array, maxPackets: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+  let parts: Uint8Array[] = [];
+  let offset = 0;
+
+  const finish = () => {
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const packet = new Uint8Array(total);
+    let pos = 0;
+    for (const p of parts) {
+      packet.set(p, pos);
+      pos += p.length;
+    }
+    packets.push(packet);
+    parts = [];
+  };
+
+  while (offset + 27 <= bytes.length && packets.length < maxPackets) {
+    if (decodeLatin1(bytes.subarray(offset, offset + 4)) !== 'OggS') break;
+    const segments = bytes[offset + 26];
+    const table = bytes.subarray(offset + 27, offset + 27 + segments);
+    let pos = offset + 27 + segments;
+
+    for (let i = 0; i < segments; i++) {
+      const len = table[i];
+      parts.push(bytes.subarray(pos, Math.min(pos + len, bytes.length)));
+      pos += len;
+      // A lacing value below 255 terminates the packet
+      if (len < 255) {
+        finish();
+        if (packets.length >= maxPackets) break;
+      }
+    }
+    offset = pos;
+  }
+
+  return packets;
+}
+
+/**
+ * Parse the comment header of an Ogg Vorbis or Opus stream
+ */
+export function parseOggMetadata(bytes: Uint8Array, meta: TrackMetadata): void {
+  const packets = readOggPackets(bytes, 2);
+  const comment = packets[1];
+  if (!comment) return;
+
+  if (comment[0] === 0x03 && decodeLatin1(comment.subarray(1, 7)) === 'vorbis') {
+    parseVorbisComment(comment, 7, comment.length, meta);
+  } else if (decodeLatin1(comment.subarray(0, 8)) === 'OpusTags') {
+    parseVorbisComment(comment, 8, comment.length, meta);
+  }
+}
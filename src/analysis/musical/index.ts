@@ -8,7 +8,7 @@ import { detectKey, computeKeyStability } from './tonality.js';
 
 export { detectBPM, computeTempoDriftIndex, type BPMCandidate, type BPMResult, type TempoDriftResult } from './tempo.js';
 export { detectKey, computeKeyStability, computeChromagram, type KeyCandidate, type KeyResult, type KeyStabilityResult } from './tonality.js';
-export { computeStreamingSimulation } from './streaming.js';
+export { computeStreamingSimulation, renderLimiterPlatform, needsLimiterRender, applyAlbumNormalization, findPlatform, STREAMING_PLATFORMS } from './streaming.js';
 
 export function computeMusicalFeatures(mono: Float32Array, sampleRate: number): MusicalFeatures {
   const bpmResult = detectBPM(mono, sampleRate);
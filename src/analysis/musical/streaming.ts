@@ -1,58 +1,243 @@
 /**
  * Streaming platform normalization simulation
- * Computes gain changes for Spotify, Apple Music, YouTube, Tidal
+ * Computes the playback gain on each platform in the catalogue, following its
+ * published reference level, boost policy and album normalisation
  */
 
-import type { StreamingSimulation, PlatformNormalization } from '../../core/types.js';
+import type {
+  DeliveryProfile,
+  StreamingPlatform,
+  StreamingSimulation,
+  PlatformLimiterSimulation,
+  PlatformNormalization
+} from '../../core/types.js';
+import { DEFAULT_PROFILE } from '../../core/profiles.js';
+import { renderPlatformLimiter } from '../dsp/platformLimiter.js';
 
-interface PlatformTarget {
-  name: string;
-  lufs: number;
-  tpLimit: number;
-}
-
-const PLATFORM_TARGETS: PlatformTarget[] = [
-  { name: "Spotify", lufs: -14, tpLimit: -1 },
-  { name: "Apple Music", lufs: -16, tpLimit: -1 },
-  { name: "YouTube", lufs: -14, tpLimit: -1 },
-  { name: "Tidal", lufs: -14, tpLimit: -1 }
+export const STREAMING_PLATFORMS: StreamingPlatform[] = [
+  {
+    id: 'spotify', name: 'Spotify', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: true, limiterOnBoost: false, albumNormalization: true,
+    note: 'Normal (default) mode. Boosts only as far as -1 dBTP allows; albums keep their relative levels.'
+  },
+  {
+    id: 'spotify-loud', name: 'Spotify Loud', referenceLUFS: -11, tpLimitDBTP: -1,
+    boostsQuiet: true, limiterOnBoost: true, albumNormalization: true,
+    note: 'Premium "Loud" setting. Boosts regardless of true peak and limits at -1 dBTP.'
+  },
+  {
+    id: 'spotify-quiet', name: 'Spotify Quiet', referenceLUFS: -19, tpLimitDBTP: -1,
+    boostsQuiet: true, limiterOnBoost: false, albumNormalization: true,
+    note: '"Quiet" setting, with more headroom for dynamic material.'
+  },
+  {
+    id: 'apple-music', name: 'Apple Music', referenceLUFS: -16, tpLimitDBTP: -1,
+    boostsQuiet: true, limiterOnBoost: false, albumNormalization: true,
+    note: 'Sound Check. Boosts within peak headroom; album mode when playing an album.'
+  },
+  {
+    id: 'youtube', name: 'YouTube', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: false,
+    note: 'Turns loud uploads down only; quiet masters play quiet.'
+  },
+  {
+    id: 'tidal', name: 'Tidal', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: true,
+    note: 'Album normalisation by default; no boost.'
+  },
+  {
+    id: 'amazon-music', name: 'Amazon Music', referenceLUFS: -14, tpLimitDBTP: -2,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: false,
+    note: 'Turns loud tracks down only; -2 dBTP recommended for its lossy streams.'
+  },
+  {
+    id: 'deezer', name: 'Deezer', referenceLUFS: -15, tpLimitDBTP: -1,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: false,
+    note: 'Track normalisation, turn-down only.'
+  },
+  {
+    id: 'soundcloud', name: 'SoundCloud', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: false,
+    note: 'Normalisation varies by client; modelled as turn-down only at -14 LUFS.'
+  },
+  {
+    id: 'pandora', name: 'Pandora', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: true, limiterOnBoost: false, albumNormalization: false,
+    note: 'Radio-style track normalisation in both directions.'
+  },
+  {
+    id: 'qobuz', name: 'Qobuz', referenceLUFS: -14, tpLimitDBTP: -1,
+    boostsQuiet: false, limiterOnBoost: false, albumNormalization: true,
+    note: 'Optional in the player; album-based when enabled.'
+  }
 ];
 
-export function computeStreamingSimulation(
-  integratedLUFS: number,
-  truePeakDBTP: number
-): StreamingSimulation {
-  const platforms: Record<string, PlatformNormalization> = {};
+const PLATFORMS_BY_ID = new Map(STREAMING_PLATFORMS.map(p => [p.id, p]));
 
-  for (const target of PLATFORM_TARGETS) {
-    const gainChange = target.lufs - integratedLUFS;
-    const projectedTP = truePeakDBTP + gainChange;
-    const riskFlags: string[] = [];
+function projectGain(
+  name: string,
+  referenceLUFS: number,
+  tpLimit: number,
+  gainChange: number,
+  truePeakDBTP: number,
+  projectedTP = truePeakDBTP + gainChange
+): PlatformNormalization {
+  const riskFlags: string[] = [];
 
-    if (gainChange < -1) {
-      riskFlags.push(`Attenuated by ${Math.abs(gainChange).toFixed(1)} dB`);
-    }
-    if (projectedTP > target.tpLimit) {
-      riskFlags.push(`May clip post-normalization (TP ${projectedTP.toFixed(1)} dBTP > ${target.tpLimit} dBTP)`);
+  if (gainChange < -1) {
+    riskFlags.push(`Attenuated by ${Math.abs(gainChange).toFixed(1)} dB`);
+  }
+  if (projectedTP > tpLimit) {
+    riskFlags.push(`May clip post-normalization (TP ${projectedTP.toFixed(1)} dBTP > ${tpLimit} dBTP)`);
+  }
+  if (projectedTP > 0) {
+    riskFlags.push("Likely to clip or distort");
+  }
+
+  let limiterCeilingSuggestion: number | null = null;
+  if (projectedTP > tpLimit) {
+    limiterCeilingSuggestion = tpLimit - gainChange;
+  }
+
+  return {
+    platform: name,
+    referenceLUFS,
+    gainChangeDB: gainChange,
+    projectedTruePeakDBTP: projectedTP,
+    riskFlags,
+    limiterCeilingSuggestion,
+    tpLimitDBTP: tpLimit
+  };
+}
+
+/** Playback on one platform: turn-down always applies, boost follows the platform's policy */
+function simulatePlatform(
+  platform: StreamingPlatform,
+  loudnessLUFS: number,
+  truePeakDBTP: number,
+  normalization: 'track' | 'album'
+): PlatformNormalization {
+  const requested = platform.referenceLUFS - loudnessLUFS;
+  let gain = requested;
+  let limiterGainReductionDB: number | null = null;
+  const behaviourFlags: string[] = [];
+
+  if (requested > 0 && !platform.boostsQuiet) {
+    gain = 0;
+    if (requested > 1) behaviourFlags.push(`Not boosted: plays ${requested.toFixed(1)} dB below the reference`);
+  } else if (requested > 0 && platform.limiterOnBoost) {
+    const over = truePeakDBTP + requested - platform.tpLimitDBTP;
+    if (over > 0) {
+      limiterGainReductionDB = over;
+      behaviourFlags.push(`Platform limiter reduces peaks by ${over.toFixed(1)} dB`);
     }
-    if (projectedTP > 0) {
-      riskFlags.push("Likely to clip or distort");
+  } else if (requested > 0) {
+    const headroom = Math.max(0, platform.tpLimitDBTP - truePeakDBTP);
+    if (headroom < requested) {
+      gain = headroom;
+      behaviourFlags.push(`Boost capped at +${headroom.toFixed(1)} dB by peak headroom`);
     }
+  }
 
-    let limiterCeilingSuggestion: number | null = null;
-    if (projectedTP > target.tpLimit) {
-      limiterCeilingSuggestion = target.tpLimit - gainChange;
-    }
+  const projectedTP = limiterGainReductionDB !== null ? platform.tpLimitDBTP : truePeakDBTP + gain;
+  const result = projectGain(platform.name, platform.referenceLUFS, platform.tpLimitDBTP, gain, truePeakDBTP, projectedTP);
+  return {
+    ...result,
+    riskFlags: [...result.riskFlags, ...behaviourFlags],
+    platformId: platform.id,
+    normalization,
+    requestedGainDB: requested,
+    limiterGainReductionDB,
+    boostsQuiet: platform.boostsQuiet,
+    limiterOnBoost: platform.limiterOnBoost,
+    albumNormalization: platform.albumNormalization
+  };
+}
 
-    platforms[target.name] = {
-      platform: target.name,
-      referenceLUFS: target.lufs,
-      gainChangeDB: gainChange,
-      projectedTruePeakDBTP: projectedTP,
-      riskFlags,
-      limiterCeilingSuggestion
-    };
+const LIMITER_PLATFORM = STREAMING_PLATFORMS.find(p => p.limiterOnBoost);
+
+function limiterNote(platform: string, r: Omit<PlatformLimiterSimulation, 'note'>): string {
+  if (r.maxGainReductionDB < 0.1) {
+    return `${platform} boosts +${r.gainDB.toFixed(1)} dB without limiting.`;
+  }
+  const summary = `${platform} limits up to ${r.maxGainReductionDB.toFixed(1)} dB for ${r.limitingPct.toFixed(1)}% of the track`;
+  if (r.maxGainReductionDB >= 3 || r.limitingPct >= 5) {
+    return `${summary}. Mastering ${r.gainDB.toFixed(1)} dB louder with your own limiter keeps that under your control.`;
   }
+  return `${summary}; light enough to be transparent.`;
+}
+
+/** Whether the profile checks the limiting platform and that platform would boost this track */
+export function needsLimiterRender(integratedLUFS: number | null, profile: DeliveryProfile = DEFAULT_PROFILE): boolean {
+  if (!LIMITER_PLATFORM || !profile.platformChecks.includes(LIMITER_PLATFORM.name)) return false;
+  return integratedLUFS !== null && isFinite(integratedLUFS) && LIMITER_PLATFORM.referenceLUFS - integratedLUFS > 0;
+}
+
+/**
+ * Render the boost limiter of the catalogue's limiting platform (Spotify Loud)
+ * on the actual audio. Null when the profile doesn't check that platform or
+ * the platform would not boost this track.
+ */
+export function renderLimiterPlatform(
+  channels: Float32Array[],
+  sampleRate: number,
+  integratedLUFS: number,
+  profile: DeliveryProfile = DEFAULT_PROFILE
+): PlatformLimiterSimulation | null {
+  if (!LIMITER_PLATFORM || channels.length === 0 || !needsLimiterRender(integratedLUFS, profile)) return null;
+  const gainDB = LIMITER_PLATFORM.referenceLUFS - integratedLUFS;
+
+  const r = renderPlatformLimiter(channels, sampleRate, gainDB, LIMITER_PLATFORM.tpLimitDBTP);
+  const result = {
+    platform: LIMITER_PLATFORM.name,
+    platformId: LIMITER_PLATFORM.id,
+    gainDB,
+    ceilingDBTP: LIMITER_PLATFORM.tpLimitDBTP,
+    ...r,
+    crestChangeDB: r.crestFactorBeforeDB !== null && r.crestFactorAfterDB !== null
+      ? r.crestFactorAfterDB - r.crestFactorBeforeDB
+      : null
+  };
+  return { ...result, note: limiterNote(LIMITER_PLATFORM.name, result) };
+}
+
+// Replace the peak-over estimate with what the render measured
+function withLimiterRender(sim: PlatformNormalization, render: PlatformLimiterSimulation): PlatformNormalization {
+  const riskFlags = sim.riskFlags.filter(f => !f.startsWith('Platform limiter'));
+  if (render.maxGainReductionDB >= 0.1) {
+    riskFlags.push(`Platform limiter reduces peaks by up to ${render.maxGainReductionDB.toFixed(1)} dB for ${render.limitingPct.toFixed(1)}% of the track`);
+  }
+  return {
+    ...sim,
+    riskFlags,
+    limiterGainReductionDB: render.maxGainReductionDB,
+    projectedTruePeakDBTP: render.postTruePeakDBTP ?? sim.projectedTruePeakDBTP
+  };
+}
+
+/**
+ * Normalisation on each platform, plus the delivery profile's own target.
+ * Platforms keep their published references; the profile only adds the target entry.
+ * A limiter render, when given, refines the projection for its platform.
+ */
+export function computeStreamingSimulation(
+  integratedLUFS: number,
+  truePeakDBTP: number,
+  profile: DeliveryProfile = DEFAULT_PROFILE,
+  limiterRender: PlatformLimiterSimulation | null = null
+): StreamingSimulation {
+  const platforms = STREAMING_PLATFORMS.map(p => {
+    const sim = simulatePlatform(p, integratedLUFS, truePeakDBTP, 'track');
+    return limiterRender?.platformId === p.id ? withLimiterRender(sim, limiterRender) : sim;
+  });
+  // The profile target is the gain the engineer would apply, so it is never capped
+  const profileTarget = projectGain(
+    profile.name,
+    profile.targetLUFS,
+    profile.maxTruePeakDBTP,
+    profile.targetLUFS - integratedLUFS,
+    truePeakDBTP
+  );
 
   let recommendation: string;
 
@@ -67,10 +252,35 @@ export function computeStreamingSimulation(
   }
 
   return {
-    spotify: platforms["Spotify"] ?? null,
-    appleMusic: platforms["Apple Music"] ?? null,
-    youtube: platforms["YouTube"] ?? null,
-    tidal: platforms["Tidal"] ?? null,
+    platforms,
+    limiterRender,
+    target: profileTarget,
     recommendation
   };
 }
+
+/**
+ * Re-derive album-normalising platforms from the album's loudness.
+ * Other platforms keep their per-track gain, and so does the rendered limiter
+ * platform: its render measured the audio at track gain, and re-rendering at
+ * album gain needs the audio, so the card stays in step with the render.
+ */
+export function applyAlbumNormalization(
+  sim: StreamingSimulation,
+  albumLUFS: number,
+  truePeakDBTP: number
+): StreamingSimulation {
+  return {
+    ...sim,
+    platforms: sim.platforms.map(p => {
+      if (sim.limiterRender && p.platformId === sim.limiterRender.platformId) return p;
+      const platform = p.platformId ? PLATFORMS_BY_ID.get(p.platformId) : undefined;
+      return platform?.albumNormalization ? simulatePlatform(platform, albumLUFS, truePeakDBTP, 'album') : p;
+    })
+  };
+}
+
+/** Look up a simulated platform by catalogue id (or display name, for older reports) */
+export function findPlatform(sim: StreamingSimulation, idOrName: string): PlatformNormalization | null {
+  return sim.platforms.find(p => p.platformId === idOrName || p.platform === idOrName) ?? null;
+}
@@ -0,0 +1,58 @@
+/**
+ * ReplayGain 2.0 and Sound Check
+ *
+ * ReplayGain 2.0 measures loudness per ITU-R BS.1770 and targets -18 LUFS,
+ * so the gain is simply the reference minus integrated loudness. Peaks are
+ * written as linear true peak (1.0 = 0 dBTP).
+ *
+ * iTunNORM (Sound Check) is ten space-prefixed 8-digit hex fields:
+ *   1-2  gain as 1/1000 W reference, left/right
+ *   3-4  gain as 1/2500 W reference, left/right
+ *   5-6  undocumented statistics (written as 0)
+ *   7-8  peak, 0x8000 = full scale, left/right
+ *   9-10 undocumented statistics (written as 0)
+ * The Sound Check value is derived from the ReplayGain gain, as most taggers do.
+ */
+
+import type { GainTags } from "../core/types";
+
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+// Sound Check gain fields saturate here (roughly -18 dB of attenuation)
+const SOUNDCHECK_MAX = 65534;
+
+function hex8(n: number): string {
+  return n.toString(16).toUpperCase().padStart(8, "0");
+}
+
+export function soundCheckFromGain(gainDB: number, peak: number): string {
+  const power = Math.pow(10, -gainDB / 10);
+  const g1000 = Math.max(1, Math.min(SOUNDCHECK_MAX, Math.round(power * 1000)));
+  const g2500 = Math.max(1, Math.min(SOUNDCHECK_MAX, Math.round(power * 2500)));
+  const peakField = Math.max(0, Math.round(peak * 0x8000));
+  return [g1000, g1000, g2500, g2500, 0, 0, peakField, peakField, 0, 0]
+    .map(v => " " + hex8(v))
+    .join("");
+}
+
+/**
+ * Gain tags for a programme (track or album) from its gated loudness and true peak.
+ * Returns null when loudness could not be measured (e.g. digital silence).
+ */
+export function computeGainTags(integratedLUFS: number | null, truePeakDBTP: number | null): GainTags | null {
+  if (integratedLUFS === null || !isFinite(integratedLUFS)) return null;
+  const gainDB = Number((REPLAYGAIN_REFERENCE_LUFS - integratedLUFS).toFixed(2));
+  const peak = truePeakDBTP !== null && isFinite(truePeakDBTP)
+    ? Number(Math.pow(10, truePeakDBTP / 20).toFixed(6))
+    : 0;
+  return { gainDB, peak, iTunNORM: soundCheckFromGain(gainDB, peak) };
+}
+
+// Tag text as written by common taggers: "-3.21 dB" and "0.988553"
+export function formatReplayGainDB(gainDB: number): string {
+  return `${gainDB >= 0 ? "+" : ""}${gainDB.toFixed(2)} dB`;
+}
+
+export function formatReplayGainPeak(peak: number): string {
+  return peak.toFixed(6);
+}
@@ -0,0 +1,109 @@
+/**
+ * ACX / spoken-word validation
+ * Audiobook submission requirements per chapter file: RMS window, peak ceiling,
+ * noise floor, room tone at head and tail, file length, plus dialogue-gated
+ * loudness against the profile target.
+ */
+
+import type { AcxChapterCheck, AcxValidation, DeliveryProfile, TrackAnalysis } from '../../core/types.js';
+
+export const ACX_MIN_RMS_DBFS = -23;
+export const ACX_MAX_RMS_DBFS = -18;
+export const ACX_MAX_PEAK_DBFS = -3;
+export const ACX_MAX_NOISE_FLOOR_DB = -60;
+export const ACX_HEAD_ROOM_TONE_S: [number, number] = [0.5, 1];
+export const ACX_TAIL_ROOM_TONE_S: [number, number] = [1, 5];
+export const ACX_MAX_CHAPTER_SECONDS = 120 * 60;
+const ACX_SAMPLE_RATE = 44100;
+
+// Below this share of speech the file is probably music or an empty take
+const MIN_SPEECH_RATIO = 0.2;
+
+function checkChapter(t: TrackAnalysis, profile: DeliveryProfile): AcxChapterCheck {
+  const p = t.parameters;
+  const speech = t.speech ?? null;
+  const finite = (v: number | null) => v !== null && isFinite(v) ? v : null;
+  const rms = finite(t.dynamics.rmsDBFS);
+  const peak = finite(t.dynamics.peakDBFS);
+  const noise = p.noiseFloorDB ?? null;
+  const head = speech?.headRoomToneS ?? null;
+  const tail = speech?.tailRoomToneS ?? null;
+  const dialogue = speech?.dialogueGatedLUFS ?? null;
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (rms !== null && (rms < ACX_MIN_RMS_DBFS || rms > ACX_MAX_RMS_DBFS)) {
+    issues.push(`RMS ${rms.toFixed(1)} dBFS is outside the ACX range of ${ACX_MIN_RMS_DBFS} to ${ACX_MAX_RMS_DBFS} dBFS.`);
+  }
+  if (peak !== null && peak > ACX_MAX_PEAK_DBFS) {
+    issues.push(`Peak ${peak.toFixed(1)} dBFS exceeds the ACX ceiling of ${ACX_MAX_PEAK_DBFS} dBFS.`);
+  }
+  if (noise !== null && noise > ACX_MAX_NOISE_FLOOR_DB) {
+    issues.push(`Noise floor ${noise.toFixed(1)} dB exceeds the ACX limit of ${ACX_MAX_NOISE_FLOOR_DB} dB.`);
+  } else if (speech?.roomToneDBFS != null && speech.roomToneDBFS > ACX_MAX_NOISE_FLOOR_DB) {
+    // The quietest window passes, but the level between phrases is what a listener hears
+    warnings.push(`Room tone between phrases averages ${speech.roomToneDBFS.toFixed(1)} dBFS: above ${ACX_MAX_NOISE_FLOOR_DB} dB, check for noise or breaths.`);
+  }
+
+  if (!speech) {
+    warnings.push('No speech measurements: re-analyse with the ACX profile to check room tone and dialogue loudness.');
+  } else if (speech.speechRatio === null || speech.speechRatio < MIN_SPEECH_RATIO) {
+    warnings.push('Little or no speech detected: room tone and dialogue loudness could not be measured reliably.');
+  } else {
+    if (head !== null && (head < ACX_HEAD_ROOM_TONE_S[0] || head > ACX_HEAD_ROOM_TONE_S[1])) {
+      issues.push(`${head.toFixed(2)}s of room tone at the head: ACX requires ${ACX_HEAD_ROOM_TONE_S[0]}–${ACX_HEAD_ROOM_TONE_S[1]}s.`);
+    }
+    if (tail !== null && (tail < ACX_TAIL_ROOM_TONE_S[0] || tail > ACX_TAIL_ROOM_TONE_S[1])) {
+      issues.push(`${tail.toFixed(2)}s of room tone at the tail: ACX requires ${ACX_TAIL_ROOM_TONE_S[0]}–${ACX_TAIL_ROOM_TONE_S[1]}s.`);
+    }
+  }
+
+  if (p.durationSeconds > ACX_MAX_CHAPTER_SECONDS) {
+    issues.push(`File runs ${(p.durationSeconds / 60).toFixed(0)} minutes: ACX allows at most 120 minutes per file.`);
+  }
+  if (p.sampleRate !== ACX_SAMPLE_RATE) {
+    warnings.push(`Sample rate ${p.sampleRate ?? 'unknown'} Hz: ACX delivers 44.1 kHz MP3, resample before encoding.`);
+  }
+
+  if (dialogue !== null && profile.toleranceLU !== null && Math.abs(dialogue - profile.targetLUFS) > profile.toleranceLU) {
+    warnings.push(`Dialogue-gated loudness ${dialogue.toFixed(1)} LUFS is outside ${profile.targetLUFS} ±${profile.toleranceLU} LU (${profile.name}).`);
+  }
+
+  return {
+    trackNumber: t.trackNumber,
+    filename: p.filename,
+    pass: issues.length === 0,
+    rmsDBFS: rms,
+    peakDBFS: peak,
+    noiseFloorDB: noise,
+    headRoomToneS: head,
+    tailRoomToneS: tail,
+    dialogueGatedLUFS: dialogue,
+    issues,
+    warnings
+  };
+}
+
+/**
+ * Validate each track as an ACX chapter file.
+ * Ready only when every chapter passes and the set is consistent.
+ */
+export function evaluateAcx(tracks: TrackAnalysis[], profile: DeliveryProfile): AcxValidation {
+  const ordered = [...tracks].sort((a, b) => a.trackNumber - b.trackNumber);
+  const chapters = ordered.map(t => checkChapter(t, profile));
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const channelCounts = new Set(ordered.map(t => t.parameters.channels).filter(c => c !== undefined));
+  if (channelCounts.size > 1) {
+    issues.push('Chapters mix mono and stereo: ACX requires every file in the same channel format.');
+  }
+
+  return {
+    ready: issues.length === 0 && chapters.every(c => c.pass),
+    chapters,
+    passed: chapters.filter(c => c.pass).length,
+    issues,
+    warnings
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Broadcast loudness report
+ * Formal EBU R128 / ATSC A/85 pass/fail per programme: integrated loudness
+ * within tolerance of the target and maximum true peak, with LRA and the
+ * maximum momentary / short-term loudness reported for information.
+ */
+
+import type { BroadcastProgrammeReport, BroadcastValidation, DeliveryProfile, TrackAnalysis } from '../../core/types.js';
+
+// Loudness is reported to 0.1 LU, so the tolerance check is made at that resolution
+function round1(v: number): number {
+  return Math.round(v * 10) / 10 || 0;
+}
+
+function finite(v: number | null | undefined): number | null {
+  return v !== null && v !== undefined && isFinite(v) ? v : null;
+}
+
+function reportProgramme(t: TrackAnalysis, profile: DeliveryProfile): BroadcastProgrammeReport {
+  const l = t.loudness;
+  const integrated = finite(l.integratedLUFS);
+  const truePeak = finite(l.truePeakDBTP);
+  const deviation = integrated !== null ? round1(integrated - profile.targetLUFS) : null;
+  const integratedPass = deviation !== null &&
+    (profile.toleranceLU === null || Math.abs(deviation) <= profile.toleranceLU);
+  const truePeakPass = truePeak !== null && round1(truePeak) <= profile.maxTruePeakDBTP;
+
+  return {
+    trackNumber: t.trackNumber,
+    filename: t.parameters.filename,
+    pass: integratedPass && truePeakPass,
+    integratedLUFS: integrated,
+    deviationLU: deviation,
+    integratedPass,
+    maxTruePeakDBTP: truePeak,
+    truePeakPass,
+    loudnessRangeLU: finite(l.loudnessRangeLU),
+    maxMomentaryLUFS: finite(l.maxMomentaryLUFS),
+    maxShortTermLUFS: finite(l.maxShortTermLUFS)
+  };
+}
+
+/** Report every track as a programme against the profile's target, tolerance and true-peak limit */
+export function evaluateBroadcast(tracks: TrackAnalysis[], profile: DeliveryProfile): BroadcastValidation {
+  const programmes = [...tracks]
+    .sort((a, b) => a.trackNumber - b.trackNumber)
+    .map(t => reportProgramme(t, profile));
+  return {
+    ready: programmes.every(p => p.pass),
+    standard: profile.name,
+    targetLUFS: profile.targetLUFS,
+    toleranceLU: profile.toleranceLU,
+    maxTruePeakDBTP: profile.maxTruePeakDBTP,
+    programmes,
+    passed: programmes.filter(p => p.pass).length
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Built-in distribution rules
+ * The default ruleset, in evaluation order. Profile-bound thresholds
+ * (thresholdFrom) follow the selected delivery profile.
+ */
+
+import type { DistributionRule } from '../../core/types.js';
+
+// Encoder delay/padding accounts for a few frames; beyond this the header or stream is suspect
+const DURATION_MISMATCH_TOLERANCE_S = 0.5;
+
+// Declared BWF loudness must match measurement within EBU R128 tolerance
+const BEXT_LOUDNESS_TOLERANCE_LU = 0.5;
+const BEXT_TRUE_PEAK_TOLERANCE_DB = 0.5;
+
+export const BUILT_IN_RULES: DistributionRule[] = [
+  // === FORMAT QUALITY ===
+  {
+    id: 'format.sample-rate', label: 'Sample rate below 44.1 kHz',
+    metric: 'parameters.sampleRate', comparator: '<', threshold: 44100,
+    level: 'issue', severity: 0.8, confidence: 1, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Sample rate {value} Hz below 44.1 kHz.'
+  },
+  {
+    id: 'format.bit-depth', label: 'Bit depth below 16-bit',
+    metric: 'parameters.bitDepth', comparator: '<', threshold: 16,
+    level: 'issue', severity: 0.8, confidence: 1, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Bit depth {value}-bit below 16-bit.'
+  },
+  {
+    id: 'format.mono', label: 'Mono file',
+    metric: 'parameters.channels', comparator: '<', threshold: 2,
+    level: 'warning', severity: 0.2, confidence: 1, category: 'format', recommendationTier: 'contextual', enabled: true,
+    message: 'Mono file: consider stereo for streaming.'
+  },
+  {
+    id: 'format.effective-bit-depth', label: 'Low effective bit depth',
+    metric: 'parameters.effectiveBitDepth', comparator: '<', threshold: 14,
+    level: 'warning', severity: 0.4, confidence: 0.6, category: 'format', recommendationTier: 'contextual', enabled: true,
+    message: 'Low effective bit depth (~{value}-bit): may indicate lossy source or heavy limiting.'
+  },
+  {
+    id: 'format.dual-mono', label: 'Dual mono',
+    metric: 'parameters.isTrueStereo', comparator: '==', threshold: false,
+    when: [{ metric: 'parameters.channels', comparator: '==', threshold: 2 }],
+    level: 'warning', severity: 0.3, confidence: 0.95, category: 'format', recommendationTier: 'contextual', enabled: true,
+    message: 'Dual mono detected: L and R channels are identical.'
+  },
+  {
+    id: 'format.decode-warning', label: 'Decoded only in part',
+    metric: 'parameters.decodeWarnings', comparator: 'exists',
+    level: 'issue', severity: 0.8, confidence: 0.9, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: '{value}: the file is truncated or corrupt and the rest was not analysed. Re-export it.'
+  },
+  {
+    id: 'format.duration-mismatch', label: 'Container duration mismatch (s)',
+    metric: 'derived.durationMismatchAbsS', comparator: '>', threshold: DURATION_MISMATCH_TOLERANCE_S,
+    level: 'warning', severity: 0.5, confidence: 0.8, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Container duration ({parameters.containerDurationSeconds:2}s) differs from decoded audio ({parameters.durationSeconds:2}s) by {value:2}s: file may be truncated or have a corrupt header.'
+  },
+
+  // === LOUDNESS & PEAKS ===
+  {
+    id: 'loudness.codec-clip', label: 'Clips after lossy encoding (dBTP)',
+    metric: 'codec.predictedTruePeakDBTP', comparator: '>', threshold: 0,
+    level: 'issue', severity: 0.9, confidence: 0.8, category: 'loudness', recommendationTier: 'safe', enabled: true,
+    message: 'Predicted post-encode true peak {value:1} dBTP at {codec.worstBitrateKbps} kbps ({codec.overshootCount} overshoots): lossy encodes will clip. Keep true peak below {codec.safeCeilingDBTP:1} dBTP.'
+  },
+  {
+    // Proxy for codec clipping on analyses made without the emulator (older imports)
+    id: 'loudness.true-peak', label: 'True peak above ceiling (dBTP)',
+    metric: 'loudness.truePeakDBTP', comparator: '>', thresholdFrom: 'maxTruePeakDBTP',
+    when: [{ metric: 'codec', comparator: 'missing' }],
+    level: 'issue', severity: 0.9, confidence: 0.95, category: 'loudness', recommendationTier: 'safe', enabled: true,
+    message: 'True peak {value:1} dBTP exceeds {threshold:1} dBTP ({profile}; may clip on lossy encoding).'
+  },
+  {
+    id: 'loudness.target-tolerance', label: 'Loudness outside target tolerance (LU)',
+    metric: 'derived.loudnessDeviationLU', comparator: '>', thresholdFrom: 'toleranceLU',
+    level: 'issue', severity: 0.8, confidence: 0.95, category: 'loudness', recommendationTier: 'safe', enabled: true,
+    message: 'Integrated loudness {loudness.integratedLUFS:1} LUFS outside {profile.targetLUFS} ±{threshold} LU ({profile}).'
+  },
+  {
+    id: 'loudness.very-loud', label: 'Very loud (LUFS)',
+    metric: 'loudness.integratedLUFS', comparator: '>', thresholdFrom: 'maxLUFS',
+    level: 'warning', severity: 0.5, confidence: 0.9, category: 'loudness', recommendationTier: 'contextual', enabled: true,
+    message: 'Very loud ({value:1} LUFS): may cause listener fatigue and heavy attenuation on streaming.'
+  },
+  {
+    id: 'loudness.isp-margin', label: 'High ISP margin (dB)',
+    metric: 'loudness.ispMarginDB', comparator: '>', threshold: 0.5,
+    level: 'warning', severity: 0.4, confidence: 0.8, category: 'loudness', recommendationTier: 'safe', enabled: true,
+    message: 'High ISP margin ({value:2} dB): inter-sample peaks significantly exceed sample peak.'
+  },
+  {
+    id: 'loudness.lra-low', label: 'Low loudness range (LU)',
+    metric: 'loudness.loudnessRangeLU', comparator: '<', threshold: 3,
+    level: 'warning', severity: 0.4, confidence: 0.7, category: 'loudness', recommendationTier: 'contextual', enabled: true,
+    message: 'Low loudness range ({value:1} LU): track may sound flat/over-compressed.'
+  },
+  {
+    id: 'loudness.lra-high', label: 'High loudness range (LU)',
+    metric: 'loudness.loudnessRangeLU', comparator: '>', threshold: 20,
+    level: 'warning', severity: 0.3, confidence: 0.7, category: 'loudness', recommendationTier: 'contextual', enabled: true,
+    message: 'High loudness range ({value:1} LU): may need dynamic processing for streaming.'
+  },
+  {
+    id: 'loudness.persistent-peaks', label: 'Persistent peak clustering',
+    metric: 'loudness.peakClusteringType', comparator: '==', threshold: 'persistent',
+    level: 'warning', severity: 0.4, confidence: 0.7, category: 'loudness', recommendationTier: 'contextual', enabled: true,
+    message: 'Persistent peak clustering: peaks sit at the limiter ceiling throughout the track.'
+  },
+
+  // === DYNAMICS ===
+  {
+    id: 'dynamics.clipping', label: 'Digital clipping',
+    metric: 'dynamics.hasClipping', comparator: '==', threshold: true,
+    level: 'issue', severity: 1, confidence: 0.9, category: 'dynamics', recommendationTier: 'safe', enabled: true,
+    message: 'Digital clipping detected.'
+  },
+  {
+    id: 'dynamics.clip-events', label: 'Clipping events',
+    metric: 'dynamics.clipEventCount', comparator: '>', threshold: 10,
+    level: 'issue', severity: 0.9, confidence: 0.9, category: 'dynamics', recommendationTier: 'safe', enabled: true,
+    message: '{value} clipping events detected.'
+  },
+  {
+    id: 'dynamics.clip-plateaus', label: 'Clipped then attenuated',
+    metric: 'dynamics.clipPlateaus.clippedThenAttenuated', comparator: '==', threshold: true,
+    level: 'issue', severity: 0.9, confidence: 0.8, category: 'dynamics', recommendationTier: 'safe', enabled: true,
+    message: 'Flat-topped clipping at {dynamics.clipPlateaus.levelDBFS:1} dBFS ({dynamics.clipPlateaus.eventCount} plateaus): the source clipped before a gain change.'
+  },
+  {
+    id: 'dynamics.dc-offset', label: 'DC offset',
+    metric: 'derived.dcOffsetAbs', comparator: '>', threshold: 0.001,
+    level: 'warning', severity: 0.3, confidence: 0.95, category: 'dynamics', recommendationTier: 'safe', enabled: true,
+    message: 'DC offset detected ({dynamics.dcOffset:6}): may cause clicks on playback.'
+  },
+  {
+    id: 'dynamics.crest-factor', label: 'Low crest factor (dB)',
+    metric: 'dynamics.crestFactorDB', comparator: '<', threshold: 6,
+    level: 'warning', severity: 0.4, confidence: 0.7, category: 'dynamics', recommendationTier: 'contextual', enabled: true,
+    message: 'Low crest factor ({value:1} dB): heavily limited, may lack punch.'
+  },
+  {
+    id: 'dynamics.plr', label: 'Low PLR (dB)',
+    metric: 'dynamics.plrDB', comparator: '<', threshold: 8,
+    level: 'warning', severity: 0.4, confidence: 0.7, category: 'dynamics', recommendationTier: 'contextual', enabled: true,
+    message: 'Low PLR ({value:1} dB): track is heavily compressed.'
+  },
+  {
+    id: 'dynamics.limiter-activity', label: 'Time above 3 dB limiting (%)',
+    metric: 'dynamics.limiterActivity.pctAbove3dB', comparator: '>', threshold: 25,
+    level: 'warning', severity: 0.4, confidence: 0.6, category: 'dynamics', recommendationTier: 'contextual', enabled: true,
+    message: 'Limiter above 3 dB gain reduction for {value:0}% of the track (up to {dynamics.limiterActivity.maxGainReductionDB:1} dB).'
+  },
+
+  // === SILENCE ===
+  {
+    id: 'format.silence-start', label: 'Long silence at start (s)',
+    metric: 'derived.silenceAtStartS', comparator: '>', threshold: 1,
+    level: 'warning', severity: 0.2, confidence: 0.9, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Long silence at start ({value:1}s).'
+  },
+  {
+    id: 'format.silence-end', label: 'Long silence at end (s)',
+    metric: 'derived.silenceAtEndS', comparator: '>', threshold: 3,
+    level: 'warning', severity: 0.2, confidence: 0.9, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Long silence at end ({value:1}s).'
+  },
+
+  // === MAINS HUM ===
+  {
+    id: 'spectral.mains-hum', label: 'Mains hum',
+    metric: 'hum.detected', comparator: '==', threshold: true,
+    level: 'warning', severity: 0.5, confidence: 0.75, category: 'spectral', recommendationTier: 'safe', enabled: true,
+    message: 'Mains hum at {hum.frequencyHz:1} Hz with {hum.harmonicCount} harmonics, {hum.relativeToProgrammeDB:0} dB relative to the programme: exposed in quiet passages. Notch it or fix the ground loop.'
+  },
+
+  // === RENDER GLITCHES ===
+  {
+    id: 'format.clicks', label: 'Clicks / pops',
+    metric: 'glitches.clickCount', comparator: '>', threshold: 0,
+    level: 'issue', severity: 0.8, confidence: 0.7, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: '{value} click(s) / pop(s) at {derived.clickTimes}: check edits and crossfades.'
+  },
+  {
+    id: 'format.dropouts', label: 'Dropouts',
+    metric: 'glitches.dropoutCount', comparator: '>', threshold: 0,
+    level: 'issue', severity: 0.9, confidence: 0.85, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: '{value} dropout(s) of digital silence inside the music at {derived.dropoutTimes}: re-render the master.'
+  },
+  {
+    id: 'format.repeated-buffers', label: 'Repeated buffers',
+    metric: 'glitches.repeatCount', comparator: '>', threshold: 0,
+    level: 'issue', severity: 0.9, confidence: 0.8, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: '{value} repeated audio buffer(s) at {derived.repeatTimes}: a render or buffer underrun glitch; re-render the master.'
+  },
+
+  // === STEREO ===
+  {
+    id: 'stereo.negative-correlation', label: 'Negative stereo correlation',
+    metric: 'stereo.correlation', comparator: '<', threshold: 0,
+    level: 'warning', severity: 0.7, confidence: 0.85, category: 'stereo', recommendationTier: 'safe', enabled: true,
+    message: 'Negative stereo correlation ({value:2}): out-of-phase content may cause mono cancellation.'
+  },
+  {
+    id: 'stereo.worst-correlation', label: 'Severe phase issues in sections',
+    metric: 'stereo.correlationWorst1Pct', comparator: '<', threshold: -0.5,
+    level: 'warning', severity: 0.5, confidence: 0.7, category: 'stereo', recommendationTier: 'contextual', enabled: true,
+    message: 'Severe phase issues in some sections (worst 1% correlation: {value:2}).'
+  },
+  {
+    id: 'stereo.low-end-phase', label: 'Low frequency phase issues',
+    metric: 'stereo.lowEndPhaseIssues', comparator: '==', threshold: true,
+    level: 'warning', severity: 0.6, confidence: 0.75, category: 'stereo', recommendationTier: 'safe', enabled: true,
+    message: 'Low frequency phase issues detected: may cause bass loss on mono playback.'
+  },
+  {
+    id: 'stereo.sub-bass-mono', label: 'Wide sub-bass',
+    metric: 'stereo.subBassMonoCompatible', comparator: '==', threshold: false,
+    level: 'warning', severity: 0.5, confidence: 0.75, category: 'stereo', recommendationTier: 'safe', enabled: true,
+    message: 'Sub-bass is wide/out-of-phase: may cause translation issues on mono/club systems.'
+  },
+  {
+    id: 'stereo.mono-loss', label: 'Mono summing loss (dB)',
+    metric: 'stereo.monoLoudnessDiffDB', comparator: '<', threshold: -3,
+    level: 'warning', severity: 0.6, confidence: 0.8, category: 'stereo', recommendationTier: 'safe', enabled: true,
+    message: 'Significant mono summing loss ({value:1} dB): phase cancellation issues.'
+  },
+  {
+    id: 'stereo.balance', label: 'Unbalanced stereo (dB)',
+    metric: 'derived.balanceAbsDB', comparator: '>', threshold: 2,
+    level: 'warning', severity: 0.3, confidence: 0.85, category: 'stereo', recommendationTier: 'safe', enabled: true,
+    message: 'Unbalanced stereo: {value:1} dB {derived.balanceSide} heavy.'
+  },
+  {
+    id: 'stereo.low-band-width', label: 'Wide low frequencies (%)',
+    metric: 'stereo.lowBandWidthPct', comparator: '>', threshold: 50,
+    level: 'warning', severity: 0.3, confidence: 0.7, category: 'stereo', recommendationTier: 'contextual', enabled: true,
+    message: 'Wide low frequencies ({value:0}% side energy): may cause vinyl cutting or club system issues.'
+  },
+
+  // === SPECTRAL ===
+  {
+    id: 'spectral.harshness', label: 'High harshness index (%)',
+    metric: 'spectral.harshnessIndex', comparator: '>', threshold: 30,
+    level: 'warning', severity: 0.4, confidence: 0.6, category: 'spectral', recommendationTier: 'contextual', enabled: true,
+    message: 'High harshness index ({value:0}%): 2-5kHz region is prominent, may cause ear fatigue.'
+  },
+  {
+    id: 'spectral.sibilance', label: 'High sibilance index (%)',
+    metric: 'spectral.sibilanceIndex', comparator: '>', threshold: 25,
+    level: 'warning', severity: 0.3, confidence: 0.6, category: 'spectral', recommendationTier: 'contextual', enabled: true,
+    message: 'High sibilance index ({value:0}%): 5-10kHz region is prominent, may sound harsh.'
+  },
+  {
+    id: 'spectral.bright-tilt', label: 'Bright spectral tilt (dB/oct)',
+    metric: 'spectral.spectralTiltDBPerOctave', comparator: '>', threshold: 0,
+    level: 'warning', severity: 0.3, confidence: 0.6, category: 'spectral', recommendationTier: 'contextual', enabled: true,
+    message: 'Bright spectral tilt (+{value:1} dB/oct): may sound fatiguing over time.'
+  },
+  {
+    id: 'spectral.dark-tilt', label: 'Dark spectral tilt (dB/oct)',
+    metric: 'spectral.spectralTiltDBPerOctave', comparator: '<', threshold: -6,
+    level: 'warning', severity: 0.3, confidence: 0.6, category: 'spectral', recommendationTier: 'contextual', enabled: true,
+    message: 'Dark spectral tilt ({value:1} dB/oct): may lack clarity.'
+  },
+
+  // === METADATA ===
+  {
+    id: 'format.isrc-missing', label: 'No ISRC embedded',
+    metric: 'derived.isrcStatus', comparator: '==', threshold: 'missing',
+    level: 'warning', severity: 0.3, confidence: 1, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'No ISRC embedded: add one before delivery.'
+  },
+  {
+    id: 'format.isrc-malformed', label: 'Malformed ISRC',
+    metric: 'derived.isrcStatus', comparator: '==', threshold: 'malformed',
+    level: 'issue', severity: 0.7, confidence: 1, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'Malformed ISRC "{metadata.isrc}": expected CC-XXX-YY-NNNNN (12 characters).'
+  },
+  {
+    id: 'format.bext-loudness', label: 'Stale BWF loudness (LU)',
+    metric: 'derived.bextLoudnessDiffLU', comparator: '>', threshold: BEXT_LOUDNESS_TOLERANCE_LU,
+    level: 'warning', severity: 0.3, confidence: 0.9, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'BWF loudness {metadata.bext.loudnessValueLUFS:1} LUFS disagrees with measured {loudness.integratedLUFS:1} LUFS: bext chunk is stale.'
+  },
+  {
+    id: 'format.bext-true-peak', label: 'Stale BWF true peak (dB)',
+    metric: 'derived.bextTruePeakDiffDB', comparator: '>', threshold: BEXT_TRUE_PEAK_TOLERANCE_DB,
+    level: 'warning', severity: 0.3, confidence: 0.9, category: 'format', recommendationTier: 'safe', enabled: true,
+    message: 'BWF max true peak {metadata.bext.maxTruePeakDBTP:1} dBTP disagrees with measured {loudness.truePeakDBTP:1} dBTP: bext chunk is stale.'
+  },
+
+  // === STREAMING PLATFORM RISKS ===
+  {
+    // One finding per flagged platform on the profile's check list
+    id: 'streaming.platform-clip', label: 'Clips after platform normalization',
+    metric: 'derived.platformClipFlags', comparator: 'exists',
+    level: 'warning', severity: 0.6, confidence: 0.85, category: 'streaming', recommendationTier: 'safe', enabled: true,
+    message: '{value}'
+  }
+];
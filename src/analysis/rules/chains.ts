@@ -0,0 +1,111 @@
+/**
+ * Finding chains
+ * Links related findings into cause → effect chains (e.g. heavy limiting →
+ * low PLR → persistent peak clustering → ISP risk) and picks the primary concern.
+ */
+
+import type { AnalysisIssue } from '../../core/types.js';
+
+export interface CausalLink {
+  cause: string; // Rule id
+  effect: string; // Rule id
+  explanation: string;
+}
+
+// Ordered by priority: a finding links to the first matching partner only
+export const CAUSAL_LINKS: CausalLink[] = [
+  { cause: 'loudness.very-loud', effect: 'dynamics.crest-factor', explanation: 'Pushing loudness means limiting harder, which flattens peaks relative to RMS.' },
+  { cause: 'dynamics.crest-factor', effect: 'dynamics.plr', explanation: 'Heavy limiting lowers the peak-to-loudness ratio.' },
+  { cause: 'dynamics.plr', effect: 'loudness.persistent-peaks', explanation: 'With little PLR left, peaks sit at the limiter ceiling throughout the track.' },
+  { cause: 'loudness.persistent-peaks', effect: 'loudness.isp-margin', explanation: 'Dense ceiling-level peaks are where reconstruction overshoots (inter-sample peaks) occur.' },
+  { cause: 'loudness.isp-margin', effect: 'loudness.true-peak', explanation: 'Inter-sample overshoot pushes true peak above the sample-peak ceiling.' },
+  { cause: 'dynamics.clipping', effect: 'loudness.true-peak', explanation: 'Clipped waveforms overshoot further once reconstructed.' },
+  { cause: 'loudness.isp-margin', effect: 'loudness.codec-clip', explanation: 'Inter-sample overshoot leaves no headroom for the codec\'s own overshoot.' },
+  { cause: 'dynamics.limiter-activity', effect: 'dynamics.crest-factor', explanation: 'Sustained gain reduction flattens the peaks.' },
+  { cause: 'dynamics.clip-plateaus', effect: 'loudness.codec-clip', explanation: 'Flat tops are rebuilt by the codec with overshoots, even below full scale.' },
+  { cause: 'dynamics.clipping', effect: 'loudness.codec-clip', explanation: 'Clipped edges are rebuilt by the codec with large overshoots.' },
+  { cause: 'loudness.true-peak', effect: 'streaming.platform-clip', explanation: 'Little true-peak headroom clips after normalization or lossy encoding.' },
+  { cause: 'loudness.codec-clip', effect: 'streaming.platform-clip', explanation: 'A master that clips once encoded has no headroom for platform gain either.' },
+  { cause: 'stereo.negative-correlation', effect: 'stereo.mono-loss', explanation: 'Out-of-phase content cancels when summed to mono.' },
+  { cause: 'stereo.low-band-width', effect: 'stereo.sub-bass-mono', explanation: 'Wide low frequencies are rarely phase-coherent below 100 Hz.' },
+  { cause: 'stereo.sub-bass-mono', effect: 'stereo.low-end-phase', explanation: 'Out-of-phase sub-bass shows up as low-end phase anomalies.' },
+  { cause: 'stereo.low-end-phase', effect: 'stereo.mono-loss', explanation: 'Low-end phase problems remove bass energy in mono.' },
+  { cause: 'spectral.bright-tilt', effect: 'spectral.harshness', explanation: 'A bright overall balance raises the 2-5 kHz region.' },
+  { cause: 'spectral.harshness', effect: 'spectral.sibilance', explanation: 'Upper-mid emphasis often extends into the sibilance band.' }
+];
+
+/** Ranking weight: issues outrank warnings, then severity × confidence */
+function weight(finding: AnalysisIssue, isIssue: boolean): number {
+  return (isIssue ? 1 : 0) + finding.severity * finding.confidence;
+}
+
+/**
+ * Copy findings with causedBy/leadsTo set to the rule id of the linked finding.
+ * Only findings present on the same track are linked.
+ */
+export function linkFindings(
+  issues: AnalysisIssue[],
+  warnings: AnalysisIssue[]
+): { issues: AnalysisIssue[]; warnings: AnalysisIssue[] } {
+  const present = new Set([...issues, ...warnings].map(f => f.ruleId).filter((id): id is string => !!id));
+
+  const link = (finding: AnalysisIssue): AnalysisIssue => {
+    if (!finding.ruleId) return finding;
+    const linked = { ...finding };
+    const cause = CAUSAL_LINKS.find(l => l.effect === finding.ruleId && present.has(l.cause));
+    const effect = CAUSAL_LINKS.find(l => l.cause === finding.ruleId && present.has(l.effect));
+    if (cause) linked.causedBy = cause.cause;
+    if (effect) linked.leadsTo = effect.effect;
+    return linked;
+  };
+
+  return { issues: issues.map(link), warnings: warnings.map(link) };
+}
+
+/**
+ * Follow a finding back to its root cause, then forward along leadsTo.
+ * Each rule appears once, so chains always terminate.
+ */
+export function findingChain(finding: AnalysisIssue, all: AnalysisIssue[]): AnalysisIssue[] {
+  const byRule = new Map(all.filter(f => f.ruleId).map(f => [f.ruleId!, f]));
+  const seen = new Set<AnalysisIssue>([finding]);
+
+  let root = finding;
+  while (root.causedBy && byRule.has(root.causedBy) && !seen.has(byRule.get(root.causedBy)!)) {
+    root = byRule.get(root.causedBy)!;
+    seen.add(root);
+  }
+
+  const chain = [root];
+  const visited = new Set<AnalysisIssue>([root]);
+  let current = root;
+  while (current.leadsTo && byRule.has(current.leadsTo) && !visited.has(byRule.get(current.leadsTo)!)) {
+    current = byRule.get(current.leadsTo)!;
+    visited.add(current);
+    chain.push(current);
+  }
+  return chain;
+}
+
+/** Most important finding; issues always outrank warnings */
+export function primaryFinding(issues: AnalysisIssue[], warnings: AnalysisIssue[]): AnalysisIssue | null {
+  let best: AnalysisIssue | null = null;
+  let bestWeight = -Infinity;
+  for (const [list, isIssue] of [[issues, true], [warnings, false]] as const) {
+    for (const finding of list) {
+      const w = weight(finding, isIssue);
+      if (w > bestWeight) {
+        best = finding;
+        bestWeight = w;
+      }
+    }
+  }
+  return best;
+}
+
+/** Short form for chain displays: the message up to its explanation */
+export function findingHeadline(finding: AnalysisIssue): string {
+  const colon = finding.message.indexOf(': ');
+  const head = colon > 0 ? finding.message.slice(0, colon) : finding.message;
+  return head.replace(/\.$/, '');
+}
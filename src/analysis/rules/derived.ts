@@ -0,0 +1,90 @@
+/**
+ * Derived rule metrics
+ * Values rules need that aren't stored directly on the track
+ * (absolute values, unit conversions, cross-checks), exposed as "derived.*".
+ */
+
+import type { DeliveryProfile, GlitchEvent, TrackAnalysis } from '../../core/types.js';
+import { normalizeISRC } from '../metadata/index.js';
+import { findPlatform } from '../musical/streaming.js';
+
+export interface DerivedMetrics {
+  durationMismatchAbsS: number | null;
+  loudnessDeviationLU: number | null; // |integrated - profile target|
+  dcOffsetAbs: number | null;
+  silenceAtStartS: number | null;
+  silenceAtEndS: number | null;
+  balanceAbsDB: number | null;
+  balanceSide: 'left' | 'right' | null;
+  isrcStatus: 'missing' | 'malformed' | 'valid' | null; // null when no tags were read
+  bextLoudnessDiffLU: number | null;
+  bextTruePeakDiffDB: number | null;
+  // "Platform: flag" for clip risks on the platforms the profile checks
+  platformClipFlags: string[];
+  // "m:ss.ss" timestamps of the first render glitches of each type
+  clickTimes: string | null;
+  dropoutTimes: string | null;
+  repeatTimes: string | null;
+}
+
+const GLITCH_TIMES_SHOWN = 3;
+
+function glitchTimes(events: GlitchEvent[] | undefined, type: GlitchEvent['type']): string | null {
+  const times = (events ?? []).filter(e => e.type === type).map(e => {
+    const m = Math.floor(e.timestamp / 60);
+    return `${m}:${(e.timestamp - m * 60).toFixed(2).padStart(5, '0')}`;
+  });
+  if (!times.length) return null;
+  return times.slice(0, GLITCH_TIMES_SHOWN).join(', ') + (times.length > GLITCH_TIMES_SHOWN ? ', …' : '');
+}
+
+function abs(v: number | null | undefined): number | null {
+  return v === null || v === undefined ? null : Math.abs(v);
+}
+
+export function deriveMetrics(track: TrackAnalysis, profile: DeliveryProfile): DerivedMetrics {
+  const p = track.parameters;
+  const l = track.loudness;
+  const d = track.dynamics;
+  const st = track.stereo;
+  const meta = track.metadata;
+  const bext = meta?.bext ?? null;
+
+  const integrated = l.integratedLUFS !== null && isFinite(l.integratedLUFS) ? l.integratedLUFS : null;
+
+  let isrcStatus: DerivedMetrics['isrcStatus'] = null;
+  if (meta) {
+    if (meta.isrc === null) isrcStatus = 'missing';
+    else isrcStatus = normalizeISRC(meta.isrc) === null ? 'malformed' : 'valid';
+  }
+
+  const streaming = track.streamingSimulation;
+  const platformClipFlags: string[] = [];
+  for (const name of profile.platformChecks) {
+    const platform = findPlatform(streaming, name);
+    for (const flag of platform?.riskFlags ?? []) {
+      if (flag.includes('clip')) platformClipFlags.push(`${name}: ${flag}`);
+    }
+  }
+
+  return {
+    durationMismatchAbsS: abs(p.durationMismatchSeconds),
+    loudnessDeviationLU: integrated !== null ? Math.abs(integrated - profile.targetLUFS) : null,
+    dcOffsetAbs: abs(d.dcOffset),
+    silenceAtStartS: d.silenceAtStartMs !== null && d.silenceAtStartMs !== undefined ? d.silenceAtStartMs / 1000 : null,
+    silenceAtEndS: d.silenceAtEndMs !== null && d.silenceAtEndMs !== undefined ? d.silenceAtEndMs / 1000 : null,
+    balanceAbsDB: abs(st.balanceDB),
+    balanceSide: st.balanceDB === null || st.balanceDB === undefined ? null : st.balanceDB > 0 ? 'right' : 'left',
+    isrcStatus,
+    bextLoudnessDiffLU: bext?.loudnessValueLUFS != null && integrated !== null
+      ? Math.abs(bext.loudnessValueLUFS - integrated)
+      : null,
+    bextTruePeakDiffDB: bext?.maxTruePeakDBTP != null && l.truePeakDBTP !== null
+      ? Math.abs(bext.maxTruePeakDBTP - l.truePeakDBTP)
+      : null,
+    platformClipFlags,
+    clickTimes: glitchTimes(track.glitches?.events, 'click'),
+    dropoutTimes: glitchTimes(track.glitches?.events, 'dropout'),
+    repeatTimes: glitchTimes(track.glitches?.events, 'repeat')
+  };
+}
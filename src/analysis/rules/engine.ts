@@ -0,0 +1,249 @@
+/**
+ * Rule engine
+ * Evaluates declarative distribution rules against a track and renders
+ * their message templates into structured findings.
+ */
+
+import type {
+  AnalysisIssue,
+  DeliveryProfile,
+  DistributionRule,
+  RuleComparator,
+  RuleCondition,
+  RuleSet,
+  TrackAnalysis
+} from '../../core/types.js';
+import { deriveMetrics, type DerivedMetrics } from './derived.js';
+
+export const RULESET_FORMAT = 'auralgeek-ruleset';
+export const RULESET_VERSION = 1;
+
+const COMPARATORS: RuleComparator[] = ['>', '>=', '<', '<=', '==', '!=', 'exists', 'missing'];
+const LEVELS: DistributionRule['level'][] = ['issue', 'warning'];
+const CATEGORIES: AnalysisIssue['category'][] = ['format', 'loudness', 'dynamics', 'stereo', 'spectral', 'streaming'];
+const TIERS: NonNullable<AnalysisIssue['recommendationTier']>[] = ['safe', 'contextual', 'aggressive'];
+const PROFILE_FIELDS: NonNullable<DistributionRule['thresholdFrom']>[] = ['targetLUFS', 'toleranceLU', 'maxTruePeakDBTP', 'maxLUFS'];
+
+type Threshold = RuleCondition['threshold'];
+
+interface RuleContext {
+  track: TrackAnalysis;
+  derived: DerivedMetrics;
+  profile: DeliveryProfile;
+}
+
+export interface RuleEvaluation {
+  ready: boolean;
+  issues: AnalysisIssue[];
+  warnings: AnalysisIssue[];
+}
+
+function isTrackField(track: TrackAnalysis, key: string): key is keyof TrackAnalysis {
+  return Object.hasOwn(track, key);
+}
+
+/** Look up a dotted metric path; "derived.*" and "profile.*" resolve outside the track */
+export function resolvePath(ctx: RuleContext, path: string): unknown {
+  const [head, ...rest] = path.split('.');
+  let value: unknown =
+    head === 'derived' ? ctx.derived :
+    head === 'profile' ? ctx.profile :
+    isTrackField(ctx.track, head) ? ctx.track[head] :
+    undefined;
+
+  for (const key of rest) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Missing values never fire a rule, except "exists" / "missing" which test exactly that */
+export function compare(value: unknown, comparator: RuleComparator, threshold: Threshold): boolean {
+  if (comparator === 'exists') return value !== null && value !== undefined;
+  if (comparator === 'missing') return value === null || value === undefined;
+  if (value === null || value === undefined || threshold === null || threshold === undefined) return false;
+
+  switch (comparator) {
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+
+  if (typeof value !== 'number' || typeof threshold !== 'number' || isNaN(value)) return false;
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+function formatValue(value: unknown, decimals: number | null): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number' && decimals !== null) return value.toFixed(decimals);
+  return String(value);
+}
+
+/** Fill "{value}", "{threshold:1}", "{profile}" and "{some.metric.path:2}" placeholders */
+export function renderTemplate(
+  template: string,
+  ctx: RuleContext,
+  value: unknown,
+  threshold: Threshold
+): string {
+  return template.replace(/\{([\w.]+)(?::(\d))?\}/g, (_, key: string, decimals?: string) => {
+    const places = decimals !== undefined ? Number(decimals) : null;
+    if (key === 'value') return formatValue(value, places);
+    if (key === 'threshold') return formatValue(threshold, places);
+    if (key === 'profile') return ctx.profile.name;
+    return formatValue(resolvePath(ctx, key), places);
+  });
+}
+
+function resolveThreshold(rule: DistributionRule, profile: DeliveryProfile): Threshold {
+  return rule.thresholdFrom ? profile[rule.thresholdFrom] : rule.threshold;
+}
+
+function toFinding(rule: DistributionRule, message: string): AnalysisIssue {
+  const finding: AnalysisIssue = {
+    message,
+    severity: rule.severity,
+    confidence: rule.confidence,
+    category: rule.category,
+    ruleId: rule.id
+  };
+  if (rule.recommendationTier) finding.recommendationTier = rule.recommendationTier;
+  return finding;
+}
+
+export function runRules(track: TrackAnalysis, profile: DeliveryProfile, rules: DistributionRule[]): RuleEvaluation {
+  const ctx: RuleContext = { track, derived: deriveMetrics(track, profile), profile };
+  const issues: AnalysisIssue[] = [];
+  const warnings: AnalysisIssue[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const threshold = resolveThreshold(rule, profile);
+    // A profile without the bound field (e.g. no loudness tolerance) switches the rule off
+    if (rule.thresholdFrom && (threshold === null || threshold === undefined)) continue;
+
+    const conditionsHold = (rule.when ?? []).every(c =>
+      compare(resolvePath(ctx, c.metric), c.comparator, c.threshold)
+    );
+    if (!conditionsHold) continue;
+
+    const metric = resolvePath(ctx, rule.metric);
+    // List-valued metrics produce one finding per matching element
+    const values = Array.isArray(metric) ? metric : [metric];
+    const target = rule.level === 'issue' ? issues : warnings;
+    for (const value of values) {
+      if (compare(value, rule.comparator, threshold)) {
+        target.push(toFinding(rule, renderTemplate(rule.message, ctx, value, threshold)));
+      }
+    }
+  }
+
+  return { ready: issues.length === 0, issues, warnings };
+}
+
+// === Ruleset import / export ===
+
+function fail(index: number, field: string, reason: string): never {
+  throw new Error(`Rule ${index + 1}: "${field}" ${reason}.`);
+}
+
+function isThreshold(value: unknown): value is Threshold {
+  return value === null || value === undefined ||
+    typeof value === 'string' || typeof value === 'boolean' ||
+    (typeof value === 'number' && isFinite(value));
+}
+
+function parseCondition(raw: Record<string, unknown>, index: number): RuleCondition {
+  if (typeof raw.metric !== 'string' || raw.metric.trim() === '') fail(index, 'metric', 'must be a metric path');
+  if (!COMPARATORS.includes(raw.comparator as RuleComparator)) fail(index, 'comparator', `must be one of ${COMPARATORS.join(' ')}`);
+  if (!isThreshold(raw.threshold)) fail(index, 'threshold', 'must be a number, string, boolean or null');
+  const condition: RuleCondition = { metric: raw.metric.trim(), comparator: raw.comparator as RuleComparator };
+  if (raw.threshold !== undefined) condition.threshold = raw.threshold;
+  return condition;
+}
+
+function parseUnit(raw: unknown, index: number, field: string): number {
+  if (typeof raw !== 'number' || !(raw >= 0 && raw <= 1)) fail(index, field, 'must be between 0 and 1');
+  return raw;
+}
+
+/** Validate one rule from user JSON */
+export function parseRule(raw: unknown, index = 0): DistributionRule {
+  if (typeof raw !== 'object' || raw === null) throw new Error(`Rule ${index + 1} must be an object.`);
+  const r = raw as Record<string, unknown>;
+
+  if (typeof r.id !== 'string' || r.id.trim() === '') fail(index, 'id', 'is required');
+  if (!LEVELS.includes(r.level as DistributionRule['level'])) fail(index, 'level', 'must be "issue" or "warning"');
+  if (!CATEGORIES.includes(r.category as AnalysisIssue['category'])) fail(index, 'category', `must be one of ${CATEGORIES.join(', ')}`);
+  if (r.recommendationTier !== undefined && !TIERS.includes(r.recommendationTier as NonNullable<AnalysisIssue['recommendationTier']>)) {
+    fail(index, 'recommendationTier', `must be one of ${TIERS.join(', ')}`);
+  }
+  if (r.thresholdFrom !== undefined && !PROFILE_FIELDS.includes(r.thresholdFrom as NonNullable<DistributionRule['thresholdFrom']>)) {
+    fail(index, 'thresholdFrom', `must be one of ${PROFILE_FIELDS.join(', ')}`);
+  }
+  if (typeof r.message !== 'string' || r.message.trim() === '') fail(index, 'message', 'is required');
+  if (r.when !== undefined && !Array.isArray(r.when)) fail(index, 'when', 'must be a list of conditions');
+
+  const rule: DistributionRule = {
+    ...parseCondition(r, index),
+    id: r.id.trim(),
+    label: typeof r.label === 'string' && r.label.trim() !== '' ? r.label.trim() : r.id.trim(),
+    enabled: r.enabled !== false,
+    level: r.level as DistributionRule['level'],
+    severity: parseUnit(r.severity, index, 'severity'),
+    confidence: parseUnit(r.confidence, index, 'confidence'),
+    category: r.category as AnalysisIssue['category'],
+    message: r.message
+  };
+  if (r.thresholdFrom !== undefined) rule.thresholdFrom = r.thresholdFrom as DistributionRule['thresholdFrom'];
+  if (r.recommendationTier !== undefined) rule.recommendationTier = r.recommendationTier as AnalysisIssue['recommendationTier'];
+  if (Array.isArray(r.when)) {
+    rule.when = r.when.map(c => {
+      if (typeof c !== 'object' || c === null) fail(index, 'when', 'must contain condition objects');
+      return parseCondition(c as Record<string, unknown>, index);
+    });
+  }
+  return rule;
+}
+
+/** Parse an exported ruleset (or a bare rule array) */
+export function parseRuleSet(raw: unknown): DistributionRule[] {
+  let list: unknown = raw;
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    const set = raw as Record<string, unknown>;
+    if (set.format !== RULESET_FORMAT) throw new Error('Not an Auralgeek ruleset.');
+    if (typeof set.version !== 'number' || set.version > RULESET_VERSION) {
+      throw new Error(`Unsupported ruleset version ${String(set.version)}.`);
+    }
+    list = set.rules;
+  }
+  if (!Array.isArray(list)) throw new Error('Ruleset must contain a "rules" list.');
+
+  const rules = list.map((r, i) => parseRule(r, i));
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.id)) throw new Error(`Duplicate rule id "${rule.id}".`);
+    seen.add(rule.id);
+  }
+  return rules;
+}
+
+export function serializeRuleSet(rules: DistributionRule[]): RuleSet {
+  return { format: RULESET_FORMAT, version: RULESET_VERSION, rules };
+}
+
+/** Built-ins in their shipped order (with the user's overrides), then the user's own rules */
+export function mergeWithBuiltIns(rules: DistributionRule[], builtIns: DistributionRule[]): DistributionRule[] {
+  const byId = new Map(rules.map(r => [r.id, r]));
+  const builtInIds = new Set(builtIns.map(r => r.id));
+  return [
+    ...builtIns.map(r => byId.get(r.id) ?? r),
+    ...rules.filter(r => !builtInIds.has(r.id))
+  ];
+}
@@ -0,0 +1,53 @@
+/**
+ * Distribution rules
+ * Declarative, user-editable readiness checks evaluated against a delivery profile.
+ */
+
+import type { AnalysisIssue, DeliveryProfile, DistributionRule, TrackAnalysis } from '../../core/types.js';
+import { DEFAULT_PROFILE } from '../../core/profiles.js';
+import { BUILT_IN_RULES } from './builtin.js';
+import { runRules } from './engine.js';
+import { linkFindings, primaryFinding } from './chains.js';
+
+export { BUILT_IN_RULES } from './builtin.js';
+export { CAUSAL_LINKS, findingChain, findingHeadline, linkFindings, primaryFinding, type CausalLink } from './chains.js';
+export { deriveMetrics, type DerivedMetrics } from './derived.js';
+export { evaluateRedBook, CD_FRAME_SAMPLES, MAX_PROGRAM_SECONDS, MAX_TRACKS, MIN_TRACK_SECONDS } from './redbook.js';
+export { evaluateBroadcast } from './broadcast.js';
+export { evaluateAcx, ACX_MAX_NOISE_FLOOR_DB, ACX_MAX_PEAK_DBFS, ACX_MAX_RMS_DBFS, ACX_MIN_RMS_DBFS } from './acx.js';
+export { evaluateVinyl, suggestSideSplit, vinylSideCapacity, describeVinylFormat, DEFAULT_VINYL_FORMAT } from './vinyl.js';
+export {
+  RULESET_FORMAT,
+  RULESET_VERSION,
+  compare,
+  mergeWithBuiltIns,
+  parseRule,
+  parseRuleSet,
+  runRules,
+  serializeRuleSet,
+  type RuleEvaluation
+} from './engine.js';
+
+export function evaluateDistribution(
+  track: TrackAnalysis,
+  profile: DeliveryProfile = DEFAULT_PROFILE,
+  rules: DistributionRule[] = BUILT_IN_RULES
+): {
+  ready: boolean;
+  issues: string[];
+  warnings: string[];
+  enhancedIssues: AnalysisIssue[];
+  enhancedWarnings: AnalysisIssue[];
+  primaryConcern: string | null;
+} {
+  const res = runRules(track, profile, rules);
+  const linked = linkFindings(res.issues, res.warnings);
+  return {
+    ready: res.ready,
+    issues: linked.issues.map(i => i.message),
+    warnings: linked.warnings.map(w => w.message),
+    enhancedIssues: linked.issues,
+    enhancedWarnings: linked.warnings,
+    primaryConcern: primaryFinding(linked.issues, linked.warnings)?.message ?? null
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Red Book CD / DDP premaster validation
+ * Disc-level checks the distribution rules don't cover: exact 44.1 kHz / 16-bit
+ * format, track and disc length limits, pregap and gap silence, CD frame
+ * alignment and clicks at track boundaries.
+ */
+
+import type { RedBookGap, RedBookTrackCheck, RedBookValidation, TrackAnalysis } from '../../core/types.js';
+import { formatDuration } from '../../core/format.js';
+
+export const REDBOOK_SAMPLE_RATE = 44100;
+export const REDBOOK_BIT_DEPTH = 16;
+export const CD_FRAME_SAMPLES = 588; // 1/75 s at 44.1 kHz
+export const MIN_TRACK_SECONDS = 4;
+export const MAX_TRACKS = 99;
+export const MAX_PROGRAM_SECONDS = 79 * 60 + 57;
+export const DISC_PREGAP_SECONDS = 2; // Mandatory index 0 before track 1
+
+// Audio silence at the start of track 1 stacks on top of the disc pregap
+const MAX_LEADING_SILENCE_S = 2;
+// Longer gaps between tracks are usually leftover tails rather than intended spacing
+const MAX_GAP_SECONDS = 4;
+// A boundary sample louder than this produces an audible step when tracks are played separately
+const EDGE_CLICK_DBFS = -60;
+
+function checkTrack(t: TrackAnalysis): RedBookTrackCheck {
+  const p = t.parameters;
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (p.sampleRate !== REDBOOK_SAMPLE_RATE) {
+    issues.push(`Sample rate ${p.sampleRate ?? 'unknown'} Hz: Red Book requires exactly 44.1 kHz.`);
+  }
+  if (p.bitDepth !== REDBOOK_BIT_DEPTH || p.sampleFormat === 'float') {
+    const depth = p.bitDepth !== undefined ? `${p.bitDepth}-bit${p.sampleFormat === 'float' ? ' float' : ''}` : 'Unknown bit depth';
+    issues.push(`${depth}: Red Book requires 16-bit integer (dither down before DDP authoring).`);
+  }
+  if (p.durationSeconds < MIN_TRACK_SECONDS) {
+    issues.push(`Track is ${p.durationSeconds.toFixed(2)}s: Red Book minimum is ${MIN_TRACK_SECONDS}s.`);
+  }
+
+  const sampleCount = p.sampleCount ?? null;
+  const remainder = sampleCount !== null ? sampleCount % CD_FRAME_SAMPLES : 0;
+  const padSamples = remainder > 0 ? CD_FRAME_SAMPLES - remainder : 0;
+  if (padSamples > 0) {
+    warnings.push(`${sampleCount} samples is not a multiple of ${CD_FRAME_SAMPLES} (CD frame): authoring will pad ${padSamples} samples.`);
+  }
+
+  if (p.startSampleDBFS != null && p.startSampleDBFS > EDGE_CLICK_DBFS) {
+    warnings.push(`Starts on a non-zero sample (${p.startSampleDBFS.toFixed(1)} dBFS): may click at the track boundary.`);
+  }
+  if (p.endSampleDBFS != null && p.endSampleDBFS > EDGE_CLICK_DBFS) {
+    warnings.push(`Ends on a non-zero sample (${p.endSampleDBFS.toFixed(1)} dBFS): may click at the track boundary.`);
+  }
+
+  return {
+    trackNumber: t.trackNumber,
+    filename: p.filename,
+    sampleCount,
+    frameAligned: sampleCount !== null ? remainder === 0 : null,
+    padSamples,
+    issues,
+    warnings
+  };
+}
+
+/**
+ * Validate an album as a CD programme in track order.
+ * Ready only when no track or disc-level issue remains.
+ */
+export function evaluateRedBook(tracks: TrackAnalysis[]): RedBookValidation {
+  const ordered = [...tracks].sort((a, b) => a.trackNumber - b.trackNumber);
+  const checks = ordered.map(checkTrack);
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (ordered.length > MAX_TRACKS) {
+    issues.push(`${ordered.length} tracks: a CD holds at most ${MAX_TRACKS}.`);
+  }
+
+  const programSeconds = DISC_PREGAP_SECONDS + ordered.reduce((sum, t) => sum + t.parameters.durationSeconds, 0);
+  if (programSeconds > MAX_PROGRAM_SECONDS) {
+    issues.push(`Running time ${formatDuration(programSeconds)} (incl. ${DISC_PREGAP_SECONDS}s pregap) exceeds the 79:57 Red Book limit.`);
+  }
+
+  const startMs = ordered[0]?.dynamics.silenceAtStartMs ?? null;
+  const leadingSilenceSeconds = startMs !== null ? startMs / 1000 : null;
+  if (leadingSilenceSeconds !== null && leadingSilenceSeconds > MAX_LEADING_SILENCE_S) {
+    warnings.push(`Track ${ordered[0].trackNumber} has ${leadingSilenceSeconds.toFixed(1)}s of leading silence on top of the ${DISC_PREGAP_SECONDS}s disc pregap.`);
+  }
+
+  const gaps: RedBookGap[] = [];
+  for (let i = 0; i + 1 < ordered.length; i++) {
+    const tail = ordered[i].dynamics.silenceAtEndMs;
+    const head = ordered[i + 1].dynamics.silenceAtStartMs;
+    if (tail === null || head === null) continue;
+    const gap: RedBookGap = {
+      fromTrack: ordered[i].trackNumber,
+      toTrack: ordered[i + 1].trackNumber,
+      silenceSeconds: (tail + head) / 1000
+    };
+    gaps.push(gap);
+    if (gap.silenceSeconds > MAX_GAP_SECONDS) {
+      warnings.push(`${gap.silenceSeconds.toFixed(1)}s of silence between tracks ${gap.fromTrack} and ${gap.toTrack}.`);
+    }
+  }
+
+  return {
+    ready: issues.length === 0 && checks.every(c => c.issues.length === 0),
+    trackCount: ordered.length,
+    programSeconds,
+    leadingSilenceSeconds,
+    gaps,
+    tracks: checks,
+    issues,
+    warnings
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Vinyl premaster validation
+ * Cutting-lathe checks the distribution rules don't cover: vertical modulation
+ * from low-frequency side content, HF energy above 10 kHz, sibilance, and
+ * per-side running time with a side split for the album order.
+ */
+
+import type { TrackAnalysis, VinylFormat, VinylSide, VinylTrackCheck, VinylValidation } from '../../core/types.js';
+import { formatDuration } from '../../core/format.js';
+
+export const DEFAULT_VINYL_FORMAT: VinylFormat = { sizeInches: 12, rpm: 33 };
+
+// Minutes per side: [full-level recommendation, practical maximum]
+const SIDE_MINUTES: Record<VinylFormat['sizeInches'], Record<VinylFormat['rpm'], [number, number]>> = {
+  12: { 33: [18, 22], 45: [12, 15] },
+  10: { 33: [12, 15], 45: [9, 11] },
+  7: { 33: [6, 7.5], 45: [4.5, 6] }
+};
+
+// Low side peak: above this the stylus may lift out of the groove
+const LOW_SIDE_ISSUE_DBFS = -12;
+const LOW_SIDE_WARN_DBFS = -20;
+// 1 s RMS above 10 kHz: cutter heads overheat or the lathe's HF limiter engages
+const HF_ISSUE_DBFS = -12;
+const HF_WARN_DBFS = -18;
+// Stricter than the streaming rule: sibilance distorts on playback, worst near the label
+const SIBILANCE_WARN_PCT = 20;
+
+export function vinylSideCapacity(format: VinylFormat): { recommendedSeconds: number; maxSeconds: number } {
+  const [recommended, max] = SIDE_MINUTES[format.sizeInches][format.rpm];
+  return { recommendedSeconds: recommended * 60, maxSeconds: max * 60 };
+}
+
+export function describeVinylFormat(format: VinylFormat): string {
+  return `${format.sizeInches}" ${format.rpm === 33 ? '33⅓' : '45'} rpm`;
+}
+
+/**
+ * Split durations (in order) into at most `sides` contiguous groups so the
+ * longest group is as short as possible. Returns track indices per group;
+ * ties fill earlier sides first, so spare sides end up empty at the end.
+ */
+function partition(durations: number[], sides: number): number[][] {
+  const n = durations.length;
+  const prefix = [0];
+  for (const d of durations) prefix.push(prefix[prefix.length - 1] + d);
+
+  // best[k][i]: smallest longest side for the first i tracks on k sides
+  const best: number[][] = Array.from({ length: sides + 1 }, () => new Array(n + 1).fill(Infinity));
+  const cut: number[][] = Array.from({ length: sides + 1 }, () => new Array(n + 1).fill(0));
+  best[0][0] = 0;
+  for (let k = 1; k <= sides; k++) {
+    for (let i = 0; i <= n; i++) {
+      for (let j = 0; j <= i; j++) {
+        const longest = Math.max(best[k - 1][j], prefix[i] - prefix[j]);
+        if (longest <= best[k][i]) {
+          best[k][i] = longest;
+          cut[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const groups: number[][] = [];
+  let end = n;
+  for (let k = sides; k >= 1; k--) {
+    const start = cut[k][end];
+    groups.unshift(Array.from({ length: end - start }, (_, i) => start + i));
+    end = start;
+  }
+  return groups;
+}
+
+function sideLabel(index: number): string {
+  return String.fromCharCode(65 + (index % 26));
+}
+
+/**
+ * Suggest a side split in album order: the fewest records whose sides all fit
+ * the recommended length, else the practical maximum, else one track per side.
+ */
+export function suggestSideSplit(tracks: TrackAnalysis[], format: VinylFormat): VinylSide[] {
+  const { recommendedSeconds, maxSeconds } = vinylSideCapacity(format);
+  const durations = tracks.map(t => t.parameters.durationSeconds);
+  const maxSides = Math.max(2, durations.length + (durations.length % 2));
+
+  const candidates: number[][][] = [];
+  for (let sides = 2; sides <= maxSides; sides += 2) candidates.push(partition(durations, sides));
+  const longest = (groups: number[][]) => Math.max(...groups.map(g => g.reduce((s, i) => s + durations[i], 0)));
+  const chosen =
+    candidates.find(g => longest(g) <= recommendedSeconds) ??
+    candidates.find(g => longest(g) <= maxSeconds) ??
+    candidates[candidates.length - 1];
+
+  return chosen.map((group, i) => ({
+    label: sideLabel(i),
+    trackNumbers: group.map(idx => tracks[idx].trackNumber),
+    seconds: group.reduce((s, idx) => s + durations[idx], 0)
+  }));
+}
+
+function at(seconds: number | null | undefined): string {
+  return seconds !== null && seconds !== undefined ? ` at ${formatDuration(seconds)}` : '';
+}
+
+function checkTrack(t: TrackAnalysis, innerGrooveSide: string | null): VinylTrackCheck {
+  const v = t.vinyl;
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (!v) {
+    warnings.push('No vinyl measurements: re-analyse with a vinyl profile to check low-end width and HF energy.');
+  }
+  const lowSide = v?.lowSidePeakDBFS ?? null;
+  if (lowSide !== null && lowSide > LOW_SIDE_ISSUE_DBFS) {
+    issues.push(`Low-frequency side content peaks at ${lowSide.toFixed(1)} dBFS${at(v?.lowSideMaxTimestamp)}: excessive vertical modulation, mono the bass below 150 Hz.`);
+  } else if (lowSide !== null && lowSide > LOW_SIDE_WARN_DBFS) {
+    warnings.push(`Low-frequency side content peaks at ${lowSide.toFixed(1)} dBFS${at(v?.lowSideMaxTimestamp)}: the cutting engineer may need to narrow the low end.`);
+  }
+  if (t.stereo.lowEndPhaseIssues) {
+    warnings.push('Out-of-phase low end: cuts as vertical motion and cancels on mono playback.');
+  }
+
+  const hf = v?.hfMaxShortTermDBFS ?? null;
+  if (hf !== null && hf > HF_ISSUE_DBFS) {
+    issues.push(`HF energy above 10 kHz reaches ${hf.toFixed(1)} dBFS RMS${at(v?.hfMaxTimestamp)}: beyond cutting-lathe limits, de-ess or reduce level.`);
+  } else if (hf !== null && hf > HF_WARN_DBFS) {
+    warnings.push(`HF energy above 10 kHz reaches ${hf.toFixed(1)} dBFS RMS${at(v?.hfMaxTimestamp)}: may trigger the lathe's HF limiter.`);
+  }
+
+  const sibilance = t.spectral?.sibilanceIndex ?? null;
+  if (sibilance !== null && sibilance > SIBILANCE_WARN_PCT) {
+    const inner = innerGrooveSide ? ` (last on side ${innerGrooveSide}, where inner-groove distortion is worst)` : '';
+    warnings.push(`Sibilance index ${sibilance.toFixed(0)}%${inner}: esses distort on playback, de-ess before cutting.`);
+  }
+
+  return { trackNumber: t.trackNumber, filename: t.parameters.filename, issues, warnings };
+}
+
+/**
+ * Validate an album for lacquer cutting in track order.
+ * Ready only when no track or side-length issue remains.
+ */
+export function evaluateVinyl(tracks: TrackAnalysis[], format: VinylFormat = DEFAULT_VINYL_FORMAT): VinylValidation {
+  const ordered = [...tracks].sort((a, b) => a.trackNumber - b.trackNumber);
+  const { recommendedSeconds, maxSeconds } = vinylSideCapacity(format);
+  const sides = suggestSideSplit(ordered, format);
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  // Tracks closing a side sit at the smallest groove radius
+  const lastOnSide = new Map(sides.filter(s => s.trackNumbers.length > 0).map(s => [s.trackNumbers[s.trackNumbers.length - 1], s.label]));
+  const checks = ordered.map(t => checkTrack(t, lastOnSide.get(t.trackNumber) ?? null));
+
+  const name = describeVinylFormat(format);
+  for (const t of ordered) {
+    if (t.parameters.durationSeconds > maxSeconds) {
+      issues.push(`Track ${t.trackNumber} (${formatDuration(t.parameters.durationSeconds)}) is longer than a ${name} side (${formatDuration(maxSeconds)} max).`);
+    }
+  }
+  for (const side of sides) {
+    if (side.seconds > maxSeconds) {
+      // A single over-long track is already reported above
+      if (side.trackNumbers.length > 1) issues.push(`Side ${side.label} runs ${formatDuration(side.seconds)}: exceeds the ${formatDuration(maxSeconds)} maximum for ${name}.`);
+    } else if (side.seconds > recommendedSeconds) {
+      warnings.push(`Side ${side.label} runs ${formatDuration(side.seconds)}: over ${formatDuration(recommendedSeconds)} the side must be cut quieter.`);
+    }
+  }
+
+  return {
+    ready: issues.length === 0 && checks.every(c => c.issues.length === 0),
+    format,
+    recommendedSideSeconds: recommendedSeconds,
+    maxSideSeconds: maxSeconds,
+    totalSeconds: ordered.reduce((sum, t) => sum + t.parameters.durationSeconds, 0),
+    sides,
+    records: sides.length / 2,
+    tracks: checks,
+    issues,
+    warnings
+  };
+}
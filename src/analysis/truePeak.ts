@@ -50,7 +50,7 @@ const PHASE_COEFFS = [
   ])
 ];
 
-const FILTER_TAPS = 12;
+export const FILTER_TAPS = 12;
 
 /**
  * Compute true peak using ITU-R BS.1770-4 4x polyphase FIR interpolation
@@ -94,6 +94,27 @@ export function computeTruePeakMono(samples: Float32Array): number {
   return maxPeak;
 }
 
+/**
+ * Largest of the four interpolated values the polyphase filter produces at
+ * output index `m`, which lie between samples m - 6 and m - 5. Each input
+ * sample can be scaled by `scale[k]` (a gain envelope) on the way in.
+ * Needs FILTER_TAPS - 1 <= m < samples.length.
+ */
+export function interpolatedPeakAt(samples: Float32Array, m: number, scale?: Float32Array): number {
+  let maxPeak = 0;
+  for (let phase = 0; phase < 4; phase++) {
+    const coeffs = PHASE_COEFFS[phase];
+    let interpolated = 0;
+    for (let tap = 0; tap < FILTER_TAPS; tap++) {
+      const k = m - tap;
+      interpolated += (scale ? samples[k] * scale[k] : samples[k]) * coeffs[tap];
+    }
+    const abs = Math.abs(interpolated);
+    if (abs > maxPeak) maxPeak = abs;
+  }
+  return maxPeak;
+}
+
 /**
  * Compute true peak for stereo or multi-channel audio
  *
@@ -0,0 +1,119 @@
+/**
+ * CLI argument parsing
+ * Flags map onto GateConfig so thresholds can come from a JSON file,
+ * the command line, or both (flags win).
+ */
+
+import { parseArgs } from 'node:util';
+import type { GateConfig } from './gate.js';
+
+export interface CliOptions {
+  inputs: string[];
+  out?: string;
+  albumName?: string;
+  configPath?: string;
+  profile?: string; // Built-in profile id or path to a profile JSON file
+  rulesPath?: string; // Ruleset JSON merged over the built-in rules
+  meterLogDir?: string; // Directory for per-track meter log CSVs and the broadcast report
+  gate: GateConfig;
+  recursive: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: auralgeek [options] <file|dir>...
+
+Analyzes WAV/RF64/AIFF/FLAC files as one album and writes the AlbumAnalysis JSON.
+Exits 1 when the album is not distribution ready or a gate rule fails, 2 on usage errors.
+Negative thresholds need the --flag=value form (e.g. --max-true-peak=-1).
+
+Options:
+  -o, --out <file>            Write JSON to a file instead of stdout
+  -a, --album <name>          Album name (default: input directory name)
+  -c, --config <file>         Gate thresholds as JSON (see GateConfig)
+  -p, --profile <id|file>     Delivery profile: streaming-14 (default), apple-16, ebu-r128,
+                              ebu-r128-live, atsc-a85, podcast-16, cd-loud, vinyl-12-33,
+                              vinyl-7-45, acx-audiobook, or a DeliveryProfile JSON file
+      --rules <file>          Ruleset JSON exported from the app (overrides built-in rules by id)
+      --meter-logs <dir>      Write 100 ms momentary/short-term CSV logs per track (and the
+                              broadcast report CSV for broadcast profiles) to this directory
+  -r, --recursive             Descend into subdirectories
+      --max-true-peak=<dBTP>  Fail tracks above this true peak
+      --min-lufs=<LUFS>       Fail tracks quieter than this
+      --max-lufs=<LUFS>       Fail tracks louder than this
+      --min-lra=<LU>          Fail tracks with less loudness range
+      --max-lra=<LU>          Fail tracks with more loudness range
+      --max-spread=<LU>       Fail when album loudness spread exceeds this
+      --min-score=<0-10>      Fail when the overall score is lower
+      --fail-on-warnings      Fail when any track has warnings
+      --allow-not-ready       Don't fail on distributionReady=false alone
+  -q, --quiet                 No progress output on stderr (gate failures still print)
+  -h, --help                  Show this help`;
+
+const NUMERIC_FLAGS = [
+  ['max-true-peak', 'maxTruePeakDBTP'],
+  ['min-lufs', 'minIntegratedLUFS'],
+  ['max-lufs', 'maxIntegratedLUFS'],
+  ['min-lra', 'minLRA'],
+  ['max-lra', 'maxLRA'],
+  ['max-spread', 'maxAlbumLoudnessSpread'],
+  ['min-score', 'minScore']
+] as const;
+
+/**
+ * Parse argv (without the node and script entries).
+ * Throws on unknown flags or non-numeric thresholds.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      album: { type: 'string', short: 'a' },
+      config: { type: 'string', short: 'c' },
+      profile: { type: 'string', short: 'p' },
+      rules: { type: 'string' },
+      'meter-logs': { type: 'string' },
+      recursive: { type: 'boolean', short: 'r' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+      'fail-on-warnings': { type: 'boolean' },
+      'allow-not-ready': { type: 'boolean' },
+      'max-true-peak': { type: 'string' },
+      'min-lufs': { type: 'string' },
+      'max-lufs': { type: 'string' },
+      'min-lra': { type: 'string' },
+      'max-lra': { type: 'string' },
+      'max-spread': { type: 'string' },
+      'min-score': { type: 'string' }
+    }
+  });
+
+  const gate: GateConfig = {};
+  for (const [flag, key] of NUMERIC_FLAGS) {
+    const raw = values[flag];
+    if (typeof raw !== 'string') continue;
+    const n = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(n)) {
+      throw new Error(`--${flag} expects a number, got "${raw}"`);
+    }
+    gate[key] = n;
+  }
+  if (values['fail-on-warnings']) gate.failOnWarnings = true;
+  if (values['allow-not-ready']) gate.requireDistributionReady = false;
+
+  return {
+    inputs: positionals,
+    out: values.out,
+    albumName: values.album,
+    configPath: values.config,
+    profile: values.profile,
+    rulesPath: values.rules,
+    meterLogDir: values['meter-logs'],
+    gate,
+    recursive: Boolean(values.recursive),
+    quiet: Boolean(values.quiet),
+    help: Boolean(values.help)
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * CLI entry point
+ * Built to dist-cli/auralgeek.js by `npm run build:cli`.
+ */
+
+import { main } from './index.js';
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (e) => {
+    console.error(e);
+    process.exitCode = 2;
+  }
+);
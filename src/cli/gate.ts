@@ -0,0 +1,123 @@
+/**
+ * Release gate
+ * Configurable pass/fail thresholds applied to a finished AlbumAnalysis,
+ * on top of the built-in distribution readiness rules.
+ */
+
+import type { AlbumAnalysis } from '../core/types.js';
+
+export interface GateConfig {
+  /** Fail when the album is not distribution ready (default true) */
+  requireDistributionReady?: boolean;
+  /** Fail when any file could not be decoded or analyzed (default true) */
+  failOnFailedTracks?: boolean;
+  /** Fail when any track carries a warning */
+  failOnWarnings?: boolean;
+  maxTruePeakDBTP?: number;
+  minIntegratedLUFS?: number;
+  maxIntegratedLUFS?: number;
+  minLRA?: number;
+  maxLRA?: number;
+  /** Max integrated loudness spread across the album (LU) */
+  maxAlbumLoudnessSpread?: number;
+  minScore?: number;
+}
+
+export interface GateResult {
+  passed: boolean;
+  failures: string[];
+}
+
+export const DEFAULT_GATE_CONFIG: GateConfig = {
+  requireDistributionReady: true,
+  failOnFailedTracks: true,
+  failOnWarnings: false
+};
+
+const GATE_KEYS: (keyof GateConfig)[] = [
+  'requireDistributionReady', 'failOnFailedTracks', 'failOnWarnings',
+  'maxTruePeakDBTP', 'minIntegratedLUFS', 'maxIntegratedLUFS',
+  'minLRA', 'maxLRA', 'maxAlbumLoudnessSpread', 'minScore'
+];
+
+/**
+ * Validate a gate config loaded from JSON.
+ * Unknown keys and wrongly typed values are rejected so typos don't silently pass CI.
+ */
+export function parseGateConfig(raw: unknown): GateConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Gate config must be a JSON object');
+  }
+  const config: GateConfig = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!GATE_KEYS.includes(key as keyof GateConfig)) {
+      throw new Error(`Unknown gate option "${key}"`);
+    }
+    const isFlag = key.startsWith('require') || key.startsWith('failOn');
+    if (isFlag ? typeof value !== 'boolean' : typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Gate option "${key}" must be a ${isFlag ? 'boolean' : 'number'}`);
+    }
+    (config as Record<string, unknown>)[key] = value;
+  }
+  return config;
+}
+
+function fmt(v: number): string {
+  return v.toFixed(1);
+}
+
+/**
+ * Evaluate the gate against an album. Each failing rule contributes one message,
+ * with per-track failures prefixed by track number and filename.
+ */
+export function evaluateGate(album: AlbumAnalysis, config: GateConfig = DEFAULT_GATE_CONFIG): GateResult {
+  const c = { ...DEFAULT_GATE_CONFIG, ...config };
+  const failures: string[] = [];
+
+  if (c.requireDistributionReady && !album.distributionReady) {
+    failures.push(`Album is not distribution ready: ${album.distributionReadyNote ?? 'see track issues'}`);
+  }
+
+  if (c.failOnFailedTracks) {
+    for (const f of album.failedTracks) {
+      failures.push(`Track ${f.trackNumber} (${f.filename}): ${f.stage} failed: ${f.reason}`);
+    }
+  }
+
+  for (const t of album.tracks) {
+    const label = `Track ${t.trackNumber} (${t.parameters.filename})`;
+    const lufs = t.loudness.integratedLUFS;
+    const tp = t.loudness.truePeakDBTP;
+    const lra = t.loudness.loudnessRangeLU;
+
+    if (c.maxTruePeakDBTP !== undefined && tp !== null && tp > c.maxTruePeakDBTP) {
+      failures.push(`${label}: true peak ${fmt(tp)} dBTP exceeds ${fmt(c.maxTruePeakDBTP)} dBTP`);
+    }
+    if (c.minIntegratedLUFS !== undefined && lufs !== null && lufs < c.minIntegratedLUFS) {
+      failures.push(`${label}: integrated ${fmt(lufs)} LUFS below ${fmt(c.minIntegratedLUFS)} LUFS`);
+    }
+    if (c.maxIntegratedLUFS !== undefined && lufs !== null && lufs > c.maxIntegratedLUFS) {
+      failures.push(`${label}: integrated ${fmt(lufs)} LUFS above ${fmt(c.maxIntegratedLUFS)} LUFS`);
+    }
+    if (c.minLRA !== undefined && lra !== null && lra < c.minLRA) {
+      failures.push(`${label}: LRA ${fmt(lra)} LU below ${fmt(c.minLRA)} LU`);
+    }
+    if (c.maxLRA !== undefined && lra !== null && lra > c.maxLRA) {
+      failures.push(`${label}: LRA ${fmt(lra)} LU above ${fmt(c.maxLRA)} LU`);
+    }
+    if (c.failOnWarnings && t.warnings.length > 0) {
+      failures.push(`${label}: ${t.warnings.length} warning(s)`);
+    }
+  }
+
+  const spread = album.summary.albumLoudnessSpread;
+  if (c.maxAlbumLoudnessSpread !== undefined && spread !== undefined && spread > c.maxAlbumLoudnessSpread) {
+    failures.push(`Album loudness spread ${fmt(spread)} LU exceeds ${fmt(c.maxAlbumLoudnessSpread)} LU`);
+  }
+
+  if (c.minScore !== undefined && album.overallScore < c.minScore) {
+    failures.push(`Overall score ${fmt(album.overallScore)} below ${fmt(c.minScore)}`);
+  }
+
+  return { passed: failures.length === 0, failures };
+}
@@ -0,0 +1,212 @@
+/**
+ * Headless CLI
+ * Runs the same analyzeTrack / computeAlbumStats pipeline as the browser app
+ * on local files, decoding natively (no Web Audio) so it can gate releases in CI.
+ */
+
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import type { DeliveryProfile, DistributionRule, FailedTrack, TrackAnalysis } from '../core/types.js';
+import { DEFAULT_PROFILE, findProfile, parseDeliveryProfile } from '../core/profiles.js';
+import { decodeNative } from '../analysis/decoders/index.js';
+import { parseEmbeddedMetadata } from '../analysis/metadata/index.js';
+import { BUILT_IN_RULES, mergeWithBuiltIns, parseRuleSet } from '../analysis/rules/index.js';
+import { initEbuR128 } from '../analysis/loudness.js';
+import { initWasmFFT } from '../utils/fft-wasm.js';
+import { analyzeTrack } from '../workers/trackAnalyzer.js';
+import { computeAlbumStats } from '../workers/albumAnalyzer.js';
+import { buildBroadcastReportCsv, buildMeterLogCsv, meterLogFileName } from '../analysis/export/index.js';
+import { parseCliArgs, USAGE, type CliOptions } from './args.js';
+import { evaluateGate, parseGateConfig, type GateConfig } from './gate.js';
+
+export { parseCliArgs, type CliOptions } from './args.js';
+export { evaluateGate, parseGateConfig, DEFAULT_GATE_CONFIG, type GateConfig, type GateResult } from './gate.js';
+
+const EXIT_PASS = 0;
+const EXIT_GATE_FAILED = 1;
+const EXIT_USAGE = 2;
+
+// Only containers the native decoders handle; lossy files need Web Audio
+const NATIVE_EXT = /\.(wav|wave|rf64|bw64|flac|aiff|aif|aifc)$/i;
+
+async function collectFiles(inputs: string[], recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) await walk(path);
+      } else if (NATIVE_EXT.test(entry.name)) {
+        files.push(path);
+      }
+    }
+  };
+
+  for (const input of inputs) {
+    const path = resolve(input);
+    const info = await stat(path);
+    if (info.isDirectory()) {
+      await walk(path);
+    } else {
+      // Explicit files are always attempted; unsupported ones are reported as failed
+      files.push(path);
+    }
+  }
+
+  // Same track order as the browser app
+  return files.sort((a, b) => basename(a).localeCompare(basename(b)));
+}
+
+async function loadGateConfig(configPath: string | undefined, overrides: GateConfig): Promise<GateConfig> {
+  if (!configPath) return overrides;
+  const raw = JSON.parse(await readFile(configPath, 'utf8'));
+  return { ...parseGateConfig(raw), ...overrides };
+}
+
+async function loadRules(rulesPath: string | undefined): Promise<DistributionRule[]> {
+  if (!rulesPath) return BUILT_IN_RULES;
+  const rules = parseRuleSet(JSON.parse(await readFile(rulesPath, 'utf8')));
+  return mergeWithBuiltIns(rules, BUILT_IN_RULES);
+}
+
+async function loadProfile(profile: string | undefined): Promise<DeliveryProfile> {
+  if (!profile) return DEFAULT_PROFILE;
+  if (/\.json$/i.test(profile)) return parseDeliveryProfile(JSON.parse(await readFile(profile, 'utf8')));
+  const found = findProfile(profile);
+  if (!found) throw new Error(`Unknown profile "${profile}"`);
+  return found;
+}
+
+/**
+ * Run the CLI and return the process exit code.
+ */
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (e: any) {
+    console.error(`${e?.message ?? e}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_PASS;
+  }
+  if (options.inputs.length === 0) {
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const log = (msg: string) => {
+    if (!options.quiet) console.error(msg);
+  };
+
+  let gate: GateConfig;
+  let profile: DeliveryProfile;
+  let rules: DistributionRule[];
+  let files: string[];
+  try {
+    gate = await loadGateConfig(options.configPath, options.gate);
+    profile = await loadProfile(options.profile);
+    rules = await loadRules(options.rulesPath);
+    files = await collectFiles(options.inputs, options.recursive);
+  } catch (e: any) {
+    console.error(String(e?.message ?? e));
+    return EXIT_USAGE;
+  }
+
+  if (files.length === 0) {
+    console.error('No WAV/AIFF/FLAC files found');
+    return EXIT_USAGE;
+  }
+
+  const [wasmFFT, wasmEbuR128] = await Promise.all([initWasmFFT(), initEbuR128()]);
+  log(`Profile: ${profile.name}`);
+  if (options.rulesPath) log(`Rules: ${options.rulesPath} (${rules.filter(r => r.enabled).length} enabled)`);
+  log(`WASM: FFT ${wasmFFT ? 'on' : 'off (JS fallback)'}, EBU R128 ${wasmEbuR128 ? 'on' : 'off (JS fallback)'}`);
+
+  const tracks: TrackAnalysis[] = [];
+  const failedTracks: FailedTrack[] = [];
+  let totalSeconds = 0;
+  let totalSizeMB = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const path = files[i];
+    const filename = basename(path);
+    const trackNumber = i + 1;
+    log(`[${trackNumber}/${files.length}] ${filename}`);
+
+    let buffer: ArrayBuffer;
+    let decoded: ReturnType<typeof decodeNative>;
+    try {
+      const bytes = await readFile(path);
+      buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+      decoded = decodeNative(buffer);
+      if (!decoded) throw new Error('Unsupported format (native decoding covers WAV, RF64, AIFF and FLAC)');
+      for (const warning of decoded.warnings ?? []) log(`  ${warning}`);
+    } catch (e: any) {
+      failedTracks.push({ trackNumber, filename, stage: 'decode', reason: String(e?.message ?? e) });
+      log(`  decode failed: ${e?.message ?? e}`);
+      continue;
+    }
+
+    try {
+      const track = analyzeTrack({
+        filename,
+        filesize: buffer.byteLength,
+        sampleRate: decoded.sampleRate,
+        channels: decoded.channels,
+        channelData: decoded.channelData,
+        bitDepth: decoded.bitDepth,
+        sampleFormat: decoded.sampleFormat,
+        channelMask: decoded.channelMask,
+        decoder: 'native',
+        decodeWarnings: decoded.warnings,
+        metadata: parseEmbeddedMetadata(buffer)
+      }, trackNumber, undefined, profile, rules);
+      tracks.push(track);
+      totalSeconds += track.parameters.durationSeconds;
+      totalSizeMB += track.parameters.filesizeMB;
+    } catch (e: any) {
+      failedTracks.push({ trackNumber, filename, stage: 'analysis', reason: String(e?.message ?? e) });
+      log(`  analysis failed: ${e?.message ?? e}`);
+    }
+  }
+
+  const singleDir = options.inputs.length === 1 && (await stat(options.inputs[0])).isDirectory();
+  const albumName = options.albumName ?? (singleDir ? basename(resolve(options.inputs[0])) : 'Album');
+  const album = computeAlbumStats(albumName, tracks, totalSeconds, totalSizeMB, failedTracks, profile, rules);
+  const json = JSON.stringify(album, null, 2);
+
+  if (options.out) {
+    await writeFile(options.out, json + '\n', 'utf8');
+    log(`Wrote ${options.out}`);
+  } else {
+    process.stdout.write(json + '\n');
+  }
+
+  if (options.meterLogDir) {
+    await mkdir(options.meterLogDir, { recursive: true });
+    for (const track of album.tracks) {
+      const csv = buildMeterLogCsv(track);
+      if (csv) await writeFile(join(options.meterLogDir, meterLogFileName(track)), csv, 'utf8');
+    }
+    if (album.broadcast) {
+      await writeFile(join(options.meterLogDir, 'broadcast-report.csv'), buildBroadcastReportCsv(album.broadcast), 'utf8');
+    }
+    log(`Wrote meter logs to ${options.meterLogDir}`);
+  }
+
+  const result = evaluateGate(album, gate);
+  if (result.passed) {
+    log(`PASS: ${album.tracks.length} track(s), score ${album.overallScore}`);
+    return EXIT_PASS;
+  }
+  // Failures are the answer, not progress: --quiet keeps them
+  for (const failure of result.failures) console.error(`FAIL: ${failure}`);
+  return EXIT_GATE_FAILED;
+}
+
@@ -0,0 +1,205 @@
+/**
+ * Delivery target profiles
+ * One profile drives the loudness correction, distribution rules, scoring
+ * and the target simulation, so a broadcast master isn't judged as a Spotify one.
+ */
+
+import type { DeliveryProfile, ValidationMode, VinylFormat } from './types.js';
+
+export const VALIDATION_MODES: ValidationMode[] = ['redbook', 'vinyl', 'acx', 'broadcast'];
+export const VINYL_SIZES: VinylFormat['sizeInches'][] = [12, 10, 7];
+export const VINYL_SPEEDS: VinylFormat['rpm'][] = [33, 45];
+// Modes whose masters are delivered as PCM and never pass through a lossy encoder
+const LOSSLESS_MODES: ValidationMode[] = ['redbook', 'vinyl', 'broadcast'];
+
+export const BUILT_IN_PROFILES: DeliveryProfile[] = [
+  {
+    id: 'streaming-14',
+    name: 'Streaming -14',
+    targetLUFS: -14,
+    toleranceLU: null,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -9,
+    platformChecks: ['Spotify', 'Spotify Loud'],
+    builtIn: true
+  },
+  {
+    id: 'apple-16',
+    name: 'Apple -16',
+    targetLUFS: -16,
+    toleranceLU: null,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -9,
+    platformChecks: ['Apple Music'],
+    builtIn: true
+  },
+  {
+    // EBU R128 (2020): ±0.5 LU for file-based programmes
+    id: 'ebu-r128',
+    name: 'EBU R128 broadcast -23',
+    targetLUFS: -23,
+    toleranceLU: 0.5,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -18,
+    platformChecks: [],
+    validationMode: 'broadcast',
+    builtIn: true
+  },
+  {
+    // EBU R128: ±1 LU where exact normalisation isn't achievable (live programmes)
+    id: 'ebu-r128-live',
+    name: 'EBU R128 live -23',
+    targetLUFS: -23,
+    toleranceLU: 1,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -18,
+    platformChecks: [],
+    validationMode: 'broadcast',
+    builtIn: true
+  },
+  {
+    // ATSC A/85: -24 LKFS ±2 dB, -2 dBTP
+    id: 'atsc-a85',
+    name: 'ATSC A/85 -24',
+    targetLUFS: -24,
+    toleranceLU: 2,
+    maxTruePeakDBTP: -2,
+    maxLUFS: -18,
+    platformChecks: [],
+    validationMode: 'broadcast',
+    builtIn: true
+  },
+  {
+    id: 'podcast-16',
+    name: 'Podcast -16',
+    targetLUFS: -16,
+    toleranceLU: 1,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -12,
+    platformChecks: [],
+    spokenWord: true,
+    builtIn: true
+  },
+  {
+    // Physical media is never normalised; only true overs are a defect
+    id: 'cd-loud',
+    name: 'CD loud master',
+    targetLUFS: -9,
+    toleranceLU: null,
+    maxTruePeakDBTP: -0.1,
+    maxLUFS: -6,
+    platformChecks: [],
+    validationMode: 'redbook',
+    builtIn: true
+  },
+  {
+    // Lacquer cutting: level is set by groove space, not normalisation
+    id: 'vinyl-12-33',
+    name: 'Vinyl 12" LP',
+    targetLUFS: -14,
+    toleranceLU: null,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -10,
+    platformChecks: [],
+    validationMode: 'vinyl',
+    vinylFormat: { sizeInches: 12, rpm: 33 },
+    builtIn: true
+  },
+  {
+    id: 'vinyl-7-45',
+    name: 'Vinyl 7" single',
+    targetLUFS: -14,
+    toleranceLU: null,
+    maxTruePeakDBTP: -1,
+    maxLUFS: -10,
+    platformChecks: [],
+    validationMode: 'vinyl',
+    vinylFormat: { sizeInches: 7, rpm: 45 },
+    builtIn: true
+  },
+  {
+    // ACX audiobooks: RMS -23..-18 dBFS and -3 dB peaks are checked by the ACX mode itself
+    id: 'acx-audiobook',
+    name: 'ACX audiobook',
+    targetLUFS: -20,
+    toleranceLU: null,
+    maxTruePeakDBTP: -3,
+    maxLUFS: -16,
+    platformChecks: [],
+    validationMode: 'acx',
+    builtIn: true
+  }
+];
+
+export const DEFAULT_PROFILE: DeliveryProfile = BUILT_IN_PROFILES[0];
+
+/** Look up a profile by id among built-ins and the given custom profiles */
+export function findProfile(id: string, custom: DeliveryProfile[] = []): DeliveryProfile | undefined {
+  return BUILT_IN_PROFILES.find(p => p.id === id) ?? custom.find(p => p.id === id);
+}
+
+/** Whether masters for this profile end up lossy-encoded (streaming, podcast, ACX MP3) */
+export function isLossyDelivery(profile: DeliveryProfile): boolean {
+  return !profile.validationMode || !LOSSLESS_MODES.includes(profile.validationMode);
+}
+
+/** Whether tracks for this profile get speech segmentation and dialogue-gated loudness */
+export function isSpokenWord(profile: DeliveryProfile): boolean {
+  return profile.spokenWord === true || profile.validationMode === 'acx';
+}
+
+function requireNumber(raw: Record<string, unknown>, key: string): number {
+  const v = raw[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new Error(`Profile "${key}" must be a number`);
+  return v;
+}
+
+/**
+ * Validate a user profile (from localStorage, a file or the editor).
+ * Throws with a message naming the bad field.
+ */
+export function parseDeliveryProfile(raw: unknown): DeliveryProfile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error('Profile must be an object');
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string' || r.id.trim() === '') throw new Error('Profile "id" is required');
+  if (typeof r.name !== 'string' || r.name.trim() === '') throw new Error('Profile "name" is required');
+
+  const toleranceLU = r.toleranceLU === null || r.toleranceLU === undefined ? null : requireNumber(r, 'toleranceLU');
+  if (toleranceLU !== null && toleranceLU <= 0) throw new Error('Profile "toleranceLU" must be positive');
+
+  const platformChecks = r.platformChecks ?? [];
+  if (!Array.isArray(platformChecks) || !platformChecks.every(p => typeof p === 'string')) {
+    throw new Error('Profile "platformChecks" must be a list of platform names');
+  }
+
+  if (r.validationMode !== undefined && r.validationMode !== null && !VALIDATION_MODES.includes(r.validationMode as ValidationMode)) {
+    throw new Error(`Profile "validationMode" must be one of ${VALIDATION_MODES.join(', ')}`);
+  }
+
+  if (r.spokenWord !== undefined && typeof r.spokenWord !== 'boolean') {
+    throw new Error('Profile "spokenWord" must be true or false');
+  }
+
+  let vinylFormat: VinylFormat | undefined;
+  if (r.vinylFormat !== undefined && r.vinylFormat !== null) {
+    const f = r.vinylFormat as Record<string, unknown>;
+    if (typeof f !== 'object' || !VINYL_SIZES.includes(f.sizeInches as VinylFormat['sizeInches']) || !VINYL_SPEEDS.includes(f.rpm as VinylFormat['rpm'])) {
+      throw new Error(`Profile "vinylFormat" must have sizeInches ${VINYL_SIZES.join('/')} and rpm ${VINYL_SPEEDS.join('/')}`);
+    }
+    vinylFormat = { sizeInches: f.sizeInches as VinylFormat['sizeInches'], rpm: f.rpm as VinylFormat['rpm'] };
+  }
+
+  const profile: DeliveryProfile = {
+    id: r.id,
+    name: r.name.trim(),
+    targetLUFS: requireNumber(r, 'targetLUFS'),
+    toleranceLU,
+    maxTruePeakDBTP: requireNumber(r, 'maxTruePeakDBTP'),
+    maxLUFS: requireNumber(r, 'maxLUFS'),
+    platformChecks
+  };
+  if (r.validationMode) profile.validationMode = r.validationMode as ValidationMode;
+  if (vinylFormat) profile.vinylFormat = vinylFormat;
+  if (r.spokenWord) profile.spokenWord = true;
+  return profile;
+}
@@ -1,5 +1,10 @@
 export type TimingCharacter = "robotic" | "tight" | "natural" | "loose" | "unknown";
 
+export type ChannelLayoutName = "mono" | "stereo" | "3.0" | "quad" | "5.0" | "5.1" | "6.1" | "7.1" | "unknown";
+
+// M = mono; Ls/Rs = side surrounds; Lb/Rb = back surrounds
+export type SpeakerPosition = "M" | "L" | "R" | "C" | "LFE" | "Ls" | "Rs" | "Lb" | "Rb";
+
 export interface AudioParameters {
   filename: string;
   filesizeMB: number;
@@ -9,7 +14,12 @@ export interface AudioParameters {
   sampleRate?: number;
   decodedSampleRate?: number; // What AudioContext decoded to
   channels?: number;
+  channelLayout?: ChannelLayoutName; // Speaker layout used for BS.1770 channel weighting
+  channelPositions?: SpeakerPosition[]; // Speaker of each channel in file order, from the channel mask when present
   bitDepth?: number;
+  sampleFormat?: "int" | "float"; // Source sample format (native decoder only)
+  decoder?: "native" | "webaudio"; // Native = original rate/depth; webaudio = browser resampled
+  decodeWarnings?: string[]; // Recoverable decoder problems, e.g. a stream cut short
   effectiveBitDepth?: number; // Estimated from noise floor
   overallBitrate?: number;
   isTrueStereo?: boolean; // vs dual mono
@@ -25,6 +35,18 @@ export interface AudioParameters {
   spectralCutoffHz?: number; // Detected HF cutoff (lossy indicator)
   codecQualityScore?: number; // 0-100, higher = better quality
   codecQualityNote?: string;
+
+  // === NEW: Container metadata (mediainfo) ===
+  codecProfile?: string; // e.g. "Layer 3", "LC"
+  encoderLibrary?: string; // e.g. "LAME3.100"
+  bitrateMode?: "VBR" | "CBR";
+  containerDurationSeconds?: number; // Duration declared by the container
+  durationMismatchSeconds?: number; // Container minus decoded duration
+
+  // === NEW: Sample-exact edges (Red Book / DDP checks) ===
+  sampleCount?: number; // Decoded samples per channel
+  startSampleDBFS?: number | null; // Loudest first sample across channels; null when digital silence
+  endSampleDBFS?: number | null; // Loudest last sample across channels
 }
 
 // EBU R128 / ITU BS.1770 Loudness Suite
@@ -38,6 +60,7 @@ export interface LoudnessMetrics {
   samplePeakDBFS: number | null;
   truePeakOversampling: number; // 4x or 8x
   ispMarginDB: number | null; // True Peak - Sample Peak
+  perChannelTruePeakDBTP: number[] | null; // True peak per channel, in file channel order
 
   // Momentary (400ms window) & Short-term (3s window)
   maxMomentaryLUFS: number | null;
@@ -86,6 +109,37 @@ export interface LoudnessMetrics {
     presenceLUFS: number | null;   // 2-6k Hz
     brillianceLUFS: number | null; // 6-20k Hz
   } | null;
+
+  // === NEW: Album loudness / gain tags ===
+  // Gating block histogram, pooled across tracks for album-integrated loudness
+  gatingHistogram?: GatingHistogram | null;
+  // ReplayGain 2.0 track gain and Sound Check (absent in exports from older versions)
+  replayGain?: GainTags | null;
+
+  // === NEW: Full-resolution meter log (EBU Tech 3341 "EBU mode") ===
+  meterLog?: LoudnessMeterLog | null;
+}
+
+// Meter readings every intervalS: row i is the reading at i × intervalS, i.e. the
+// window ending then. null before the window has filled or for digital silence.
+export interface LoudnessMeterLog {
+  intervalS: number;
+  momentaryLUFS: (number | null)[]; // 400 ms window
+  shortTermLUFS: (number | null)[]; // 3 s window
+}
+
+// 400ms gating block loudness counts: bin i covers minLUFS + i*binWidthLU
+export interface GatingHistogram {
+  minLUFS: number;
+  binWidthLU: number;
+  counts: number[];
+}
+
+// Values a tagger writes for ReplayGain 2.0 and iTunes Sound Check
+export interface GainTags {
+  gainDB: number; // Gain to the ReplayGain 2.0 reference (-18 LUFS)
+  peak: number; // Linear true peak (1.0 = 0 dBTP)
+  iTunNORM: string; // Sound Check, 10 hex fields
 }
 
 export interface DynamicsMetrics {
@@ -141,6 +195,95 @@ export interface DynamicsMetrics {
     avgAttackMs: number | null;
     avgDecayMs: number | null;
   } | null;
+
+  // === NEW: Clip plateaus at any level (absent on older analyses) ===
+  clipPlateaus?: ClipPlateauAnalysis | null;
+
+  // === NEW: Limiter gain-reduction timeline (absent on older analyses) ===
+  limiterActivity?: LimiterActivity | null;
+}
+
+// === NEW: Render glitch detection ===
+export interface GlitchEvent {
+  timestamp: number; // seconds
+  type: "click" | "dropout" | "repeat";
+  channel: number | null; // null = several channels
+  confidence: number; // 0-1
+  durationMs: number | null; // Dropout length / repeated buffer length
+}
+
+export interface GlitchAnalysis {
+  clickCount: number;
+  dropoutCount: number;
+  repeatCount: number;
+  events: GlitchEvent[]; // Most confident, in time order
+}
+
+// === NEW: Mains hum detection ===
+export interface HumHarmonic {
+  harmonic: number; // 1 = fundamental
+  frequencyHz: number;
+  levelDBFS: number;
+  prominenceDB: number; // Above the neighbouring noise
+}
+
+export interface HumNotch {
+  frequencyHz: number;
+  q: number;
+  gainDB: number;
+}
+
+export interface HumAnalysis {
+  detected: boolean;
+  frequencyHz: number | null; // Measured mains fundamental (≈50 or ≈60)
+  levelDBFS: number | null; // All harmonics together
+  relativeToProgrammeDB: number | null;
+  harmonicCount: number;
+  harmonics: HumHarmonic[];
+  exposedRanges: { startSeconds: number; endSeconds: number }[];
+  notches: HumNotch[];
+  quietSeconds: number; // Quiet material examined
+}
+
+// === NEW: Limiter activity timeline ===
+export interface LimiterSection {
+  startSeconds: number;
+  endSeconds: number;
+  avgGainReductionDB: number;
+  maxGainReductionDB: number;
+}
+
+export interface LimiterActivity {
+  intervalS: number;
+  gainReductionDB: number[]; // Estimated GR per block, from the start of the file
+  referenceCrestDB: number; // Crest factor of the most open passages, at least the unlimited prior at full scale
+  maxGainReductionDB: number;
+  avgGainReductionDB: number;
+  pctAbove1dB: number; // Share of non-silent blocks above each GR
+  pctAbove3dB: number;
+  pctAbove6dB: number;
+  worstSections: LimiterSection[]; // Heaviest first
+}
+
+// === NEW: Clip plateau detection ===
+export interface ClipPlateauRunBucket {
+  minSamples: number;
+  maxSamples: number | null; // null = open-ended
+  count: number;
+}
+
+export interface ClipPlateauAnalysis {
+  detected: boolean;
+  levelDBFS: number | null; // Loudest plateau level
+  eventCount: number; // Runs, counting those that overlap in time across channels once
+  plateauSampleCount: number;
+  plateauSamplePct: number;
+  longestRunMs: number | null;
+  runLengthHistogram: ClipPlateauRunBucket[];
+  timestamps: number[]; // Longest runs (seconds), in time order
+  clippedThenAttenuated: boolean; // Flat tops below full scale
+  restorationCandidate: boolean; // Short, sparse runs a de-clipper can rebuild
+  note: string | null;
 }
 
 export interface SpectralAnalysis {
@@ -193,6 +336,58 @@ export interface SpectralAnalysis {
   } | null;
 }
 
+// === NEW: Lossy codec emulation ===
+export interface CodecOvershoot {
+  timestamp: number;
+  peakDBFS: number; // Decoded sample peak above full scale
+}
+
+export interface CodecBitrateResult {
+  bitrateKbps: number;
+  lowpassHz: number;
+  postEncodeTruePeakDBTP: number | null;
+  overshootDB: number | null; // Post-encode minus source true peak
+  overshootCount: number; // Events where the decode exceeds 0 dBFS
+  overshoots: CodecOvershoot[]; // Loudest events, in time order
+  safeCeilingDBTP: number | null; // Source true peak that keeps this decode below 0 dBTP
+}
+
+export interface CodecEmulation {
+  bitrates: CodecBitrateResult[];
+  // Worst case across bitrates; what the distribution rules check
+  predictedTruePeakDBTP: number | null;
+  worstBitrateKbps: number | null;
+  overshootCount: number;
+  safeCeilingDBTP: number | null; // Most conservative ceiling across bitrates
+}
+
+// === NEW: Vinyl cutting metrics ===
+export interface VinylMetrics {
+  lowSidePeakDBFS: number | null; // Side content below ~150 Hz (vertical modulation); null for mono / dual-mono
+  lowSideToMidDB: number | null;
+  lowSideMaxTimestamp: number | null;
+  hfRmsDBFS: number | null; // Energy above ~10 kHz
+  hfMaxShortTermDBFS: number | null; // Loudest 1 s window
+  hfMaxTimestamp: number | null;
+}
+
+// === NEW: Speech segmentation (spoken-word masters) ===
+export interface SpeechSegment {
+  start: number; // Seconds
+  end: number;
+}
+
+export interface SpeechMetrics {
+  segments: SpeechSegment[];
+  speechSeconds: number;
+  speechRatio: number | null; // Share of the file classified as speech
+  headRoomToneS: number | null; // Before the first speech; null when no speech was found
+  tailRoomToneS: number | null; // After the last speech
+  longestPauseS: number | null;
+  roomToneDBFS: number | null; // RMS between phrases
+  dialogueGatedLUFS: number | null; // BS.1770 integrated over speech blocks only
+}
+
 export interface StereoAnalysis {
   stereoWidthPct: number | null;
   midEnergyDB: number | null;
@@ -262,6 +457,19 @@ export interface MusicalFeatures {
   keyStabilityNote: string | null; // e.g., "Key center stable throughout"
 }
 
+// === NEW: Streaming platform catalogue ===
+// How a platform plays back a master: reference level plus its boost and album policy
+export interface StreamingPlatform {
+  id: string;
+  name: string;
+  referenceLUFS: number;
+  tpLimitDBTP: number;
+  boostsQuiet: boolean; // Turns up masters below the reference
+  limiterOnBoost: boolean; // Boost runs into a limiter; otherwise it stops at the TP limit
+  albumNormalization: boolean; // One gain for the whole album when played as an album
+  note?: string;
+}
+
 // Platform normalization simulation
 export interface PlatformNormalization {
   platform: string;
@@ -270,16 +478,175 @@ export interface PlatformNormalization {
   projectedTruePeakDBTP: number;
   riskFlags: string[]; // "may clip", "attenuated by X dB"
   limiterCeilingSuggestion: number | null;
+  tpLimitDBTP?: number; // True peak ceiling the projection is checked against
+
+  // === NEW: Platform behaviour (catalogue entries only) ===
+  platformId?: string;
+  normalization?: 'track' | 'album'; // Loudness the gain was derived from
+  requestedGainDB?: number; // Gain before the boost policy is applied
+  limiterGainReductionDB?: number | null; // Peak reduction by the platform limiter on boost
+  boostsQuiet?: boolean;
+  limiterOnBoost?: boolean;
+  albumNormalization?: boolean;
+}
+
+// === NEW: Offline render of a platform's boost limiter (Spotify Loud) ===
+// Rendered at the track-normalisation gain
+export interface PlatformLimiterSimulation {
+  platform: string;
+  platformId: string;
+  gainDB: number; // Boost applied ahead of the limiter
+  ceilingDBTP: number;
+  maxGainReductionDB: number;
+  avgGainReductionDB: number | null; // While limiting
+  limitingSeconds: number;
+  limitingPct: number; // Share of the track with more than 0.1 dB gain reduction
+  crestFactorBeforeDB: number | null;
+  crestFactorAfterDB: number | null;
+  crestChangeDB: number | null; // Negative: the platform squashed the peaks
+  postTruePeakDBTP: number | null; // Measured on the limited render
+  note: string | null;
 }
 
 export interface StreamingSimulation {
-  spotify: PlatformNormalization | null;
-  appleMusic: PlatformNormalization | null;
-  youtube: PlatformNormalization | null;
-  tidal: PlatformNormalization | null;
+  // Every platform in the catalogue, in catalogue order
+  platforms: PlatformNormalization[];
+  limiterRender?: PlatformLimiterSimulation | null;
+  // Normalisation to the selected delivery profile's own target
+  target?: PlatformNormalization | null;
   recommendation: string | null; // "competitive vs dynamic" strategy
 }
 
+// === NEW: Delivery target profiles ===
+export interface DeliveryProfile {
+  id: string;
+  name: string;
+  targetLUFS: number; // Reference for the loudness correction and target simulation
+  // Allowed deviation from target (broadcast/podcast specs); null = normalised on playback, not enforced
+  toleranceLU: number | null;
+  maxTruePeakDBTP: number; // Issue above this
+  maxLUFS: number; // Warning above this (fatigue / heavy attenuation)
+  // Simulated platforms whose post-normalisation clip risk is reported as a warning
+  platformChecks: string[];
+  // Extra delivery-format checks run alongside the distribution rules
+  validationMode?: ValidationMode;
+  // Record size and speed for vinyl mode side timing
+  vinylFormat?: VinylFormat;
+  // Speech segmentation and dialogue-gated loudness (podcasts; implied by ACX mode)
+  spokenWord?: boolean;
+  builtIn?: boolean;
+}
+
+export type ValidationMode = "redbook" | "vinyl" | "acx" | "broadcast";
+
+export interface VinylFormat {
+  sizeInches: 7 | 10 | 12;
+  rpm: 33 | 45;
+}
+
+// === NEW: Red Book CD / DDP premaster validation ===
+export interface RedBookTrackCheck {
+  trackNumber: number;
+  filename: string;
+  sampleCount: number | null;
+  frameAligned: boolean | null; // Multiple of 588 samples (one CD frame)
+  padSamples: number; // Samples the authoring tool appends to complete the last frame
+  issues: string[];
+  warnings: string[];
+}
+
+export interface RedBookGap {
+  fromTrack: number;
+  toTrack: number;
+  silenceSeconds: number; // Trailing silence of one track plus leading silence of the next
+}
+
+export interface RedBookValidation {
+  ready: boolean;
+  trackCount: number;
+  programSeconds: number; // Audio plus the mandatory 2 s pregap before track 1
+  leadingSilenceSeconds: number | null; // Audio silence at the start of track 1
+  gaps: RedBookGap[];
+  tracks: RedBookTrackCheck[];
+  issues: string[]; // Album-level
+  warnings: string[];
+}
+
+// === NEW: Vinyl premastering validation ===
+export interface VinylTrackCheck {
+  trackNumber: number;
+  filename: string;
+  issues: string[];
+  warnings: string[];
+}
+
+export interface VinylSide {
+  label: string; // "A", "B", …
+  trackNumbers: number[];
+  seconds: number;
+}
+
+export interface VinylValidation {
+  ready: boolean;
+  format: VinylFormat;
+  recommendedSideSeconds: number; // Longest side that still cuts at full level
+  maxSideSeconds: number; // Practical limit; beyond it the side cannot be cut
+  totalSeconds: number;
+  sides: VinylSide[]; // Suggested split in album order
+  records: number;
+  tracks: VinylTrackCheck[];
+  issues: string[]; // Album-level
+  warnings: string[];
+}
+
+// === NEW: ACX / spoken-word validation ===
+export interface AcxChapterCheck {
+  trackNumber: number;
+  filename: string;
+  pass: boolean;
+  rmsDBFS: number | null;
+  peakDBFS: number | null;
+  noiseFloorDB: number | null;
+  headRoomToneS: number | null;
+  tailRoomToneS: number | null;
+  dialogueGatedLUFS: number | null;
+  issues: string[];
+  warnings: string[];
+}
+
+export interface AcxValidation {
+  ready: boolean;
+  chapters: AcxChapterCheck[];
+  passed: number;
+  issues: string[]; // Album-level
+  warnings: string[];
+}
+
+// === NEW: Broadcast loudness compliance report (EBU R128 / ATSC A/85) ===
+export interface BroadcastProgrammeReport {
+  trackNumber: number;
+  filename: string;
+  pass: boolean;
+  integratedLUFS: number | null;
+  deviationLU: number | null; // Integrated minus target
+  integratedPass: boolean;
+  maxTruePeakDBTP: number | null;
+  truePeakPass: boolean;
+  loudnessRangeLU: number | null; // Informative
+  maxMomentaryLUFS: number | null; // Informative
+  maxShortTermLUFS: number | null; // Informative
+}
+
+export interface BroadcastValidation {
+  ready: boolean;
+  standard: string; // Profile name the report was made against
+  targetLUFS: number;
+  toleranceLU: number | null;
+  maxTruePeakDBTP: number;
+  programmes: BroadcastProgrammeReport[];
+  passed: number;
+}
+
 // === NEW: Enhanced issue/warning with severity (2.1) ===
 export interface AnalysisIssue {
   message: string;
@@ -291,6 +658,39 @@ export interface AnalysisIssue {
   leadsTo?: string;
   // Recommendation tier (2.3)
   recommendationTier?: "safe" | "contextual" | "aggressive";
+  // Rule that produced this finding
+  ruleId?: string;
+}
+
+// === NEW: Declarative distribution rules ===
+export type RuleComparator = ">" | ">=" | "<" | "<=" | "==" | "!=" | "exists" | "missing";
+
+export interface RuleCondition {
+  metric: string; // Dotted path into the track, "derived.*" or "profile.*", e.g. "loudness.truePeakDBTP"
+  comparator: RuleComparator;
+  threshold?: number | string | boolean | null;
+}
+
+export interface DistributionRule extends RuleCondition {
+  id: string;
+  enabled: boolean;
+  level: "issue" | "warning"; // Issues block distribution
+  // Take the threshold from the delivery profile instead (e.g. "maxTruePeakDBTP")
+  thresholdFrom?: "targetLUFS" | "toleranceLU" | "maxTruePeakDBTP" | "maxLUFS";
+  when?: RuleCondition[]; // Extra conditions that must all hold
+  severity: number; // 0-1
+  confidence: number; // 0-1
+  category: AnalysisIssue["category"];
+  recommendationTier?: AnalysisIssue["recommendationTier"];
+  // {value}, {threshold}, {profile} or any metric path; ":N" sets decimals, e.g. "{value:1}"
+  message: string;
+  label: string; // Short name for the rules editor
+}
+
+export interface RuleSet {
+  format: "auralgeek-ruleset";
+  version: 1;
+  rules: DistributionRule[];
 }
 
 export interface TrackAnalysis {
@@ -313,6 +713,60 @@ export interface TrackAnalysis {
   primaryConcern?: string;
   // Spectrogram visualization (optional - computed on demand)
   spectrogram?: SpectrogramData;
+  // === NEW: Embedded tags / BWF metadata ===
+  metadata?: TrackMetadata;
+  // === NEW: Vinyl cutting metrics ===
+  vinyl?: VinylMetrics | null;
+  // === NEW: Speech segmentation and dialogue-gated loudness ===
+  speech?: SpeechMetrics | null;
+  // === NEW: Lossy codec emulation ===
+  codec?: CodecEmulation | null;
+  // === NEW: Render glitches ===
+  glitches?: GlitchAnalysis | null;
+  // === NEW: Mains hum ===
+  hum?: HumAnalysis | null;
+}
+
+// === NEW: Embedded metadata (ID3v2, Vorbis comments, MP4 atoms, BWF) ===
+export interface BextMetadata {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  originationDate: string; // yyyy-mm-dd
+  originationTime: string; // hh:mm:ss
+  timeReferenceSamples: number; // Sample count since midnight
+  version: number;
+  // EBU R128 loudness fields (bext v2+), null when unset (0x7FFF)
+  loudnessValueLUFS: number | null;
+  loudnessRangeLU: number | null;
+  maxTruePeakDBTP: number | null;
+  maxMomentaryLUFS: number | null;
+  maxShortTermLUFS: number | null;
+  codingHistory: string;
+}
+
+export interface IXmlMetadata {
+  project: string | null;
+  scene: string | null;
+  take: string | null;
+  tape: string | null;
+  note: string | null;
+  raw: string;
+}
+
+export interface TrackMetadata {
+  tagFormats: string[]; // e.g. ["ID3v2.4"], ["Vorbis comment", "FLAC picture"], ["BWF bext", "iXML"]
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  trackNumber: number | null;
+  trackTotal: number | null;
+  isrc: string | null; // As written in the file (not normalized)
+  upc: string | null;
+  artworkBytes: number | null; // Total size of embedded artwork
+  artworkMime: string | null;
+  bext: BextMetadata | null;
+  ixml: IXmlMetadata | null;
 }
 
 export interface AlbumSummary {
@@ -375,6 +829,66 @@ export interface AlbumSummary {
     trackNumber: number;
     reason: string; // e.g., "significantly louder and brighter than album median"
   }[];
+
+  // === NEW: Album-integrated loudness (all tracks' blocks gated together) ===
+  albumIntegratedLUFS?: number;
+  albumReplayGain?: GainTags;
+
+  // === NEW: Metadata QC ===
+  duplicateISRCs?: {
+    isrc: string;
+    trackNumbers: number[];
+  }[];
+}
+
+// === NEW: Version-to-version comparison ===
+export type TrackMatchMethod = 'isrc' | 'filename' | 'fingerprint';
+
+export interface MetricDelta {
+  before: number | null;
+  after: number | null;
+  delta: number | null; // after - before
+}
+
+export interface TrackRef {
+  trackNumber: number;
+  filename: string;
+}
+
+export interface TrackComparison {
+  before: TrackRef;
+  after: TrackRef;
+  matchedBy: TrackMatchMethod;
+  integratedLUFS: MetricDelta;
+  truePeakDBTP: MetricDelta;
+  loudnessRangeLU: MetricDelta;
+  spectralTiltDBPerOctave: MetricDelta;
+  score: MetricDelta;
+  distributionReady: { before: boolean; after: boolean };
+  newIssues: string[];
+  resolvedIssues: string[];
+  newWarnings: string[];
+  resolvedWarnings: string[];
+}
+
+export interface AlbumComparison {
+  before: { albumName: string; analysisDateISO: string; totalTracks: number };
+  after: { albumName: string; analysisDateISO: string; totalTracks: number };
+  tracks: TrackComparison[];
+  unmatchedBefore: TrackRef[]; // Removed (or unrecognisable) in the new version
+  unmatchedAfter: TrackRef[]; // Added in the new version
+  summary: {
+    avgLUFS: MetricDelta;
+    maxTruePeak: MetricDelta;
+    avgLRA: MetricDelta;
+    avgSpectralTilt: MetricDelta;
+    overallScore: MetricDelta;
+    totalIssues: MetricDelta;
+    totalWarnings: MetricDelta;
+    distributionReady: { before: boolean; after: boolean };
+    newIssueCount: number;
+    resolvedIssueCount: number;
+  };
 }
 
 // === Spectrogram visualization data ===
@@ -402,6 +916,14 @@ export interface AnalysisMetadata {
   sampleRate: number;
 }
 
+// === NEW: Per-file failure record ===
+export interface FailedTrack {
+  trackNumber: number;
+  filename: string;
+  stage: 'decode' | 'analysis';
+  reason: string;
+}
+
 export interface AlbumAnalysis {
   albumName: string;
   analysisDateISO: string;
@@ -427,4 +949,22 @@ export interface AlbumAnalysis {
 
   // === NEW: Reproducibility metadata (5.2) ===
   metadata?: AnalysisMetadata;
+
+  // === NEW: Files that could not be decoded or analyzed (excluded from all stats) ===
+  failedTracks: FailedTrack[];
+
+  // === NEW: Delivery profile the rules and scores were evaluated against ===
+  deliveryProfile?: DeliveryProfile;
+
+  // === NEW: Red Book CD / DDP validation (profiles with validationMode "redbook") ===
+  redBook?: RedBookValidation | null;
+
+  // === NEW: Vinyl premastering validation (profiles with validationMode "vinyl") ===
+  vinyl?: VinylValidation | null;
+
+  // === NEW: ACX / spoken-word validation (profiles with validationMode "acx") ===
+  acx?: AcxValidation | null;
+
+  // === NEW: Broadcast compliance report (profiles with validationMode "broadcast") ===
+  broadcast?: BroadcastValidation | null;
 }
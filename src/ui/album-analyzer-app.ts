@@ -4,19 +4,35 @@
  */
 
 import { LitElement, html } from "lit";
-import type { AlbumAnalysis } from "../core/types";
+import type { AlbumAnalysis, AlbumComparison, DeliveryProfile, DistributionRule, FailedTrack, TrackAnalysis } from "../core/types";
 import { decodeToPCM } from "../analysis/decode";
+import { analyzeMediaInfo, type MediaInfoAudioBasics } from "../analysis/mediainfo";
+import { parseEmbeddedMetadata } from "../analysis/metadata";
+import { createWorkerPool, type TrackJob } from "../workers/workerPool";
+import { computeAlbumStats } from "../workers/albumAnalyzer";
+import { applyDeliveryProfile, missingMeasurements } from "../workers/trackAnalyzer";
+import { DEFAULT_PROFILE, findProfile, parseDeliveryProfile } from "../core/profiles";
+import { compareAlbums } from "../workers/albumCompare";
 import { appStyles } from "./styles";
-import { renderReport, type AlbumReportContext } from "./renderers/index.js";
+import { renderReport, renderTrackList, renderComparison, renderProfileBar, renderRulesPanel, type AlbumReportContext } from "./renderers/index.js";
 import { ThemeManager, type Theme } from "./theme.js";
+import { loadCustomProfiles, loadSelectedProfile, saveCustomProfiles, saveSelectedProfile } from "./profileStore.js";
+import { loadRules, resetRules, saveRules } from "./ruleStore.js";
+import { BUILT_IN_RULES, mergeWithBuiltIns, parseRuleSet, serializeRuleSet } from "../analysis/rules";
+import {
+  buildExportReport,
+  buildBroadcastReportCsv,
+  buildComparisonExport,
+  buildHtmlReport,
+  buildMeterLogCsv,
+  captureReportMarkup,
+  exportFileStem,
+  meterLogFileName,
+  parseImportedReport,
+  type ImportedReport
+} from "./export/index.js";
 import "./components/help-modal.js";
 
-type WorkerMsg =
-  | { type: "progress"; current: number; total: number; filename: string; stage?: string; stageProgress?: number }
-  | { type: "result"; album: AlbumAnalysis }
-  | { type: "error"; message: string }
-  | { type: "spectrogram"; trackNumber: number; bitmap: ImageBitmap };
-
 export class AlbumAnalyzerApp extends LitElement {
   static styles = appStyles;
 
@@ -25,6 +41,8 @@ export class AlbumAnalyzerApp extends LitElement {
     status: { state: true },
     progress: { state: true },
     album: { state: true },
+    partialTracks: { state: true },
+    failedTracks: { state: true },
     error: { state: true },
     expandedTracks: { state: true },
     jsonVisible: { state: true },
@@ -33,6 +51,14 @@ export class AlbumAnalyzerApp extends LitElement {
     currentTheme: { state: true },
     helpModalOpen: { state: true },
     toastMessage: { state: true },
+    importedReport: { state: true },
+    baseline: { state: true },
+    comparison: { state: true },
+    profile: { state: true },
+    customProfiles: { state: true },
+    profileEditorOpen: { state: true },
+    rules: { state: true },
+    rulesOpen: { state: true },
   };
 
   // Reactive state properties (use declare to avoid class field issues with Lit 3.x)
@@ -40,6 +66,8 @@ export class AlbumAnalyzerApp extends LitElement {
   declare private status: string;
   declare private progress: { current: number; total: number; filename: string; stage?: string; stageProgress?: number } | null;
   declare private album: AlbumAnalysis | null;
+  declare private partialTracks: TrackAnalysis[];
+  declare private failedTracks: FailedTrack[];
   declare private error: string | null;
   declare private expandedTracks: Set<number>;
   declare private jsonVisible: boolean;
@@ -48,10 +76,21 @@ export class AlbumAnalyzerApp extends LitElement {
   declare private currentTheme: Theme;
   declare private helpModalOpen: boolean;
   declare private toastMessage: string | null;
+  declare private importedReport: ImportedReport | null;
+  declare private baseline: AlbumAnalysis | null;
+  declare private comparison: AlbumComparison | null;
+  declare private profile: DeliveryProfile;
+  declare private customProfiles: DeliveryProfile[];
+  declare private profileEditorOpen: boolean;
+  declare private rules: DistributionRule[];
+  declare private rulesOpen: boolean;
 
   // Non-reactive private fields
-  private worker: Worker | null = null;
+  private pool: ReturnType<typeof createWorkerPool> | null = null;
+  private abortController: AbortController | null = null;
   private lightDomInput: HTMLInputElement | null = null;
+  private pickTarget: 'analyze' | 'baseline' | 'rules' = 'analyze';
+  private analyzedFiles: File[] = []; // Kept so a profile switch can re-measure
   private _boundKeyHandler: ((e: KeyboardEvent) => void) | null = null;
 
   constructor() {
@@ -60,6 +99,8 @@ export class AlbumAnalyzerApp extends LitElement {
     this.status = "Ready";
     this.progress = null;
     this.album = null;
+    this.partialTracks = [];
+    this.failedTracks = [];
     this.error = null;
     this.expandedTracks = new Set();
     this.jsonVisible = false;
@@ -68,6 +109,14 @@ export class AlbumAnalyzerApp extends LitElement {
     this.currentTheme = 'dark';
     this.helpModalOpen = false;
     this.toastMessage = null;
+    this.importedReport = null;
+    this.baseline = null;
+    this.comparison = null;
+    this.customProfiles = [];
+    this.profile = DEFAULT_PROFILE;
+    this.profileEditorOpen = false;
+    this.rules = BUILT_IN_RULES;
+    this.rulesOpen = false;
   }
 
   // Store unsubscribe function for theme changes
@@ -76,6 +125,11 @@ export class AlbumAnalyzerApp extends LitElement {
   override connectedCallback(): void {
     super.connectedCallback();
 
+    // Delivery profiles persist across sessions
+    this.customProfiles = loadCustomProfiles();
+    this.profile = loadSelectedProfile(this.customProfiles);
+    this.rules = loadRules();
+
     // Initialize theme system
     ThemeManager.init();
     this.currentTheme = ThemeManager.current;
@@ -90,14 +144,12 @@ export class AlbumAnalyzerApp extends LitElement {
     this._boundKeyHandler = this._handleKeyboard.bind(this);
     document.addEventListener('keydown', this._boundKeyHandler);
 
-    if (this.worker) return;
-
     if (!document.getElementById('auralgeek-file-input')) {
       const input = document.createElement('input');
       input.id = 'auralgeek-file-input';
       input.type = 'file';
       input.multiple = true;
-      input.accept = 'audio/*,.wav,.wave,.flac,.mp3,.m4a,.aac,.ogg,.aiff,.aif';
+      input.accept = 'audio/*,.wav,.wave,.flac,.mp3,.m4a,.aac,.ogg,.aiff,.aif,.json,.html';
       input.style.display = 'none';
       document.body.appendChild(input);
       this.lightDomInput = input;
@@ -107,62 +159,18 @@ export class AlbumAnalyzerApp extends LitElement {
         const files = target.files ? Array.from(target.files) : [];
         if (files.length > 0) {
           target.value = '';
-          await this.runAnalysis(files);
+          if (this.pickTarget === 'baseline') {
+            await this.loadBaseline(files[0]);
+          } else if (this.pickTarget === 'rules') {
+            await this._importRules(files[0]);
+          } else {
+            await this.handleFiles(files);
+          }
         }
       });
     } else {
       this.lightDomInput = document.getElementById('auralgeek-file-input') as HTMLInputElement;
     }
-
-    try {
-      this.worker = new Worker(
-        new URL("../workers/analyzer.worker.ts", import.meta.url),
-        { type: "module" }
-      );
-
-      this.worker.onerror = (e) => {
-        console.error("Worker Load Error:", e);
-        this.error = `Worker failed to load.`;
-        this.busy = false;
-        this.status = "Error";
-        this.requestUpdate();
-      };
-
-      this.worker.onmessage = (ev: MessageEvent<WorkerMsg>) => {
-        const msg = ev.data;
-        if (msg.type === "progress") {
-          this.progress = {
-            current: msg.current,
-            total: msg.total,
-            filename: msg.filename,
-            stage: msg.stage,
-            stageProgress: msg.stageProgress
-          };
-          this.status = msg.stage ? `${msg.stage} ${msg.current}/${msg.total}` : `Analyzing ${msg.current}/${msg.total}`;
-          this.requestUpdate();
-        } else if (msg.type === "result") {
-          this.album = msg.album;
-          this.busy = false;
-          this.progress = null;
-          this.status = "Complete";
-          this.expandedTracks = msg.album.tracks.length > 0 ? new Set([1]) : new Set();
-          this.requestUpdate();
-        } else if (msg.type === "error") {
-          this.error = msg.message;
-          this.busy = false;
-          this.progress = null;
-          this.status = "Error";
-          this.requestUpdate();
-        } else if (msg.type === "spectrogram") {
-          this.spectrograms.set(msg.trackNumber, msg.bitmap);
-          this.spectrograms = new Map(this.spectrograms); // Trigger reactivity
-          this.requestUpdate();
-        }
-      };
-    } catch (e) {
-      this.error = `Failed to initialize: ${e}`;
-      this.status = "Error";
-    }
   }
 
   override disconnectedCallback(): void {
@@ -175,9 +183,10 @@ export class AlbumAnalyzerApp extends LitElement {
       document.removeEventListener('keydown', this._boundKeyHandler);
       this._boundKeyHandler = null;
     }
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    this.abortController?.abort();
+    if (this.pool) {
+      this.pool.terminate();
+      this.pool = null;
     }
     if (this.lightDomInput && this.lightDomInput.parentNode) {
       this.lightDomInput.parentNode.removeChild(this.lightDomInput);
@@ -207,6 +216,8 @@ export class AlbumAnalyzerApp extends LitElement {
       case 'Escape':
         if (this.helpModalOpen) {
           this._closeHelpModal();
+        } else if (this.busy) {
+          this._cancelAnalysis();
         } else if (this.album) {
           this._resetAnalysis();
         }
@@ -216,6 +227,9 @@ export class AlbumAnalyzerApp extends LitElement {
 
   private _resetAnalysis(): void {
     this.album = null;
+    this.analyzedFiles = [];
+    this.importedReport = null;
+    this.comparison = null;
     this.error = null;
     this.expandedTracks = new Set();
     this.jsonVisible = false;
@@ -224,6 +238,13 @@ export class AlbumAnalyzerApp extends LitElement {
     this.requestUpdate();
   }
 
+  private _cancelAnalysis(): void {
+    if (!this.abortController) return;
+    this.abortController.abort();
+    this.status = "Cancelling...";
+    this.requestUpdate();
+  }
+
   private _onBrandClick(): void {
     if (this.album || this.error) {
       this._resetAnalysis();
@@ -261,20 +282,210 @@ export class AlbumAnalyzerApp extends LitElement {
 
   private onPickFiles() {
     if (this.busy) return;
+    this.pickTarget = 'analyze';
     this.lightDomInput?.click();
   }
 
+  private onPickBaseline() {
+    if (this.busy || !this.album) return;
+    this.pickTarget = 'baseline';
+    this.lightDomInput?.click();
+  }
+
+  /** Load a previous export as the "before" side of a comparison against the current album */
+  private async loadBaseline(file: File) {
+    try {
+      this.baseline = parseImportedReport(await file.text()).report.analysis;
+      this._updateComparison();
+      this.status = `Comparing against ${file.name}`;
+    } catch (e: any) {
+      this._showToast(`Could not open ${file.name}: ${e?.message ?? e}`);
+    }
+    this.requestUpdate();
+  }
+
+  /** Keep the current album as the "before" side; the next analysis or import is compared to it */
+  private setBaseline() {
+    if (!this.album) return;
+    this.baseline = this.album;
+    this.comparison = null;
+    this._showToast("Baseline set: analyze or open the next version to compare");
+  }
+
+  private _updateComparison() {
+    this.comparison = this.baseline && this.album && this.baseline !== this.album
+      ? compareAlbums(this.baseline, this.album)
+      : null;
+  }
+
+  private _selectProfile(id: string) {
+    const profile = findProfile(id, this.customProfiles);
+    if (!profile) return;
+
+    // Re-evaluating can't add passes the analysis skipped for the previous profile
+    const missing = this.album
+      ? [...new Set(this.album.tracks.flatMap(t => missingMeasurements(t, profile)))]
+      : [];
+    if (missing.length > 0) {
+      const needs = `${profile.name} needs ${missing.join(', ')}, which this analysis does not have.`;
+      const files = this.analyzedFiles;
+      const proceed = files.length > 0
+        ? confirm(`${needs} Re-analyse the ${files.length} file(s) now?`)
+        : confirm(`${needs} The audio is not loaded, so it can't be re-analysed. Evaluate without them?`);
+      if (!proceed) {
+        this.requestUpdate(); // Put the selector back
+        return;
+      }
+      if (files.length > 0) {
+        this.profile = profile;
+        saveSelectedProfile(profile);
+        void this.runAnalysis(files);
+        return;
+      }
+    }
+
+    this.profile = profile;
+    saveSelectedProfile(profile);
+    this._applyProfileToAlbum();
+  }
+
+  /** Re-evaluate the current album against the selected profile and rules; measurements are reused */
+  private _applyProfileToAlbum(announce = true) {
+    const album = this.album;
+    if (!album || this.busy) return;
+    const tracks = album.tracks.map(t => applyDeliveryProfile(t, this.profile, this.rules));
+    const totalSeconds = tracks.reduce((sum, t) => sum + t.parameters.durationSeconds, 0);
+    this.album = {
+      ...computeAlbumStats(album.albumName, tracks, totalSeconds, album.totalSizeMB, album.failedTracks, this.profile, this.rules),
+      analysisDateISO: album.analysisDateISO
+    };
+    this._updateComparison();
+    if (announce) this._showToast(`Evaluated against ${this.profile.name}`);
+  }
+
+  private _saveProfile(form: HTMLFormElement) {
+    const data = new FormData(form);
+    const num = (key: string) => Number(data.get(key));
+    const tolerance = String(data.get('toleranceLU') ?? '').trim();
+    try {
+      const profile = parseDeliveryProfile({
+        id: `custom-${Date.now().toString(36)}`,
+        name: String(data.get('name') ?? ''),
+        targetLUFS: num('targetLUFS'),
+        toleranceLU: tolerance === '' ? null : Number(tolerance),
+        maxTruePeakDBTP: num('maxTruePeakDBTP'),
+        maxLUFS: num('maxLUFS'),
+        platformChecks: this.profile.platformChecks,
+        validationMode: String(data.get('validationMode') ?? '') || undefined,
+        spokenWord: data.get('spokenWord') === 'on',
+        vinylFormat: data.get('validationMode') === 'vinyl'
+          ? { sizeInches: num('vinylSize'), rpm: num('vinylRpm') }
+          : undefined
+      });
+      this.customProfiles = [...this.customProfiles, profile];
+      saveCustomProfiles(this.customProfiles);
+      this.profileEditorOpen = false;
+      this._selectProfile(profile.id);
+    } catch (e: any) {
+      this._showToast(String(e?.message ?? e));
+    }
+  }
+
+  private _deleteProfile() {
+    if (this.profile.builtIn) return;
+    this.customProfiles = this.customProfiles.filter(p => p.id !== this.profile.id);
+    saveCustomProfiles(this.customProfiles);
+    this._selectProfile(DEFAULT_PROFILE.id);
+  }
+
+  private _setRules(rules: DistributionRule[]) {
+    this.rules = rules;
+    saveRules(rules);
+    this._applyProfileToAlbum(false);
+  }
+
+  private _updateRule(id: string, patch: Partial<DistributionRule>) {
+    this._setRules(this.rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  }
+
+  private _pickRules() {
+    if (this.busy) return;
+    this.pickTarget = 'rules';
+    this.lightDomInput?.click();
+  }
+
+  private async _importRules(file: File) {
+    try {
+      const imported = parseRuleSet(JSON.parse(await file.text()));
+      this._setRules(mergeWithBuiltIns(imported, BUILT_IN_RULES));
+      this._showToast(`Imported ${imported.length} rule(s) from ${file.name}`);
+    } catch (e: any) {
+      this._showToast(`Could not import ${file.name}: ${e?.message ?? e}`);
+    }
+  }
+
+  private _exportRules() {
+    this._download(JSON.stringify(serializeRuleSet(this.rules), null, 2), "auralgeek-rules.json", "application/json");
+  }
+
+  private _resetRules() {
+    this.rules = resetRules();
+    this._applyProfileToAlbum(false);
+    this._showToast("Rules reset to defaults");
+  }
+
+  private _closeComparison() {
+    this.baseline = null;
+    this.comparison = null;
+    this.requestUpdate();
+  }
+
+  private exportComparison() {
+    if (!this.comparison) return;
+    const name = `${this.comparison.before.albumName}-vs-${this.comparison.after.albumName}`;
+    const stem = `auralgeek-${name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-comparison`;
+    this._download(JSON.stringify(buildComparisonExport(this.comparison), null, 2), `${stem}.json`, "application/json");
+    this._showToast("Comparison exported");
+  }
+
   private async onDrop(ev: DragEvent) {
     ev.preventDefault();
     if (this.busy) return;
     const dt = ev.dataTransfer;
     if (!dt) return;
-    await this.runAnalysis(Array.from(dt.files));
+    await this.handleFiles(Array.from(dt.files));
+  }
+
+  private async handleFiles(files: File[]) {
+    // A single exported report is re-opened instead of analyzed
+    if (files.length === 1 && /\.(json|html?)$/i.test(files[0].name)) {
+      await this.importReport(files[0]);
+    } else {
+      await this.runAnalysis(files);
+    }
+  }
+
+  private async importReport(file: File) {
+    this._resetAnalysis();
+    try {
+      const imported = parseImportedReport(await file.text());
+      this.importedReport = imported;
+      this.album = imported.report.analysis;
+      this._updateComparison();
+      this.expandedTracks = this.album.tracks.length > 0 ? new Set([this.album.tracks[0].trackNumber]) : new Set();
+      this.status = `Loaded ${file.name}`;
+    } catch (e: any) {
+      this.error = `Could not open ${file.name}: ${e?.message ?? e}`;
+      this.status = "Error";
+    }
+    this.requestUpdate();
   }
 
   private async runAnalysis(files: File[]) {
     this.error = null;
     this.album = null;
+    this.importedReport = null;
+    this.comparison = null;
     this.expandedTracks = new Set();
     this.jsonVisible = false;
     this.spectrograms = new Map();
@@ -284,6 +495,7 @@ export class AlbumAnalyzerApp extends LitElement {
       const mimeMatch = f.type.startsWith("audio/");
       return extMatch || mimeMatch;
     }).sort((a, b) => a.name.localeCompare(b.name));
+    this.analyzedFiles = audio;
 
     if (!audio.length) {
       this.status = "No audio files";
@@ -291,151 +503,198 @@ export class AlbumAnalyzerApp extends LitElement {
       return;
     }
 
-    if (!this.worker) {
-      this.status = "Worker error";
-      this.error = "Analysis worker not available.";
-      return;
-    }
-
     this.busy = true;
+    this.partialTracks = [];
+    this.failedTracks = [];
     this.requestUpdate();
 
+    const controller = new AbortController();
+    this.abortController = controller;
+    const { signal } = controller;
+
+    // Failures are kept per file so the rest of the album still completes
+    const fail = (trackNumber: number, filename: string, stage: FailedTrack['stage'], reason: string) => {
+      this.failedTracks = [...this.failedTracks, { trackNumber, filename, stage, reason }]
+        .sort((a, b) => a.trackNumber - b.trackNumber);
+      this.requestUpdate();
+    };
+
     try {
-      const decodedTracks: Array<{
-        filename: string;
-        filesize: number;
-        sampleRate: number;
-        channels: number;
-        channelData: Float32Array[];
-      }> = [];
+      const jobs: TrackJob[] = [];
 
       for (let i = 0; i < audio.length; i++) {
+        if (signal.aborted) break;
         const file = audio[i];
         this.status = `Decoding ${i + 1}/${audio.length}`;
         this.progress = { current: i + 1, total: audio.length, filename: file.name };
         this.requestUpdate();
 
-        const decoded = await decodeToPCM(file);
-        decodedTracks.push({
+        let bytes: ArrayBuffer;
+        let decoded: Awaited<ReturnType<typeof decodeToPCM>>;
+        try {
+          bytes = await file.arrayBuffer();
+          decoded = await decodeToPCM(bytes, file.name);
+        } catch (e: any) {
+          console.warn(`Decode failed for ${file.name}:`, e);
+          fail(i + 1, file.name, 'decode', String(e?.message ?? e));
+          continue;
+        }
+        if (signal.aborted) break;
+
+        // Container metadata is best-effort: a mediainfo failure must not block analysis
+        let mediaInfo: MediaInfoAudioBasics | undefined;
+        try {
+          mediaInfo = await analyzeMediaInfo(file);
+        } catch (e) {
+          console.warn(`mediainfo failed for ${file.name}:`, e);
+        }
+
+        const metadata = parseEmbeddedMetadata(bytes);
+
+        jobs.push({
           filename: file.name,
           filesize: file.size,
           sampleRate: decoded.sampleRate,
           channels: decoded.channels,
-          channelData: decoded.channelData
+          channelData: decoded.channelData,
+          bitDepth: decoded.bitDepth,
+          sampleFormat: decoded.sampleFormat,
+          channelMask: decoded.channelMask,
+          decoder: decoded.decoder,
+          decodeWarnings: decoded.warnings,
+          mediaInfo,
+          metadata,
+          trackNumber: i + 1,
+          profile: this.profile,
+          rules: this.rules
         });
       }
 
       this.status = `Analyzing...`;
       this.requestUpdate();
 
-      const transferables: Transferable[] = [];
-      for (const track of decodedTracks) {
-        for (const ch of track.channelData) {
-          transferables.push(ch.buffer);
+      // Workers are warmed once and reused across runs
+      if (!this.pool) {
+        this.pool = createWorkerPool({
+          generateSpectrograms: true,
+          spectrogramConfig: { width: 400, height: 80 },
+          onProgress: (p) => {
+            this.progress = {
+              current: Math.min(p.completedTracks + 1, p.totalTracks),
+              total: p.totalTracks,
+              filename: p.filename,
+              stage: p.stage,
+              stageProgress: p.stageProgress
+            };
+            this.status = `${p.stage} ${this.progress.current}/${p.totalTracks}`;
+            this.requestUpdate();
+          }
+        });
+      }
+
+      // Show each track as soon as its worker finishes
+      for await (const result of this.pool.analyze(jobs, signal)) {
+        if ('error' in result) {
+          fail(result.trackNumber, result.filename, 'analysis', result.error);
+          continue;
         }
+        if (result.spectrogram) {
+          this.spectrograms.set(result.trackNumber, result.spectrogram);
+          this.spectrograms = new Map(this.spectrograms); // Trigger reactivity
+        }
+        this.partialTracks = [...this.partialTracks, result.analysis]
+          .sort((a, b) => a.trackNumber - b.trackNumber);
+        this.requestUpdate();
       }
 
-      this.worker.postMessage(
-        {
-          type: "analyze",
-          albumName: "Album",
-          tracks: decodedTracks,
-          generateSpectrograms: true,
-          spectrogramConfig: { width: 400, height: 80 }
-        },
-        transferables
-      );
-    } catch (e) {
-      this.error = `Analysis failed: ${e}`;
+      if (signal.aborted) {
+        this.partialTracks = [];
+        this.failedTracks = [];
+        this.spectrograms = new Map();
+        this.status = "Cancelled";
+        return;
+      }
+
+      const tracks = this.partialTracks;
+      const totalSeconds = tracks.reduce((sum, t) => sum + t.parameters.durationSeconds, 0);
+      const totalSizeMB = tracks.reduce((sum, t) => sum + t.parameters.filesizeMB, 0);
+
+      this.album = computeAlbumStats("Album", tracks, totalSeconds, totalSizeMB, this.failedTracks, this.profile, this.rules);
+      this._updateComparison();
+      this.partialTracks = [];
+      this.failedTracks = [];
+      this.status = this.album.failedTracks.length > 0
+        ? `Complete (${this.album.failedTracks.length} failed)`
+        : "Complete";
+      this.expandedTracks = this.album.tracks.length > 0 ? new Set([this.album.tracks[0].trackNumber]) : new Set();
+    } catch (e: any) {
+      // Includes workers that failed to load; the pool is rebuilt on the next run
+      this.error = `Analysis failed: ${e?.message ?? e}`;
+      this.pool?.terminate();
+      this.pool = null;
+      this.partialTracks = [];
+      this.failedTracks = [];
+      this.status = "Error";
+    } finally {
+      if (this.abortController === controller) this.abortController = null;
       this.busy = false;
       this.progress = null;
-      this.status = "Error";
       this.requestUpdate();
     }
   }
 
+  private _download(content: string, filename: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
   private exportJSON() {
     if (!this.album) return;
+    const exportReport = buildExportReport(this.album);
+    this._download(JSON.stringify(exportReport, null, 2), `${exportFileStem(this.album)}.json`, "application/json");
+    this._showToast("Analysis exported");
+  }
 
-    // Generate key findings from analysis
-    const keyFindings: string[] = [];
-    const recommendations: string[] = [];
-
-    // Loudness findings
-    if (this.album.summary.avgLUFS !== undefined) {
-      const avgLUFS = this.album.summary.avgLUFS;
-      if (avgLUFS > -10) {
-        keyFindings.push(`Album is very loud (avg ${avgLUFS.toFixed(1)} LUFS)`);
-        recommendations.push("Consider reducing loudness for better streaming platform performance");
-      } else if (avgLUFS < -16) {
-        keyFindings.push(`Album is relatively quiet (avg ${avgLUFS.toFixed(1)} LUFS)`);
-        recommendations.push("May be normalized up on streaming platforms, which is generally fine");
-      } else {
-        keyFindings.push(`Album loudness is in optimal range (avg ${avgLUFS.toFixed(1)} LUFS)`);
-      }
-    }
+  private exportBroadcastReport() {
+    if (!this.album?.broadcast) return;
+    this._download(buildBroadcastReportCsv(this.album.broadcast), `${exportFileStem(this.album)}-broadcast.csv`, "text/csv");
+    this._showToast("Broadcast report exported");
+  }
 
-    // Peak findings
-    if (this.album.summary.tracksAboveNeg1dBTP && this.album.summary.tracksAboveNeg1dBTP > 0) {
-      keyFindings.push(`${this.album.summary.tracksAboveNeg1dBTP} track(s) exceed -1 dBTP true peak`);
-      recommendations.push("Consider reducing peaks to below -1 dBTP for codec safety margin");
-    }
+  private exportMeterLog(track: TrackAnalysis) {
+    const csv = buildMeterLogCsv(track);
+    if (!csv) return;
+    this._download(csv, meterLogFileName(track), "text/csv");
+  }
 
-    // Clipping findings
-    if (this.album.summary.tracksWithClipping && this.album.summary.tracksWithClipping > 0) {
-      keyFindings.push(`${this.album.summary.tracksWithClipping} track(s) contain clipping`);
-      recommendations.push("Review clipped tracks and consider re-mastering");
-    }
+  private async exportHTML() {
+    if (!this.album) return;
+    const album = this.album;
 
-    // Dynamics findings
-    if (this.album.summary.avgDynamicRange !== undefined && this.album.summary.avgDynamicRange < 6) {
-      keyFindings.push("Limited dynamic range detected");
-      recommendations.push("Consider preserving more dynamics for improved listening experience");
-    }
+    // Render every card in full detail for the snapshot, then restore the user's view
+    const prevViewMode = this.viewMode;
+    const prevExpanded = this.expandedTracks;
+    this.viewMode = 'advanced';
+    this.expandedTracks = new Set(album.tracks.map(t => t.trackNumber));
+    this.requestUpdate();
+    await this.updateComplete;
+    await new Promise(resolve => setTimeout(resolve, 0)); // spectrogram canvases are drawn on the next tick
 
-    // Phase issues
-    if (this.album.summary.tracksWithPhaseIssues && this.album.summary.tracksWithPhaseIssues > 0) {
-      keyFindings.push(`${this.album.summary.tracksWithPhaseIssues} track(s) have phase issues`);
-      recommendations.push("Check mono compatibility and low-end phase alignment");
-    }
+    const root = this.renderRoot.querySelector("#album-report");
+    const bodyHtml = root ? captureReportMarkup(root) : "";
 
-    // Track overview for quick reference
-    const trackOverview = this.album.tracks.map(t => ({
-      number: t.trackNumber,
-      name: t.parameters.filename,
-      duration: t.parameters.durationFormatted,
-      integratedLUFS: t.loudness.integratedLUFS,
-      truePeakDBTP: t.loudness.truePeakDBTP,
-      dynamicRangeDB: t.dynamics.dynamicRangeDB,
-      issues: t.issues.length,
-      warnings: t.warnings.length
-    }));
-
-    // Enhanced export structure
-    const exportReport = {
-      version: "1.0",
-      exportDate: new Date().toISOString(),
-      summary: {
-        albumName: this.album.albumName,
-        totalTracks: this.album.totalTracks,
-        totalDuration: this.album.totalDuration,
-        overallScore: this.album.overallScore,
-        distributionReady: this.album.distributionReady,
-        keyFindings,
-        recommendations
-      },
-      trackOverview,
-      analysis: this.album
-    };
+    this.viewMode = prevViewMode;
+    this.expandedTracks = prevExpanded;
+    this.requestUpdate();
 
-    const blob = new Blob([JSON.stringify(exportReport, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `auralgeek-${this.album.albumName.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-analysis.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-    this._showToast("Analysis exported");
+    const html = buildHtmlReport({ report: buildExportReport(album), bodyHtml, theme: this.currentTheme });
+    this._download(html, `${exportFileStem(album)}.html`, "text/html");
+    this._showToast("HTML report exported");
   }
 
   private copyJSONToClipboard() {
@@ -520,14 +779,53 @@ export class AlbumAnalyzerApp extends LitElement {
             <button class="btn btn-primary" ?disabled=${this.busy} @click=${this.onPickFiles}>
               ${this.busy ? 'Processing...' : 'Select Audio Files'}
             </button>
+            ${this.busy ? html`
+              <button class="btn btn-secondary" @click=${this._cancelAnalysis} title="Cancel analysis (Esc)">
+                Cancel
+              </button>
+            ` : null}
             <button class="btn btn-secondary" ?disabled=${!this.album} @click=${this.exportJSON}>
               Export JSON
             </button>
+            <button class="btn btn-secondary" ?disabled=${!this.album} @click=${this.exportHTML} title="Self-contained HTML report for clients">
+              Export HTML
+            </button>
             <button class="btn btn-secondary" ?disabled=${!this.album} @click=${this.copyJSONToClipboard} title="Copy analysis JSON to clipboard">
               Copy
             </button>
+            <button class="btn btn-secondary" ?disabled=${!this.album || this.busy} @click=${this.onPickBaseline} title="Compare against a previous export of this album">
+              Compare…
+            </button>
+            <button class="btn btn-secondary" ?disabled=${!this.album || this.album === this.baseline} @click=${this.setBaseline} title="Compare the next analysis against this one">
+              Set Baseline
+            </button>
           </div>
 
+          ${renderProfileBar({
+            selected: this.profile,
+            custom: this.customProfiles,
+            editorOpen: this.profileEditorOpen,
+            rulesOpen: this.rulesOpen,
+            disabled: this.busy,
+            onSelect: (id) => this._selectProfile(id),
+            onNew: () => { this.profileEditorOpen = true; },
+            onDelete: () => this._deleteProfile(),
+            onSave: (form) => this._saveProfile(form),
+            onCancel: () => { this.profileEditorOpen = false; },
+            onToggleRules: () => { this.rulesOpen = !this.rulesOpen; }
+          })}
+
+          ${this.rulesOpen ? renderRulesPanel({
+            rules: this.rules,
+            profile: this.profile,
+            disabled: this.busy,
+            onToggle: (id, enabled) => this._updateRule(id, { enabled }),
+            onThreshold: (id, threshold) => this._updateRule(id, { threshold }),
+            onImport: () => this._pickRules(),
+            onExport: () => this._exportRules(),
+            onReset: () => this._resetRules()
+          }) : null}
+
           ${this.busy && this.progress ? html`
             <div class="progress-display">
               <div class="progress-ring"></div>
@@ -557,14 +855,30 @@ export class AlbumAnalyzerApp extends LitElement {
             <div class="drop-zone" @dragover=${(e: DragEvent) => e.preventDefault()} @drop=${this.onDrop}>
               <div class="drop-icon">◉</div>
               <div class="drop-text">Drop audio files here</div>
-              <div class="drop-hint">WAV, FLAC, MP3, AAC, OGG</div>
+              <div class="drop-hint">WAV, FLAC, MP3, AAC, OGG · or an exported report (.json/.html)</div>
             </div>
           ` : null}
 
           ${this.error ? html`<div class="alert alert-danger">${this.error}</div>` : null}
+          ${this.importedReport ? html`
+            <div class="alert alert-warning">
+              Viewing an imported report exported ${new Date(this.importedReport.report.exportDate).toLocaleString()}
+              ${this.importedReport.migrated ? ` (upgraded from schema v${this.importedReport.sourceVersion})` : ''}.
+              Spectrograms are not stored in JSON exports.
+            </div>
+          ` : null}
         </div>
 
-        ${this.album ? this.renderAlbumReport(this.album) : null}
+        ${this.comparison ? renderComparison(this.comparison, {
+          onExport: () => this.exportComparison(),
+          onClose: () => this._closeComparison()
+        }) : null}
+
+        ${this.album
+          ? html`<div id="album-report">${this.renderAlbumReport(this.album)}</div>`
+          : this.partialTracks.length > 0 || this.failedTracks.length > 0
+            ? renderTrackList(this.partialTracks, this.reportContext(), this.failedTracks)
+            : null}
 
         <footer class="app-footer">
           <div class="footer-content">
@@ -580,6 +894,7 @@ export class AlbumAnalyzerApp extends LitElement {
 
       <help-modal
         ?open=${this.helpModalOpen}
+        .tracks=${this.album?.tracks ?? this.partialTracks}
         @close=${this._closeHelpModal}
       ></help-modal>
 
@@ -589,17 +904,22 @@ export class AlbumAnalyzerApp extends LitElement {
     `;
   }
 
-  private renderAlbumReport(album: AlbumAnalysis) {
-    const ctx: AlbumReportContext = {
+  private reportContext(): AlbumReportContext {
+    return {
       viewMode: this.viewMode,
       expandedTracks: this.expandedTracks,
       jsonVisible: this.jsonVisible,
       spectrograms: this.spectrograms,
       onToggleTrack: (trackNumber: number) => this.toggleTrack(trackNumber),
       onToggleJson: () => { this.jsonVisible = !this.jsonVisible; this.requestUpdate(); },
-      onViewModeChange: (mode: 'simple' | 'advanced') => { this.viewMode = mode; this.requestUpdate(); }
+      onViewModeChange: (mode: 'simple' | 'advanced') => { this.viewMode = mode; this.requestUpdate(); },
+      onExportBroadcastReport: () => this.exportBroadcastReport(),
+      onExportMeterLog: (track: TrackAnalysis) => this.exportMeterLog(track)
     };
-    return renderReport(album, ctx);
+  }
+
+  private renderAlbumReport(album: AlbumAnalysis) {
+    return renderReport(album, this.reportContext());
   }
 }
 
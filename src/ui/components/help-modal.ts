@@ -14,6 +14,9 @@ import {
   type MetricCategory,
 } from '../data/metric-definitions.js';
 import { ThemeManager, type Theme } from '../theme.js';
+import type { AnalysisIssue, TrackAnalysis } from '../../core/types.js';
+import { BUILT_IN_RULES, CAUSAL_LINKS, findingChain, findingHeadline } from '../../analysis/rules/index.js';
+import { trackFindings } from '../renderers/findings.js';
 
 export class HelpModal extends LitElement {
   static styles = css`
@@ -506,6 +509,7 @@ export class HelpModal extends LitElement {
 
   static properties = {
     open: { type: Boolean },
+    tracks: { attribute: false },
     searchQuery: { state: true },
     geekMode: { state: true },
     collapsedCategories: { state: true },
@@ -517,6 +521,7 @@ export class HelpModal extends LitElement {
 
   // Reactive properties (use declare to avoid class field issues with Lit 3.x)
   declare open: boolean;
+  declare tracks: TrackAnalysis[];
   declare private searchQuery: string;
   declare private geekMode: boolean;
   declare private collapsedCategories: Set<MetricCategory>;
@@ -531,6 +536,7 @@ export class HelpModal extends LitElement {
   constructor() {
     super();
     this.open = false;
+    this.tracks = [];
     this.searchQuery = '';
     this.collapsedCategories = new Set();
     this.currentTheme = ThemeManager.current;
@@ -802,6 +808,66 @@ export class HelpModal extends LitElement {
     `;
   }
 
+  /** Chains starting at a root cause, so each linked finding is shown once */
+  private _chains(findings: AnalysisIssue[]): AnalysisIssue[][] {
+    return findings
+      .filter(f => f.leadsTo && !f.causedBy)
+      .map(f => findingChain(f, findings));
+  }
+
+  private _renderTrackFindings() {
+    const items = this.tracks.map(t => {
+      const { issues, warnings } = trackFindings(t);
+      const all = [...issues, ...warnings];
+      if (all.length === 0) return null;
+      return html`
+        <div class="metric-item">
+          <div class="metric-item-header">
+            <span class="metric-item-name">${String(t.trackNumber).padStart(2, '0')} · ${t.parameters.filename}</span>
+            <span class="metric-item-mode">${issues.length} issue${issues.length !== 1 ? 's' : ''} · ${warnings.length} warning${warnings.length !== 1 ? 's' : ''}</span>
+          </div>
+          ${t.primaryConcern ? html`<div class="metric-item-desc">${t.primaryConcern}</div>` : null}
+          ${this._chains(all).map(chain => html`
+            <div class="metric-item-action">${chain.map(findingHeadline).join(' → ')}</div>
+          `)}
+        </div>
+      `;
+    }).filter(item => item !== null);
+    if (items.length === 0) return null;
+
+    return html`
+      <div class="metric-category">
+        <div class="category-header">
+          <span class="category-icon">⚠</span>
+          <span class="category-title">Current Findings</span>
+        </div>
+        <div class="category-items">${items}</div>
+      </div>
+    `;
+  }
+
+  private _renderCausalLinks() {
+    const label = (id: string) => BUILT_IN_RULES.find(r => r.id === id)?.label ?? id;
+    return html`
+      <div class="metric-category">
+        <div class="category-header">
+          <span class="category-icon">→</span>
+          <span class="category-title">How Findings Connect</span>
+        </div>
+        <div class="category-items">
+          ${CAUSAL_LINKS.map(link => html`
+            <div class="metric-item">
+              <div class="metric-item-header">
+                <span class="metric-item-name">${label(link.cause)} → ${label(link.effect)}</span>
+              </div>
+              <div class="metric-item-desc">${link.explanation}</div>
+            </div>
+          `)}
+        </div>
+      </div>
+    `;
+  }
+
   private _renderSuggestion(metric: MetricDefinition, index: number) {
     const categoryInfo = CATEGORY_INFO[metric.category];
     return html`
@@ -863,12 +929,14 @@ export class HelpModal extends LitElement {
           </div>
 
           <div class="modal-content ${this.geekMode ? 'geek-mode-active' : ''}">
+            ${hasQuery ? null : this._renderTrackFindings()}
             ${grouped.size > 0
               ? Array.from(grouped.entries()).map(([cat, metrics]) =>
                   this._renderCategory(cat, metrics)
                 )
               : html`<div class="no-results">No metrics found matching "${this.searchQuery}"</div>`
             }
+            ${hasQuery ? null : this._renderCausalLinks()}
           </div>
         </div>
       </div>
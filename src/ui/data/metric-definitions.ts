@@ -163,7 +163,7 @@ export const METRIC_DEFINITIONS: MetricDefinition[] = [
     goodRange: '1+ dB (ideally 1.5-2 dB)',
     action: 'If headroom is below 1 dB, reduce your limiter ceiling or final output gain.',
     formula: '0 − True Peak (dBTP)',
-    technicalNotes: 'Lossy codecs (AAC, MP3, Opus) can add up to 0.5 dB during encoding. The -1 dBTP recommendation provides margin for this.',
+    technicalNotes: 'Lossy codecs (AAC, MP3, Opus) typically add 0.5-2 dB during encoding, more on clipped or heavily limited material. The codec emulator predicts the post-encode true peak at 128, 256 and 320 kbps and gives a safe ceiling per track.',
     modes: ['advanced'],
   },
   {
@@ -0,0 +1,24 @@
+/**
+ * Comparison export
+ * Wraps an AlbumComparison in a versioned envelope for download.
+ */
+
+import type { AlbumComparison } from '../../core/types.js';
+
+export const COMPARISON_SCHEMA_VERSION = '1.0';
+
+export interface ComparisonExport {
+  type: 'auralgeek-comparison';
+  version: string;
+  exportDate: string;
+  comparison: AlbumComparison;
+}
+
+export function buildComparisonExport(comparison: AlbumComparison): ComparisonExport {
+  return {
+    type: 'auralgeek-comparison',
+    version: COMPARISON_SCHEMA_VERSION,
+    exportDate: new Date().toISOString(),
+    comparison
+  };
+}
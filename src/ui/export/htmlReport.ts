@@ -0,0 +1,103 @@
+/**
+ * Single-file HTML report
+ * Serializes the rendered album report with inline app styles, spectrograms
+ * as PNG data URIs and the full export JSON embedded for re-import.
+ */
+
+import { appStyles } from '../styles.js';
+import type { ExportReport } from './jsonReport.js';
+
+/** id of the <script type="application/json"> block holding the ExportReport */
+export const EMBEDDED_REPORT_ID = 'auralgeek-report-data';
+
+// Interactive-only parts of the live report that make no sense in a static file
+const STRIP_SELECTORS = ['.view-toggle', '.json-toggle', '.json-preview', '.expand-icon', '.info-wrap', 'button'];
+
+export interface HtmlReportOptions {
+  report: ExportReport;
+  /** Serialized report markup (see captureReportMarkup) */
+  bodyHtml: string;
+  theme?: 'dark' | 'light';
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Rewrite shadow-DOM host selectors so the component stylesheet applies to a plain document.
+ * The <body> takes the place of the host element (and carries data-theme).
+ */
+export function hostStylesToDocument(cssText: string): string {
+  return cssText
+    .replace(/:host\(([^)]*)\)/g, 'body$1')
+    .replace(/:host/g, 'body');
+}
+
+/**
+ * Serialize JSON for a <script> block. Escaping "<" keeps "</script>" inside
+ * filenames or tags from terminating the block early.
+ */
+export function serializeEmbeddedJSON(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Clone rendered report markup for export: canvases become PNG <img> data URIs,
+ * interactive controls are dropped and Lit's marker comments are removed.
+ */
+export function captureReportMarkup(root: Element): string {
+  const clone = root.cloneNode(true) as Element;
+
+  const liveCanvases = root.querySelectorAll('canvas');
+  clone.querySelectorAll('canvas').forEach((canvas, i) => {
+    const live = liveCanvases[i];
+    if (!live || live.width === 0 || live.height === 0) {
+      canvas.remove();
+      return;
+    }
+    const img = document.createElement('img');
+    img.className = canvas.className;
+    img.alt = 'Spectrogram';
+    img.src = live.toDataURL('image/png');
+    canvas.replaceWith(img);
+  });
+
+  for (const selector of STRIP_SELECTORS) {
+    clone.querySelectorAll(selector).forEach(el => el.remove());
+  }
+
+  return clone.innerHTML.replace(/<!--[^]*?-->/g, '');
+}
+
+/**
+ * Build the complete HTML document.
+ */
+export function buildHtmlReport({ report, bodyHtml, theme = 'dark' }: HtmlReportOptions): string {
+  const title = `Auralgeek Report: ${report.summary.albumName}`;
+  const exported = new Date(report.exportDate).toLocaleString();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Auralgeek">
+<title>${escapeHtml(title)}</title>
+<style>
+${hostStylesToDocument(appStyles.cssText)}
+</style>
+</head>
+<body data-theme="${theme}">
+<div class="container">
+<div class="header-module">
+<div class="brand-row"><h1 class="logo">Auralgeek</h1><span class="version-badge">Report</span></div>
+<p class="tagline">${escapeHtml(report.summary.albumName)} · exported ${escapeHtml(exported)}</p>
+</div>
+${bodyHtml}
+</div>
+<script type="application/json" id="${EMBEDDED_REPORT_ID}">${serializeEmbeddedJSON(report)}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Report import
+ * Loads a previously exported JSON (or HTML report) back into an ExportReport,
+ * migrating older schema versions step by step up to the current one.
+ */
+
+import type { AlbumAnalysis } from '../../core/types.js';
+import { buildExportReport, EXPORT_SCHEMA_VERSION, type ExportReport } from './jsonReport.js';
+import { EMBEDDED_REPORT_ID } from './htmlReport.js';
+
+export interface ImportedReport {
+  report: ExportReport;
+  /** Schema version found in the file ("0" for a bare AlbumAnalysis) */
+  sourceVersion: string;
+  migrated: boolean;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each step must leave the report valid for its target version.
+ */
+const MIGRATIONS: Record<string, { to: string; migrate: (raw: any) => any }> = {
+  // Bare AlbumAnalysis, as produced by "Copy" or the CLI
+  '0': {
+    to: '1.0',
+    migrate: (analysis) => ({
+      ...buildExportReport({ ...analysis, failedTracks: analysis.failedTracks ?? [] }),
+      version: '1.0',
+      exportDate: analysis.analysisDateISO ?? new Date(0).toISOString()
+    })
+  },
+  // 1.1 added per-file failure records
+  '1.0': {
+    to: '1.1',
+    migrate: (raw) => ({
+      ...raw,
+      version: '1.1',
+      analysis: { ...raw.analysis, failedTracks: raw.analysis.failedTracks ?? [] }
+    })
+  },
+  // 1.2 added album loudness and gain tag text; track tags are rebuilt from the analysis
+  '1.1': {
+    to: '1.2',
+    migrate: (raw) => {
+      const rebuilt = buildExportReport(raw.analysis);
+      return {
+        ...raw,
+        version: '1.2',
+        summary: { ...raw.summary, albumIntegratedLUFS: rebuilt.summary.albumIntegratedLUFS },
+        trackOverview: rebuilt.trackOverview
+      };
+    }
+  },
+  // 1.3 replaced the fixed Spotify / Apple Music / YouTube / Tidal fields with the platform list
+  '1.2': {
+    to: '1.3',
+    migrate: (raw) => ({
+      ...raw,
+      version: '1.3',
+      analysis: { ...raw.analysis, tracks: raw.analysis.tracks.map(migrateStreamingSimulation) }
+    })
+  },
+  // 1.4 added per-track hum notch suggestions
+  '1.3': {
+    to: '1.4',
+    migrate: (raw) => ({
+      ...raw,
+      version: '1.4',
+      trackOverview: raw.trackOverview.map((t: any) => ({ ...t, humNotches: t.humNotches ?? [] }))
+    })
+  }
+};
+
+function migrateStreamingSimulation(track: any): any {
+  const sim = track.streamingSimulation;
+  if (!isObject(sim) || Array.isArray(sim.platforms)) return track;
+  const { spotify, appleMusic, youtube, tidal, ...rest } = sim;
+  return {
+    ...track,
+    streamingSimulation: { ...rest, platforms: [spotify, appleMusic, youtube, tidal].filter(isObject) }
+  };
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+function detectVersion(raw: Record<string, any>): string {
+  if (typeof raw.version === 'string' && isObject(raw.analysis)) return raw.version;
+  if (Array.isArray(raw.tracks) && typeof raw.albumName === 'string') return '0';
+  throw new Error('Not an Auralgeek analysis export');
+}
+
+const TRACK_SECTIONS = ['parameters', 'loudness', 'dynamics', 'stereo', 'spectral'] as const;
+
+/**
+ * Structural check on the album; migrations and renderers rely on these sections.
+ */
+function assertAlbumShape(album: unknown): asserts album is AlbumAnalysis {
+  if (!isObject(album)) throw new Error('Export is missing the "analysis" object');
+  if (typeof album.albumName !== 'string') throw new Error('analysis.albumName is missing');
+  if (!isObject(album.summary)) throw new Error('analysis.summary is missing');
+  if (!Array.isArray(album.tracks)) throw new Error('analysis.tracks is missing');
+
+  album.tracks.forEach((t: unknown, i: number) => {
+    if (!isObject(t) || typeof t.trackNumber !== 'number') {
+      throw new Error(`analysis.tracks[${i}] has no trackNumber`);
+    }
+    for (const section of TRACK_SECTIONS) {
+      if (!isObject(t[section])) throw new Error(`Track ${t.trackNumber} is missing "${section}"`);
+    }
+    if (!Array.isArray(t.issues)) t.issues = [];
+    if (!Array.isArray(t.warnings)) t.warnings = [];
+  });
+}
+
+/**
+ * Pull the embedded report JSON out of an exported HTML file.
+ * Returns null when the document has no embedded report.
+ */
+export function extractEmbeddedReport(html: string): string | null {
+  const match = html.match(new RegExp(`<script type="application/json" id="${EMBEDDED_REPORT_ID}">([^]*?)</script>`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse and migrate an exported report.
+ * Accepts export JSON, a bare AlbumAnalysis, or an exported HTML report.
+ */
+export function parseImportedReport(text: string): ImportedReport {
+  const trimmed = text.trimStart();
+  const json = trimmed.startsWith('<') ? extractEmbeddedReport(trimmed) : trimmed;
+  if (json === null) throw new Error('HTML file does not contain an embedded Auralgeek report');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e?.message ?? e}`);
+  }
+  if (!isObject(raw)) throw new Error('Not an Auralgeek analysis export');
+
+  const sourceVersion = detectVersion(raw);
+  if (compareVersions(sourceVersion, EXPORT_SCHEMA_VERSION) > 0) {
+    throw new Error(`Export version ${sourceVersion} is newer than this app supports (${EXPORT_SCHEMA_VERSION})`);
+  }
+
+  // Validate before migrating: migration steps read track sections
+  assertAlbumShape(sourceVersion === '0' ? raw : raw.analysis);
+
+  let current: any = raw;
+  let version = sourceVersion;
+  while (version !== EXPORT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`Unsupported export version ${version}`);
+    current = step.migrate(current);
+    version = step.to;
+  }
+
+  return { report: current as ExportReport, sourceVersion, migrated: sourceVersion !== EXPORT_SCHEMA_VERSION };
+}
@@ -0,0 +1,27 @@
+/**
+ * Report export barrel
+ */
+
+export {
+  buildExportReport,
+  exportFileStem,
+  EXPORT_SCHEMA_VERSION,
+  type ExportGainTags,
+  type ExportReport,
+  type ExportTrackOverview
+} from './jsonReport.js';
+export {
+  buildHtmlReport,
+  captureReportMarkup,
+  hostStylesToDocument,
+  serializeEmbeddedJSON,
+  EMBEDDED_REPORT_ID,
+  type HtmlReportOptions
+} from './htmlReport.js';
+export { parseImportedReport, extractEmbeddedReport, type ImportedReport } from './importReport.js';
+export { buildMeterLogCsv, buildBroadcastReportCsv, meterLogFileName } from '../../analysis/export/index.js';
+export {
+  buildComparisonExport,
+  COMPARISON_SCHEMA_VERSION,
+  type ComparisonExport
+} from './comparisonReport.js';
@@ -0,0 +1,163 @@
+/**
+ * JSON report builder
+ * Wraps an AlbumAnalysis with key findings and a per-track overview.
+ * The same structure is embedded in the HTML report.
+ */
+
+import type { AlbumAnalysis, HumNotch, TrackAnalysis } from '../../core/types.js';
+import { computeGainTags, formatReplayGainDB, formatReplayGainPeak } from '../../analysis/replayGain.js';
+
+/** Bump when the export shape changes and add a step to MIGRATIONS in importReport.ts */
+export const EXPORT_SCHEMA_VERSION = '1.4';
+
+/** Tag text ready to be written verbatim by a tagger; null when loudness was not measurable */
+export interface ExportGainTags {
+  REPLAYGAIN_TRACK_GAIN: string | null;
+  REPLAYGAIN_TRACK_PEAK: string | null;
+  REPLAYGAIN_ALBUM_GAIN: string | null;
+  REPLAYGAIN_ALBUM_PEAK: string | null;
+  iTunNORM: string | null;
+}
+
+export interface ExportTrackOverview {
+  number: number;
+  name: string;
+  duration: string;
+  integratedLUFS: number | null;
+  truePeakDBTP: number | null;
+  dynamicRangeDB: number | null;
+  issues: number;
+  warnings: number;
+  tags: ExportGainTags;
+  humNotches: HumNotch[]; // Notch filters for detected mains hum
+}
+
+export interface ExportReport {
+  version: string;
+  exportDate: string;
+  summary: {
+    albumName: string;
+    totalTracks: number;
+    totalDuration: string;
+    overallScore: number;
+    distributionReady: boolean;
+    albumIntegratedLUFS: number | null;
+    keyFindings: string[];
+    recommendations: string[];
+  };
+  trackOverview: ExportTrackOverview[];
+  analysis: AlbumAnalysis;
+}
+
+function buildGainTags(t: TrackAnalysis, album: AlbumAnalysis): ExportGainTags {
+  // Older analyses lack stored track gain; it follows directly from loudness and peak
+  const track = t.loudness.replayGain ?? computeGainTags(t.loudness.integratedLUFS, t.loudness.truePeakDBTP);
+  const albumGain = album.summary.albumReplayGain ?? null;
+  return {
+    REPLAYGAIN_TRACK_GAIN: track ? formatReplayGainDB(track.gainDB) : null,
+    REPLAYGAIN_TRACK_PEAK: track ? formatReplayGainPeak(track.peak) : null,
+    REPLAYGAIN_ALBUM_GAIN: albumGain ? formatReplayGainDB(albumGain.gainDB) : null,
+    REPLAYGAIN_ALBUM_PEAK: albumGain ? formatReplayGainPeak(albumGain.peak) : null,
+    iTunNORM: track?.iTunNORM ?? null
+  };
+}
+
+export function buildExportReport(album: AlbumAnalysis): ExportReport {
+  // Generate key findings from analysis
+  const keyFindings: string[] = [];
+  const recommendations: string[] = [];
+
+  // Loudness findings
+  if (album.summary.avgLUFS !== undefined) {
+    const avgLUFS = album.summary.avgLUFS;
+    if (avgLUFS > -10) {
+      keyFindings.push(`Album is very loud (avg ${avgLUFS.toFixed(1)} LUFS)`);
+      recommendations.push("Consider reducing loudness for better streaming platform performance");
+    } else if (avgLUFS < -16) {
+      keyFindings.push(`Album is relatively quiet (avg ${avgLUFS.toFixed(1)} LUFS)`);
+      recommendations.push("May be normalized up on streaming platforms, which is generally fine");
+    } else {
+      keyFindings.push(`Album loudness is in optimal range (avg ${avgLUFS.toFixed(1)} LUFS)`);
+    }
+  }
+
+  // Peak findings
+  if (album.summary.tracksAboveNeg1dBTP && album.summary.tracksAboveNeg1dBTP > 0) {
+    keyFindings.push(`${album.summary.tracksAboveNeg1dBTP} track(s) exceed -1 dBTP true peak`);
+    recommendations.push("Consider reducing peaks to below -1 dBTP for codec safety margin");
+  }
+  const codecClipping = album.tracks.filter(t => (t.codec?.predictedTruePeakDBTP ?? -Infinity) > 0);
+  if (codecClipping.length > 0) {
+    const ceiling = Math.min(...codecClipping.map(t => t.codec!.safeCeilingDBTP ?? -1));
+    keyFindings.push(`${codecClipping.length} track(s) predicted to clip after lossy encoding`);
+    recommendations.push(`Keep true peak at or below ${ceiling.toFixed(1)} dBTP so MP3 / AAC encodes do not clip`);
+  }
+
+  const humming = album.tracks.filter(t => t.hum?.detected);
+  if (humming.length > 0) {
+    const mains = [...new Set(humming.map(t => Math.round((t.hum!.frequencyHz ?? 50) / 10) * 10))].join(' / ');
+    keyFindings.push(`${humming.length} track(s) carry ${mains} Hz mains hum in quiet passages`);
+    recommendations.push("Notch out the hum harmonics listed per track (humNotches) or fix the ground loop and re-record");
+  }
+
+  // Clipping findings
+  if (album.summary.tracksWithClipping && album.summary.tracksWithClipping > 0) {
+    keyFindings.push(`${album.summary.tracksWithClipping} track(s) contain clipping`);
+    recommendations.push("Review clipped tracks and consider re-mastering");
+  }
+
+  // Dynamics findings
+  if (album.summary.avgDynamicRange !== undefined && album.summary.avgDynamicRange < 6) {
+    keyFindings.push("Limited dynamic range detected");
+    recommendations.push("Consider preserving more dynamics for improved listening experience");
+  }
+
+  // Phase issues
+  if (album.summary.tracksWithPhaseIssues && album.summary.tracksWithPhaseIssues > 0) {
+    keyFindings.push(`${album.summary.tracksWithPhaseIssues} track(s) have phase issues`);
+    recommendations.push("Check mono compatibility and low-end phase alignment");
+  }
+
+  // Failed files
+  if (album.failedTracks.length > 0) {
+    keyFindings.push(`${album.failedTracks.length} file(s) could not be analyzed`);
+    recommendations.push("Re-export or replace the failed files and run the analysis again");
+  }
+
+  // Track overview for quick reference
+  const trackOverview: ExportTrackOverview[] = album.tracks.map(t => ({
+    number: t.trackNumber,
+    name: t.parameters.filename,
+    duration: t.parameters.durationFormatted,
+    integratedLUFS: t.loudness.integratedLUFS,
+    truePeakDBTP: t.loudness.truePeakDBTP,
+    dynamicRangeDB: t.dynamics.dynamicRangeDB,
+    issues: t.issues.length,
+    warnings: t.warnings.length,
+    tags: buildGainTags(t, album),
+    humNotches: t.hum?.notches ?? []
+  }));
+
+  // Enhanced export structure
+  return {
+    version: EXPORT_SCHEMA_VERSION,
+    exportDate: new Date().toISOString(),
+    summary: {
+      albumName: album.albumName,
+      totalTracks: album.totalTracks,
+      totalDuration: album.totalDuration,
+      overallScore: album.overallScore,
+      distributionReady: album.distributionReady,
+      albumIntegratedLUFS: album.summary.albumIntegratedLUFS ?? null,
+      keyFindings,
+      recommendations
+    },
+    trackOverview,
+    analysis: album
+  };
+}
+
+/** Download-safe file stem for an album, e.g. "auralgeek-my-album-analysis" */
+export function exportFileStem(album: AlbumAnalysis): string {
+  return `auralgeek-${album.albumName.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-analysis`;
+}
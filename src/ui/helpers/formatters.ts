@@ -26,12 +26,13 @@ export function getRatingClass(score: number): string {
 // Section scoring functions - returns 0-10 score
 export function scoreLoudness(t: TrackAnalysis): number {
   let score = 10;
-  const lufs = t.loudness.integratedLUFS ?? -14;
+  // Offset from the delivery target (the correction is target - integrated)
+  const offset = -(t.loudness.loudnessCorrectionDB ?? 0);
   const lra = t.loudness.loudnessRangeLU ?? 8;
 
-  if (lufs > -9) score -= 2.5;
-  else if (lufs > -12) score -= 1.0;
-  else if (lufs < -20) score -= 1.5;
+  if (offset > 5) score -= 2.5;
+  else if (offset > 2) score -= 1.0;
+  else if (offset < -6) score -= 1.5;
 
   if (lra < 4) score -= 2.0;
   else if (lra < 6) score -= 1.0;
@@ -44,10 +45,11 @@ export function scorePeaks(t: TrackAnalysis): number {
   let score = 10;
   const tp = t.loudness.truePeakDBTP ?? -3;
   const isp = t.loudness.ispMarginDB ?? 0;
+  const limit = t.streamingSimulation.target?.tpLimitDBTP ?? -1;
 
-  if (tp > -0.5) score -= 3.0;
-  else if (tp > -1.0) score -= 1.5;
-  else if (tp > -1.5) score -= 0.5;
+  if (tp > limit + 0.5) score -= 3.0;
+  else if (tp > limit) score -= 1.5;
+  else if (tp > limit - 0.5) score -= 0.5;
 
   if (isp > 1.0) score -= 1.5;
   else if (isp > 0.5) score -= 0.5;
@@ -66,6 +68,8 @@ export function scoreDynamics(t: TrackAnalysis): number {
     if (clipCount > 100) score -= 3.0;
     else if (clipCount > 10) score -= 2.0;
     else score -= 1.0;
+  } else if (t.dynamics.clipPlateaus?.clippedThenAttenuated) {
+    score -= 1.0;
   }
 
   if (dr < 6) score -= 2.0;
@@ -128,14 +132,14 @@ export function scoreSpectral(t: TrackAnalysis): number {
 
 export function scoreStreaming(t: TrackAnalysis): number {
   let score = 10;
-  const spotify = t.streamingSimulation.spotify;
+  const sim = t.streamingSimulation.target ?? t.streamingSimulation.platforms.find(p => p.platform === 'Spotify');
 
-  if (spotify) {
-    const projTP = spotify.projectedTruePeakDBTP;
-    const gain = spotify.gainChangeDB;
+  if (sim) {
+    const projTP = sim.projectedTruePeakDBTP;
+    const gain = sim.gainChangeDB;
 
     if (projTP > 0) score -= 3.0;
-    else if (projTP > -1) score -= 1.5;
+    else if (projTP > (sim.tpLimitDBTP ?? -1)) score -= 1.5;
 
     if (gain < -8) score -= 1.5;
     else if (gain < -4) score -= 0.5;
@@ -174,6 +178,12 @@ export function scoreArtifacts(t: TrackAnalysis): number {
 
   if (t.aiArtifacts.shimmerDetected) score -= 0.5;
 
+  const glitches = t.glitches;
+  if (glitches) {
+    if (glitches.dropoutCount + glitches.repeatCount > 0) score -= 3.0;
+    else if (glitches.clickCount > 0) score -= 1.5;
+  }
+
   return clamp(score, 0, 10);
 }
 
@@ -0,0 +1,50 @@
+/**
+ * Delivery Profile Store
+ * Persists user-defined delivery profiles and the selected profile in localStorage
+ */
+
+import type { DeliveryProfile } from '../core/types.js';
+import { DEFAULT_PROFILE, findProfile, parseDeliveryProfile } from '../core/profiles.js';
+
+const CUSTOM_KEY = 'auralgeek-profiles';
+const SELECTED_KEY = 'auralgeek-profile';
+
+/**
+ * Load custom profiles; entries that no longer validate are dropped with a warning
+ */
+export function loadCustomProfiles(): DeliveryProfile[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(localStorage.getItem(CUSTOM_KEY) ?? '[]');
+  } catch (e) {
+    console.warn('Stored delivery profiles are not valid JSON:', e);
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const profiles: DeliveryProfile[] = [];
+  for (const entry of raw) {
+    try {
+      profiles.push(parseDeliveryProfile(entry));
+    } catch (e) {
+      console.warn('Skipping invalid stored delivery profile:', e);
+    }
+  }
+  return profiles;
+}
+
+export function saveCustomProfiles(profiles: DeliveryProfile[]): void {
+  localStorage.setItem(CUSTOM_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Selected profile, falling back to the default when it was deleted
+ */
+export function loadSelectedProfile(custom: DeliveryProfile[]): DeliveryProfile {
+  const id = localStorage.getItem(SELECTED_KEY);
+  return (id && findProfile(id, custom)) || DEFAULT_PROFILE;
+}
+
+export function saveSelectedProfile(profile: DeliveryProfile): void {
+  localStorage.setItem(SELECTED_KEY, profile.id);
+}
@@ -0,0 +1,69 @@
+/**
+ * ACX Renderer
+ * Per-chapter spoken-word pass/fail with the measured ACX values
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { AcxChapterCheck, AcxValidation } from '../../core/types.js';
+import { renderInfoBtn } from './metrics.js';
+
+function fmt(v: number | null, unit: string, decimals = 1): string {
+  return v !== null ? `${v.toFixed(decimals)} ${unit}` : '—';
+}
+
+function renderChapter(c: AcxChapterCheck): TemplateResult {
+  return html`
+    <div class="stat-group">
+      <div class="stat-group-title">
+        <span>${c.pass ? '✓' : '✗'}</span> Chapter ${c.trackNumber}
+        <span class="badge ${c.pass ? 'badge-ok' : 'badge-bad'}" style="margin-left: 6px;">${c.pass ? 'Pass' : 'Fail'}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">RMS</span>
+        <span class="stat-value">${fmt(c.rmsDBFS, 'dBFS')}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Peak</span>
+        <span class="stat-value">${fmt(c.peakDBFS, 'dBFS')}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Noise Floor</span>
+        <span class="stat-value">${fmt(c.noiseFloorDB, 'dB')}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Room Tone</span>
+        <span class="stat-value">${fmt(c.headRoomToneS, 's', 2)} / ${fmt(c.tailRoomToneS, 's', 2)}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Dialogue</span>
+        <span class="stat-value">${fmt(c.dialogueGatedLUFS, 'LUFS')}</span>
+      </div>
+    </div>
+  `;
+}
+
+export function renderAcxPanel(v: AcxValidation): TemplateResult {
+  const chapterFindings = v.chapters.flatMap(c => [
+    ...c.issues.map(m => ({ kind: 'danger', text: `Chapter ${c.trackNumber}: ${m}` })),
+    ...c.warnings.map(m => ({ kind: 'warning', text: `Chapter ${c.trackNumber}: ${m}` }))
+  ]);
+
+  return html`
+    <div class="panel">
+      <h3 class="panel-title">
+        ACX Spoken Word ${renderInfoBtn("Each file is an ACX chapter: RMS -23 to -18 dBFS, peaks ≤ -3 dBFS, noise floor ≤ -60 dB, 0.5–1 s room tone at the head and 1–5 s at the tail, at most 120 minutes.")}
+        <span class="badge ${v.ready ? 'badge-ok' : 'badge-bad'}" style="margin-left: 8px;">${v.passed} / ${v.chapters.length} pass</span>
+      </h3>
+      <div class="summary-stats">
+        ${v.chapters.map(renderChapter)}
+      </div>
+      ${v.issues.length || v.warnings.length || chapterFindings.length ? html`
+        <div class="issues-wrap">
+          ${v.issues.map(m => html`<div class="alert alert-danger">${m}</div>`)}
+          ${v.warnings.map(m => html`<div class="alert alert-warning">${m}</div>`)}
+          ${chapterFindings.map(f => html`<div class="alert alert-${f.kind}">${f.text}</div>`)}
+        </div>
+      ` : null}
+    </div>
+  `;
+}
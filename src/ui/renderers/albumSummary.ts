@@ -4,9 +4,13 @@
  */
 
 import { html, TemplateResult } from 'lit';
-import type { AlbumAnalysis, TrackAnalysis } from '../../core/types.js';
+import type { AlbumAnalysis, FailedTrack, TrackAnalysis } from '../../core/types.js';
 import { renderMeter, renderInfoBtn } from './metrics.js';
 import { renderTrackCard, renderSimpleTrackCard } from './trackCard.js';
+import { renderRedBookPanel } from './redbook.js';
+import { renderVinylPanel } from './vinyl.js';
+import { renderAcxPanel } from './acx.js';
+import { renderBroadcastPanel } from './broadcast.js';
 
 export interface AlbumReportContext {
   viewMode: 'simple' | 'advanced';
@@ -16,6 +20,8 @@ export interface AlbumReportContext {
   onToggleTrack: (trackNumber: number) => void;
   onToggleJson: () => void;
   onViewModeChange: (mode: 'simple' | 'advanced') => void;
+  onExportBroadcastReport?: () => void;
+  onExportMeterLog?: (track: TrackAnalysis) => void;
 }
 
 export function renderReport(album: AlbumAnalysis, ctx: AlbumReportContext): TemplateResult {
@@ -35,6 +41,7 @@ export function renderReport(album: AlbumAnalysis, ctx: AlbumReportContext): Tem
             <span>${album.totalTracks} tracks</span>
             <span>${album.totalDuration}</span>
             <span>${album.totalSizeMB.toFixed(1)} MB</span>
+            ${album.deliveryProfile ? html`<span title="Delivery profile the rules and scores were evaluated against">${album.deliveryProfile.name}</span>` : null}
           </div>
           <span class="badge ${album.distributionReady ? 'badge-ok' : 'badge-warn'}" title="${album.distributionReadyNote ?? ''}">
             ${album.distributionReadyNote ?? (album.distributionReady ? 'Distribution Ready' : 'Needs Attention')}
@@ -51,6 +58,14 @@ export function renderReport(album: AlbumAnalysis, ctx: AlbumReportContext): Tem
         <!-- Loudness Stats -->
         <div class="stat-group">
           <div class="stat-group-title"><span>◐</span> Loudness</div>
+          <div class="stat-row">
+            <span class="stat-label">Album Integrated ${renderInfoBtn("BS.1770 gated loudness over every track's blocks together — what album-normalising players measure. Differs from the track average when track lengths or loudness vary.")}</span>
+            <span class="stat-value">${s.albumIntegratedLUFS?.toFixed(1) ?? '—'} LUFS</span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Album Gain ${renderInfoBtn("ReplayGain 2.0 album gain (reference -18 LUFS) and album peak. Track gains and iTunNORM Sound Check values are in the JSON export.")}</span>
+            <span class="stat-value">${s.albumReplayGain ? `${s.albumReplayGain.gainDB > 0 ? '+' : ''}${s.albumReplayGain.gainDB.toFixed(2)} dB / ${s.albumReplayGain.peak.toFixed(3)}` : '—'}</span>
+          </div>
           <div class="stat-row">
             <span class="stat-label">Range ${renderInfoBtn("Min to max integrated loudness across all tracks. Smaller range = more cohesive album.")}</span>
             <span class="stat-value">${s.lufsRange ?? '—'}</span>
@@ -204,9 +219,63 @@ export function renderReport(album: AlbumAnalysis, ctx: AlbumReportContext): Tem
             `)}
           </div>
         ` : null}
+
+        <!-- Failed files -->
+        ${album.failedTracks.length > 0 ? html`
+          <div class="stat-group">
+            <div class="stat-group-title"><span>✕</span> Failed Files</div>
+            ${album.failedTracks.map(f => html`
+              <div class="stat-row">
+                <span class="stat-label">Track ${f.trackNumber}</span>
+                <span class="stat-value danger" style="font-size: 0.6rem;">${f.filename}</span>
+              </div>
+            `)}
+          </div>
+        ` : null}
+
+        <!-- Duplicate ISRCs -->
+        ${s.duplicateISRCs && s.duplicateISRCs.length > 0 ? html`
+          <div class="stat-group">
+            <div class="stat-group-title"><span>⚠</span> Duplicate ISRCs</div>
+            ${s.duplicateISRCs.map(d => html`
+              <div class="stat-row">
+                <span class="stat-label">${d.isrc}</span>
+                <span class="stat-value danger" style="font-size: 0.6rem;">Tracks ${d.trackNumbers.join(', ')}</span>
+              </div>
+            `)}
+          </div>
+        ` : null}
+      </div>
+    </div>
+
+    ${album.redBook ? renderRedBookPanel(album.redBook) : null}
+    ${album.vinyl ? renderVinylPanel(album.vinyl, album.tracks) : null}
+    ${album.acx ? renderAcxPanel(album.acx) : null}
+    ${album.broadcast ? renderBroadcastPanel(album.broadcast, album.tracks, {
+      onExportReport: ctx.onExportBroadcastReport,
+      onExportMeterLog: ctx.onExportMeterLog
+    }) : null}
+
+    ${renderTrackList(album.tracks, ctx, album.failedTracks)}
+
+    <div class="panel">
+      <div class="json-toggle" @click=${ctx.onToggleJson}>
+        <h3 class="panel-title" style="margin:0;border:0;padding:0">Raw Data</h3>
+        <span class="json-toggle-icon">${ctx.jsonVisible ? '▲' : '▼'}</span>
+      </div>
+      <div class="json-preview ${ctx.jsonVisible ? 'visible' : ''}">
+        <pre>${JSON.stringify(album, null, 2)}</pre>
       </div>
     </div>
+  `;
+}
 
+/**
+ * Render the track card panel.
+ * Also used on its own while tracks are still streaming in from the worker pool.
+ */
+export function renderTrackList(tracks: TrackAnalysis[], ctx: AlbumReportContext, failed: FailedTrack[] = []) {
+  return html`
     <div class="panel">
       <div style="display: flex; justify-content: space-between; align-items: center; flex-wrap: wrap; gap: 8px;">
         <h3 class="panel-title" style="margin: 0; border: 0; padding: 0;">Track Analysis</h3>
@@ -219,20 +288,15 @@ export function renderReport(album: AlbumAnalysis, ctx: AlbumReportContext): Tem
         </div>
       </div>
       <div style="border-bottom: 1px solid var(--border-subtle); margin: 10px 0 14px;"></div>
-      ${album.tracks.map((t: TrackAnalysis) => ctx.viewMode === 'simple'
+      ${tracks.map((t: TrackAnalysis) => ctx.viewMode === 'simple'
         ? renderSimpleTrackCard(t, ctx.spectrograms?.get(t.trackNumber))
         : renderTrackCard(t, ctx.expandedTracks.has(t.trackNumber), () => ctx.onToggleTrack(t.trackNumber), ctx.spectrograms?.get(t.trackNumber))
       )}
-    </div>
-
-    <div class="panel">
-      <div class="json-toggle" @click=${ctx.onToggleJson}>
-        <h3 class="panel-title" style="margin:0;border:0;padding:0">Raw Data</h3>
-        <span class="json-toggle-icon">${ctx.jsonVisible ? '▲' : '▼'}</span>
-      </div>
-      <div class="json-preview ${ctx.jsonVisible ? 'visible' : ''}">
-        <pre>${JSON.stringify(album, null, 2)}</pre>
-      </div>
+      ${failed.map(f => html`
+        <div class="alert alert-danger">
+          Track ${f.trackNumber} · ${f.filename} — ${f.stage === 'decode' ? 'decode' : 'analysis'} failed: ${f.reason}
+        </div>
+      `)}
     </div>
   `;
 }
@@ -0,0 +1,76 @@
+/**
+ * Broadcast Renderer
+ * EBU R128 / ATSC A/85 compliance report with CSV export of the meter logs
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { BroadcastProgrammeReport, BroadcastValidation, TrackAnalysis } from '../../core/types.js';
+import { renderInfoBtn } from './metrics.js';
+
+export interface BroadcastPanelContext {
+  onExportReport?: () => void;
+  onExportMeterLog?: (track: TrackAnalysis) => void;
+}
+
+function fmt(v: number | null, unit: string): string {
+  return v !== null ? `${v.toFixed(1)} ${unit}` : '—';
+}
+
+function verdict(pass: boolean): TemplateResult {
+  return html`<span class="stat-value ${pass ? 'good' : 'danger'}">${pass ? 'Pass' : 'Fail'}</span>`;
+}
+
+function renderProgramme(p: BroadcastProgrammeReport, track: TrackAnalysis | undefined, ctx: BroadcastPanelContext): TemplateResult {
+  const deviation = p.deviationLU !== null ? ` (${p.deviationLU > 0 ? '+' : ''}${p.deviationLU.toFixed(1)})` : '';
+  return html`
+    <div class="stat-group">
+      <div class="stat-group-title">
+        <span>${p.pass ? '✓' : '✗'}</span> Programme ${p.trackNumber}
+        <span class="badge ${p.pass ? 'badge-ok' : 'badge-bad'}" style="margin-left: 6px;">${p.pass ? 'Pass' : 'Fail'}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Integrated ${fmt(p.integratedLUFS, 'LUFS')}${deviation}</span>
+        ${verdict(p.integratedPass)}
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Max True Peak ${fmt(p.maxTruePeakDBTP, 'dBTP')}</span>
+        ${verdict(p.truePeakPass)}
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">LRA</span>
+        <span class="stat-value">${fmt(p.loudnessRangeLU, 'LU')}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Max Momentary</span>
+        <span class="stat-value">${fmt(p.maxMomentaryLUFS, 'LUFS')}</span>
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Max Short-term</span>
+        <span class="stat-value">${fmt(p.maxShortTermLUFS, 'LUFS')}</span>
+      </div>
+      ${track?.loudness.meterLog && ctx.onExportMeterLog ? html`
+        <button class="btn btn-secondary btn-small" style="margin-top: 6px;" @click=${() => ctx.onExportMeterLog!(track)}
+          title="Momentary and short-term loudness every 100 ms (EBU mode)">Meter Log CSV</button>
+      ` : null}
+    </div>
+  `;
+}
+
+export function renderBroadcastPanel(v: BroadcastValidation, tracks: TrackAnalysis[], ctx: BroadcastPanelContext = {}): TemplateResult {
+  const tolerance = v.toleranceLU !== null ? ` ±${v.toleranceLU} LU` : '';
+  return html`
+    <div class="panel">
+      <h3 class="panel-title">
+        Broadcast Compliance · ${v.standard}
+        ${renderInfoBtn(`Each file is a programme: integrated loudness ${v.targetLUFS} LUFS${tolerance} and true peak ≤ ${v.maxTruePeakDBTP} dBTP must pass. LRA and maximum momentary / short-term loudness are reported for information.`)}
+        <span class="badge ${v.ready ? 'badge-ok' : 'badge-bad'}" style="margin-left: 8px;">${v.passed} / ${v.programmes.length} pass</span>
+        ${ctx.onExportReport ? html`
+          <button class="btn btn-secondary btn-small" style="margin-left: 8px;" @click=${ctx.onExportReport}>Report CSV</button>
+        ` : null}
+      </h3>
+      <div class="summary-stats">
+        ${v.programmes.map(p => renderProgramme(p, tracks.find(t => t.trackNumber === p.trackNumber), ctx))}
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,138 @@
+/**
+ * Comparison Renderer
+ * Version-to-version diff of two album analyses
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { AlbumComparison, MetricDelta, TrackComparison } from '../../core/types.js';
+
+export interface ComparisonContext {
+  onExport: () => void;
+  onClose: () => void;
+}
+
+type Direction = 'higher-better' | 'lower-better' | 'neutral';
+
+function formatDelta(d: MetricDelta, unit: string, digits = 1): string {
+  if (d.delta === null) return '—';
+  const sign = d.delta > 0 ? '+' : '';
+  return `${sign}${d.delta.toFixed(digits)}${unit ? ` ${unit}` : ''}`;
+}
+
+function formatValue(v: number | null, digits = 1): string {
+  return v === null ? '—' : v.toFixed(digits);
+}
+
+function deltaClass(d: MetricDelta, direction: Direction): string {
+  if (d.delta === null || d.delta === 0 || direction === 'neutral') return '';
+  const improved = direction === 'higher-better' ? d.delta > 0 : d.delta < 0;
+  return improved ? 'good' : 'danger';
+}
+
+function renderDeltaRow(label: string, d: MetricDelta, unit: string, direction: Direction, digits = 1): TemplateResult {
+  return html`
+    <div class="stat-row">
+      <span class="stat-label">${label}</span>
+      <span class="stat-value ${deltaClass(d, direction)}" title="${formatValue(d.before, digits)} → ${formatValue(d.after, digits)}">
+        ${formatValue(d.before, digits)} → ${formatValue(d.after, digits)} (${formatDelta(d, unit, digits)})
+      </span>
+    </div>
+  `;
+}
+
+function renderMessageList(items: string[], cls: string, prefix: string): TemplateResult | null {
+  if (items.length === 0) return null;
+  return html`${items.map(m => html`
+    <div class="stat-row">
+      <span class="stat-value ${cls}" style="font-size: 0.6rem; text-align: left;">${prefix} ${m}</span>
+    </div>
+  `)}`;
+}
+
+function renderTrackDiff(t: TrackComparison): TemplateResult {
+  const renamed = t.before.filename !== t.after.filename;
+  return html`
+    <div class="stat-group">
+      <div class="stat-group-title">
+        <span>${t.after.trackNumber}</span> ${t.after.filename}
+      </div>
+      <div class="stat-row">
+        <span class="stat-label">Matched by</span>
+        <span class="stat-value" title="${renamed ? `Previously ${t.before.filename}` : ''}">
+          ${t.matchedBy}${renamed ? ` (was ${t.before.filename})` : ''}
+        </span>
+      </div>
+      ${renderDeltaRow('Integrated', t.integratedLUFS, 'LU', 'neutral')}
+      ${renderDeltaRow('True Peak', t.truePeakDBTP, 'dB', 'lower-better')}
+      ${renderDeltaRow('LRA', t.loudnessRangeLU, 'LU', 'neutral')}
+      ${renderDeltaRow('Tilt', t.spectralTiltDBPerOctave, 'dB/oct', 'neutral', 2)}
+      ${renderDeltaRow('Score', t.score, '', 'higher-better')}
+      ${renderMessageList(t.newIssues, 'danger', '+')}
+      ${renderMessageList(t.resolvedIssues, 'good', '✓')}
+      ${renderMessageList(t.newWarnings, 'warning', '+')}
+      ${renderMessageList(t.resolvedWarnings, 'good', '✓')}
+    </div>
+  `;
+}
+
+export function renderComparison(cmp: AlbumComparison, ctx: ComparisonContext): TemplateResult {
+  const s = cmp.summary;
+  const readyLabel = (ready: boolean) => ready ? 'Ready' : 'Not ready';
+  return html`
+    <div class="panel">
+      <div style="display: flex; justify-content: space-between; align-items: center; flex-wrap: wrap; gap: 8px;">
+        <h3 class="panel-title" style="margin: 0; border: 0; padding: 0;">
+          Comparison: ${cmp.before.albumName} → ${cmp.after.albumName}
+        </h3>
+        <div class="btn-row" style="margin: 0;">
+          <button class="btn btn-secondary" @click=${ctx.onExport}>Export Diff</button>
+          <button class="btn btn-secondary" @click=${ctx.onClose}>Close</button>
+        </div>
+      </div>
+      <div style="border-bottom: 1px solid var(--border-subtle); margin: 10px 0 14px;"></div>
+
+      <div class="summary-stats">
+        <div class="stat-group">
+          <div class="stat-group-title"><span>Δ</span> Album</div>
+          ${renderDeltaRow('Score', s.overallScore, '', 'higher-better')}
+          ${renderDeltaRow('Avg Loudness', s.avgLUFS, 'LU', 'neutral')}
+          ${renderDeltaRow('Max True Peak', s.maxTruePeak, 'dB', 'lower-better')}
+          ${renderDeltaRow('Avg LRA', s.avgLRA, 'LU', 'neutral')}
+          ${renderDeltaRow('Avg Tilt', s.avgSpectralTilt, 'dB/oct', 'neutral')}
+          ${renderDeltaRow('Issues', s.totalIssues, '', 'lower-better', 0)}
+          ${renderDeltaRow('Warnings', s.totalWarnings, '', 'lower-better', 0)}
+          <div class="stat-row">
+            <span class="stat-label">Distribution</span>
+            <span class="stat-value ${s.distributionReady.after ? 'good' : 'danger'}">
+              ${readyLabel(s.distributionReady.before)} → ${readyLabel(s.distributionReady.after)}
+            </span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Issues new / resolved</span>
+            <span class="stat-value">${s.newIssueCount} / ${s.resolvedIssueCount}</span>
+          </div>
+        </div>
+
+        ${cmp.unmatchedBefore.length > 0 || cmp.unmatchedAfter.length > 0 ? html`
+          <div class="stat-group">
+            <div class="stat-group-title"><span>?</span> Unmatched Tracks</div>
+            ${cmp.unmatchedBefore.map(t => html`
+              <div class="stat-row">
+                <span class="stat-label">Removed</span>
+                <span class="stat-value warning" style="font-size: 0.6rem;">${t.filename}</span>
+              </div>
+            `)}
+            ${cmp.unmatchedAfter.map(t => html`
+              <div class="stat-row">
+                <span class="stat-label">Added</span>
+                <span class="stat-value warning" style="font-size: 0.6rem;">${t.filename}</span>
+              </div>
+            `)}
+          </div>
+        ` : null}
+
+        ${cmp.tracks.map(renderTrackDiff)}
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,67 @@
+/**
+ * Findings Renderer
+ * Primary concern, cause → effect chains and issue/warning lists from a track's
+ * structured findings
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { AnalysisIssue, TrackAnalysis } from '../../core/types.js';
+import { findingChain, findingHeadline, primaryFinding } from '../../analysis/rules/index.js';
+
+/**
+ * Structured findings; reports exported before findings were structured only
+ * carry message strings, which are shown without ranking or links
+ */
+export function trackFindings(t: TrackAnalysis): { issues: AnalysisIssue[]; warnings: AnalysisIssue[] } {
+  const plain = (message: string, severity: number): AnalysisIssue => ({ message, severity, confidence: 1, category: 'format' });
+  return {
+    issues: t.enhancedIssues ?? t.issues.map(m => plain(m, 0.8)),
+    warnings: t.enhancedWarnings ?? t.warnings.map(m => plain(m, 0.3))
+  };
+}
+
+export function renderPrimaryConcern(t: TrackAnalysis): TemplateResult | null {
+  const { issues, warnings } = trackFindings(t);
+  const all = [...issues, ...warnings];
+  const primary = t.enhancedIssues
+    ? all.find(f => f.message === t.primaryConcern)
+    : primaryFinding(issues, warnings);
+  if (!primary) return null;
+  const chain = findingChain(primary, all);
+  const critical = issues.includes(primary);
+
+  return html`
+    <div class="primary-concern ${critical ? 'critical' : ''}">
+      <div>
+        ${primary.message}
+        ${chain.length > 1 ? html`
+          <div class="finding-chain">${chain.map(findingHeadline).join(' → ')}</div>
+        ` : null}
+      </div>
+    </div>
+  `;
+}
+
+function renderFinding(f: AnalysisIssue, kind: 'danger' | 'warning', all: AnalysisIssue[]): TemplateResult {
+  const cause = f.causedBy ? all.find(c => c.ruleId === f.causedBy) : undefined;
+  return html`
+    <div class="alert alert-${kind}" title=${`Severity ${Math.round(f.severity * 100)}% · confidence ${Math.round(f.confidence * 100)}%`}>
+      <div>
+        ${f.message}
+        ${cause ? html`<div class="alert-cause">Likely caused by: ${findingHeadline(cause)}</div>` : null}
+      </div>
+    </div>
+  `;
+}
+
+export function renderFindings(t: TrackAnalysis, style = ''): TemplateResult | null {
+  const { issues, warnings } = trackFindings(t);
+  if (issues.length === 0 && warnings.length === 0) return null;
+  const all = [...issues, ...warnings];
+  return html`
+    <div class="issues-wrap" style=${style}>
+      ${issues.map(f => renderFinding(f, 'danger', all))}
+      ${warnings.map(f => renderFinding(f, 'warning', all))}
+    </div>
+  `;
+}
@@ -3,6 +3,15 @@
  */
 
 export { renderInfoBtn, renderMeter, renderMetricRow } from './metrics.js';
-export { renderPlatformCard } from './platforms.js';
+export { renderPlatformCard, renderPlatformGrid, renderLimiterRender, renderCodecEmulation } from './platforms.js';
 export { renderTrackCard, renderSimpleTrackCard } from './trackCard.js';
-export { renderReport, type AlbumReportContext } from './albumSummary.js';
+export { renderReport, renderTrackList, type AlbumReportContext } from './albumSummary.js';
+export { renderComparison, type ComparisonContext } from './comparison.js';
+export { renderProfileBar, type ProfileBarContext } from './profiles.js';
+export { renderRulesPanel, type RulesPanelContext } from './rules.js';
+export { renderFindings, renderPrimaryConcern, trackFindings } from './findings.js';
+export { renderRedBookPanel } from './redbook.js';
+export { renderVinylPanel } from './vinyl.js';
+export { renderAcxPanel } from './acx.js';
+export { renderLimiterTimeline } from './timeline.js';
+export { renderBroadcastPanel, type BroadcastPanelContext } from './broadcast.js';
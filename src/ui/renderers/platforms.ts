@@ -4,7 +4,19 @@
  */
 
 import { html, TemplateResult } from 'lit';
-import type { PlatformNormalization } from '../../core/types.js';
+import type { CodecEmulation, PlatformLimiterSimulation, PlatformNormalization, StreamingSimulation } from '../../core/types.js';
+import { formatDuration } from '../../core/format.js';
+import { renderMetricRow } from './metrics.js';
+
+// Short playback-behaviour tags for catalogue platforms
+function behaviourTags(platform: PlatformNormalization): string[] {
+  if (!platform.platformId) return [];
+  const tags: string[] = [];
+  if (platform.normalization === 'album') tags.push('album');
+  if (!platform.boostsQuiet) tags.push('no boost');
+  else if (platform.limiterOnBoost) tags.push('limiter');
+  return tags;
+}
 
 export function renderPlatformCard(platform: PlatformNormalization | null): TemplateResult {
   if (!platform) return html``;
@@ -13,16 +25,58 @@ export function renderPlatformCard(platform: PlatformNormalization | null): Temp
                    platform.gainChangeDB < -6 ? "severe" : "negative";
   const hasRisk = platform.riskFlags && platform.riskFlags.length > 0;
 
-  const platformId = platform.platform.toLowerCase().replace(/\s+/g, '');
+  // Catalogue ids share the logo of their service ("spotify-loud" → "spotify")
+  const platformId = platform.platformId?.split('-')[0] ?? platform.platform.toLowerCase().replace(/\s+/g, '');
+  const tags = behaviourTags(platform);
 
   return html`
-    <div class="platform-card" data-platform="${platformId}">
+    <div class="platform-card" data-platform="${platformId}" title="${platform.riskFlags.join('\n')}">
       <div class="platform-name">${platform.platform}</div>
       <div class="platform-gain ${gainClass}">
         ${platform.gainChangeDB > 0 ? '+' : ''}${platform.gainChangeDB.toFixed(1)} dB
       </div>
       <div class="platform-tp">→ ${platform.projectedTruePeakDBTP.toFixed(1)} dBTP</div>
+      ${tags.length ? html`<div class="platform-mode">${tags.join(' · ')}</div>` : null}
       ${hasRisk ? html`<div class="platform-risk">⚠</div>` : null}
     </div>
   `;
 }
+
+/** The profile target followed by every simulated platform */
+export function renderPlatformGrid(sim: StreamingSimulation): TemplateResult {
+  return html`
+    <div class="platform-grid">
+      ${renderPlatformCard(sim.target ?? null)}
+      ${sim.platforms.map(renderPlatformCard)}
+    </div>
+  `;
+}
+
+/** What the boost limiter does to the track when played in a "loud" mode */
+export function renderLimiterRender(r: PlatformLimiterSimulation | null | undefined): TemplateResult {
+  if (!r) return html``;
+  const crest = r.crestChangeDB !== null ? `${r.crestChangeDB > 0 ? '+' : ''}${r.crestChangeDB.toFixed(1)} dB` : "—";
+  return html`
+    ${renderMetricRow(`${r.platform} GR`, `Peak gain reduction by the platform limiter after a +${r.gainDB.toFixed(1)} dB boost.`, `${r.maxGainReductionDB.toFixed(1)} dB`, r.maxGainReductionDB >= 3 ? "warning" : "", { numValue: r.maxGainReductionDB, type: "low-good", min: 0, max: 12 })}
+    ${renderMetricRow("Time Limiting", "Share of the track with more than 0.1 dB gain reduction.", `${r.limitingPct.toFixed(1)}%`, r.limitingPct >= 5 ? "warning" : "", { numValue: r.limitingPct, type: "low-good", min: 0, max: 50 })}
+    ${renderMetricRow("Crest Change", "Crest factor after the platform limiter, relative to the master.", crest, (r.crestChangeDB ?? 0) <= -2 ? "warning" : "")}
+    ${renderMetricRow("Post-Limit TP", "True peak measured on the boosted, limited render.", r.postTruePeakDBTP !== null ? `${r.postTruePeakDBTP.toFixed(1)} dBTP` : "—")}
+    ${r.note ? html`<div class="metric-note" style="font-size: 0.6rem; color: var(--text-secondary); padding: 2px 0;">${r.note}</div>` : null}
+  `;
+}
+
+export function renderCodecEmulation(c: CodecEmulation | null | undefined): TemplateResult {
+  if (!c) return html``;
+  const worst = c.bitrates.find(b => b.bitrateKbps === c.worstBitrateKbps);
+  const times = worst?.overshoots.slice(0, 5).map(e => formatDuration(e.timestamp)).join(", ") ?? "";
+  return html`
+    ${c.bitrates.map(b => renderMetricRow(
+      `${b.bitrateKbps} kbps TP`,
+      `True peak after a ${b.bitrateKbps} kbps encode (${(b.lowpassHz / 1000).toFixed(0)} kHz lowpass): ${b.overshootCount} overshoot${b.overshootCount === 1 ? "" : "s"} above full scale. Safe ceiling ${b.safeCeilingDBTP !== null ? `${b.safeCeilingDBTP.toFixed(1)} dBTP` : "—"}.`,
+      b.postEncodeTruePeakDBTP !== null ? `${b.postEncodeTruePeakDBTP.toFixed(1)} dBTP` : "—",
+      (b.postEncodeTruePeakDBTP ?? -Infinity) > 0 ? "danger" : ""
+    ))}
+    ${renderMetricRow("Codec Ceiling", "Highest true peak that survives every emulated bitrate without clipping.", c.safeCeilingDBTP !== null ? `${c.safeCeilingDBTP.toFixed(1)} dBTP` : "—")}
+    ${c.overshootCount > 0 && times ? html`<div class="metric-note" style="font-size: 0.6rem; color: var(--text-secondary); padding: 2px 0;">Clips at ${c.worstBitrateKbps} kbps near ${times}</div>` : null}
+  `;
+}
@@ -0,0 +1,104 @@
+/**
+ * Delivery Profile Renderer
+ * Profile selector and the editor for user-defined profiles
+ */
+
+import { html, TemplateResult } from 'lit';
+import { live } from 'lit/directives/live.js';
+import type { DeliveryProfile, ValidationMode } from '../../core/types.js';
+import { BUILT_IN_PROFILES, VALIDATION_MODES, VINYL_SIZES, VINYL_SPEEDS } from '../../core/profiles.js';
+import { DEFAULT_VINYL_FORMAT, describeVinylFormat } from '../../analysis/rules/vinyl.js';
+
+const VALIDATION_MODE_NAMES: Record<ValidationMode, string> = {
+  redbook: 'Red Book CD',
+  vinyl: 'Vinyl',
+  acx: 'ACX spoken word',
+  broadcast: 'Broadcast report'
+};
+
+export interface ProfileBarContext {
+  selected: DeliveryProfile;
+  custom: DeliveryProfile[];
+  editorOpen: boolean;
+  rulesOpen: boolean;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: () => void;
+  onSave: (form: HTMLFormElement) => void;
+  onCancel: () => void;
+  onToggleRules: () => void;
+}
+
+function describeProfile(p: DeliveryProfile): string {
+  const tolerance = p.toleranceLU !== null ? ` ±${p.toleranceLU} LU` : '';
+  const format = p.validationMode === 'vinyl' ? ` (${describeVinylFormat(p.vinylFormat ?? DEFAULT_VINYL_FORMAT)})` : '';
+  const mode = p.validationMode ? ` · ${VALIDATION_MODE_NAMES[p.validationMode]}${format} checks` : '';
+  const speech = p.spokenWord ? ' · dialogue gating' : '';
+  return `${p.targetLUFS} LUFS${tolerance}, TP ≤ ${p.maxTruePeakDBTP} dBTP, warn above ${p.maxLUFS} LUFS${speech}${mode}`;
+}
+
+function renderEditor(ctx: ProfileBarContext): TemplateResult {
+  const base = ctx.selected;
+  const vinyl = base.vinylFormat ?? DEFAULT_VINYL_FORMAT;
+  return html`
+    <form class="profile-editor" @submit=${(e: Event) => { e.preventDefault(); ctx.onSave(e.target as HTMLFormElement); }}>
+      <label>Name <input name="name" required .value=${`${base.name} (custom)`}></label>
+      <label>Target LUFS <input name="targetLUFS" type="number" step="0.1" required .value=${String(base.targetLUFS)}></label>
+      <label title="Leave empty when playback normalises (no tolerance enforced)">
+        Tolerance LU <input name="toleranceLU" type="number" step="0.1" min="0.1" .value=${base.toleranceLU !== null ? String(base.toleranceLU) : ''}>
+      </label>
+      <label>Max TP dBTP <input name="maxTruePeakDBTP" type="number" step="0.1" required .value=${String(base.maxTruePeakDBTP)}></label>
+      <label>Warn above LUFS <input name="maxLUFS" type="number" step="0.1" required .value=${String(base.maxLUFS)}></label>
+      <label>Format checks
+        <select name="validationMode" class="profile-select">
+          <option value="" ?selected=${!base.validationMode}>None</option>
+          ${VALIDATION_MODES.map(m => html`<option value=${m} ?selected=${base.validationMode === m}>${VALIDATION_MODE_NAMES[m]}</option>`)}
+        </select>
+      </label>
+      <label title="Segment speech and measure dialogue-gated loudness (always on in ACX mode)">
+        <input name="spokenWord" type="checkbox" .checked=${base.spokenWord === true}> Spoken word
+      </label>
+      <label title="Record size and speed for vinyl side timing">Record
+        <select name="vinylSize" class="profile-select">
+          ${VINYL_SIZES.map(size => html`<option value=${size} ?selected=${vinyl.sizeInches === size}>${size}"</option>`)}
+        </select>
+        <select name="vinylRpm" class="profile-select">
+          ${VINYL_SPEEDS.map(rpm => html`<option value=${rpm} ?selected=${vinyl.rpm === rpm}>${rpm === 33 ? '33⅓' : rpm} rpm</option>`)}
+        </select>
+      </label>
+      <div class="btn-row" style="margin: 0;">
+        <button class="btn btn-secondary" type="submit">Save Profile</button>
+        <button class="btn btn-secondary" type="button" @click=${ctx.onCancel}>Cancel</button>
+      </div>
+    </form>
+  `;
+}
+
+export function renderProfileBar(ctx: ProfileBarContext): TemplateResult {
+  return html`
+    <div class="profile-row">
+      <label class="profile-label" for="profile-select">Delivery target</label>
+      <select id="profile-select" class="profile-select" ?disabled=${ctx.disabled} .value=${live(ctx.selected.id)}
+        @change=${(e: Event) => ctx.onSelect((e.target as HTMLSelectElement).value)}>
+        <optgroup label="Built-in">
+          ${BUILT_IN_PROFILES.map(p => html`<option value=${p.id} ?selected=${p.id === ctx.selected.id}>${p.name}</option>`)}
+        </optgroup>
+        ${ctx.custom.length > 0 ? html`
+          <optgroup label="Custom">
+            ${ctx.custom.map(p => html`<option value=${p.id} ?selected=${p.id === ctx.selected.id}>${p.name}</option>`)}
+          </optgroup>
+        ` : null}
+      </select>
+      <span class="profile-desc">${describeProfile(ctx.selected)}</span>
+      <button class="btn btn-secondary btn-small" ?disabled=${ctx.disabled || ctx.editorOpen} @click=${ctx.onNew} title="New profile based on the selected one">New…</button>
+      ${!ctx.selected.builtIn ? html`
+        <button class="btn btn-secondary btn-small" ?disabled=${ctx.disabled} @click=${ctx.onDelete}>Delete</button>
+      ` : null}
+      <button class="btn btn-secondary btn-small" @click=${ctx.onToggleRules} title="Enable, disable and tune distribution rules">
+        ${ctx.rulesOpen ? 'Hide Rules' : 'Rules…'}
+      </button>
+    </div>
+    ${ctx.editorOpen ? renderEditor(ctx) : null}
+  `;
+}
@@ -0,0 +1,71 @@
+/**
+ * Red Book Renderer
+ * Disc-level CD / DDP checks with per-track frame alignment and gaps
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { RedBookValidation } from '../../core/types.js';
+import { formatDuration } from '../../core/format.js';
+import { renderInfoBtn } from './metrics.js';
+
+export function renderRedBookPanel(v: RedBookValidation): TemplateResult {
+  const trackFindings = v.tracks.flatMap(t => [
+    ...t.issues.map(m => ({ kind: 'danger', text: `Track ${t.trackNumber}: ${m}` })),
+    ...t.warnings.map(m => ({ kind: 'warning', text: `Track ${t.trackNumber}: ${m}` }))
+  ]);
+
+  return html`
+    <div class="panel">
+      <h3 class="panel-title">
+        Red Book CD / DDP
+        <span class="badge ${v.ready ? 'badge-ok' : 'badge-bad'}" style="margin-left: 8px;">${v.ready ? 'Pass' : 'Fail'}</span>
+      </h3>
+      <div class="summary-stats">
+        <div class="stat-group">
+          <div class="stat-group-title"><span>◉</span> Disc</div>
+          <div class="stat-row">
+            <span class="stat-label">Tracks</span>
+            <span class="stat-value">${v.trackCount} / 99</span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Running Time ${renderInfoBtn("Audio plus the mandatory 2 s pregap before track 1. Red Book limit: 79:57.")}</span>
+            <span class="stat-value">${formatDuration(v.programSeconds)}</span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Track 1 Lead-in</span>
+            <span class="stat-value">${v.leadingSilenceSeconds?.toFixed(2) ?? '—'} s</span>
+          </div>
+        </div>
+        <div class="stat-group">
+          <div class="stat-group-title"><span>▤</span> Frames ${renderInfoBtn("Track lengths should be whole CD frames (588 samples) so authoring doesn't pad silence between tracks.")}</div>
+          ${v.tracks.map(t => html`
+            <div class="stat-row">
+              <span class="stat-label">Track ${t.trackNumber}</span>
+              <span class="stat-value ${t.frameAligned === false ? 'warning' : ''}">
+                ${t.frameAligned === null ? '—' : t.frameAligned ? 'Aligned' : `+${t.padSamples} pad`}
+              </span>
+            </div>
+          `)}
+        </div>
+        ${v.gaps.length > 0 ? html`
+          <div class="stat-group">
+            <div class="stat-group-title"><span>⋯</span> Gaps</div>
+            ${v.gaps.map(g => html`
+              <div class="stat-row">
+                <span class="stat-label">${g.fromTrack} → ${g.toTrack}</span>
+                <span class="stat-value">${g.silenceSeconds.toFixed(2)} s</span>
+              </div>
+            `)}
+          </div>
+        ` : null}
+      </div>
+      ${v.issues.length || v.warnings.length || trackFindings.length ? html`
+        <div class="issues-wrap">
+          ${v.issues.map(m => html`<div class="alert alert-danger">${m}</div>`)}
+          ${v.warnings.map(m => html`<div class="alert alert-warning">${m}</div>`)}
+          ${trackFindings.map(f => html`<div class="alert alert-${f.kind}">${f.text}</div>`)}
+        </div>
+      ` : null}
+    </div>
+  `;
+}
@@ -0,0 +1,86 @@
+/**
+ * Rules Editor Renderer
+ * Enable/disable distribution rules, tweak thresholds and import/export rulesets
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { AnalysisIssue, DeliveryProfile, DistributionRule } from '../../core/types.js';
+
+export interface RulesPanelContext {
+  rules: DistributionRule[];
+  profile: DeliveryProfile;
+  disabled: boolean;
+  onToggle: (id: string, enabled: boolean) => void;
+  onThreshold: (id: string, threshold: number) => void;
+  onImport: () => void;
+  onExport: () => void;
+  onReset: () => void;
+}
+
+const CATEGORY_TITLES: Record<AnalysisIssue['category'], string> = {
+  format: 'Format & Metadata',
+  loudness: 'Loudness & Peaks',
+  dynamics: 'Dynamics',
+  stereo: 'Stereo',
+  spectral: 'Spectral',
+  streaming: 'Streaming'
+};
+
+const COMPARATOR_SYMBOLS: Record<DistributionRule['comparator'], string> = {
+  '>': '>', '>=': '≥', '<': '<', '<=': '≤', '==': '=', '!=': '≠', exists: '', missing: ''
+};
+
+function renderThreshold(rule: DistributionRule, ctx: RulesPanelContext): TemplateResult {
+  const symbol = COMPARATOR_SYMBOLS[rule.comparator];
+
+  // Profile-bound thresholds are edited through the delivery profile
+  if (rule.thresholdFrom) {
+    const value = ctx.profile[rule.thresholdFrom];
+    return html`<span class="rule-threshold" title="Set by the delivery profile (${rule.thresholdFrom})">
+      ${value !== null ? `${symbol} ${value} (profile)` : 'off for this profile'}
+    </span>`;
+  }
+  if (typeof rule.threshold === 'number') {
+    return html`<span class="rule-threshold">${symbol}
+      <input type="number" step="any" .value=${String(rule.threshold)} ?disabled=${ctx.disabled || !rule.enabled}
+        @change=${(e: Event) => {
+          const n = Number((e.target as HTMLInputElement).value);
+          if (Number.isFinite(n)) ctx.onThreshold(rule.id, n);
+        }}>
+    </span>`;
+  }
+  return html`<span class="rule-threshold"></span>`;
+}
+
+function renderRule(rule: DistributionRule, ctx: RulesPanelContext): TemplateResult {
+  return html`
+    <div class="rule-row ${rule.enabled ? '' : 'disabled'}" title=${rule.metric}>
+      <input type="checkbox" .checked=${rule.enabled} ?disabled=${ctx.disabled}
+        @change=${(e: Event) => ctx.onToggle(rule.id, (e.target as HTMLInputElement).checked)}>
+      <span class="rule-label">${rule.label}</span>
+      <span class="rule-level">${rule.level}</span>
+      ${renderThreshold(rule, ctx)}
+    </div>
+  `;
+}
+
+export function renderRulesPanel(ctx: RulesPanelContext): TemplateResult {
+  const categories = Object.keys(CATEGORY_TITLES) as AnalysisIssue['category'][];
+  return html`
+    <div class="rules-panel">
+      <div class="btn-row" style="margin: 0;">
+        <button class="btn btn-secondary btn-small" ?disabled=${ctx.disabled} @click=${ctx.onImport}>Import…</button>
+        <button class="btn btn-secondary btn-small" @click=${ctx.onExport}>Export</button>
+        <button class="btn btn-secondary btn-small" ?disabled=${ctx.disabled} @click=${ctx.onReset}>Reset to Defaults</button>
+      </div>
+      ${categories.map(category => {
+        const rules = ctx.rules.filter(r => r.category === category);
+        if (rules.length === 0) return null;
+        return html`
+          <div class="rules-group-title">${CATEGORY_TITLES[category]}</div>
+          ${rules.map(rule => renderRule(rule, ctx))}
+        `;
+      })}
+    </div>
+  `;
+}
@@ -0,0 +1,75 @@
+/**
+ * Limiter Timeline Renderer
+ * Short-term loudness and estimated limiter gain reduction on one time axis
+ */
+
+import { html, svg, TemplateResult } from 'lit';
+import type { TrackAnalysis } from '../../core/types.js';
+import { formatTime } from '../helpers/index.js';
+import { renderInfoBtn } from './metrics.js';
+
+const WIDTH = 1000;
+const HEIGHT = 80;
+// Loudness axis (LUFS) on the upper trace, GR axis (dB) hanging from the top
+const LUFS_MIN = -40;
+const LUFS_MAX = 0;
+const GR_MAX_DB = 12;
+
+function loudnessPath(values: (number | null)[], duration: number, intervalS: number): string {
+  let d = '';
+  let pen = false;
+  values.forEach((v, i) => {
+    if (v === null) {
+      pen = false;
+      return;
+    }
+    const x = (i * intervalS / duration) * WIDTH;
+    const y = HEIGHT * (1 - (Math.max(LUFS_MIN, Math.min(LUFS_MAX, v)) - LUFS_MIN) / (LUFS_MAX - LUFS_MIN));
+    d += `${pen ? 'L' : 'M'}${x.toFixed(1)},${y.toFixed(1)}`;
+    pen = true;
+  });
+  return d;
+}
+
+function gainReductionPath(values: number[], duration: number, intervalS: number): string {
+  if (!values.length) return '';
+  const points = values.map((g, i) => {
+    const x = ((i + 0.5) * intervalS / duration) * WIDTH;
+    const y = (Math.min(g, GR_MAX_DB) / GR_MAX_DB) * HEIGHT;
+    return `L${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const end = (values.length * intervalS / duration) * WIDTH;
+  return `M0,0${points.join('')}L${end.toFixed(1)},0Z`;
+}
+
+export function renderLimiterTimeline(t: TrackAnalysis): TemplateResult | null {
+  const a = t.dynamics.limiterActivity;
+  const duration = t.parameters.durationSeconds ?? 0;
+  if (!a || duration <= 0) return null;
+  const log = t.loudness.meterLog;
+
+  return html`
+    <div class="limiter-timeline">
+      <div class="limiter-timeline-legend">
+        <span class="legend-loudness">Short-term LUFS</span>
+        <span class="legend-gr">Limiter GR (0–${GR_MAX_DB} dB)</span>
+        ${renderInfoBtn(`Estimated from 400 ms peaks against an unlimited envelope (RMS + ${a.referenceCrestDB.toFixed(1)} dB, the crest factor of the most open passages, or of typical unlimited music at full scale). Shaded bands are the heaviest sections.`)}
+      </div>
+      <svg viewBox="0 0 ${WIDTH} ${HEIGHT}" preserveAspectRatio="none" class="limiter-timeline-plot">
+        ${a.worstSections.map(s => svg`
+          <rect class="timeline-section" x=${(s.startSeconds / duration) * WIDTH} y="0"
+            width=${((s.endSeconds - s.startSeconds) / duration) * WIDTH} height=${HEIGHT}>
+            <title>${formatTime(s.startSeconds)}–${formatTime(s.endSeconds)}: avg ${s.avgGainReductionDB.toFixed(1)} dB, max ${s.maxGainReductionDB.toFixed(1)} dB</title>
+          </rect>
+        `)}
+        <path class="timeline-gr" d=${gainReductionPath(a.gainReductionDB, duration, a.intervalS)}></path>
+        ${log ? svg`<path class="timeline-loudness" d=${loudnessPath(log.shortTermLUFS, duration, log.intervalS)}></path>` : null}
+      </svg>
+      <div class="spectrogram-time-scale">
+        <span>0:00</span>
+        <span>${formatTime(duration / 2)}</span>
+        <span>${formatTime(duration)}</span>
+      </div>
+    </div>
+  `;
+}
@@ -5,10 +5,13 @@
 
 import { html, TemplateResult } from 'lit';
 import { ref, createRef, Ref } from 'lit/directives/ref.js';
-import type { TrackAnalysis } from '../../core/types.js';
+import type { ClipPlateauAnalysis, GlitchAnalysis, GlitchEvent, HumAnalysis, LimiterActivity, TrackAnalysis, TrackMetadata } from '../../core/types.js';
+import { normalizeISRC } from '../../analysis/metadata/index.js';
 import { formatTime, getRatingClass, calculateTrackScores } from '../helpers/index.js';
 import { renderMeter, renderMetricRow } from './metrics.js';
-import { renderPlatformCard } from './platforms.js';
+import { renderCodecEmulation, renderLimiterRender, renderPlatformGrid } from './platforms.js';
+import { renderFindings, renderPrimaryConcern } from './findings.js';
+import { renderLimiterTimeline } from './timeline.js';
 
 // Helper to render spectrogram to canvas (inline header version for simple mode)
 function renderSpectrogramInline(bitmap: ImageBitmap): TemplateResult {
@@ -33,8 +36,16 @@ function renderSpectrogramInline(bitmap: ImageBitmap): TemplateResult {
   `;
 }
 
+const GLITCH_LABELS: Record<GlitchEvent['type'], string> = { click: "Click", dropout: "Dropout", repeat: "Repeat" };
+
+function glitchTitle(e: GlitchEvent): string {
+  const where = e.channel !== null ? ` ch ${e.channel + 1}` : "";
+  const length = e.durationMs !== null ? `, ${e.durationMs.toFixed(1)} ms` : "";
+  return `${GLITCH_LABELS[e.type]} at ${e.timestamp.toFixed(3)} s${where}${length} (${Math.round(e.confidence * 100)}% confidence)`;
+}
+
 // Helper to render spectrogram below header (for advanced mode)
-function renderSpectrogramExpanded(bitmap: ImageBitmap, durationSeconds?: number): TemplateResult {
+function renderSpectrogramExpanded(bitmap: ImageBitmap, durationSeconds?: number, glitches: GlitchEvent[] = []): TemplateResult {
   const canvasRef: Ref<HTMLCanvasElement> = createRef();
 
   setTimeout(() => {
@@ -56,6 +67,9 @@ function renderSpectrogramExpanded(bitmap: ImageBitmap, durationSeconds?: number
   return html`
     <div class="spectrogram-container">
       <canvas ${ref(canvasRef)} class="spectrogram-canvas"></canvas>
+      ${duration > 0 ? glitches.map(e => html`
+        <span class="glitch-marker glitch-${e.type}" style="left: ${(e.timestamp / duration) * 100}%;" title=${glitchTitle(e)}></span>
+      `) : null}
       ${duration > 0 ? html`
         <div class="spectrogram-time-scale">
           <span>0:00</span>
@@ -67,6 +81,71 @@ function renderSpectrogramExpanded(bitmap: ImageBitmap, durationSeconds?: number
   `;
 }
 
+function renderMetadataRows(m: TrackMetadata, t: TrackAnalysis) {
+  const isrcStatus = m.isrc === null ? "warning" : normalizeISRC(m.isrc) ? "good" : "danger";
+  const bext = m.bext;
+  return html`
+    <div class="section-subtitle">Tags${m.tagFormats.length ? ` (${m.tagFormats.join(", ")})` : ""}</div>
+    ${m.title || m.artist ? renderMetricRow("Title", "Embedded title / artist.", `${m.title ?? "—"}${m.artist ? ` · ${m.artist}` : ""}`, "") : null}
+    ${renderMetricRow("ISRC", "International Standard Recording Code.", m.isrc ?? "Missing", isrcStatus)}
+    ${m.upc ? renderMetricRow("UPC", "Release barcode.", m.upc, "") : null}
+    ${m.trackNumber !== null ? renderMetricRow("Track #", "Embedded track number.", `${m.trackNumber}${m.trackTotal !== null ? `/${m.trackTotal}` : ""}`, "") : null}
+    ${m.artworkBytes !== null ? renderMetricRow("Artwork", "Embedded cover art size.", `${(m.artworkBytes / 1024).toFixed(0)} KB`, "") : null}
+    ${bext && bext.loudnessValueLUFS !== null ? renderMetricRow("BWF Loudness", "Declared in bext chunk vs measured.", `${bext.loudnessValueLUFS.toFixed(1)} LUFS`, t.loudness.integratedLUFS !== null && Math.abs(bext.loudnessValueLUFS - t.loudness.integratedLUFS) > 0.5 ? "warning" : "good") : null}
+    ${bext && bext.maxTruePeakDBTP !== null ? renderMetricRow("BWF True Peak", "Declared in bext chunk vs measured.", `${bext.maxTruePeakDBTP.toFixed(1)} dBTP`, t.loudness.truePeakDBTP !== null && Math.abs(bext.maxTruePeakDBTP - t.loudness.truePeakDBTP) > 0.5 ? "warning" : "good") : null}
+    ${m.ixml?.project || m.ixml?.scene ? renderMetricRow("iXML", "Production metadata.", [m.ixml.project, m.ixml.scene, m.ixml.take].filter(Boolean).join(" / "), "") : null}
+  `;
+}
+
+function renderGlitches(g: GlitchAnalysis | null | undefined) {
+  if (!g) return null;
+  const total = g.clickCount + g.dropoutCount + g.repeatCount;
+  return html`
+    ${renderMetricRow("Glitches", "Clicks / dropouts / repeated buffers left by edits or the render.", total ? `${g.clickCount} / ${g.dropoutCount} / ${g.repeatCount}` : "None", total ? "danger" : "good")}
+    ${g.events.slice(0, 5).map(e => html`<div class="metric-note" style="font-size: 0.6rem; color: var(--led-red); padding: 2px 0;">${glitchTitle(e)}</div>`)}
+  `;
+}
+
+function renderHum(h: HumAnalysis | null | undefined) {
+  if (!h) return null;
+  if (!h.detected) {
+    return renderMetricRow("Mains Hum", `No 50 / 60 Hz harmonic series in ${h.quietSeconds.toFixed(0)} s of quiet passages.`, h.quietSeconds > 0 ? "None" : "—", h.quietSeconds > 0 ? "good" : "");
+  }
+  const ranges = h.exposedRanges.slice(0, 3).map(r => `${formatTime(r.startSeconds)}–${formatTime(r.endSeconds)}`).join(", ");
+  const notches = h.notches.map(n => `${n.frequencyHz.toFixed(1)} Hz`).join(", ");
+  return html`
+    ${renderMetricRow("Mains Hum", `Persistent hum with ${h.harmonicCount} harmonics, exposed at ${ranges}.`, `${h.frequencyHz?.toFixed(1) ?? "—"} Hz · ${h.harmonicCount}H`, "warning")}
+    ${renderMetricRow("Hum Level", "All hum harmonics together, relative to the programme RMS.", `${h.relativeToProgrammeDB?.toFixed(0) ?? "—"} dB`, "")}
+    <div class="metric-note" style="font-size: 0.6rem; color: var(--text-secondary); padding: 2px 0;">Notch (Q ${h.notches[0]?.q ?? "—"}): ${notches}</div>
+  `;
+}
+
+function renderLimiterActivity(a: LimiterActivity | null | undefined) {
+  if (!a) return null;
+  const worst = a.worstSections.slice(0, 3).map(s => `${formatTime(s.startSeconds)}–${formatTime(s.endSeconds)} (${s.avgGainReductionDB.toFixed(1)} dB)`).join(", ");
+  return html`
+    <div class="section-subtitle">Limiter Activity</div>
+    ${renderMetricRow("Max GR", "Estimated peak gain reduction by the master limiter.", `${a.maxGainReductionDB.toFixed(1)} dB`, a.maxGainReductionDB >= 6 ? "warning" : "", { numValue: a.maxGainReductionDB, type: "low-good", min: 0, max: 12 })}
+    ${renderMetricRow("Time > 1/3/6 dB", "Share of the track above 1, 3 and 6 dB of gain reduction.", `${a.pctAbove1dB.toFixed(0)} / ${a.pctAbove3dB.toFixed(0)} / ${a.pctAbove6dB.toFixed(0)}%`, a.pctAbove3dB > 25 ? "warning" : "")}
+    ${worst ? renderMetricRow("Worst", "Sections with the heaviest average gain reduction.", worst, "") : null}
+  `;
+}
+
+function renderClipPlateaus(p: ClipPlateauAnalysis | null | undefined) {
+  if (!p?.detected) return null;
+  const histogram = p.runLengthHistogram
+    .filter(b => b.count > 0)
+    .map(b => `${b.maxSamples === null ? `${b.minSamples}+` : b.minSamples === b.maxSamples ? b.minSamples : `${b.minSamples}-${b.maxSamples}`}: ${b.count}`)
+    .join(" · ");
+  return html`
+    ${renderMetricRow("Plateaus", "Runs of identical samples at the track's extremes, at any level.", `${p.eventCount} at ${p.levelDBFS?.toFixed(1) ?? "—"} dBFS`, p.clippedThenAttenuated ? "danger" : "warning")}
+    ${renderMetricRow("Longest Run", `Run lengths in samples: ${histogram}.`, `${p.longestRunMs?.toFixed(2) ?? "—"} ms`, "")}
+    ${renderMetricRow("De-clip", "Whether a de-clipper can rebuild the flat tops.", p.restorationCandidate ? "Candidate" : "Unlikely", p.restorationCandidate ? "good" : "warning")}
+    ${p.timestamps.length ? renderMetricRow("At", "Longest plateaus.", p.timestamps.slice(0, 5).map(formatTime).join(", "), "") : null}
+    ${p.note ? html`<div class="metric-note" style="font-size: 0.6rem; color: var(--text-secondary); padding: 2px 0;">${p.note}</div>` : null}
+  `;
+}
+
 export function renderTrackCard(
   t: TrackAnalysis,
   isExpanded: boolean,
@@ -82,7 +161,7 @@ export function renderTrackCard(
         <span class="track-num">${String(t.trackNumber).padStart(2, '0')}</span>
         <div class="track-info">
           <div class="track-name">${t.parameters.filename}</div>
-          <div class="track-meta">${t.parameters.durationFormatted} · ${t.parameters.sampleRate ?? "—"} Hz · ${t.parameters.channels ?? "—"}ch${t.parameters.effectiveBitDepth ? ` · ~${t.parameters.effectiveBitDepth}bit` : ''}</div>
+          <div class="track-meta">${t.parameters.durationFormatted} · ${t.parameters.sampleRate ?? "—"} Hz · ${t.parameters.channels ?? "—"}ch${(t.parameters.channels ?? 0) > 2 && t.parameters.channelLayout ? ` (${t.parameters.channelLayout})` : ''}${t.parameters.bitDepth ? ` · ${t.parameters.bitDepth}-bit${t.parameters.sampleFormat === 'float' ? ' float' : ''}` : ''}${t.parameters.effectiveBitDepth ? ` · ~${t.parameters.effectiveBitDepth}bit` : ''}</div>
         </div>
         <div class="track-badges">
           <span class="badge ${statusClass}">${t.distributionReady ? 'OK' : 'Check'}</span>
@@ -92,13 +171,17 @@ export function renderTrackCard(
       </div>
 
       <div class="track-content">
-        ${spectrogram ? renderSpectrogramExpanded(spectrogram, t.parameters.durationSeconds) : null}
+        ${spectrogram ? renderSpectrogramExpanded(spectrogram, t.parameters.durationSeconds, t.glitches?.events) : null}
+        ${renderLimiterTimeline(t)}
         <div class="track-content-inner">
           <!-- LOUDNESS MODULE (EBU R128) -->
           <div class="metric-module primary">
             <h4 class="module-title"><span class="module-icon">◐</span> Loudness<span class="module-rating ${getRatingClass(scores.loudness)}">${scores.loudness.toFixed(1)}</span></h4>
             ${renderMeter("Integrated", "Gated loudness per EBU R128. Target: -14 LUFS (Spotify), -16 (Apple).", t.loudness.integratedLUFS, "LUFS", "loudness", (v) => ((v+24)/20)*100, ["-24", "-19", "-14", "-9", "-4"])}
             ${renderMetricRow("Ungated", "Integrated loudness without gating.", `${t.loudness.integratedUngatedLUFS?.toFixed(1) ?? "—"} LUFS`, "", { numValue: t.loudness.integratedUngatedLUFS, type: "center", min: -24, max: -4 })}
+            ${t.speech?.dialogueGatedLUFS != null ? renderMetricRow("Dialogue", "Integrated loudness over detected speech only (dialogue gating).", `${t.speech.dialogueGatedLUFS.toFixed(1)} LUFS`, "", { numValue: t.speech.dialogueGatedLUFS, type: "center", min: -24, max: -4 }) : null}
+            ${t.loudness.loudnessCorrectionNote ? renderMetricRow("To Target", "Gain to reach the delivery profile's loudness target.", t.loudness.loudnessCorrectionNote, "") : null}
+            ${t.loudness.replayGain ? renderMetricRow("Track Gain", "ReplayGain 2.0 track gain to -18 LUFS, with linear true peak.", `${t.loudness.replayGain.gainDB > 0 ? "+" : ""}${t.loudness.replayGain.gainDB.toFixed(2)} dB / ${t.loudness.replayGain.peak.toFixed(3)}`, "") : null}
             <div class="section-subtitle">Short-term Analysis</div>
             ${renderMetricRow("Max Momentary", "Peak 400ms loudness.", `${t.loudness.maxMomentaryLUFS?.toFixed(1) ?? "—"} LUFS`, "", { numValue: t.loudness.maxMomentaryLUFS, type: "center", min: -24, max: 0 })}
             ${renderMetricRow("Max Short-term", "Peak 3s loudness.", `${t.loudness.maxShortTermLUFS?.toFixed(1) ?? "—"} LUFS`, "", { numValue: t.loudness.maxShortTermLUFS, type: "center", min: -24, max: 0 })}
@@ -116,6 +199,16 @@ export function renderTrackCard(
             ${renderMeter("True Peak", `Inter-sample peak (${t.loudness.truePeakOversampling ?? 4}x oversampled). Keep ≤ -1 dBTP.`, t.loudness.truePeakDBTP, "dBTP", "peak", (v) => ((v+12)/12)*100, ["-12", "-9", "-6", "-3", "0"])}
             ${renderMetricRow("Sample Peak", "Non-oversampled peak.", `${t.loudness.samplePeakDBFS?.toFixed(1) ?? "—"} dBFS`, "", { numValue: t.loudness.samplePeakDBFS, type: "level", min: -24, max: 0 })}
             ${renderMetricRow("ISP Margin", "True Peak vs Sample Peak. High = ISP risk.", `${t.loudness.ispMarginDB?.toFixed(2) ?? "—"} dB`, (t.loudness.ispMarginDB ?? 0) > 0.5 ? "warning" : "", { numValue: t.loudness.ispMarginDB, type: "low-good", min: 0, max: 2 })}
+            ${t.loudness.perChannelTruePeakDBTP && t.loudness.perChannelTruePeakDBTP.length > 2 ? html`
+              <div class="section-subtitle">Per Channel</div>
+              ${t.loudness.perChannelTruePeakDBTP.map((tp, ch) => renderMetricRow(
+                t.parameters.channelPositions?.[ch] ?? `Ch ${ch + 1}`,
+                "True peak of this channel.",
+                `${Number.isFinite(tp) ? tp.toFixed(1) : "—"} dBTP`,
+                tp > -1 ? "danger" : "",
+                { numValue: Number.isFinite(tp) ? tp : null, type: "level", min: -24, max: 0 }
+              ))}
+            ` : null}
             <div class="section-subtitle">Peak Clustering</div>
             ${renderMetricRow("Pattern", "Sporadic = transients, Persistent = limiter.", t.loudness.peakClusteringType ?? "—", t.loudness.peakClusteringType === "persistent" ? "warning" : "")}
             ${renderMetricRow("Cluster Count", "Number of peak clusters.", `${t.loudness.peakClusterCount ?? "—"}`, "")}
@@ -138,12 +231,14 @@ export function renderTrackCard(
             <div class="section-subtitle">Microdynamics</div>
             ${renderMetricRow("Transient Density", "Attack events per minute.", `${t.dynamics.transientDensity?.toFixed(0) ?? "—"} /min`, "", { numValue: t.dynamics.transientDensity, type: "center", min: 0, max: 300 })}
             ${renderMetricRow("Micro Contrast", "Median short-window crest.", `${t.dynamics.microdynamicContrast?.toFixed(1) ?? "—"} dB`, "", { numValue: t.dynamics.microdynamicContrast, type: "high-good", min: 0, max: 15 })}
+            ${renderLimiterActivity(t.dynamics.limiterActivity)}
             <div class="section-subtitle">Clipping</div>
             ${renderMetricRow("Status", "Digital clipping detection.", t.dynamics.hasClipping ? `${t.dynamics.clipEventCount ?? 0} events` : "None", t.dynamics.hasClipping ? "danger" : "good")}
             ${t.dynamics.hasClipping ? html`
               ${renderMetricRow("Clipped Samples", "Total clipped sample count.", `${t.dynamics.clippedSampleCount ?? 0}`, "danger")}
               ${renderMetricRow("Clip Density", "Clip events per minute.", `${t.dynamics.clipDensityPerMinute?.toFixed(1) ?? "—"} /min`, "warning")}
             ` : null}
+            ${renderClipPlateaus(t.dynamics.clipPlateaus)}
             <div class="section-subtitle">Silence</div>
             ${renderMetricRow("Start", "Leading silence.", `${t.dynamics.silenceAtStartMs ?? 0} ms`, (t.dynamics.silenceAtStartMs ?? 0) > 500 ? "warning" : "")}
             ${renderMetricRow("End", "Trailing silence.", `${t.dynamics.silenceAtEndMs ?? 0} ms`, (t.dynamics.silenceAtEndMs ?? 0) > 2000 ? "warning" : "")}
@@ -219,12 +314,9 @@ export function renderTrackCard(
 
             <div class="metric-module tertiary">
               <h4 class="module-title"><span class="module-icon">☁</span> Streaming<span class="module-rating ${getRatingClass(scores.streaming)}">${scores.streaming.toFixed(1)}</span></h4>
-              <div class="platform-grid">
-                ${renderPlatformCard(t.streamingSimulation.spotify)}
-                ${renderPlatformCard(t.streamingSimulation.appleMusic)}
-                ${renderPlatformCard(t.streamingSimulation.youtube)}
-                ${renderPlatformCard(t.streamingSimulation.tidal)}
-              </div>
+              ${renderPlatformGrid(t.streamingSimulation)}
+              ${renderLimiterRender(t.streamingSimulation.limiterRender)}
+              ${renderCodecEmulation(t.codec)}
               ${t.streamingSimulation.recommendation ? html`
                 <div class="recommendation-box">
                   <div class="recommendation-title">Recommendation</div>
@@ -237,20 +329,26 @@ export function renderTrackCard(
               <h4 class="module-title"><span class="module-icon">◍</span> Artifacts<span class="module-rating ${getRatingClass(scores.artifacts)}">${scores.artifacts.toFixed(1)}</span></h4>
               ${renderMetricRow("AI Score", "Lower is better. Detects unnatural HF shimmer.", `${t.aiArtifacts.overallAIScore?.toFixed(0) ?? 0}/100`, t.aiArtifacts.overallAIScore && t.aiArtifacts.overallAIScore > 30 ? "warning" : "good", { numValue: t.aiArtifacts.overallAIScore, type: "low-good", min: 0, max: 100 })}
               ${renderMetricRow("Shimmer", "HF shimmer detection.", t.aiArtifacts.shimmerDetected ? "Detected" : "None", t.aiArtifacts.shimmerDetected ? "warning" : "good")}
+              ${renderGlitches(t.glitches)}
               <div class="section-subtitle">Source Quality</div>
               ${renderMetricRow("Noise Floor", "Median low-level energy.", `${t.parameters.noiseFloorDB?.toFixed(1) ?? "—"} dB`, (t.parameters.noiseFloorDB ?? -90) > -60 ? "warning" : "", { numValue: t.parameters.noiseFloorDB ?? null, type: "low-good", min: -96, max: -40 })}
+              ${renderHum(t.hum)}
               ${renderMetricRow("Codec Suspicion", "Lossy source indicators.", `${t.parameters.codecSuspicionScore?.toFixed(0) ?? 0}%`, (t.parameters.codecSuspicionScore ?? 0) > 50 ? "warning" : "", { numValue: t.parameters.codecSuspicionScore ?? null, type: "low-good", min: 0, max: 100 })}
               ${t.parameters.codecSuspicionNote ? html`<div class="metric-note" style="font-size: 0.6rem; color: var(--led-amber); padding: 2px 0;">${t.parameters.codecSuspicionNote}</div>` : null}
+              ${t.parameters.format ? html`
+                <div class="section-subtitle">Container</div>
+                ${renderMetricRow("Format", "Codec reported by the container.", `${t.parameters.format}${t.parameters.codecProfile ? ` (${t.parameters.codecProfile})` : ""}`, "")}
+                ${t.parameters.encoderLibrary ? renderMetricRow("Encoder", "Encoding library written to the file.", t.parameters.encoderLibrary, "") : null}
+                ${t.parameters.overallBitrate ? renderMetricRow("Bitrate", "Overall bitrate and mode.", `${Math.round(t.parameters.overallBitrate / 1000)} kbps${t.parameters.bitrateMode ? ` ${t.parameters.bitrateMode}` : ""}`, "") : null}
+                ${t.parameters.containerDurationSeconds !== undefined ? renderMetricRow("Declared Length", "Duration from container header vs decoded audio.", `${t.parameters.containerDurationSeconds.toFixed(2)}s`, Math.abs(t.parameters.durationMismatchSeconds ?? 0) > 0.5 ? "warning" : "") : null}
+              ` : null}
+              ${t.metadata ? renderMetadataRows(t.metadata, t) : null}
             </div>
           </div>
         </div>
 
-        ${t.issues.length || t.warnings.length ? html`
-          <div class="issues-wrap">
-            ${t.issues.map(i => html`<div class="alert alert-danger">${i}</div>`)}
-            ${t.warnings.map(w => html`<div class="alert alert-warning">${w}</div>`)}
-          </div>
-        ` : null}
+        ${renderPrimaryConcern(t)}
+        ${renderFindings(t)}
       </div>
     </div>
   `;
@@ -301,19 +399,6 @@ export function renderSimpleTrackCard(t: TrackAnalysis, spectrogram?: ImageBitma
     return 'good';
   };
 
-  let primaryConcern: string | null = null;
-  if (t.dynamics.hasClipping) {
-    primaryConcern = "Clipping detected — may cause distortion";
-  } else if ((t.loudness.truePeakDBTP ?? -10) > -0.5) {
-    primaryConcern = "True peak too high — risk of inter-sample clipping";
-  } else if ((t.stereo.correlationMean ?? 1) < 0.3) {
-    primaryConcern = "Low stereo correlation — mono compatibility issues";
-  } else if ((t.spectral.harshnessIndex ?? 0) > 35) {
-    primaryConcern = "High harshness — may cause listener fatigue";
-  } else if ((t.loudness.integratedLUFS ?? -14) > -9) {
-    primaryConcern = "Very loud — will be attenuated on streaming platforms";
-  }
-
   return html`
     <div class="track-item">
       <div class="track-header" style="cursor: default;">
@@ -328,7 +413,7 @@ export function renderSimpleTrackCard(t: TrackAnalysis, spectrogram?: ImageBitma
         </div>
       </div>
 
-      ${primaryConcern ? html`<div class="primary-concern">⚠ ${primaryConcern}</div>` : null}
+      ${renderPrimaryConcern(t)}
 
       <div class="simple-metrics">
         <div class="simple-metric">
@@ -357,12 +442,7 @@ export function renderSimpleTrackCard(t: TrackAnalysis, spectrogram?: ImageBitma
         </div>
       </div>
 
-      ${t.issues.length || t.warnings.length ? html`
-        <div class="issues-wrap" style="margin-top: 0;">
-          ${t.issues.map(i => html`<div class="alert alert-danger">${i}</div>`)}
-          ${t.warnings.map(w => html`<div class="alert alert-warning">${w}</div>`)}
-        </div>
-      ` : null}
+      ${renderFindings(t, "margin-top: 0;")}
     </div>
   `;
 }
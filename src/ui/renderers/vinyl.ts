@@ -0,0 +1,63 @@
+/**
+ * Vinyl Renderer
+ * Cutting checks with the suggested side split and per-track lathe findings
+ */
+
+import { html, TemplateResult } from 'lit';
+import type { TrackAnalysis, VinylValidation } from '../../core/types.js';
+import { formatDuration } from '../../core/format.js';
+import { describeVinylFormat } from '../../analysis/rules/vinyl.js';
+import { renderInfoBtn } from './metrics.js';
+
+function fmtDB(v: number | null | undefined): string {
+  return v !== null && v !== undefined ? `${v.toFixed(1)} dBFS` : '—';
+}
+
+export function renderVinylPanel(v: VinylValidation, tracks: TrackAnalysis[]): TemplateResult {
+  const trackFindings = v.tracks.flatMap(t => [
+    ...t.issues.map(m => ({ kind: 'danger', text: `Track ${t.trackNumber}: ${m}` })),
+    ...t.warnings.map(m => ({ kind: 'warning', text: `Track ${t.trackNumber}: ${m}` }))
+  ]);
+  const sideClass = (seconds: number) =>
+    seconds > v.maxSideSeconds ? 'danger' : seconds > v.recommendedSideSeconds ? 'warning' : '';
+
+  return html`
+    <div class="panel">
+      <h3 class="panel-title">
+        Vinyl · ${describeVinylFormat(v.format)}
+        <span class="badge ${v.ready ? 'badge-ok' : 'badge-bad'}" style="margin-left: 8px;">${v.ready ? 'Pass' : 'Fail'}</span>
+      </h3>
+      <div class="summary-stats">
+        <div class="stat-group">
+          <div class="stat-group-title"><span>◎</span> Sides ${renderInfoBtn(`Suggested split in album order. Up to ${formatDuration(v.recommendedSideSeconds)} per side cuts at full level; ${formatDuration(v.maxSideSeconds)} is the practical maximum.`)}</div>
+          ${v.sides.map(s => html`
+            <div class="stat-row">
+              <span class="stat-label">Side ${s.label} ${s.trackNumbers.length > 0 ? `(${s.trackNumbers.join(', ')})` : '(blank)'}</span>
+              <span class="stat-value ${sideClass(s.seconds)}">${formatDuration(s.seconds)}</span>
+            </div>
+          `)}
+          <div class="stat-row">
+            <span class="stat-label">Records</span>
+            <span class="stat-value">${v.records}</span>
+          </div>
+        </div>
+        <div class="stat-group">
+          <div class="stat-group-title"><span>↕</span> Lathe ${renderInfoBtn("Low side: peak of L−R content below 150 Hz (vertical groove modulation). HF: loudest 1 s RMS above 10 kHz.")}</div>
+          ${tracks.map(t => html`
+            <div class="stat-row">
+              <span class="stat-label">Track ${t.trackNumber}</span>
+              <span class="stat-value">${fmtDB(t.vinyl?.lowSidePeakDBFS)} · ${fmtDB(t.vinyl?.hfMaxShortTermDBFS)}</span>
+            </div>
+          `)}
+        </div>
+      </div>
+      ${v.issues.length || v.warnings.length || trackFindings.length ? html`
+        <div class="issues-wrap">
+          ${v.issues.map(m => html`<div class="alert alert-danger">${m}</div>`)}
+          ${v.warnings.map(m => html`<div class="alert alert-warning">${m}</div>`)}
+          ${trackFindings.map(f => html`<div class="alert alert-${f.kind}">${f.text}</div>`)}
+        </div>
+      ` : null}
+    </div>
+  `;
+}
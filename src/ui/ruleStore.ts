@@ -0,0 +1,32 @@
+/**
+ * Rule Store
+ * Persists the user's edited distribution rules in localStorage
+ */
+
+import type { DistributionRule } from '../core/types.js';
+import { BUILT_IN_RULES, mergeWithBuiltIns, parseRuleSet, serializeRuleSet } from '../analysis/rules/index.js';
+
+const RULES_KEY = 'auralgeek-rules';
+
+/**
+ * Stored rules merged over the built-ins; an unreadable ruleset falls back to the built-ins
+ */
+export function loadRules(): DistributionRule[] {
+  const stored = localStorage.getItem(RULES_KEY);
+  if (!stored) return BUILT_IN_RULES;
+  try {
+    return mergeWithBuiltIns(parseRuleSet(JSON.parse(stored)), BUILT_IN_RULES);
+  } catch (e) {
+    console.warn('Ignoring invalid stored ruleset:', e);
+    return BUILT_IN_RULES;
+  }
+}
+
+export function saveRules(rules: DistributionRule[]): void {
+  localStorage.setItem(RULES_KEY, JSON.stringify(serializeRuleSet(rules)));
+}
+
+export function resetRules(): DistributionRule[] {
+  localStorage.removeItem(RULES_KEY);
+  return BUILT_IN_RULES;
+}
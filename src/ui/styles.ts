@@ -331,6 +331,132 @@ export const appStyles = css`
       border-color: var(--border-panel);
     }
 
+    .btn-small {
+      font-size: 0.65rem;
+      padding: 6px 12px;
+      min-height: 32px;
+    }
+
+    /* === DELIVERY PROFILE === */
+    .profile-row {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      flex-wrap: wrap;
+      margin-bottom: 16px;
+    }
+
+    .profile-label {
+      font-size: 0.65rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-label);
+    }
+
+    .profile-select,
+    .profile-editor input {
+      font: inherit;
+      font-size: 0.75rem;
+      padding: 6px 8px;
+      background: var(--bg-inset);
+      color: var(--text-primary);
+      border: 1px solid var(--border-subtle);
+      border-radius: 4px;
+    }
+
+    .profile-desc {
+      font-size: 0.65rem;
+      color: var(--text-secondary);
+    }
+
+    .profile-editor {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: flex-end;
+      gap: 10px;
+      padding: 10px;
+      margin-bottom: 16px;
+      background: var(--bg-module);
+      border: 1px solid var(--border-subtle);
+      border-radius: 6px;
+    }
+
+    .profile-editor label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      font-size: 0.6rem;
+      text-transform: uppercase;
+      color: var(--text-label);
+    }
+
+    .profile-editor input {
+      width: 110px;
+    }
+
+    .profile-editor input[name="name"] {
+      width: 180px;
+    }
+
+    /* === RULES EDITOR === */
+    .rules-panel {
+      padding: 10px;
+      margin-bottom: 16px;
+      background: var(--bg-module);
+      border: 1px solid var(--border-subtle);
+      border-radius: 4px;
+      max-height: 420px;
+      overflow-y: auto;
+    }
+
+    .rules-group-title {
+      font-size: 0.6rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-label);
+      margin: 10px 0 4px;
+    }
+
+    .rule-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 0.7rem;
+      padding: 3px 0;
+      color: var(--text-primary);
+    }
+
+    .rule-row.disabled {
+      opacity: 0.5;
+    }
+
+    .rule-label {
+      flex: 1;
+    }
+
+    .rule-level {
+      font-size: 0.55rem;
+      text-transform: uppercase;
+      color: var(--text-secondary);
+      width: 52px;
+    }
+
+    .rule-threshold {
+      width: 140px;
+      text-align: right;
+      color: var(--text-secondary);
+    }
+
+    .rule-threshold input {
+      font: inherit;
+      width: 80px;
+      padding: 3px 6px;
+      background: var(--bg-inset);
+      color: var(--text-primary);
+      border: 1px solid var(--border-subtle);
+      border-radius: 4px;
+    }
+
     /* === DROP ZONE === */
     .drop-zone {
       border: 2px dashed var(--border-panel);
@@ -1465,6 +1591,15 @@ export const appStyles = css`
       margin-top: 2px;
     }
 
+    .platform-mode {
+      font-family: ui-monospace, 'SF Mono', Monaco, 'Cascadia Code', monospace;
+      font-size: 0.5rem;
+      color: var(--text-dim);
+      text-transform: uppercase;
+      letter-spacing: 0.04em;
+      margin-top: 2px;
+    }
+
     /* === MUSICAL FEATURES === */
     .music-feature-row {
       display: flex;
@@ -1826,6 +1961,13 @@ export const appStyles = css`
       content: '⛔';
     }
 
+    .finding-chain,
+    .alert-cause {
+      font-size: 0.6rem;
+      margin-top: 4px;
+      color: var(--text-secondary);
+    }
+
     /* === SPECTROGRAM (Inline in header - simple mode) === */
     .spectrogram-inline {
       flex: 1 1 0;
@@ -1907,6 +2049,58 @@ export const appStyles = css`
       image-rendering: crisp-edges;
     }
 
+    .glitch-marker {
+      position: absolute;
+      top: 0;
+      bottom: 14px;
+      width: 2px;
+      margin-left: -1px;
+      background: var(--led-red);
+      box-shadow: 0 0 4px var(--led-red-glow);
+    }
+
+    .glitch-marker.glitch-click { background: var(--led-amber); box-shadow: 0 0 4px var(--led-amber-glow); }
+
+    .limiter-timeline {
+      margin: 8px 10px;
+      border-radius: 4px;
+      border: 1px solid var(--border-subtle);
+      background: var(--bg-deep);
+      position: relative;
+    }
+
+    .limiter-timeline-legend {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 4px 6px 0;
+      font-size: 0.55rem;
+      color: var(--text-secondary);
+    }
+
+    .limiter-timeline-legend .legend-loudness::before,
+    .limiter-timeline-legend .legend-gr::before {
+      content: '';
+      display: inline-block;
+      width: 10px;
+      height: 2px;
+      margin-right: 4px;
+      vertical-align: middle;
+    }
+
+    .limiter-timeline-legend .legend-loudness::before { background: var(--zone-cold); }
+    .limiter-timeline-legend .legend-gr::before { background: var(--led-red); }
+
+    .limiter-timeline-plot {
+      display: block;
+      width: 100%;
+      height: 80px;
+    }
+
+    .limiter-timeline-plot .timeline-section { fill: var(--led-amber); opacity: 0.12; }
+    .limiter-timeline-plot .timeline-gr { fill: var(--led-red-glow); stroke: var(--led-red); stroke-width: 1; vector-effect: non-scaling-stroke; }
+    .limiter-timeline-plot .timeline-loudness { fill: none; stroke: var(--zone-cold); stroke-width: 1.5; vector-effect: non-scaling-stroke; }
+
     /* === HEADER CONTROLS (Theme & Help) === */
     .header-controls {
       position: absolute;
@@ -30,9 +30,10 @@ export async function initWasmFFT(): Promise<boolean> {
 
   wasmInitPromise = (async () => {
     try {
-      // Dynamic import to avoid bundler issues when WASM isn't available
-      // @ts-ignore - kissfft-wasm is an optional dependency
-      const kissfft = await import('kissfft-wasm');
+      // Dynamic import to avoid bundler issues when WASM isn't available; the
+      // specifier is a variable so the build doesn't fail when it isn't installed
+      const specifier = 'kissfft-wasm';
+      const kissfft: KissFFTModule = await import(/* @vite-ignore */ specifier);
       wasmModule = kissfft;
       wasmAvailable = true;
       return true;
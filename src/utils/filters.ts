@@ -69,3 +69,59 @@ export function bandpassFilter(
   const hp = onePoleHP(input, lowFreq, fs, tempBuffer);
   return onePoleLP(hp, highFreq, fs, output);
 }
+
+/**
+ * Second-order Butterworth section (RBJ cookbook), 12 dB/oct.
+ * Unlike the one-pole filters it stays accurate close to Nyquist.
+ * Safe to run in place (output === input).
+ */
+function butterworth2(
+  input: Float32Array,
+  fc: number,
+  fs: number,
+  highpass: boolean,
+  output?: Float32Array
+): Float32Array {
+  const out = output ?? new Float32Array(input.length);
+  const w0 = 2 * Math.PI * Math.min(fc, fs * 0.49) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / Math.SQRT2; // Q = 1/√2
+  const a0 = 1 + alpha;
+  const b1 = (highpass ? -(1 + cos) : 1 - cos) / a0;
+  const b0 = (highpass ? (1 + cos) / 2 : (1 - cos) / 2) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+}
+
+/**
+ * Second-order Butterworth lowpass
+ * @param input - Input signal
+ * @param fc - Cutoff frequency in Hz
+ * @param fs - Sample rate in Hz
+ * @param output - Optional pre-allocated output buffer (may be the input)
+ */
+export function butterworthLP(input: Float32Array, fc: number, fs: number, output?: Float32Array): Float32Array {
+  return butterworth2(input, fc, fs, false, output);
+}
+
+/**
+ * Second-order Butterworth highpass
+ * @param input - Input signal
+ * @param fc - Cutoff frequency in Hz
+ * @param fs - Sample rate in Hz
+ * @param output - Optional pre-allocated output buffer (may be the input)
+ */
+export function butterworthHP(input: Float32Array, fc: number, fs: number, output?: Float32Array): Float32Array {
+  return butterworth2(input, fc, fs, true, output);
+}
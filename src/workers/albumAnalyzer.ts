@@ -3,9 +3,20 @@
  * Computes album-level statistics and intelligence
  */
 
-import type { AlbumAnalysis, AlbumSummary, TrackAnalysis } from '../core/types.js';
+import type { AlbumAnalysis, AlbumSummary, AnalysisIssue, DeliveryProfile, DistributionRule, FailedTrack, GatingHistogram, TrackAnalysis, ValidationMode } from '../core/types.js';
+import { DEFAULT_PROFILE } from '../core/profiles.js';
 import { formatDuration } from '../core/format.js';
-import { scoreTrack } from './trackAnalyzer.js';
+import { applyDeliveryProfile, scoreTrack } from './trackAnalyzer.js';
+import { normalizeISRC } from '../analysis/metadata/index.js';
+import { gatedLoudnessFromHistograms } from '../analysis/loudness.js';
+import { computeGainTags } from '../analysis/replayGain.js';
+import { findPlatform } from '../analysis/musical/streaming.js';
+import { evaluateRedBook } from '../analysis/rules/redbook.js';
+import { evaluateVinyl } from '../analysis/rules/vinyl.js';
+import { evaluateAcx } from '../analysis/rules/acx.js';
+import { evaluateBroadcast } from '../analysis/rules/broadcast.js';
+import { primaryFinding } from '../analysis/rules/chains.js';
+import { BUILT_IN_RULES } from '../analysis/rules/builtin.js';
 
 function avg(arr: number[]): number {
   return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
@@ -18,12 +29,129 @@ function stdDev(arr: number[]): number {
   return Math.sqrt(variance);
 }
 
+// === Delivery-mode validation ===
+// Each validation mode produces one album-level report; a failed report blocks
+// the album like a track issue and names the failure in the ready note.
+type ModeReports = Required<Pick<AlbumAnalysis, 'redBook' | 'vinyl' | 'acx' | 'broadcast'>>;
+
+interface ModeCheck {
+  reports: ModeReports;
+  ready: boolean;
+  failureNote: string | null;
+}
+
+type ModeValidator = (tracks: TrackAnalysis[], profile: DeliveryProfile) => ModeCheck;
+
+const NO_MODE_REPORTS: ModeReports = { redBook: null, vinyl: null, acx: null, broadcast: null };
+
+function modeValidator<K extends keyof ModeReports>(
+  field: K,
+  evaluate: (tracks: TrackAnalysis[], profile: DeliveryProfile) => NonNullable<ModeReports[K]>,
+  failureNote: (report: NonNullable<ModeReports[K]>) => string
+): ModeValidator {
+  return (tracks, profile) => {
+    const report = evaluate(tracks, profile);
+    return {
+      reports: { ...NO_MODE_REPORTS, [field]: report },
+      ready: report.ready,
+      failureNote: report.ready ? null : failureNote(report)
+    };
+  };
+}
+
+const MODE_VALIDATORS: Record<ValidationMode, ModeValidator> = {
+  redbook: modeValidator('redBook', tracks => evaluateRedBook(tracks), () => 'Fails Red Book CD checks'),
+  vinyl: modeValidator('vinyl', (tracks, profile) => evaluateVinyl(tracks, profile.vinylFormat), () => 'Fails vinyl cutting checks'),
+  acx: modeValidator('acx', evaluateAcx, r => {
+    const failed = r.chapters.length - r.passed;
+    return `${failed} chapter${failed === 1 ? '' : 's'} fail ACX checks`;
+  }),
+  broadcast: modeValidator('broadcast', evaluateBroadcast, r => `Fails ${r.standard} compliance`)
+};
+
+function validateMode(tracks: TrackAnalysis[], profile: DeliveryProfile): ModeCheck {
+  return profile.validationMode
+    ? MODE_VALIDATORS[profile.validationMode](tracks, profile)
+    : { reports: NO_MODE_REPORTS, ready: true, failureNote: null };
+}
+
+function findDuplicateISRCs(tracks: TrackAnalysis[]): { isrc: string; trackNumbers: number[] }[] {
+  const byISRC = new Map<string, number[]>();
+  for (const t of tracks) {
+    const raw = t.metadata?.isrc;
+    if (!raw) continue;
+    const isrc = normalizeISRC(raw) ?? raw.toUpperCase();
+    byISRC.set(isrc, [...(byISRC.get(isrc) ?? []), t.trackNumber]);
+  }
+  return [...byISRC.entries()]
+    .filter(([, nums]) => nums.length > 1)
+    .map(([isrc, trackNumbers]) => ({ isrc, trackNumbers }));
+}
+
+/**
+ * A duplicate ISRC blocks delivery like any rule issue: it joins the structured
+ * findings too, so track cards and the primary concern pick it up.
+ */
+function withDuplicateISRC(t: TrackAnalysis, duplicates: { isrc: string; trackNumbers: number[] }[]): TrackAnalysis {
+  const dup = duplicates.find(d => d.trackNumbers.includes(t.trackNumber));
+  if (!dup) return t;
+  const others = dup.trackNumbers.filter(n => n !== t.trackNumber).join(', ');
+  const finding: AnalysisIssue = {
+    message: `Duplicate ISRC ${dup.isrc}: also used by track ${others}.`,
+    severity: 1,
+    confidence: 1,
+    category: 'format',
+    recommendationTier: 'safe',
+    ruleId: 'format.duplicate-isrc'
+  };
+  const enhancedIssues = [...(t.enhancedIssues ?? []), finding];
+  return {
+    ...t,
+    issues: [...t.issues, finding.message],
+    enhancedIssues,
+    distributionReady: false,
+    primaryConcern: primaryFinding(enhancedIssues, t.enhancedWarnings ?? [])?.message ?? t.primaryConcern
+  };
+}
+
+/**
+ * Compute album-level statistics.
+ * Failed tracks are listed on the result but never contribute to stats or scoring;
+ * any failure still blocks distribution since the delivery is incomplete.
+ * Tracks are expected to be evaluated against the same profile and rules (see
+ * applyDeliveryProfile); the returned album holds re-evaluated copies.
+ */
 export function computeAlbumStats(
   albumName: string,
-  tracks: TrackAnalysis[],
+  allTracks: TrackAnalysis[],
   totalSeconds: number,
-  totalSizeMB: number
+  totalSizeMB: number,
+  failedTracks: FailedTrack[] = [],
+  profile: DeliveryProfile = DEFAULT_PROFILE,
+  rules: DistributionRule[] = BUILT_IN_RULES
 ): AlbumAnalysis {
+  const failedNumbers = new Set(failedTracks.map(f => f.trackNumber));
+  const analyzed = allTracks.filter(t => !failedNumbers.has(t.trackNumber));
+
+  // Album loudness pools every track's gating blocks (BS.1770), so long or loud tracks
+  // weigh in as they would on an album-normalising player. Tracks without a histogram
+  // (imports from older versions) leave it undefined rather than skewing the result.
+  const histograms = analyzed.map(t => t.loudness.gatingHistogram).filter((h): h is GatingHistogram => !!h);
+  const albumLUFS = analyzed.length > 0 && histograms.length === analyzed.length
+    ? gatedLoudnessFromHistograms(histograms)
+    : null;
+  const albumIntegratedLUFS = albumLUFS !== null && isFinite(albumLUFS) ? Number(albumLUFS.toFixed(1)) : undefined;
+
+  // Album-normalising platforms play every track at the album's gain; the rules are
+  // re-run so platform findings judge the same projections the cards show
+  const normalized = albumIntegratedLUFS !== undefined
+    ? analyzed.map(t => applyDeliveryProfile(t, profile, rules, albumLUFS))
+    : analyzed;
+
+  // Duplicate ISRCs are a per-track delivery blocker; flag before counting issues
+  const duplicateISRCs = findDuplicateISRCs(normalized);
+  const tracks = normalized.map(t => withDuplicateISRC(t, duplicateISRCs));
+
   // Gather all metrics
   const lufsValues = tracks.map(t => t.loudness.integratedLUFS).filter((x): x is number => x !== null);
   const tpValues = tracks.map(t => t.loudness.truePeakDBTP).filter((x): x is number => x !== null);
@@ -45,6 +173,10 @@ export function computeAlbumStats(
   const avgAI = avg(aiValues);
   const lufsConsistency = stdDev(lufsValues);
 
+  const albumReplayGain = albumIntegratedLUFS !== undefined
+    ? computeGainTags(albumLUFS, tpValues.length ? maxTP : null) ?? undefined
+    : undefined;
+
   // Count tracks with issues
   const tracksAboveNeg1dBTP = tracks.filter(t => (t.loudness.truePeakDBTP ?? -10) > -1).length;
   const tracksWithClipping = tracks.filter(t => t.dynamics.hasClipping).length;
@@ -58,7 +190,10 @@ export function computeAlbumStats(
   const scores = tracks.map(scoreTrack);
   const overallScore = scores.length ? Number((scores.reduce((a, b) => a + b, 0) / scores.length).toFixed(1)) : 0;
 
-  const distributionReady = tracks.every(t => t.distributionReady);
+  // Red Book, vinyl, ACX or broadcast checks for the profile's delivery mode
+  const modeCheck = validateMode(tracks, profile);
+
+  const distributionReady = failedTracks.length === 0 && tracks.every(t => t.distributionReady) && modeCheck.ready;
 
   // Album-Level Intelligence (3.1-3.3)
 
@@ -150,11 +285,15 @@ export function computeAlbumStats(
   // Distribution ready note
   let distributionReadyNote: string | undefined;
   if (distributionReady) {
-    if (avgLUFS > -14) {
+    if (avgLUFS > profile.targetLUFS) {
       distributionReadyNote = "Distribution Ready (with normalization)";
     } else {
       distributionReadyNote = "Distribution Ready";
     }
+  } else if (failedTracks.length > 0) {
+    distributionReadyNote = `${failedTracks.length} file${failedTracks.length > 1 ? 's' : ''} failed to analyze`;
+  } else if (modeCheck.failureNote && tracks.every(t => t.distributionReady)) {
+    distributionReadyNote = modeCheck.failureNote;
   } else {
     distributionReadyNote = "Address issues before distribution";
   }
@@ -162,9 +301,10 @@ export function computeAlbumStats(
   // Score breakdown
   const scoreBreakdown = {
     loudness: Math.round(avg(tracks.map(t => {
-      const lufs = t.loudness.integratedLUFS ?? -14;
-      if (lufs > -9 || lufs < -20) return 6;
-      if (lufs > -11 || lufs < -18) return 8;
+      // Distance from the profile target: louder is penalised sooner than quieter
+      const offset = (t.loudness.integratedLUFS ?? profile.targetLUFS) - profile.targetLUFS;
+      if (offset > 5 || offset < -6) return 6;
+      if (offset > 3 || offset < -4) return 8;
       return 10;
     }))),
     dynamics: Math.round(avg(tracks.map(t => t.dynamics.hasClipping ? 5 : 10))),
@@ -181,9 +321,10 @@ export function computeAlbumStats(
       return 10;
     }))),
     streaming: Math.round(avg(tracks.map(t => {
-      const tp = t.streamingSimulation.spotify?.projectedTruePeakDBTP ?? -3;
+      const sim = t.streamingSimulation.target ?? findPlatform(t.streamingSimulation, 'Spotify');
+      const tp = sim?.projectedTruePeakDBTP ?? -3;
       if (tp > 0) return 5;
-      if (tp > -1) return 7;
+      if (tp > profile.maxTruePeakDBTP) return 7;
       return 10;
     })))
   };
@@ -194,6 +335,8 @@ export function computeAlbumStats(
     maxLUFS: maxLUFS !== undefined ? Number(maxLUFS.toFixed(1)) : undefined,
     lufsRange: lufsValues.length >= 2 ? `${minLUFS!.toFixed(1)} to ${maxLUFS!.toFixed(1)} LUFS` : undefined,
     lufsConsistency: Number(lufsConsistency.toFixed(2)),
+    albumIntegratedLUFS,
+    albumReplayGain,
     avgLRA: lraValues.length ? Number(avg(lraValues).toFixed(1)) : undefined,
     maxTruePeak: Number(maxTP.toFixed(1)),
     avgTruePeak: tpValues.length ? Number(avgTP.toFixed(1)) : undefined,
@@ -219,7 +362,8 @@ export function computeAlbumStats(
     spectralDeviatingTracks: spectralDeviatingTracks.length > 0 ? spectralDeviatingTracks : undefined,
     spectralFingerprint,
     spectralNote,
-    outlierTracks: outlierTracks.length > 0 ? outlierTracks : undefined
+    outlierTracks: outlierTracks.length > 0 ? outlierTracks : undefined,
+    duplicateISRCs: duplicateISRCs.length > 0 ? duplicateISRCs : undefined
   };
 
   return {
@@ -243,6 +387,9 @@ export function computeAlbumStats(
       sampleRate: tracks[0]?.parameters.decodedSampleRate ?? tracks[0]?.parameters.sampleRate ?? 44100,
       browserInfo: typeof navigator !== 'undefined' ? navigator.userAgent : 'Worker'
     },
-    tracks
+    tracks,
+    failedTracks,
+    deliveryProfile: profile,
+    ...modeCheck.reports
   };
 }
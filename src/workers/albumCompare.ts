@@ -0,0 +1,208 @@
+/**
+ * Album comparison module
+ * Matches tracks between two analyses of the same album (e.g. master v1 vs v2)
+ * and reports metric deltas plus new and resolved issues.
+ */
+
+import type {
+  AlbumAnalysis,
+  AlbumComparison,
+  MetricDelta,
+  TrackAnalysis,
+  TrackComparison,
+  TrackMatchMethod,
+  TrackRef
+} from '../core/types.js';
+import { normalizeISRC } from '../analysis/metadata/index.js';
+import { scoreTrack } from './trackAnalyzer.js';
+
+// Fingerprint matching: durations must agree within this (seconds or fraction, whichever is larger)
+const FINGERPRINT_DURATION_TOLERANCE_S = 3;
+const FINGERPRINT_DURATION_TOLERANCE_FRAC = 0.05;
+// Max combined distance for a fingerprint match (see fingerprintDistance)
+const FINGERPRINT_MAX_DISTANCE = 1.0;
+
+function delta(before: number | null | undefined, after: number | null | undefined, digits = 1): MetricDelta {
+  const b = before ?? null;
+  const a = after ?? null;
+  return {
+    before: b,
+    after: a,
+    delta: a !== null && b !== null ? Number((a - b).toFixed(digits)) : null
+  };
+}
+
+function ref(t: TrackAnalysis): TrackRef {
+  return { trackNumber: t.trackNumber, filename: t.parameters.filename };
+}
+
+/**
+ * Filename stem with extension, revision markers and punctuation removed,
+ * so "01 Song (Master v1).wav" and "01_song_master_v2.flac" compare equal.
+ */
+export function normalizeTrackName(filename: string): string {
+  return filename
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/(^|[^a-z0-9])(v|ver|version|rev|mix|take)[ _.-]?\d+(?=$|[^a-z0-9])/g, '$1')
+    .replace(/(^|[^a-z0-9])(final|master(ed)?|remaster(ed)?|approved)(?=$|[^a-z0-9])/g, '$1')
+    .replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Issue text with numbers masked, so a changed measurement in the same rule
+ * ("True peak -0.4 dBTP" -> "True peak -0.2 dBTP") is not reported as new + resolved.
+ */
+function issueKey(text: string): string {
+  return text.replace(/[-+]?\d+(\.\d+)?/g, '#');
+}
+
+function diffMessages(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeKeys = new Set(before.map(issueKey));
+  const afterKeys = new Set(after.map(issueKey));
+  return {
+    added: after.filter(m => !beforeKeys.has(issueKey(m))),
+    removed: before.filter(m => !afterKeys.has(issueKey(m)))
+  };
+}
+
+/**
+ * Distance between two tracks from duration, tempo, key and spectral shape.
+ * Returns Infinity when durations are too far apart to be the same song.
+ */
+function fingerprintDistance(a: TrackAnalysis, b: TrackAnalysis): number {
+  const da = a.parameters.durationSeconds;
+  const db = b.parameters.durationSeconds;
+  const tolerance = Math.max(FINGERPRINT_DURATION_TOLERANCE_S, FINGERPRINT_DURATION_TOLERANCE_FRAC * Math.max(da, db));
+  const durationDiff = Math.abs(da - db);
+  if (durationDiff > tolerance) return Infinity;
+
+  let distance = durationDiff / tolerance;
+
+  const bpmA = a.musicalFeatures?.bpmPrimary ?? null;
+  const bpmB = b.musicalFeatures?.bpmPrimary ?? null;
+  if (bpmA !== null && bpmB !== null) {
+    distance += Math.min(1, Math.abs(bpmA - bpmB) / 4);
+  }
+
+  const keyA = a.musicalFeatures?.keyPrimary ?? null;
+  const keyB = b.musicalFeatures?.keyPrimary ?? null;
+  if (keyA !== null && keyB !== null && keyA !== keyB) distance += 0.3;
+
+  const centroidA = a.spectral.spectralCentroidHz;
+  const centroidB = b.spectral.spectralCentroidHz;
+  if (centroidA !== null && centroidB !== null && centroidA > 0 && centroidB > 0) {
+    // Mastering moves the centroid a little; a different song moves it a lot
+    distance += Math.min(1, Math.abs(Math.log2(centroidA / centroidB)));
+  }
+
+  return distance;
+}
+
+function compareTracks(before: TrackAnalysis, after: TrackAnalysis, matchedBy: TrackMatchMethod): TrackComparison {
+  const issues = diffMessages(before.issues, after.issues);
+  const warnings = diffMessages(before.warnings, after.warnings);
+  return {
+    before: ref(before),
+    after: ref(after),
+    matchedBy,
+    integratedLUFS: delta(before.loudness.integratedLUFS, after.loudness.integratedLUFS),
+    truePeakDBTP: delta(before.loudness.truePeakDBTP, after.loudness.truePeakDBTP),
+    loudnessRangeLU: delta(before.loudness.loudnessRangeLU, after.loudness.loudnessRangeLU),
+    spectralTiltDBPerOctave: delta(before.spectral.spectralTiltDBPerOctave, after.spectral.spectralTiltDBPerOctave, 2),
+    score: delta(scoreTrack(before), scoreTrack(after)),
+    distributionReady: { before: before.distributionReady, after: after.distributionReady },
+    newIssues: issues.added,
+    resolvedIssues: issues.removed,
+    newWarnings: warnings.added,
+    resolvedWarnings: warnings.removed
+  };
+}
+
+/**
+ * Pair tracks across versions: ISRC first, then normalized filename,
+ * then the closest acoustic fingerprint among whatever is left.
+ */
+export function matchTracks(
+  before: TrackAnalysis[],
+  after: TrackAnalysis[]
+): { pairs: [TrackAnalysis, TrackAnalysis, TrackMatchMethod][]; unmatchedBefore: TrackAnalysis[]; unmatchedAfter: TrackAnalysis[] } {
+  const pairs: [TrackAnalysis, TrackAnalysis, TrackMatchMethod][] = [];
+  const remainingBefore = new Set(before);
+  const remainingAfter = new Set(after);
+
+  const matchBy = (method: TrackMatchMethod, key: (t: TrackAnalysis) => string | null) => {
+    const afterByKey = new Map<string, TrackAnalysis[]>();
+    for (const t of remainingAfter) {
+      const k = key(t);
+      if (k) afterByKey.set(k, [...(afterByKey.get(k) ?? []), t]);
+    }
+    for (const b of [...remainingBefore]) {
+      const k = key(b);
+      const candidates = k ? afterByKey.get(k) : undefined;
+      // Ambiguous keys (e.g. a duplicated ISRC) are left for the next method
+      if (!candidates || candidates.length !== 1 || !remainingAfter.has(candidates[0])) continue;
+      pairs.push([b, candidates[0], method]);
+      remainingBefore.delete(b);
+      remainingAfter.delete(candidates[0]);
+    }
+  };
+
+  matchBy('isrc', t => {
+    const raw = t.metadata?.isrc;
+    return raw ? normalizeISRC(raw) ?? raw.toUpperCase() : null;
+  });
+  matchBy('filename', t => normalizeTrackName(t.parameters.filename) || null);
+
+  // Greedy nearest-fingerprint pairing over the leftovers
+  const candidates: { b: TrackAnalysis; a: TrackAnalysis; d: number }[] = [];
+  for (const b of remainingBefore) {
+    for (const a of remainingAfter) {
+      const d = fingerprintDistance(b, a);
+      if (d <= FINGERPRINT_MAX_DISTANCE) candidates.push({ b, a, d });
+    }
+  }
+  candidates.sort((x, y) => x.d - y.d);
+  for (const { b, a } of candidates) {
+    if (!remainingBefore.has(b) || !remainingAfter.has(a)) continue;
+    pairs.push([b, a, 'fingerprint']);
+    remainingBefore.delete(b);
+    remainingAfter.delete(a);
+  }
+
+  return { pairs, unmatchedBefore: [...remainingBefore], unmatchedAfter: [...remainingAfter] };
+}
+
+/**
+ * Compare two analyses of the same album. Deltas are after - before.
+ */
+export function compareAlbums(before: AlbumAnalysis, after: AlbumAnalysis): AlbumComparison {
+  const { pairs, unmatchedBefore, unmatchedAfter } = matchTracks(before.tracks, after.tracks);
+
+  const tracks = pairs
+    .map(([b, a, method]) => compareTracks(b, a, method))
+    .sort((x, y) => x.after.trackNumber - y.after.trackNumber);
+
+  const sb = before.summary;
+  const sa = after.summary;
+
+  return {
+    before: { albumName: before.albumName, analysisDateISO: before.analysisDateISO, totalTracks: before.totalTracks },
+    after: { albumName: after.albumName, analysisDateISO: after.analysisDateISO, totalTracks: after.totalTracks },
+    tracks,
+    unmatchedBefore: unmatchedBefore.map(ref),
+    unmatchedAfter: unmatchedAfter.map(ref),
+    summary: {
+      avgLUFS: delta(sb.avgLUFS, sa.avgLUFS),
+      maxTruePeak: delta(sb.maxTruePeak, sa.maxTruePeak),
+      avgLRA: delta(sb.avgLRA, sa.avgLRA),
+      avgSpectralTilt: delta(sb.avgSpectralTilt, sa.avgSpectralTilt),
+      overallScore: delta(before.overallScore, after.overallScore),
+      totalIssues: delta(sb.totalIssues, sa.totalIssues, 0),
+      totalWarnings: delta(sb.totalWarnings, sa.totalWarnings, 0),
+      distributionReady: { before: before.distributionReady, after: after.distributionReady },
+      newIssueCount: tracks.reduce((sum, t) => sum + t.newIssues.length, 0),
+      resolvedIssueCount: tracks.reduce((sum, t) => sum + t.resolvedIssues.length, 0)
+    }
+  };
+}
@@ -3,11 +3,11 @@
  * Single-Track Analysis Worker
  *
  * Handles analysis of a single track for use with the worker pool.
- * Separate from analyzer.worker.ts to enable parallel processing.
+ * One track per message so tracks can be processed in parallel.
  * Supports warm-up for WASM pre-initialization.
  */
 
-import type { TrackAnalysis } from '../core/types.js';
+import type { DeliveryProfile, DistributionRule, TrackAnalysis } from '../core/types.js';
 import { analyzeTrack, type DecodedTrackData } from './trackAnalyzer.js';
 import { computeSpectrogram, downsampleSpectrogram } from '../analysis/spectrogram.js';
 import { renderSpectrogram, isOffscreenCanvasSupported } from './spectrogramRenderer.js';
@@ -23,6 +23,8 @@ interface AnalyzeTrackRequest {
   type: 'analyze-track';
   track: DecodedTrackData;
   trackNumber: number;
+  profile?: DeliveryProfile;
+  rules?: DistributionRule[];
   generateSpectrogram?: boolean;
   spectrogramConfig?: { width: number; height: number };
 }
@@ -41,21 +43,29 @@ const STAGES = ['Loudness', 'Dynamics', 'Stereo', 'Spectral', 'Musical', 'Stream
 self.onmessage = async (ev: MessageEvent<WorkerRequest>) => {
   // Handle warm-up request: pre-initialize WASM modules
   if (ev.data.type === 'warm-up') {
-    const [wasmFFT, wasmEbuR128] = await Promise.all([
-      initWasmFFT(),
-      initEbuR128()
-    ]);
-    (self as any).postMessage({
-      type: 'ready',
-      wasmFFT,
-      wasmEbuR128
-    } satisfies WorkerMessage);
+    try {
+      const [wasmFFT, wasmEbuR128] = await Promise.all([
+        initWasmFFT(),
+        initEbuR128()
+      ]);
+      (self as any).postMessage({
+        type: 'ready',
+        wasmFFT,
+        wasmEbuR128
+      } satisfies WorkerMessage);
+    } catch (error) {
+      // The pool fails the run instead of waiting for a ready that never comes
+      (self as any).postMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error)
+      } satisfies WorkerMessage);
+    }
     return;
   }
 
   if (ev.data.type !== 'analyze-track') return;
 
-  const { track: decoded, trackNumber, generateSpectrogram, spectrogramConfig } = ev.data;
+  const { track: decoded, trackNumber, profile, rules, generateSpectrogram, spectrogramConfig } = ev.data;
   const spectrogramEnabled = generateSpectrogram && isOffscreenCanvasSupported();
   const spectrogramSize = spectrogramConfig ?? { width: 400, height: 80 };
 
@@ -69,7 +79,7 @@ self.onmessage = async (ev: MessageEvent<WorkerRequest>) => {
           ? Math.round(((progress.stageIdx + 1) / STAGES.length) * 100)
           : 0
       } satisfies WorkerMessage);
-    });
+    }, profile, rules);
 
     // Generate spectrogram if enabled
     if (spectrogramEnabled) {
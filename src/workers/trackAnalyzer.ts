@@ -3,12 +3,16 @@
  * Handles per-track audio analysis pipeline
  */
 
-import type { TrackAnalysis, AudioParameters } from '../core/types.js';
-import { computeLoudness } from '../analysis/loudness.js';
-import { computeDynamics, computeStereo, computeBandEnergiesMono, computeTHD } from '../analysis/dsp/index.js';
-import { computeMusicalFeatures, computeStreamingSimulation } from '../analysis/musical/index.js';
-import { bytesToMB, formatDuration, clamp } from '../core/format.js';
-import { evaluateDistribution } from '../analysis/rules.js';
+import type { TrackAnalysis, AudioParameters, DeliveryProfile, DistributionRule, TrackMetadata } from '../core/types.js';
+import { DEFAULT_PROFILE, isLossyDelivery, isSpokenWord } from '../core/profiles.js';
+import { computeLoudness, computeLoudnessCorrection } from '../analysis/loudness.js';
+import { computeGainTags } from '../analysis/replayGain.js';
+import { getChannelLayout } from '../analysis/channelLayout.js';
+import type { MediaInfoAudioBasics } from '../analysis/mediainfo.js';
+import { computeDynamics, computeStereo, computeBandEnergiesMono, computeTHD, computeVinyl, computeSpeech, computeCodecEmulation, computeLimiterActivity, computeGlitches, computeHum } from '../analysis/dsp/index.js';
+import { applyAlbumNormalization, computeMusicalFeatures, computeStreamingSimulation, needsLimiterRender, renderLimiterPlatform } from '../analysis/musical/index.js';
+import { bytesToMB, dbFromLinear, formatDuration, clamp } from '../core/format.js';
+import { BUILT_IN_RULES, evaluateDistribution } from '../analysis/rules/index.js';
 
 export interface DecodedTrackData {
   filename: string;
@@ -16,6 +20,17 @@ export interface DecodedTrackData {
   sampleRate: number;
   channels: number;
   channelData: Float32Array[];
+  // === NEW: Source format from native decoder ===
+  bitDepth?: number;
+  sampleFormat?: 'int' | 'float';
+  channelMask?: number;
+  decoder?: 'native' | 'webaudio';
+  // === NEW: Container metadata (from mediainfo on the main thread) ===
+  mediaInfo?: MediaInfoAudioBasics;
+  // === NEW: Embedded tags (parsed on the main thread) ===
+  metadata?: TrackMetadata;
+  // === NEW: Recoverable decoder problems (truncated stream) ===
+  decodeWarnings?: string[];
 }
 
 export function scoreTrack(t: TrackAnalysis): number {
@@ -75,6 +90,13 @@ function detectTrueStereo(L: Float32Array, R: Float32Array): boolean {
   return avgDiff > 0.0001;
 }
 
+/** Loudest sample at one index across channels, in dBFS; null for digital silence */
+function edgeSampleDBFS(channelData: Float32Array[], index: number): number | null {
+  let peak = 0;
+  for (const ch of channelData) peak = Math.max(peak, Math.abs(ch[index] ?? 0));
+  return peak > 0 ? dbFromLinear(peak) : null;
+}
+
 function estimateEffectiveBitDepth(mono: Float32Array): { bits: number; noiseFloorDB: number } {
   const windowSize = 4096;
   let minEnergy = Infinity;
@@ -161,7 +183,9 @@ export interface AnalysisProgress {
 export function analyzeTrack(
   decoded: DecodedTrackData,
   trackNumber: number,
-  onProgress?: (progress: AnalysisProgress) => void
+  onProgress?: (progress: AnalysisProgress) => void,
+  profile: DeliveryProfile = DEFAULT_PROFILE,
+  rules: DistributionRule[] = BUILT_IN_RULES
 ): TrackAnalysis {
   const durationSeconds = decoded.channelData[0].length / decoded.sampleRate;
 
@@ -184,32 +208,58 @@ export function analyzeTrack(
   // Estimate effective bit depth and noise floor
   const bitDepthResult = estimateEffectiveBitDepth(mono);
 
+  // Speaker layout drives BS.1770 channel weighting
+  const layout = getChannelLayout(decoded.channelData.length, decoded.channelMask);
+
+  // Container metadata: source rate/depth survive Web Audio resampling
+  const mi = decoded.mediaInfo;
+  const containerDuration = mi?.durationSeconds;
+
   // Initial params (codec quality added after spectral analysis)
   const params: AudioParameters = {
     filename: decoded.filename,
     filesizeMB: bytesToMB(decoded.filesize),
     durationSeconds,
     durationFormatted: formatDuration(durationSeconds),
-    format: undefined,
-    sampleRate: decoded.sampleRate,
+    format: mi?.format,
+    sampleRate: mi?.samplingRate ?? decoded.sampleRate,
     decodedSampleRate: decoded.sampleRate,
     channels: decoded.channels,
-    bitDepth: undefined,
+    channelLayout: layout.name,
+    channelPositions: layout.positions,
+    bitDepth: decoded.bitDepth ?? mi?.bitDepth,
+    sampleFormat: decoded.sampleFormat,
+    decoder: decoded.decoder,
+    decodeWarnings: decoded.decodeWarnings,
     effectiveBitDepth: bitDepthResult.bits,
     noiseFloorDB: bitDepthResult.noiseFloorDB,
-    overallBitrate: undefined,
-    isTrueStereo
+    overallBitrate: mi?.overallBitrate,
+    isTrueStereo,
+    codecProfile: mi?.formatProfile,
+    encoderLibrary: mi?.encoderLibrary,
+    bitrateMode: mi?.bitrateMode,
+    containerDurationSeconds: containerDuration,
+    durationMismatchSeconds: containerDuration !== undefined ? containerDuration - durationSeconds : undefined,
+    sampleCount: n,
+    startSampleDBFS: edgeSampleDBFS(decoded.channelData, 0),
+    endSampleDBFS: edgeSampleDBFS(decoded.channelData, n - 1)
   };
 
   // Compute all metrics with stage progress
   onProgress?.({ stage: 'Loudness', stageIdx: 0 });
-  const loud = computeLoudness(decoded.sampleRate, decoded.channelData);
+  // Speech segments gate the dialogue loudness measurement (podcasts and audiobooks only)
+  const speech = isSpokenWord(profile) ? computeSpeech(mono, decoded.sampleRate) : null;
+  const loud = computeLoudness(decoded.sampleRate, decoded.channelData, layout, profile.targetLUFS, speech?.segments);
 
   onProgress?.({ stage: 'Dynamics', stageIdx: 1 });
   const dyn = computeDynamics(decoded.channelData, decoded.sampleRate);
+  const limiterActivity = computeLimiterActivity(decoded.channelData, decoded.sampleRate);
+  const glitches = computeGlitches(decoded.channelData, decoded.sampleRate);
+  const hum = computeHum(mono, decoded.sampleRate, bitDepthResult.noiseFloorDB);
 
   onProgress?.({ stage: 'Stereo', stageIdx: 2 });
   const st = computeStereo(decoded.channelData, decoded.sampleRate);
+  const vinyl = profile.validationMode === 'vinyl' ? computeVinyl(decoded.channelData, decoded.sampleRate) : null;
 
   onProgress?.({ stage: 'Spectral', stageIdx: 3 });
   const bands = computeBandEnergiesMono(mono, decoded.sampleRate);
@@ -231,7 +281,12 @@ export function analyzeTrack(
   const musical = computeMusicalFeatures(mono, decoded.sampleRate);
 
   onProgress?.({ stage: 'Streaming', stageIdx: 5 });
-  const streaming = computeStreamingSimulation(loud.integratedLUFS, loud.truePeakDBTP);
+  const limiterRender = renderLimiterPlatform(decoded.channelData, decoded.sampleRate, loud.integratedLUFS, profile);
+  const streaming = computeStreamingSimulation(loud.integratedLUFS, loud.truePeakDBTP, profile, limiterRender);
+  // PCM deliveries never meet an encoder; their true-peak ceiling is checked directly
+  const codec = isLossyDelivery(profile)
+    ? computeCodecEmulation(decoded.channelData, decoded.sampleRate, loud.truePeakDBTP)
+    : null;
 
   // Compute PLR/PSR
   const plrDB = loud.truePeakDBTP - loud.integratedLUFS;
@@ -247,6 +302,7 @@ export function analyzeTrack(
       samplePeakDBFS: loud.samplePeakDBFS,
       truePeakOversampling: loud.truePeakOversampling,
       ispMarginDB: loud.ispMarginDB,
+      perChannelTruePeakDBTP: loud.perChannelTruePeakDBTP,
       maxMomentaryLUFS: loud.maxMomentaryLUFS,
       maxShortTermLUFS: loud.maxShortTermLUFS,
       shortTermP10: loud.shortTermP10,
@@ -267,7 +323,11 @@ export function analyzeTrack(
       loudnessCorrectionDB: loud.loudnessCorrectionDB,
       loudnessCorrectionNote: loud.loudnessCorrectionNote,
       // === NEW: Per-Band Loudness (Phase 2.1) ===
-      perBandLoudness: loud.perBandLoudness
+      perBandLoudness: loud.perBandLoudness,
+      // === NEW: Album loudness / gain tags ===
+      gatingHistogram: loud.gatingHistogram,
+      replayGain: computeGainTags(loud.integratedLUFS, loud.truePeakDBTP),
+      meterLog: loud.meterLog
     },
     dynamics: {
       peakDBFS: dyn.peakDBFS,
@@ -294,7 +354,9 @@ export function analyzeTrack(
       transientSpacingCV: dyn.transientSpacingCV,
       transientTimingCharacter: dyn.transientTimingCharacter,
       compressionEstimate: dyn.compressionEstimate,
-      transientSharpness: dyn.transientSharpness
+      transientSharpness: dyn.transientSharpness,
+      clipPlateaus: dyn.clipPlateaus,
+      limiterActivity
     },
     spectral: {
       spectralCentroidHz: bands.spectralCentroidHz,
@@ -349,15 +411,72 @@ export function analyzeTrack(
     streamingSimulation: streaming,
     distributionReady: true,
     issues: [],
-    warnings: []
+    warnings: [],
+    metadata: decoded.metadata,
+    vinyl,
+    speech: speech ? { ...speech, dialogueGatedLUFS: loud.dialogueGatedLUFS } : null,
+    codec,
+    glitches,
+    hum
   };
 
   track.aiArtifacts = detectAIArtifacts(track);
 
-  const evalRes = evaluateDistribution(track);
+  const evalRes = evaluateDistribution(track, profile, rules);
   track.distributionReady = evalRes.ready;
   track.issues = evalRes.issues;
   track.warnings = evalRes.warnings;
+  track.enhancedIssues = evalRes.enhancedIssues;
+  track.enhancedWarnings = evalRes.enhancedWarnings;
+  track.primaryConcern = evalRes.primaryConcern ?? undefined;
 
   return track;
 }
+
+/**
+ * Re-evaluate an analyzed track against another delivery profile or ruleset without
+ * re-measuring: correction, target simulation, issues and warnings all follow the profile.
+ * Given the album's loudness, album-normalising platforms play at album gain before the
+ * rules see them.
+ */
+/**
+ * Passes the profile relies on that this track's analysis skipped (it ran under
+ * a profile that didn't need them). Re-analyse before evaluating against it.
+ */
+export function missingMeasurements(track: TrackAnalysis, profile: DeliveryProfile): string[] {
+  const missing: string[] = [];
+  if (isSpokenWord(profile) && !track.speech) missing.push('speech segmentation');
+  if (profile.validationMode === 'vinyl' && !track.vinyl) missing.push('vinyl measurements');
+  if (isLossyDelivery(profile) && !track.codec) missing.push('codec emulation');
+  if (needsLimiterRender(track.loudness.integratedLUFS, profile) && !track.streamingSimulation.limiterRender) {
+    missing.push('the platform limiter render');
+  }
+  return missing;
+}
+
+export function applyDeliveryProfile(
+  track: TrackAnalysis,
+  profile: DeliveryProfile,
+  rules: DistributionRule[] = BUILT_IN_RULES,
+  albumLUFS: number | null = null
+): TrackAnalysis {
+  const l = track.loudness;
+  const trackSimulation = l.integratedLUFS !== null && l.truePeakDBTP !== null
+    ? computeStreamingSimulation(l.integratedLUFS, l.truePeakDBTP, profile, track.streamingSimulation.limiterRender ?? null)
+    : track.streamingSimulation;
+  const updated: TrackAnalysis = {
+    ...track,
+    loudness: { ...l, ...computeLoudnessCorrection(l.integratedLUFS, profile.targetLUFS) },
+    streamingSimulation: albumLUFS !== null && l.truePeakDBTP !== null
+      ? applyAlbumNormalization(trackSimulation, albumLUFS, l.truePeakDBTP)
+      : trackSimulation
+  };
+  const evalRes = evaluateDistribution(updated, profile, rules);
+  updated.distributionReady = evalRes.ready;
+  updated.issues = evalRes.issues;
+  updated.warnings = evalRes.warnings;
+  updated.enhancedIssues = evalRes.enhancedIssues;
+  updated.enhancedWarnings = evalRes.enhancedWarnings;
+  updated.primaryConcern = evalRes.primaryConcern ?? undefined;
+  return updated;
+}
@@ -5,7 +5,8 @@
  * Automatically sizes pool based on hardware capabilities.
  */
 
-import type { TrackAnalysis } from '../core/types.js';
+import type { DeliveryProfile, DistributionRule, TrackAnalysis, TrackMetadata } from '../core/types.js';
+import type { MediaInfoAudioBasics } from '../analysis/mediainfo.js';
 
 export interface TrackJob {
   filename: string;
@@ -13,7 +14,16 @@ export interface TrackJob {
   sampleRate: number;
   channels: number;
   channelData: Float32Array[];
+  bitDepth?: number;
+  sampleFormat?: 'int' | 'float';
+  channelMask?: number;
+  decoder?: 'native' | 'webaudio';
+  decodeWarnings?: string[];
+  mediaInfo?: MediaInfoAudioBasics;
+  metadata?: TrackMetadata;
   trackNumber: number;
+  profile?: DeliveryProfile;
+  rules?: DistributionRule[];
 }
 
 export interface TrackResult {
@@ -22,6 +32,13 @@ export interface TrackResult {
   spectrogram?: ImageBitmap;
 }
 
+/** A job whose worker reported an error; the rest of the run continues */
+export interface TrackFailure {
+  trackNumber: number;
+  filename: string;
+  error: string;
+}
+
 export interface PoolProgress {
   type: 'track-progress';
   trackNumber: number;
@@ -39,6 +56,9 @@ export interface WorkerPoolConfig {
   onProgress?: (progress: PoolProgress) => void;
 }
 
+// A worker that hasn't loaded its modules by then is treated as failed
+const WARMUP_TIMEOUT_MS = 30_000;
+
 interface WorkerState {
   worker: Worker;
   busy: boolean;
@@ -65,7 +85,7 @@ function getOptimalPoolSize(): number {
  * Create a worker pool for parallel track analysis
  */
 export function createWorkerPool(config?: WorkerPoolConfig): {
-  analyze: (jobs: TrackJob[]) => AsyncGenerator<TrackResult, void, unknown>;
+  analyze: (jobs: TrackJob[], signal?: AbortSignal) => AsyncGenerator<TrackResult | TrackFailure, void, unknown>;
   terminate: () => void;
 } {
   const poolSize = config?.poolSize ?? getOptimalPoolSize();
@@ -78,53 +98,81 @@ export function createWorkerPool(config?: WorkerPoolConfig): {
   const workers: WorkerState[] = [];
   const warmupPromises: Promise<void>[] = [];
 
-  for (let i = 0; i < poolSize; i++) {
+  const spawnWorker = (i: number): void => {
     const worker = new Worker(
       new URL('./track.worker.ts', import.meta.url),
       { type: 'module' }
     );
     const state: WorkerState = { worker, busy: false, ready: false, currentTrack: null };
-    workers.push(state);
-
-    // Set up warm-up promise
-    const warmupPromise = new Promise<void>((resolve) => {
+    workers[i] = state;
+
+    // Set up warm-up promise; a worker that fails to load rejects it instead of hanging the run
+    warmupPromises[i] = new Promise<void>((resolve, reject) => {
+      const settle = (error: string | null) => {
+        clearTimeout(timer);
+        worker.removeEventListener('message', handler);
+        worker.removeEventListener('error', errorHandler);
+        worker.removeEventListener('messageerror', messageErrorHandler);
+        if (error === null) {
+          resolve();
+        } else {
+          console.error(`[WorkerPool] Worker ${i} failed to load: ${error}`);
+          reject(new Error(`Analysis worker failed to load: ${error}`));
+        }
+      };
       const handler = (ev: MessageEvent) => {
         if (ev.data.type === 'ready') {
           state.ready = true;
-          worker.removeEventListener('message', handler);
           console.log(`[WorkerPool] Worker ${i} ready (FFT: ${ev.data.wasmFFT}, EBU R128: ${ev.data.wasmEbuR128})`);
-          resolve();
+          settle(null);
+        } else if (ev.data.type === 'error') {
+          settle(ev.data.message);
         }
       };
+      const errorHandler = (ev: ErrorEvent) => {
+        ev.preventDefault();
+        settle(ev.message || 'script error');
+      };
+      const messageErrorHandler = () => settle('message could not be deserialized');
+      const timer = setTimeout(() => settle(`no response after ${WARMUP_TIMEOUT_MS / 1000} s`), WARMUP_TIMEOUT_MS);
       worker.addEventListener('message', handler);
+      worker.addEventListener('error', errorHandler);
+      worker.addEventListener('messageerror', messageErrorHandler);
     });
-    warmupPromises.push(warmupPromise);
+    // Surfaced when analyze() awaits it; don't report it as unhandled before then
+    warmupPromises[i].catch(() => {});
 
     // Send warm-up message
     worker.postMessage({ type: 'warm-up' });
+  };
+
+  for (let i = 0; i < poolSize; i++) {
+    spawnWorker(i);
   }
 
   let terminated = false;
   let completedTracks = 0;
 
-  async function* analyze(jobs: TrackJob[]): AsyncGenerator<TrackResult, void, unknown> {
+  async function* analyze(jobs: TrackJob[], signal?: AbortSignal): AsyncGenerator<TrackResult | TrackFailure, void, unknown> {
     if (terminated) {
       throw new Error('Worker pool has been terminated');
     }
 
+    // Resolves to null when the caller aborts so it can be raced against results
+    const aborted = new Promise<null>((resolve) => {
+      if (signal?.aborted) resolve(null);
+      signal?.addEventListener('abort', () => resolve(null), { once: true });
+    });
+
     // Wait for all workers to be ready before starting analysis
-    await Promise.all(warmupPromises);
+    if (await Promise.race([Promise.all(warmupPromises), aborted]) === null) return;
 
     const totalTracks = jobs.length;
     completedTracks = 0;
 
-    // Queue of pending jobs
+    // Queue of pending jobs and in-flight results keyed by track number
     const pendingJobs = [...jobs];
-    const results = new Map<number, TrackResult>();
-    const pendingPromises = new Map<number, {
-      resolve: (result: TrackResult) => void;
-      reject: (error: Error) => void;
-    }>();
+    const inFlight = new Map<number, Promise<TrackResult | TrackFailure>>();
 
     // Find an available worker (must be ready and not busy)
     const getAvailableWorker = (): WorkerState | null => {
@@ -132,11 +180,20 @@ export function createWorkerPool(config?: WorkerPoolConfig): {
     };
 
     // Assign a job to a worker
-    const assignJob = (workerState: WorkerState, job: TrackJob): Promise<TrackResult> => {
-      return new Promise((resolve, reject) => {
+    const assignJob = (workerState: WorkerState, job: TrackJob): Promise<TrackResult | TrackFailure> => {
+      return new Promise((resolve) => {
         workerState.busy = true;
         workerState.currentTrack = job.trackNumber;
-        pendingPromises.set(job.trackNumber, { resolve, reject });
+
+        // Spectrogram is posted before the result; hold it until the track completes
+        let spectrogram: ImageBitmap | undefined;
+
+        const release = () => {
+          workerState.worker.removeEventListener('message', messageHandler);
+          workerState.worker.removeEventListener('error', errorHandler);
+          workerState.busy = false;
+          workerState.currentTrack = null;
+        };
 
         const messageHandler = (ev: MessageEvent) => {
           const msg = ev.data;
@@ -151,37 +208,29 @@ export function createWorkerPool(config?: WorkerPoolConfig): {
               completedTracks,
               totalTracks
             });
+          } else if (msg.type === 'spectrogram') {
+            spectrogram = msg.bitmap;
           } else if (msg.type === 'result') {
-            workerState.worker.removeEventListener('message', messageHandler);
-            workerState.busy = false;
-            workerState.currentTrack = null;
+            release();
             completedTracks++;
-
-            const result: TrackResult = {
-              trackNumber: job.trackNumber,
-              analysis: msg.track
-            };
-            resolve(result);
-            pendingPromises.delete(job.trackNumber);
-          } else if (msg.type === 'spectrogram') {
-            // Handle spectrogram separately - it comes before or after result
-            const pending = pendingPromises.get(job.trackNumber);
-            if (pending) {
-              results.set(job.trackNumber, {
-                ...(results.get(job.trackNumber) ?? { trackNumber: job.trackNumber, analysis: null as any }),
-                spectrogram: msg.bitmap
-              });
-            }
+            resolve({ trackNumber: job.trackNumber, analysis: msg.track, spectrogram });
           } else if (msg.type === 'error') {
-            workerState.worker.removeEventListener('message', messageHandler);
-            workerState.busy = false;
-            workerState.currentTrack = null;
-            reject(new Error(msg.message));
-            pendingPromises.delete(job.trackNumber);
+            release();
+            completedTracks++;
+            resolve({ trackNumber: job.trackNumber, filename: job.filename, error: msg.message });
           }
         };
 
+        // Uncaught worker errors fail this job only
+        const errorHandler = (ev: ErrorEvent) => {
+          ev.preventDefault();
+          release();
+          completedTracks++;
+          resolve({ trackNumber: job.trackNumber, filename: job.filename, error: ev.message || 'Worker error' });
+        };
+
         workerState.worker.addEventListener('message', messageHandler);
+        workerState.worker.addEventListener('error', errorHandler);
 
         // Build transferables list
         const transferables: Transferable[] = [];
@@ -196,66 +245,60 @@ export function createWorkerPool(config?: WorkerPoolConfig): {
             filesize: job.filesize,
             sampleRate: job.sampleRate,
             channels: job.channels,
-            channelData: job.channelData
+            channelData: job.channelData,
+            bitDepth: job.bitDepth,
+            sampleFormat: job.sampleFormat,
+            channelMask: job.channelMask,
+            decoder: job.decoder,
+            decodeWarnings: job.decodeWarnings,
+            mediaInfo: job.mediaInfo,
+            metadata: job.metadata
           },
           trackNumber: job.trackNumber,
+          profile: job.profile,
+          rules: job.rules,
           generateSpectrogram: generateSpectrograms,
           spectrogramConfig
         }, transferables);
       });
     };
 
-    // Start initial batch of jobs
-    const inFlight: Promise<TrackResult>[] = [];
-
-    while (pendingJobs.length > 0 || inFlight.length > 0) {
+    while (pendingJobs.length > 0 || inFlight.size > 0) {
       // Assign jobs to available workers
       while (pendingJobs.length > 0) {
         const worker = getAvailableWorker();
         if (!worker) break;
 
         const job = pendingJobs.shift()!;
-        const promise = assignJob(worker, job);
-        inFlight.push(promise);
+        inFlight.set(job.trackNumber, assignJob(worker, job));
       }
 
-      // Wait for next completion
-      if (inFlight.length > 0) {
-        const result = await Promise.race(inFlight);
-
-        // Remove completed promise from in-flight
-        const idx = inFlight.findIndex(p =>
-          p.then(() => false).catch(() => false) // Check if it's the same promise
-        );
-
-        // Actually we need a different approach - use Promise.race with index tracking
-        // For simplicity, just filter out the completed one
-        const newInFlight: Promise<TrackResult>[] = [];
-        for (const p of inFlight) {
-          // This is a bit hacky but works: check if promise is already settled
-          let settled = false;
-          await p.then(r => {
-            if (r.trackNumber === result.trackNumber) settled = true;
-          }).catch(() => { settled = true; });
-
-          if (!settled) {
-            newInFlight.push(p);
-          }
-        }
-        inFlight.length = 0;
-        inFlight.push(...newInFlight);
-
-        // Yield the result with any spectrogram data
-        const spectrogram = results.get(result.trackNumber)?.spectrogram;
-        if (spectrogram) {
-          result.spectrogram = spectrogram;
-        }
+      if (inFlight.size === 0) break;
 
-        yield result;
+      // Yield results in completion order
+      const result = await Promise.race([...inFlight.values(), aborted]);
+      if (result === null) {
+        cancelInFlight();
+        return;
       }
+      inFlight.delete(result.trackNumber);
+      yield result;
     }
   }
 
+  /**
+   * Terminate workers mid-track and replace them with fresh ones,
+   * so the pool stays usable for the next run.
+   */
+  function cancelInFlight() {
+    if (terminated) return;
+    workers.forEach((state, i) => {
+      if (!state.busy) return;
+      state.worker.terminate();
+      spawnWorker(i);
+    });
+  }
+
   function terminate() {
     terminated = true;
     for (const { worker } of workers) {
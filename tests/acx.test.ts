@@ -0,0 +1,121 @@
+/**
+ * Spoken-Word / ACX Tests
+ *
+ * Speech segmentation on a synthetic voice with pauses and room tone,
+ * dialogue-gated loudness, and per-chapter ACX pass/fail.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { findProfile } from '../src/core/profiles';
+import { computeSpeech } from '../src/analysis/dsp/speech';
+import { evaluateAcx } from '../src/analysis/rules';
+import { buildTrack } from './helpers/analysis-builders';
+import type { SpeechMetrics, TrackAnalysis } from '../src/core/types';
+
+const SR = 44100;
+
+/** Harmonic "voice" phrases separated by pauses, over low room tone */
+function narration(phrases: [number, number][], seconds: number, voiceAmp = 0.1, toneAmp = 0.0005): Float32Array {
+  const out = new Float32Array(Math.round(seconds * SR));
+  let seed = 1;
+  for (let i = 0; i < out.length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    out[i] = toneAmp * (seed / 2 ** 32 - 0.5) * 2;
+  }
+  for (const [start, end] of phrases) {
+    for (let i = Math.round(start * SR); i < Math.round(end * SR); i++) {
+      const t = i / SR;
+      let v = 0;
+      for (let h = 1; h <= 8; h++) v += Math.sin(2 * Math.PI * 180 * h * t) / h;
+      out[i] += voiceAmp * v;
+    }
+  }
+  return out;
+}
+
+function chapter(n: number, overrides: { rms?: number; peak?: number; noise?: number; channels?: number; speech?: Partial<SpeechMetrics> } = {}): TrackAnalysis {
+  return buildTrack(n, {
+    parameters: { durationSeconds: 600, sampleRate: 44100, channels: overrides.channels ?? 1, noiseFloorDB: overrides.noise ?? -65 },
+    dynamics: { rmsDBFS: overrides.rms ?? -20, peakDBFS: overrides.peak ?? -4 },
+    speech: {
+      segments: [], speechSeconds: 500, speechRatio: 0.8, headRoomToneS: 0.7, tailRoomToneS: 2.5,
+      longestPauseS: 1.2, roomToneDBFS: -68, dialogueGatedLUFS: -19,
+      ...overrides.speech
+    }
+  });
+}
+
+describe('Speech segmentation', () => {
+  const audio = narration([[0.7, 2.5], [3.0, 5.0], [6.2, 8.0]], 10);
+
+  it('finds phrases, pauses and room tone at head and tail', () => {
+    const s = computeSpeech(audio, SR);
+    expect(s.segments).toHaveLength(3);
+    expect(s.headRoomToneS!).toBeCloseTo(0.7, 1);
+    expect(s.tailRoomToneS!).toBeCloseTo(2.0, 1);
+    expect(s.longestPauseS!).toBeCloseTo(1.2, 1);
+    expect(s.roomToneDBFS!).toBeLessThan(-60);
+  });
+
+  it('gates loudness to speech', () => {
+    const decoded = { filename: 'ch1.wav', filesize: 0, sampleRate: SR, channels: 1, channelData: [audio] };
+    const t = analyzeTrack(decoded, 1, undefined, findProfile('acx-audiobook')!);
+    expect(t.speech?.segments).toHaveLength(3);
+    expect(t.speech!.dialogueGatedLUFS!).toBeGreaterThan(t.loudness.integratedLUFS! - 0.5);
+    expect(t.speech!.dialogueGatedLUFS!).toBeLessThan(t.loudness.integratedLUFS! + 3);
+    // Podcasts are gated too; music profiles skip segmentation
+    const podcast = analyzeTrack(decoded, 1, undefined, findProfile('podcast-16')!);
+    expect(podcast.speech?.dialogueGatedLUFS).toBe(t.speech!.dialogueGatedLUFS);
+    expect(analyzeTrack(decoded, 1).speech).toBeNull();
+  });
+
+  it('finds no speech in steady tones', () => {
+    const tone = new Float32Array(SR * 3).map((_, i) => 0.3 * Math.sin(2 * Math.PI * 440 * i / SR));
+    const s = computeSpeech(tone, SR);
+    expect(s.segments).toEqual([]);
+    expect(s.headRoomToneS).toBeNull();
+  });
+});
+
+describe('ACX validation', () => {
+  const acx = findProfile('acx-audiobook')!;
+
+  it('passes a compliant chapter', () => {
+    const v = evaluateAcx([chapter(1)], acx);
+    expect(v.ready).toBe(true);
+    expect(v.chapters[0]).toMatchObject({ pass: true, issues: [], warnings: [] });
+  });
+
+  it('fails RMS, peak, noise floor and room tone per chapter', () => {
+    const v = evaluateAcx([
+      chapter(1),
+      chapter(2, { rms: -16, peak: -1 }),
+      chapter(3, { noise: -52, speech: { headRoomToneS: 0.2, tailRoomToneS: 7 } })
+    ], acx);
+    expect(v.ready).toBe(false);
+    expect(v.passed).toBe(1);
+    expect(v.chapters[1].issues).toEqual([
+      expect.stringMatching(/^RMS -16\.0 dBFS is outside/),
+      expect.stringMatching(/^Peak -1\.0 dBFS exceeds/)
+    ]);
+    expect(v.chapters[2].issues.map(i => i.split(' ')[0])).toEqual(['Noise', '0.20s', '7.00s']);
+  });
+
+  it('requires one channel format across chapters', () => {
+    expect(evaluateAcx([chapter(1), chapter(2, { channels: 2 })], acx).issues[0]).toMatch(/mix mono and stereo/);
+  });
+
+  it('checks dialogue loudness against a profile tolerance', () => {
+    const podcast = { ...findProfile('podcast-16')!, validationMode: 'acx' as const };
+    expect(evaluateAcx([chapter(1)], podcast).chapters[0].warnings[0]).toMatch(/^Dialogue-gated loudness -19\.0 LUFS is outside -16 ±1/);
+  });
+
+  it('runs only for profiles in ACX mode', () => {
+    const audio = narration([[0.7, 8.0]], 10);
+    const t = analyzeTrack({ filename: 'ch1.wav', filesize: 0, sampleRate: SR, channels: 1, channelData: [audio] }, 1, undefined, acx);
+    expect(computeAlbumStats('Book', [t], 10, 0).acx).toBeNull();
+    expect(computeAlbumStats('Book', [t], 10, 0, [], acx).acx?.chapters[0]).toMatchObject({ trackNumber: 1, headRoomToneS: expect.closeTo(0.7, 1) });
+  });
+});
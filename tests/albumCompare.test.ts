@@ -0,0 +1,97 @@
+/**
+ * Album Comparison Tests
+ *
+ * Track matching across versions and metric / issue deltas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareAlbums, matchTracks, normalizeTrackName } from '../src/workers/albumCompare';
+import { buildAlbum, buildTrack } from './helpers/analysis-builders';
+import type { AlbumAnalysis, TrackAnalysis } from '../src/core/types';
+
+interface TrackSpec {
+  n: number;
+  file: string;
+  lufs?: number;
+  tp?: number;
+  duration?: number;
+  bpm?: number;
+  centroid?: number;
+  isrc?: string;
+  issues?: string[];
+}
+
+function track(spec: TrackSpec): TrackAnalysis {
+  return buildTrack(spec.n, {
+    parameters: { filename: spec.file, durationSeconds: spec.duration ?? 180 },
+    loudness: { integratedLUFS: spec.lufs ?? -14, truePeakDBTP: spec.tp ?? -1, loudnessRangeLU: 6 },
+    dynamics: { hasClipping: false },
+    stereo: { lowEndPhaseIssues: false },
+    spectral: { spectralTiltDBPerOctave: -4.5, spectralCentroidHz: spec.centroid ?? 2000 },
+    aiArtifacts: { overallAIScore: null },
+    musicalFeatures: { bpmPrimary: spec.bpm ?? 120, keyPrimary: 'C major' },
+    metadata: spec.isrc ? { isrc: spec.isrc } : undefined,
+    distributionReady: (spec.issues ?? []).length === 0,
+    issues: spec.issues ?? []
+  });
+}
+
+function album(name: string, tracks: TrackAnalysis[], score: number): AlbumAnalysis {
+  return buildAlbum(tracks, {
+    albumName: name,
+    analysisDateISO: '2025-01-01T00:00:00.000Z',
+    overallScore: score,
+    summary: { avgLUFS: -14, maxTruePeak: -1, totalIssues: tracks.reduce((s, t) => s + t.issues.length, 0), totalWarnings: 0 }
+  });
+}
+
+describe('Album Comparison', () => {
+  it('normalizes revision markers out of filenames', () => {
+    expect(normalizeTrackName('01 Song (Master v1).wav')).toBe(normalizeTrackName('01_song_master_v2.flac'));
+    expect(normalizeTrackName('02 Other Song_final.wav')).toBe('02othersong');
+    expect(normalizeTrackName('01 Song.wav')).not.toBe(normalizeTrackName('02 Song.wav'));
+  });
+
+  it('matches by ISRC, then filename, then fingerprint', () => {
+    const before = [
+      track({ n: 1, file: 'a.wav', isrc: 'US-RC1-76-07839' }),
+      track({ n: 2, file: '02 Ballad v1.wav', duration: 240 }),
+      track({ n: 3, file: 'untitled.wav', duration: 300, bpm: 90, centroid: 1500 })
+    ];
+    const after = [
+      track({ n: 1, file: 'renamed.wav', isrc: 'USRC17607839' }),
+      track({ n: 2, file: '02 Ballad v2.wav', duration: 240 }),
+      track({ n: 3, file: '03 Closer.wav', duration: 301, bpm: 90, centroid: 1550 }),
+      track({ n: 4, file: 'bonus.wav', duration: 60, bpm: 140 })
+    ];
+    const { pairs, unmatchedBefore, unmatchedAfter } = matchTracks(before, after);
+
+    expect(pairs.map(([b, a, m]) => [b.trackNumber, a.trackNumber, m])).toEqual([
+      [1, 1, 'isrc'],
+      [2, 2, 'filename'],
+      [3, 3, 'fingerprint']
+    ]);
+    expect(unmatchedBefore).toHaveLength(0);
+    expect(unmatchedAfter.map(t => t.parameters.filename)).toEqual(['bonus.wav']);
+  });
+
+  it('reports deltas and new/resolved issues, ignoring changed numbers', () => {
+    const before = album('v1', [
+      track({ n: 1, file: '01.wav', lufs: -9, tp: 0.2, issues: ['True peak +0.2 dBTP exceeds -1.0 dBTP.', 'Clipping detected (12 samples).'] })
+    ], 6.5);
+    const after = album('v2', [
+      track({ n: 1, file: '01.wav', lufs: -11.5, tp: -0.3, issues: ['True peak -0.3 dBTP exceeds -1.0 dBTP.', 'DC offset too high.'] })
+    ], 7.2);
+
+    const cmp = compareAlbums(before, after);
+    const t = cmp.tracks[0];
+
+    expect(t.integratedLUFS).toEqual({ before: -9, after: -11.5, delta: -2.5 });
+    expect(t.truePeakDBTP.delta).toBe(-0.5);
+    expect(t.newIssues).toEqual(['DC offset too high.']);
+    expect(t.resolvedIssues).toEqual(['Clipping detected (12 samples).']);
+    expect(cmp.summary.overallScore.delta).toBe(0.7);
+    expect(cmp.summary.newIssueCount).toBe(1);
+    expect(cmp.summary.resolvedIssueCount).toBe(1);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Broadcast Compliance Tests
+ *
+ * 100 ms meter log alignment, per-programme EBU R128 / ATSC A/85 pass/fail
+ * and the CSV exports.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeLoudness } from '../src/analysis/loudness';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { findProfile } from '../src/core/profiles';
+import { evaluateBroadcast } from '../src/analysis/rules';
+import { buildBroadcastReportCsv, buildMeterLogCsv, meterLogFileName } from '../src/analysis/export';
+import { parseCliArgs } from '../src/cli';
+import { buildTrack } from './helpers/analysis-builders';
+import type { LoudnessMeterLog, TrackAnalysis } from '../src/core/types';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+
+function programme(n: number, integrated: number | null, truePeak: number, meterLog: LoudnessMeterLog | null = null): TrackAnalysis {
+  return buildTrack(n, {
+    parameters: { filename: `Programme ${n}.wav`, durationSeconds: 60, sampleRate: 48000, channels: 2 },
+    loudness: {
+      integratedLUFS: integrated, truePeakDBTP: truePeak, loudnessRangeLU: 6.2,
+      maxMomentaryLUFS: -15.3, maxShortTermLUFS: -18.7, meterLog
+    }
+  });
+}
+
+describe('Meter log', () => {
+  const wav = readWavFile(join(fixturesDir, 'sine-1k-minus23lufs.wav'));
+  const log = computeLoudness(wav.sampleRate, wav.samples).meterLog!;
+
+  it('reports every 100 ms at the end of each window', () => {
+    expect(log.intervalS).toBeCloseTo(0.1, 6);
+    expect(log.momentaryLUFS.length).toBe(log.shortTermLUFS.length);
+    // The 400 ms window first fills at 0.4 s, the 3 s window at 3.0 s
+    expect(log.momentaryLUFS.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(log.momentaryLUFS[4]).not.toBeNull();
+    expect(log.shortTermLUFS[29]).toBeNull();
+    expect(log.shortTermLUFS[30]).not.toBeNull();
+  });
+
+  it('keeps full resolution to the end of the file', () => {
+    const seconds = wav.samples[0].length / wav.sampleRate;
+    expect(log.momentaryLUFS.length).toBe(Math.floor(seconds * 10) + 1);
+    expect(log.shortTermLUFS.at(-1)).toBeCloseTo(log.momentaryLUFS.at(-1)!, 0);
+  });
+
+  it('exports one CSV row per reading', () => {
+    const track = programme(3, -23, -10, { intervalS: 0.1, momentaryLUFS: [null, -22.5], shortTermLUFS: [null, null] });
+    expect(buildMeterLogCsv(track)).toBe(
+      'time_s,timecode,momentary_lufs,short_term_lufs\n0,00:00:00.0,,\n0.1,00:00:00.1,-22.5,\n'
+    );
+    expect(meterLogFileName(track)).toBe('03-programme-3-meter-log.csv');
+    expect(buildMeterLogCsv(programme(1, -23, -10))).toBeNull();
+  });
+});
+
+describe('Broadcast report', () => {
+  const r128 = findProfile('ebu-r128')!;
+  const live = findProfile('ebu-r128-live')!;
+  const atsc = findProfile('atsc-a85')!;
+
+  it('checks integrated loudness at 0.1 LU resolution', () => {
+    const v = evaluateBroadcast([programme(1, -23.04, -3), programme(2, -22.44, -3)], r128);
+    expect(v.programmes.map(p => p.deviationLU)).toEqual([0, 0.6]);
+    expect(v.programmes.map(p => p.integratedPass)).toEqual([true, false]);
+    expect(v.passed).toBe(1);
+    expect(v.ready).toBe(false);
+    expect(evaluateBroadcast([programme(2, -22.44, -3)], live).ready).toBe(true);
+  });
+
+  it('fails true peak over the limit and unmeasurable programmes', () => {
+    const v = evaluateBroadcast([programme(2, -24, -1.9), programme(1, null, -30)], atsc);
+    expect(v.programmes.map(p => p.trackNumber)).toEqual([1, 2]);
+    expect(v.programmes[0]).toMatchObject({ integratedPass: false, pass: false });
+    expect(v.programmes[1]).toMatchObject({ integratedPass: true, truePeakPass: false, pass: false });
+  });
+
+  it('exports a pass/fail CSV', () => {
+    const csv = buildBroadcastReportCsv(evaluateBroadcast([programme(1, -23, -1.5)], r128)).split('\n');
+    expect(csv[4]).toBe('result,PASS (1/1)');
+    expect(csv[7]).toBe('1,Programme 1.wav,-23,0,PASS,-1.5,PASS,6.2,-15.3,-18.7,PASS');
+  });
+
+  it('runs only for profiles in broadcast mode', () => {
+    const wav = readWavFile(join(fixturesDir, 'sine-1k-minus23lufs.wav'));
+    const t = analyzeTrack({ filename: 'show.wav', filesize: 0, sampleRate: wav.sampleRate, channels: wav.samples.length, channelData: wav.samples }, 1);
+    const stats = (p?: typeof r128) => computeAlbumStats('Show', [t], t.parameters.durationSeconds, 0, [], p);
+    expect(stats().broadcast).toBeNull();
+    expect(stats(findProfile('streaming-14')!).broadcast).toBeNull();
+    expect(stats(r128).broadcast).toMatchObject({ standard: r128.name, programmes: [{ trackNumber: 1, filename: 'show.wav' }] });
+  });
+
+  it('accepts a meter log directory on the CLI', () => {
+    expect(parseCliArgs(['--meter-logs', 'logs', 'dir']).meterLogDir).toBe('logs');
+  });
+});
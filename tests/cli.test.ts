@@ -0,0 +1,103 @@
+/**
+ * CLI Gate Tests
+ *
+ * Argument parsing, release-gate evaluation against a hand-built album, and
+ * the gate verdict on stderr.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { rm } from 'fs/promises';
+import { main, parseCliArgs, evaluateGate, parseGateConfig } from '../src/cli';
+import { buildAlbum, buildTrack, type Patch } from './helpers/analysis-builders';
+import type { AlbumAnalysis, TrackAnalysis } from '../src/core/types';
+
+function track(n: number, lufs: number, tp: number, lra: number, warnings: string[] = []): TrackAnalysis {
+  return buildTrack(n, { loudness: { integratedLUFS: lufs, truePeakDBTP: tp, loudnessRangeLU: lra }, warnings });
+}
+
+function album(tracks: TrackAnalysis[], extra: Patch<AlbumAnalysis> = {}): AlbumAnalysis {
+  return buildAlbum(tracks, { overallScore: 8, summary: { albumLoudnessSpread: 1.5 }, ...extra });
+}
+
+describe('CLI', () => {
+  describe('parseCliArgs', () => {
+    it('maps threshold flags onto the gate config', () => {
+      const opts = parseCliArgs(['--max-true-peak=-1', '--min-lufs=-16', '--fail-on-warnings', '-o', 'out.json', 'dir']);
+      expect(opts.inputs).toEqual(['dir']);
+      expect(opts.out).toBe('out.json');
+      expect(opts.gate).toEqual({ maxTruePeakDBTP: -1, minIntegratedLUFS: -16, failOnWarnings: true });
+    });
+
+    it('passes the delivery profile through', () => {
+      expect(parseCliArgs(['-p', 'ebu-r128', 'dir']).profile).toBe('ebu-r128');
+      expect(parseCliArgs(['dir']).profile).toBeUndefined();
+    });
+
+    it('rejects non-numeric thresholds and unknown flags', () => {
+      expect(() => parseCliArgs(['--max-lufs=loud', 'a.wav'])).toThrow(/expects a number/);
+      expect(() => parseCliArgs(['--bogus', 'a.wav'])).toThrow();
+    });
+  });
+
+  describe('parseGateConfig', () => {
+    it('rejects unknown keys and wrong types', () => {
+      expect(parseGateConfig({ maxLRA: 12, failOnWarnings: true })).toEqual({ maxLRA: 12, failOnWarnings: true });
+      expect(() => parseGateConfig({ maxTruPeak: -1 })).toThrow(/Unknown/);
+      expect(() => parseGateConfig({ maxLRA: '12' })).toThrow(/number/);
+    });
+  });
+
+  describe('evaluateGate', () => {
+    it('passes a ready album with default config', () => {
+      expect(evaluateGate(album([track(1, -14, -1.5, 6)])).passed).toBe(true);
+    });
+
+    it('fails when not distribution ready unless allowed', () => {
+      const a = album([track(1, -14, -1.5, 6)], { distributionReady: false });
+      expect(evaluateGate(a).passed).toBe(false);
+      expect(evaluateGate(a, { requireDistributionReady: false }).passed).toBe(true);
+    });
+
+    it('reports each threshold violation', () => {
+      const a = album([track(1, -8, -0.2, 3, ['Loud']), track(2, -14, -1.2, 7)], { overallScore: 6 });
+      const result = evaluateGate(a, {
+        maxTruePeakDBTP: -1,
+        maxIntegratedLUFS: -9,
+        minLRA: 4,
+        failOnWarnings: true,
+        maxAlbumLoudnessSpread: 1,
+        minScore: 7
+      });
+      expect(result.passed).toBe(false);
+      expect(result.failures).toHaveLength(6);
+      expect(result.failures[0]).toContain('Track 1 (1.wav)');
+    });
+
+    it('fails on failed files by default', () => {
+      const a = album([track(1, -14, -1.5, 6)], {
+        failedTracks: [{ trackNumber: 2, filename: '2.mp3', stage: 'decode', reason: 'Unsupported format' }]
+      });
+      const result = evaluateGate(a);
+      expect(result.failures).toEqual(['Track 2 (2.mp3): decode failed: Unsupported format']);
+    });
+  });
+
+  describe('main', () => {
+    it('reports gate failures even with --quiet', async () => {
+      const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const out = join(tmpdir(), `auralgeek-cli-${process.pid}.json`);
+      try {
+        const wav = join(__dirname, 'fixtures', 'synthetic', 'sine-1k-minus14lufs.wav');
+        expect(await main(['-q', '--max-lufs=-20', '-o', out, wav])).toBe(1);
+        const lines = stderr.mock.calls.map(c => String(c[0]));
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toMatch(/^FAIL: Track 1 \(sine-1k-minus14lufs\.wav\)/);
+      } finally {
+        stderr.mockRestore();
+        await rm(out, { force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Clip Plateau Tests
+ *
+ * Flat-topped runs at any level: full-scale clipping, clipping followed by a
+ * gain change, and clean material that must not be flagged.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeDynamics } from '../src/analysis/dsp/dynamics';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { evaluateDistribution } from '../src/analysis/rules';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+const SR = 44100;
+
+function tone(hz: number, amp: number, seconds = 2): Float32Array {
+  return new Float32Array(Math.round(seconds * SR)).map((_, i) => amp * Math.sin(2 * Math.PI * hz * i / SR));
+}
+
+/** Round to 16-bit, as a decoded PCM file would be */
+function pcm16(x: Float32Array): Float32Array {
+  return x.map(v => Math.round(v * 32767) / 32767);
+}
+
+function gain(x: Float32Array, db: number): Float32Array {
+  const g = Math.pow(10, db / 20);
+  return x.map(v => v * g);
+}
+
+/** A sine driven `overDB` past full scale into a hard clipper */
+function clippedTone(hz: number, overDB: number): Float32Array {
+  return tone(hz, Math.pow(10, overDB / 20)).map(v => Math.max(-1, Math.min(1, v)));
+}
+
+/** A quiet tone with a 10 ms clipped burst every quarter second */
+function clippedBursts(): Float32Array {
+  const burst = Math.round(0.01 * SR);
+  const loud = clippedTone(220, 1);
+  return tone(220, 0.3).map((v, i) => i % Math.round(0.25 * SR) < burst ? loud[i] : v);
+}
+
+describe('Clip plateaus', () => {
+  it('finds full-scale clipping', () => {
+    const wav = readWavFile(join(fixturesDir, 'clipped-signal.wav'));
+    const p = computeDynamics(wav.samples, wav.sampleRate).clipPlateaus;
+    expect(p.detected).toBe(true);
+    expect(p.clippedThenAttenuated).toBe(false);
+    expect(p.levelDBFS!).toBeGreaterThan(-0.01);
+  });
+
+  it('finds clipping after a gain change that the full-scale check misses', () => {
+    const x = pcm16(gain(clippedTone(220, 3), -0.3));
+    const d = computeDynamics([x], SR);
+    expect(d.hasClipping).toBe(false);
+    expect(d.clipPlateaus.detected).toBe(true);
+    expect(d.clipPlateaus.clippedThenAttenuated).toBe(true);
+    expect(d.clipPlateaus.levelDBFS!).toBeCloseTo(-0.3, 1);
+    // Two flat tops per cycle
+    expect(d.clipPlateaus.eventCount).toBeCloseTo(2 * 220 * 2, -1);
+    expect(d.clipPlateaus.timestamps.length).toBe(20);
+    expect(d.clipPlateaus.timestamps).toEqual([...d.clipPlateaus.timestamps].sort((a, b) => a - b));
+    expect(d.clipPlateaus.note).toMatch(/turned down/);
+  });
+
+  it('counts a flat top on both channels once', () => {
+    const x = pcm16(gain(clippedTone(220, 3), -0.3));
+    const mono = computeDynamics([x], SR).clipPlateaus;
+    const stereo = computeDynamics([x, x], SR).clipPlateaus;
+    expect(stereo.eventCount).toBe(mono.eventCount);
+    expect(stereo.runLengthHistogram).toEqual(mono.runLengthHistogram);
+    expect(stereo.timestamps).toEqual(mono.timestamps);
+    expect(stereo.plateauSamplePct).toBeCloseTo(mono.plateauSamplePct, 6);
+
+    // Channels clipping at different times stay separate events
+    const late = new Float32Array(x.length);
+    late.set(x.subarray(0, x.length - 50), 50);
+    expect(computeDynamics([x, late], SR).clipPlateaus.eventCount).toBeGreaterThan(mono.eventCount * 1.5);
+  });
+
+  it('builds a run-length histogram and judges restoration', () => {
+    const light = computeDynamics([gain(clippedBursts(), -1)], SR).clipPlateaus;
+    const total = light.runLengthHistogram.reduce((s, b) => s + b.count, 0);
+    expect(total).toBe(light.eventCount);
+    expect(light.longestRunMs!).toBeLessThan(1);
+    expect(light.restorationCandidate).toBe(true);
+
+    const crushed = computeDynamics([gain(clippedTone(110, 12), -1)], SR).clipPlateaus;
+    expect(crushed.runLengthHistogram.at(-1)!.count).toBeGreaterThan(0);
+    expect(crushed.restorationCandidate).toBe(false);
+  });
+
+  it('leaves clean material alone', () => {
+    for (const file of ['sine-1k-0dbfs.wav', 'sine-1k-minus14lufs.wav', 'pink-noise.wav', 'sharp-transients.wav']) {
+      const wav = readWavFile(join(fixturesDir, file));
+      expect(computeDynamics(wav.samples, wav.sampleRate).clipPlateaus.detected, file).toBe(false);
+    }
+    // Slow crests round to the same 16-bit value but leave the plateau gently
+    expect(computeDynamics([pcm16(tone(40, 0.5))], SR).clipPlateaus.detected).toBe(false);
+  });
+
+  it('raises the attenuated-clipping rule', () => {
+    const x = pcm16(gain(clippedTone(220, 3), -0.3));
+    const track = analyzeTrack({ filename: 'quiet-clip.wav', filesize: 0, sampleRate: SR, channels: 2, channelData: [x, x] }, 1);
+    const { enhancedIssues } = evaluateDistribution(track);
+    const finding = enhancedIssues.find(i => i.ruleId === 'dynamics.clip-plateaus');
+    expect(finding?.message).toMatch(/^Flat-topped clipping at -0\.3 dBFS \(\d+ plateaus\)/);
+    expect(enhancedIssues.some(i => i.ruleId === 'dynamics.clipping')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Codec Emulation Tests
+ *
+ * MDCT round trip, bitrate lowpass, and post-encode overshoot on clipped
+ * material with a safe ceiling per bitrate.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { emulateCodec, emulateCodecChannel, computeCodecEmulation, CODEC_SETTINGS } from '../src/analysis/dsp/codec';
+import { computeTruePeakMono } from '../src/analysis/truePeak';
+
+const SR = 44100;
+
+function tone(hz: number, amp: number, seconds = 1): Float32Array {
+  return new Float32Array(Math.round(seconds * SR)).map((_, i) => amp * Math.sin(2 * Math.PI * hz * i / SR));
+}
+
+/** A 0 dBFS sine driven 12 dB into a hard clipper */
+function clipped(seconds = 2): Float32Array {
+  return tone(220, 4, seconds).map(v => Math.max(-1, Math.min(1, v)));
+}
+
+const dB = (x: number) => 20 * Math.log10(x);
+
+describe('Codec emulation', () => {
+  it('reconstructs the input exactly without lowpass or quantisation', () => {
+    const x = tone(997, 0.5);
+    const y = emulateCodecChannel(x, SR, { bitrateKbps: 0, lowpassHz: SR / 2, bandSnrDB: 300 });
+    let err = 0;
+    for (let i = 0; i < x.length; i++) err = Math.max(err, Math.abs(y[i] - x[i]));
+    expect(err).toBeLessThan(1e-5);
+  });
+
+  it('applies the bitrate lowpass', () => {
+    const x = tone(17500, 0.5);
+    const at128 = emulateCodecChannel(x, SR, CODEC_SETTINGS[0]);
+    const at320 = emulateCodecChannel(x, SR, CODEC_SETTINGS[2]);
+    // Only the sine window's leakage below the cutoff survives
+    expect(dB(computeTruePeakMono(at128))).toBeLessThan(-18);
+    expect(dB(computeTruePeakMono(at320))).toBeCloseTo(-6, 0);
+  });
+
+  it('keeps a clean tone close to its source peak', () => {
+    const out = emulateCodec([tone(997, 0.5)], SR, CODEC_SETTINGS[2]);
+    expect(out.truePeakDBTP! - dB(0.5)).toBeLessThan(0.5);
+    expect(out.overshootCount).toBe(0);
+  });
+
+  it('overshoots on clipped material and reports events with timestamps', () => {
+    const out = emulateCodec([clipped()], SR, CODEC_SETTINGS[0]);
+    expect(out.truePeakDBTP!).toBeGreaterThan(0.5);
+    expect(out.overshootCount).toBeGreaterThan(0);
+    expect(out.overshoots.length).toBeLessThanOrEqual(20);
+    expect(out.overshoots[0].timestamp).toBeGreaterThanOrEqual(0);
+    expect(out.overshoots.every(e => e.peakDBFS > 0)).toBe(true);
+  });
+
+  it('recommends a safe ceiling per bitrate', () => {
+    const x = clipped();
+    const source = dB(computeTruePeakMono(x));
+    const codec = computeCodecEmulation([x, x], SR, source);
+    expect(codec.bitrates.map(b => b.bitrateKbps)).toEqual([128, 256, 320]);
+    for (const b of codec.bitrates) {
+      expect(b.overshootDB!).toBeCloseTo(b.postEncodeTruePeakDBTP! - source, 6);
+      expect(b.safeCeilingDBTP!).toBeLessThanOrEqual(-b.overshootDB! - 0.1 + 1e-9);
+    }
+    expect(codec.worstBitrateKbps).toBe(128);
+    expect(codec.predictedTruePeakDBTP).toBe(codec.bitrates[0].postEncodeTruePeakDBTP);
+    expect(codec.safeCeilingDBTP).toBe(Math.min(...codec.bitrates.map(b => b.safeCeilingDBTP!)));
+
+    // Re-mastered to the recommended ceiling, the 128 kbps decode stays below full scale
+    const gain = Math.pow(10, (codec.bitrates[0].safeCeilingDBTP! - source) / 20);
+    const remastered = emulateCodec([x.map(v => v * gain)], SR, CODEC_SETTINGS[0]);
+    expect(remastered.truePeakDBTP!).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * Native Decoder Tests
+ *
+ * Builds small WAV / RF64 / AIFF / FLAC byte streams in memory and checks
+ * that the native decoders recover the original sample rate, bit depth and
+ * sample values. FLAC streams are hand-assembled with a minimal bit writer
+ * covering each subframe type and stereo decorrelation mode.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { decodeNative, decodeWav, decodeAiff, decodeFlac } from '../src/analysis/decoders';
+import { getChannelLayout } from '../src/analysis/channelLayout';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+
+// ---------- Byte builders ----------
+
+function ascii(s: string): number[] {
+  return Array.from(s, c => c.charCodeAt(0));
+}
+
+function u16le(v: number): number[] { return [v & 0xFF, (v >> 8) & 0xFF]; }
+function u32le(v: number): number[] { return [v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >>> 24) & 0xFF]; }
+function u16be(v: number): number[] { return [(v >> 8) & 0xFF, v & 0xFF]; }
+function u32be(v: number): number[] { return [(v >>> 24) & 0xFF, (v >> 16) & 0xFF, (v >> 8) & 0xFF, v & 0xFF]; }
+
+function toBuffer(bytes: number[]): ArrayBuffer {
+  return new Uint8Array(bytes).buffer;
+}
+
+function concat(...parts: Uint8Array[]): ArrayBuffer {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out.buffer;
+}
+
+function int24le(v: number): number[] { return [v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF]; }
+
+function buildWav(opts: {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: number[];
+  extensible?: { validBits: number; channelMask: number; subFormat: number };
+  rf64?: boolean;
+  blockAlign?: number;
+}): ArrayBuffer {
+  const blockAlign = opts.blockAlign ?? (opts.bitsPerSample / 8) * opts.channels;
+  const fmt = [
+    ...u16le(opts.extensible ? 0xFFFE : opts.formatTag),
+    ...u16le(opts.channels),
+    ...u32le(opts.sampleRate),
+    ...u32le(opts.sampleRate * blockAlign),
+    ...u16le(blockAlign),
+    ...u16le(opts.bitsPerSample)
+  ];
+  if (opts.extensible) {
+    fmt.push(...u16le(22), ...u16le(opts.extensible.validBits), ...u32le(opts.extensible.channelMask));
+    // KSDATAFORMAT_SUBTYPE GUID: format code + fixed suffix
+    fmt.push(...u16le(opts.extensible.subFormat), 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71);
+  }
+
+  const chunks: number[] = [];
+  if (opts.rf64) {
+    chunks.push(...ascii('ds64'), ...u32le(28));
+    chunks.push(...u32le(0), ...u32le(0)); // riff size
+    chunks.push(...u32le(opts.data.length), ...u32le(0)); // data size
+    chunks.push(...u32le(0), ...u32le(0)); // sample count
+    chunks.push(...u32le(0)); // table length
+  }
+  chunks.push(...ascii('fmt '), ...u32le(fmt.length), ...fmt);
+  chunks.push(...ascii('data'), ...u32le(opts.rf64 ? 0xFFFFFFFF : opts.data.length), ...opts.data);
+
+  const riffSize = opts.rf64 ? 0xFFFFFFFF : 4 + chunks.length;
+  return toBuffer([...ascii(opts.rf64 ? 'RF64' : 'RIFF'), ...u32le(riffSize), ...ascii('WAVE'), ...chunks]);
+}
+
+// 80-bit extended encoding for integral sample rates
+function extended(rate: number): number[] {
+  const exp = Math.floor(Math.log2(rate));
+  const mantHi = Math.floor(rate * Math.pow(2, 31 - exp)) >>> 0;
+  return [...u16be(16383 + exp), ...u32be(mantHi), ...u32be(0)];
+}
+
+function buildAiff(opts: {
+  channels: number;
+  sampleRate: number;
+  sampleSize: number;
+  frames: number;
+  data: number[];
+  compression?: string;
+}): ArrayBuffer {
+  const isAifc = opts.compression !== undefined;
+  const comm = [
+    ...u16be(opts.channels),
+    ...u32be(opts.frames),
+    ...u16be(opts.sampleSize),
+    ...extended(opts.sampleRate)
+  ];
+  if (isAifc) comm.push(...ascii(opts.compression!), 0, 0); // empty pstring + pad
+  const ssnd = [...u32be(0), ...u32be(0), ...opts.data];
+  const body = [
+    ...ascii(isAifc ? 'AIFC' : 'AIFF'),
+    ...ascii('COMM'), ...u32be(comm.length), ...comm,
+    ...ascii('SSND'), ...u32be(ssnd.length), ...ssnd
+  ];
+  return toBuffer([...ascii('FORM'), ...u32be(body.length), ...body]);
+}
+
+// ---------- Minimal FLAC encoder ----------
+
+class BitWriter {
+  bytes: number[] = [];
+  private acc = 0;
+  private n = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = bits - 1; i >= 0; i--) {
+      const bit = Math.floor(value / Math.pow(2, i)) & 1;
+      this.acc = (this.acc << 1) | bit;
+      if (++this.n === 8) {
+        this.bytes.push(this.acc);
+        this.acc = 0;
+        this.n = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.write(value < 0 ? value + Math.pow(2, bits) : value, bits);
+  }
+
+  writeUnary(q: number): void {
+    for (let i = 0; i < q; i++) this.write(0, 1);
+    this.write(1, 1);
+  }
+
+  align(): void {
+    while (this.n !== 0) this.write(0, 1);
+  }
+}
+
+type Subframe =
+  | { type: 'constant' }
+  | { type: 'verbatim' }
+  | { type: 'fixed'; order: number; riceParam: number }
+  | { type: 'lpc'; coefs: number[]; precision: number; shift: number; riceParam: number }
+  | { type: 'escape'; order: number; rawBits: number };
+
+function writeResidual(w: BitWriter, residual: number[], riceParam: number | null, rawBits = 0): void {
+  w.write(0, 2); // Rice, 4-bit params
+  w.write(0, 4); // partition order 0
+  if (riceParam === null) {
+    w.write(0xF, 4);
+    w.write(rawBits, 5);
+    for (const r of residual) w.writeSigned(r, rawBits);
+    return;
+  }
+  w.write(riceParam, 4);
+  for (const r of residual) {
+    const u = r >= 0 ? r * 2 : -r * 2 - 1;
+    w.writeUnary(Math.floor(u / (1 << riceParam)));
+    if (riceParam > 0) w.write(u % (1 << riceParam), riceParam);
+  }
+}
+
+function writeSubframe(w: BitWriter, samples: number[], bps: number, sub: Subframe): void {
+  w.write(0, 1);
+  if (sub.type === 'constant') {
+    w.write(0, 6);
+    w.write(0, 1);
+    w.writeSigned(samples[0], bps);
+  } else if (sub.type === 'verbatim') {
+    w.write(1, 6);
+    w.write(0, 1);
+    for (const s of samples) w.writeSigned(s, bps);
+  } else if (sub.type === 'fixed' || sub.type === 'escape') {
+    const coefs = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][sub.order];
+    w.write(8 + sub.order, 6);
+    w.write(0, 1);
+    for (let i = 0; i < sub.order; i++) w.writeSigned(samples[i], bps);
+    const residual: number[] = [];
+    for (let i = sub.order; i < samples.length; i++) {
+      let pred = 0;
+      for (let j = 0; j < sub.order; j++) pred += coefs[j] * samples[i - 1 - j];
+      residual.push(samples[i] - pred);
+    }
+    if (sub.type === 'escape') writeResidual(w, residual, null, sub.rawBits);
+    else writeResidual(w, residual, sub.riceParam);
+  } else {
+    const order = sub.coefs.length;
+    w.write(31 + order, 6);
+    w.write(0, 1);
+    for (let i = 0; i < order; i++) w.writeSigned(samples[i], bps);
+    w.write(sub.precision - 1, 4);
+    w.writeSigned(sub.shift, 5);
+    for (const c of sub.coefs) w.writeSigned(c, sub.precision);
+    const residual: number[] = [];
+    for (let i = order; i < samples.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < order; j++) sum += sub.coefs[j] * samples[i - 1 - j];
+      residual.push(samples[i] - Math.floor(sum / Math.pow(2, sub.shift)));
+    }
+    writeResidual(w, residual, sub.riceParam);
+  }
+}
+
+function buildFlac(opts: {
+  sampleRate: number;
+  bps: number;
+  channels: number[][]; // Original channel samples
+  channelAssignment: number; // 0..7 independent, 8 L/S, 9 S/R, 10 M/S
+  subframes: Subframe[];
+  totalSamples?: number; // STREAMINFO total, defaults to the one frame
+}): ArrayBuffer {
+  const blockSize = opts.channels[0].length;
+  const w = new BitWriter();
+  w.write(0x664C6143, 32); // fLaC
+
+  // STREAMINFO (last metadata block)
+  w.write(1, 1);
+  w.write(0, 7);
+  w.write(34, 24);
+  w.write(blockSize, 16);
+  w.write(blockSize, 16);
+  w.write(0, 24);
+  w.write(0, 24);
+  w.write(opts.sampleRate, 20);
+  w.write(opts.channels.length - 1, 3);
+  w.write(opts.bps - 1, 5);
+  w.write(opts.totalSamples ?? blockSize, 36);
+  for (let i = 0; i < 16; i++) w.write(0, 8); // MD5
+
+  // Frame header
+  w.write(0x3FFE, 14);
+  w.write(0, 1);
+  w.write(0, 1);
+  w.write(7, 4); // 16-bit block size at end of header
+  w.write(0, 4); // sample rate from STREAMINFO
+  w.write(opts.channelAssignment, 4);
+  w.write(0, 3); // bps from STREAMINFO
+  w.write(0, 1);
+  w.write(0, 8); // frame number 0
+  w.write(blockSize - 1, 16);
+  w.write(0, 8); // CRC-8 (not verified)
+
+  let coded = opts.channels;
+  const [l, r] = opts.channels;
+  if (opts.channelAssignment === 8) coded = [l, l.map((x, i) => x - r[i])];
+  else if (opts.channelAssignment === 9) coded = [l.map((x, i) => x - r[i]), r];
+  else if (opts.channelAssignment === 10) coded = [l.map((x, i) => Math.floor((x + r[i]) / 2)), l.map((x, i) => x - r[i])];
+
+  coded.forEach((samples, ch) => {
+    const sideBit =
+      (opts.channelAssignment === 8 && ch === 1) ||
+      (opts.channelAssignment === 9 && ch === 0) ||
+      (opts.channelAssignment === 10 && ch === 1);
+    writeSubframe(w, samples, opts.bps + (sideBit ? 1 : 0), opts.subframes[ch]);
+  });
+
+  w.align();
+  w.write(0, 16); // CRC-16 (not verified)
+  return toBuffer(w.bytes);
+}
+
+function toInt(channel: Float32Array, bps: number): number[] {
+  const scale = Math.pow(2, bps - 1);
+  return Array.from(channel, v => Math.round(v * scale) || 0);
+}
+
+// Deterministic test signal
+function ramp(n: number, amp: number, phase = 0): number[] {
+  return Array.from({ length: n }, (_, i) => Math.round(amp * Math.sin(2 * Math.PI * (i + phase) / 37)) || 0);
+}
+
+// ---------- Tests ----------
+
+describe('Native Decoders', () => {
+  describe('WAV', () => {
+    it('decodes 16-bit PCM at original sample rate', () => {
+      const samples = [0, 16384, -16384, 32767, -32768];
+      const data = samples.flatMap(s => u16le(s & 0xFFFF));
+      const out = decodeWav(buildWav({ formatTag: 1, channels: 1, sampleRate: 96000, bitsPerSample: 16, data }))!;
+
+      expect(out.container).toBe('wav');
+      expect(out.sampleRate).toBe(96000);
+      expect(out.bitDepth).toBe(16);
+      expect(out.sampleFormat).toBe('int');
+      expect(toInt(out.channelData[0], 16)).toEqual(samples);
+    });
+
+    it('decodes 24-bit stereo PCM', () => {
+      const left = [0, 4194304, -8388608];
+      const right = [8388607, -1, 1];
+      const data = left.flatMap((l, i) => [...int24le(l), ...int24le(right[i])]);
+      const out = decodeWav(buildWav({ formatTag: 1, channels: 2, sampleRate: 88200, bitsPerSample: 24, data }))!;
+
+      expect(out.bitDepth).toBe(24);
+      expect(toInt(out.channelData[0], 24)).toEqual(left);
+      expect(toInt(out.channelData[1], 24)).toEqual(right);
+    });
+
+    it('steps by blockAlign when frames are padded', () => {
+      const left = [100, -200, 300];
+      const right = [-400, 500, -600];
+      // 16-bit stereo in 8-byte frames: four bytes of padding after each frame
+      const data = left.flatMap((l, i) => [...u16le(l & 0xFFFF), ...u16le(right[i] & 0xFFFF), 0xAA, 0xAA, 0xAA, 0xAA]);
+      const out = decodeWav(buildWav({ formatTag: 1, channels: 2, sampleRate: 44100, bitsPerSample: 16, data, blockAlign: 8 }))!;
+
+      expect(toInt(out.channelData[0], 16)).toEqual(left);
+      expect(toInt(out.channelData[1], 16)).toEqual(right);
+    });
+
+    it('decodes 32-bit float including values above full scale', () => {
+      const values = [0.5, -1.5, 2.0];
+      const view = new DataView(new ArrayBuffer(values.length * 4));
+      values.forEach((v, i) => view.setFloat32(i * 4, v, true));
+      const data = Array.from(new Uint8Array(view.buffer));
+      const out = decodeWav(buildWav({ formatTag: 3, channels: 1, sampleRate: 48000, bitsPerSample: 32, data }))!;
+
+      expect(out.sampleFormat).toBe('float');
+      expect(out.bitDepth).toBe(32);
+      expect(Array.from(out.channelData[0])).toEqual(values);
+    });
+
+    it('reads WAVE_FORMAT_EXTENSIBLE valid bits and channel mask', () => {
+      const frame = [1000, 2000, 3000, 4000, 5000, 6000];
+      const data = frame.flatMap(s => int24le(s << 4));
+      // 20 valid bits in 24-bit container, 5.1 mask
+      const out = decodeWav(buildWav({
+        formatTag: 1, channels: 6, sampleRate: 48000, bitsPerSample: 24, data,
+        extensible: { validBits: 20, channelMask: 0x3F, subFormat: 1 }
+      }))!;
+
+      expect(out.bitDepth).toBe(20);
+      expect(out.channelMask).toBe(0x3F);
+      expect(out.channels).toBe(6);
+      expect(toInt(out.channelData[3], 24)).toEqual([4000 << 4]);
+
+      const layout = getChannelLayout(out.channels, out.channelMask);
+      expect(layout.name).toBe('5.1');
+      expect(layout.positions).toEqual(['L', 'R', 'C', 'LFE', 'Lb', 'Rb']);
+    });
+
+    it('reads RF64 data size from ds64 chunk', () => {
+      const samples = [100, -100, 200];
+      const data = samples.flatMap(s => u16le(s & 0xFFFF));
+      const out = decodeWav(buildWav({ formatTag: 1, channels: 1, sampleRate: 44100, bitsPerSample: 16, data, rf64: true }))!;
+
+      expect(out.container).toBe('rf64');
+      expect(toInt(out.channelData[0], 16)).toEqual(samples);
+    });
+
+    it.each([false, true])('decodes a truncated data chunk up to the cut with a warning (RF64 %s)', (rf64) => {
+      const samples = [100, -100, 200, -200];
+      const data = samples.flatMap(s => u16le(s & 0xFFFF));
+      const whole = buildWav({ formatTag: 1, channels: 1, sampleRate: 100, bitsPerSample: 16, data, rf64 });
+      expect(decodeWav(whole)!.warnings).toEqual([]);
+
+      // Cut one and a half samples off the end
+      const out = decodeWav(whole.slice(0, whole.byteLength - 3))!;
+      expect(toInt(out.channelData[0], 16)).toEqual(samples.slice(0, 2));
+      expect(out.warnings).toEqual([`${rf64 ? 'RF64' : 'WAV'} data chunk stops after 0.02s of the 0.04s its header declares`]);
+    });
+
+    it('returns null for compressed WAV payloads', () => {
+      const out = decodeWav(buildWav({ formatTag: 0x55, channels: 1, sampleRate: 44100, bitsPerSample: 16, data: [0, 0] }));
+      expect(out).toBeNull();
+    });
+
+    it('matches the test WAV reader on generated fixtures', () => {
+      const path = join(fixturesDir, 'sine-1k-minus14lufs.wav');
+      const file = readFileSync(path);
+      const ab = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+      const out = decodeNative(ab)!;
+      const ref = readWavFile(path);
+
+      expect(out.sampleRate).toBe(ref.sampleRate);
+      expect(out.bitDepth).toBe(ref.bitDepth);
+      expect(out.channelData[0].length).toBe(ref.samples[0].length);
+      for (let i = 0; i < 1000; i++) {
+        expect(out.channelData[0][i]).toBeCloseTo(ref.samples[0][i], 6);
+      }
+    });
+  });
+
+  describe('AIFF', () => {
+    it('decodes big-endian 16-bit AIFF with 80-bit sample rate', () => {
+      const samples = [0, 12345, -12345, 32767];
+      const data = samples.flatMap(s => u16be(s & 0xFFFF));
+      const out = decodeAiff(buildAiff({ channels: 1, sampleRate: 44100, sampleSize: 16, frames: 4, data }))!;
+
+      expect(out.container).toBe('aiff');
+      expect(out.sampleRate).toBe(44100);
+      expect(out.bitDepth).toBe(16);
+      expect(toInt(out.channelData[0], 16)).toEqual(samples);
+    });
+
+    it('decodes AIFF-C sowt (little-endian) and fl32', () => {
+      const samples = [1, -2, 3];
+      const sowt = decodeAiff(buildAiff({
+        channels: 1, sampleRate: 192000, sampleSize: 16, frames: 3,
+        data: samples.flatMap(s => u16le(s & 0xFFFF)), compression: 'sowt'
+      }))!;
+      expect(sowt.container).toBe('aifc');
+      expect(sowt.sampleRate).toBe(192000);
+      expect(toInt(sowt.channelData[0], 16)).toEqual(samples);
+
+      const view = new DataView(new ArrayBuffer(8));
+      view.setFloat32(0, 0.25, false);
+      view.setFloat32(4, -0.75, false);
+      const fl32 = decodeAiff(buildAiff({
+        channels: 1, sampleRate: 48000, sampleSize: 32, frames: 2,
+        data: Array.from(new Uint8Array(view.buffer)), compression: 'fl32'
+      }))!;
+      expect(fl32.sampleFormat).toBe('float');
+      expect(Array.from(fl32.channelData[0])).toEqual([0.25, -0.75]);
+    });
+
+    it('decodes a truncated SSND chunk up to the cut with a warning', () => {
+      const samples = [1000, -1000, 2000, -2000];
+      const whole = buildAiff({ channels: 1, sampleRate: 100, sampleSize: 16, frames: 4, data: samples.flatMap(s => u16be(s & 0xFFFF)) });
+      expect(decodeAiff(whole)!.warnings).toEqual([]);
+
+      const out = decodeAiff(whole.slice(0, whole.byteLength - 3))!;
+      expect(toInt(out.channelData[0], 16)).toEqual(samples.slice(0, 2));
+      expect(out.warnings).toEqual(['AIFF SSND chunk stops after 0.02s of the 0.04s its header declares']);
+    });
+
+    it('returns null for compressed AIFF-C', () => {
+      const out = decodeAiff(buildAiff({ channels: 1, sampleRate: 44100, sampleSize: 16, frames: 1, data: [0, 0], compression: 'ima4' }));
+      expect(out).toBeNull();
+    });
+  });
+
+  describe('FLAC', () => {
+    const n = 64;
+
+    it('decodes CONSTANT and VERBATIM subframes', () => {
+      const left = new Array(n).fill(-42);
+      const right = ramp(n, 30000);
+      const out = decodeFlac(buildFlac({
+        sampleRate: 96000, bps: 16, channels: [left, right], channelAssignment: 1,
+        subframes: [{ type: 'constant' }, { type: 'verbatim' }]
+      }));
+
+      expect(out.container).toBe('flac');
+      expect(out.sampleRate).toBe(96000);
+      expect(out.bitDepth).toBe(16);
+      expect(toInt(out.channelData[0], 16)).toEqual(left);
+      expect(toInt(out.channelData[1], 16)).toEqual(right);
+    });
+
+    it('decodes FIXED and LPC subframes with Rice residuals', () => {
+      const a = ramp(n, 5000000);
+      const b = ramp(n, 3000000, 5);
+      const out = decodeFlac(buildFlac({
+        sampleRate: 48000, bps: 24, channels: [a, b], channelAssignment: 1,
+        subframes: [
+          { type: 'fixed', order: 2, riceParam: 14 },
+          { type: 'lpc', coefs: [3900, -2000], precision: 14, shift: 11, riceParam: 14 }
+        ]
+      }));
+
+      expect(out.bitDepth).toBe(24);
+      expect(toInt(out.channelData[0], 24)).toEqual(a);
+      expect(toInt(out.channelData[1], 24)).toEqual(b);
+    });
+
+    it('decodes escaped residual partitions', () => {
+      const a = ramp(n, 1000);
+      const out = decodeFlac(buildFlac({
+        sampleRate: 44100, bps: 16, channels: [a], channelAssignment: 0,
+        subframes: [{ type: 'escape', order: 1, rawBits: 12 }]
+      }));
+      expect(toInt(out.channelData[0], 16)).toEqual(a);
+    });
+
+    it.each([
+      [8, 'left/side'],
+      [9, 'side/right'],
+      [10, 'mid/side']
+    ])('reverses %i (%s) stereo decorrelation', (assignment) => {
+      const left = ramp(n, 20000);
+      const right = ramp(n, 15000, 3).map(x => x + 7);
+      const out = decodeFlac(buildFlac({
+        sampleRate: 44100, bps: 16, channels: [left, right], channelAssignment: assignment,
+        subframes: [{ type: 'verbatim' }, { type: 'verbatim' }]
+      }));
+
+      expect(toInt(out.channelData[0], 16)).toEqual(left);
+      expect(toInt(out.channelData[1], 16)).toEqual(right);
+    });
+
+    it('returns the frames before a truncated one with a warning', () => {
+      const a = ramp(n, 1000);
+      // STREAMINFO promises two frames
+      const first = new Uint8Array(buildFlac({
+        sampleRate: 44100, bps: 16, channels: [a], channelAssignment: 0,
+        subframes: [{ type: 'verbatim' }], totalSamples: 2 * n
+      }));
+      // Metadata is the marker, one block header and STREAMINFO; repeat half the frame after it
+      const frame = first.subarray(4 + 4 + 34);
+      const half = Math.floor(frame.length / 2);
+
+      const out = decodeFlac(concat(first, frame.subarray(0, half)));
+      expect(toInt(out.channelData[0], 16)).toEqual(a);
+      expect(out.warnings).toEqual([`FLAC stream stops at an undecodable frame after ${(n / 44100).toFixed(2)}s (FLAC: unexpected end of stream)`]);
+      // ...or the second frame is missing altogether
+      expect(decodeFlac(first.buffer).warnings).toEqual([
+        `FLAC stream ends after ${(n / 44100).toFixed(2)}s of the ${(2 * n / 44100).toFixed(2)}s in STREAMINFO`
+      ]);
+    });
+
+    it('stops at the STREAMINFO length before a trailing tag', () => {
+      const a = ramp(4096, 1000);
+      const whole = new Uint8Array(buildFlac({
+        sampleRate: 44100, bps: 16, channels: [a], channelAssignment: 0,
+        subframes: [{ type: 'verbatim' }]
+      }));
+      const id3v1 = new Uint8Array(128);
+      id3v1.set(ascii('TAG'));
+
+      const out = decodeFlac(concat(whole, id3v1));
+      expect(toInt(out.channelData[0], 16)).toEqual(a);
+      expect(out.warnings).toEqual([]);
+    });
+
+    it.each([8, 9, 10])('keeps the 33-bit side channel of 32-bit stereo (assignment %i)', (assignment) => {
+      // Opposite full-scale channels: their difference needs 33 bits.
+      // Multiples of 128 survive the Float32 output exactly
+      const left = [2147483520, -2147483648, 1073741824, -128];
+      const right = [-2147483648, 2147483520, -1073741952, 256];
+      const out = decodeFlac(buildFlac({
+        sampleRate: 48000, bps: 32, channels: [left, right], channelAssignment: assignment,
+        subframes: [{ type: 'verbatim' }, { type: 'verbatim' }]
+      }));
+
+      expect(toInt(out.channelData[0], 32)).toEqual(left);
+      expect(toInt(out.channelData[1], 32)).toEqual(right);
+    });
+  });
+
+  describe('decodeNative', () => {
+    it('returns null for unknown (lossy) formats', () => {
+      const mp3 = toBuffer([...ascii('ID3'), 4, 0, 0, 0, 0, 0, 0, 0, 0]);
+      expect(decodeNative(mp3)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Render Glitch Tests
+ *
+ * Clicks, dropouts and repeated buffers planted in a music-like signal, clean
+ * material left alone, and the distribution rules that fail a glitched master.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeGlitches } from '../src/analysis/dsp/glitches';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { evaluateDistribution } from '../src/analysis/rules';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+const SR = 48000;
+
+/** A chord with a little noise, 4 s at about -12 dBFS */
+function music(): Float32Array {
+  let seed = 1;
+  const rand = () => ((seed = (seed * 1664525 + 1013904223) >>> 0) / 4294967296) - 0.5;
+  return new Float32Array(4 * SR).map((_, i) =>
+    0.1 * Math.sin(2 * Math.PI * 220 * i / SR) +
+    0.08 * Math.sin(2 * Math.PI * 277.2 * i / SR) +
+    0.06 * Math.sin(2 * Math.PI * 329.6 * i / SR) +
+    0.01 * rand()
+  );
+}
+
+/** Click at 1 s, 256-sample dropout at 2 s, 512-sample buffer played twice at 3 s */
+function glitched(): Float32Array {
+  const x = music();
+  x[SR] += 0.3;
+  x.fill(0, 2 * SR, 2 * SR + 256);
+  x.copyWithin(3 * SR + 512, 3 * SR, 3 * SR + 512);
+  return x;
+}
+
+/** 1/32-note trance gate at 128 bpm: the second half of every step is digital zero */
+function gated(): Float32Array {
+  const step = Math.round((60 / 128 / 8) * SR);
+  return music().map((v, i) => i % step < step / 2 ? v : 0);
+}
+
+/** Bass driven `overDB` past full scale into a hard clipper */
+function clippedBass(hz: number, overDB: number): Float32Array {
+  const amp = Math.pow(10, overDB / 20);
+  return new Float32Array(4 * SR).map((_, i) => Math.max(-1, Math.min(1, amp * Math.sin(2 * Math.PI * hz * i / SR))));
+}
+
+describe('Render glitches', () => {
+  it('finds each glitch type with its timestamp', () => {
+    const g = computeGlitches([glitched()], SR);
+    expect([g.clickCount, g.dropoutCount, g.repeatCount]).toEqual([1, 1, 1]);
+    const byType = Object.fromEntries(g.events.map(e => [e.type, e]));
+    expect(byType.click.timestamp).toBeCloseTo(1, 3);
+    expect(byType.dropout.timestamp).toBeCloseTo(2, 3);
+    expect(byType.dropout.durationMs).toBeCloseTo(256 / SR * 1000, 3);
+    expect(byType.repeat.timestamp).toBeCloseTo(3 + 512 / SR, 3);
+    for (const e of g.events) {
+      expect(e.confidence).toBeGreaterThanOrEqual(0.5);
+      expect(e.confidence).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('reports a glitch on both channels once', () => {
+    const x = glitched();
+    const g = computeGlitches([x, x], SR);
+    expect(g.events.length).toBe(3);
+    expect(g.events.every(e => e.channel === null)).toBe(true);
+  });
+
+  it('leaves clean material alone', () => {
+    expect(computeGlitches([music()], SR).events).toEqual([]);
+    // A tone whose period divides a buffer size repeats exactly, but never just once
+    const periodic = new Float32Array(SR).map((_, i) => Math.round(16000 * Math.sin(2 * Math.PI * 750 * i / SR)) / 32768);
+    expect(computeGlitches([periodic], SR).repeatCount).toBe(0);
+    // Gated material drops to zero over and over, at a regular spacing
+    expect(computeGlitches([gated()], SR).dropoutCount).toBe(0);
+    // ...and a gap the music fades into is arranged, not cut
+    const [gapStart, gapEnd, ramp] = [2 * SR, 2 * SR + 512, 0.005 * SR];
+    const faded = music().map((v, i) => i >= gapStart && i < gapEnd ? 0 : v * Math.min(1, Math.max(gapStart - i, i - gapEnd + 1) / ramp));
+    expect(computeGlitches([faded], SR).dropoutCount).toBe(0);
+    for (const file of ['pink-noise.wav', 'sharp-transients.wav', 'compressed-heavy.wav']) {
+      const wav = readWavFile(join(fixturesDir, file));
+      expect(computeGlitches(wav.samples, wav.sampleRate).events, file).toEqual([]);
+    }
+  });
+
+  it('does not take clipped bass for repeated buffers', () => {
+    // Flat tops match themselves a buffer back
+    for (const [hz, over] of [[110, 12], [55, 6], [60, 12], [40, 3]]) {
+      expect(computeGlitches([clippedBass(hz, over)], SR).repeatCount, `${hz} Hz +${over} dB`).toBe(0);
+    }
+  });
+
+  it('fails distribution on render glitches', () => {
+    const x = glitched();
+    const track = analyzeTrack({ filename: 'glitch.wav', filesize: 0, sampleRate: SR, channels: 2, channelData: [x, x] }, 1);
+    const { enhancedIssues, issues } = evaluateDistribution(track);
+    const ids = enhancedIssues.map(i => i.ruleId);
+    expect(ids).toEqual(expect.arrayContaining(['format.clicks', 'format.dropouts', 'format.repeated-buffers']));
+    expect(issues).toContain('1 dropout(s) of digital silence inside the music at 0:02.00: re-render the master.');
+    expect(track.distributionReady).toBe(false);
+  });
+});
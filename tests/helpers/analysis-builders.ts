@@ -0,0 +1,85 @@
+/**
+ * Analysis Builders for Tests
+ *
+ * Typed TrackAnalysis / AlbumAnalysis fixtures. Every field starts from a real
+ * analysis of a short, clean stereo tone, so a test only spells out the
+ * values it is about and the rest stay valid.
+ */
+
+import { analyzeTrack } from '../../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../../src/workers/albumAnalyzer';
+import { computeSpeech } from '../../src/analysis/dsp/speech';
+import { computeVinyl } from '../../src/analysis/dsp/vinyl';
+import type { AlbumAnalysis, TrackAnalysis } from '../../src/core/types';
+
+/** Nested sections (parameters, loudness, ...) are merged one level deep; other fields replace */
+export type Patch<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends readonly unknown[]
+    ? T[K]
+    : NonNullable<T[K]> extends object
+      ? Partial<NonNullable<T[K]>> | Extract<T[K], null | undefined>
+      : T[K];
+};
+
+const SR = 44100;
+
+let baseTrack: TrackAnalysis | null = null;
+
+/**
+ * Four seconds of a -18 dBFS 1 kHz tone, the right channel a little behind, analyzed
+ * once with every optional section filled. Long enough for short-term loudness and
+ * wide enough for side energy, so no field is -Infinity and the fixture survives JSON.
+ */
+function cleanTrack(): TrackAnalysis {
+  if (baseTrack) return baseTrack;
+  const tone = (phase: number) => new Float32Array(4 * SR).map((_, i) => 0.126 * Math.sin(2 * Math.PI * 1000 * i / SR + phase));
+  const channelData = [tone(0), tone(0.2)];
+  const t = analyzeTrack({ filename: 'tone.wav', filesize: 0, sampleRate: SR, channels: 2, channelData }, 1);
+  baseTrack = {
+    ...t,
+    speech: { ...computeSpeech(channelData[0], SR), dialogueGatedLUFS: null },
+    vinyl: computeVinyl(channelData, SR),
+    distributionReady: true,
+    issues: [],
+    warnings: [],
+    enhancedIssues: [],
+    enhancedWarnings: [],
+    primaryConcern: undefined
+  };
+  return baseTrack;
+}
+
+function isSection(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function merge<T extends object>(base: T, patch: Patch<T>): T {
+  const out = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(patch)) {
+    const current = out[key];
+    out[key] = isSection(value) && isSection(current) ? { ...current, ...value } : value;
+  }
+  return out as T;
+}
+
+export function buildTrack(trackNumber: number, patch: Patch<TrackAnalysis> = {}): TrackAnalysis {
+  const base = cleanTrack();
+  return merge(base, {
+    trackNumber,
+    ...patch,
+    parameters: { filename: `${trackNumber}.wav`, ...patch.parameters }
+  });
+}
+
+let baseAlbum: AlbumAnalysis | null = null;
+
+/** Album stats for the given tracks are taken as-is; ready defaults to every track being ready */
+export function buildAlbum(tracks: TrackAnalysis[], patch: Patch<AlbumAnalysis> = {}): AlbumAnalysis {
+  baseAlbum ??= computeAlbumStats('Test', [], 0, 0);
+  return merge(baseAlbum, {
+    totalTracks: tracks.length,
+    distributionReady: tracks.every(t => t.distributionReady),
+    tracks,
+    ...patch
+  });
+}
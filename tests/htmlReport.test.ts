@@ -0,0 +1,51 @@
+/**
+ * HTML Report Tests
+ *
+ * Document assembly for the single-file export: host selector rewriting
+ * and safe embedding of the analysis JSON.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildHtmlReport,
+  buildExportReport,
+  hostStylesToDocument,
+  serializeEmbeddedJSON,
+  EMBEDDED_REPORT_ID,
+  EXPORT_SCHEMA_VERSION
+} from '../src/ui/export';
+import { buildAlbum } from './helpers/analysis-builders';
+
+const album = buildAlbum([], { albumName: 'Songs </script><b>', overallScore: 9 });
+
+describe('HTML Report', () => {
+  it('rewrites :host selectors for a plain document', () => {
+    const css = ':host { color: red; } :host([data-theme="light"]) .panel { color: blue; } :host::before { content: ""; }';
+    expect(hostStylesToDocument(css)).toBe(
+      'body { color: red; } body[data-theme="light"] .panel { color: blue; } body::before { content: ""; }'
+    );
+  });
+
+  it('escapes markup inside embedded JSON', () => {
+    const json = serializeEmbeddedJSON({ name: '</script><script>alert(1)</script>' });
+    expect(json).not.toContain('</script>');
+    expect(JSON.parse(json).name).toBe('</script><script>alert(1)</script>');
+  });
+
+  it('builds a self-contained document with the export report embedded', () => {
+    const report = buildExportReport(album);
+    const html = buildHtmlReport({ report, bodyHtml: '<div class="panel">Body</div>', theme: 'light' });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<body data-theme="light">');
+    expect(html).toContain('<div class="panel">Body</div>');
+    expect(html).not.toContain(':host');
+    expect(html).toContain('Songs &lt;/script&gt;&lt;b&gt;');
+
+    const match = html.match(new RegExp(`<script type="application/json" id="${EMBEDDED_REPORT_ID}">(.*?)</script>`));
+    expect(match).not.toBeNull();
+    const embedded = JSON.parse(match![1]);
+    expect(embedded.version).toBe(EXPORT_SCHEMA_VERSION);
+    expect(embedded.analysis.albumName).toBe(album.albumName);
+  });
+});
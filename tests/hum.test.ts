@@ -0,0 +1,108 @@
+/**
+ * Mains Hum Tests
+ *
+ * 50 / 60 Hz harmonic series exposed in quiet passages, level against the
+ * programme, exposed ranges, and the notch suggestions in the export.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeHum } from '../src/analysis/dsp/hum';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { evaluateDistribution } from '../src/analysis/rules';
+import { buildExportReport } from '../src/ui/export/jsonReport';
+import { parseImportedReport } from '../src/ui/export/importReport';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+const SR = 44100;
+
+function noise(seed: number): () => number {
+  let s = seed;
+  return () => ((s = (s * 1664525 + 1013904223) >>> 0) / 4294967296) - 0.5;
+}
+
+/** Ground hum: fundamental plus odd-heavy harmonics, -50.9 dBFS overall */
+function hum(mainsHz: number, i: number): number {
+  const t = i / SR;
+  return 0.003 * Math.sin(2 * Math.PI * mainsHz * t) +
+    0.0015 * Math.sin(2 * Math.PI * 2 * mainsHz * t) +
+    0.002 * Math.sin(2 * Math.PI * 3 * mainsHz * t) +
+    0.001 * Math.sin(2 * Math.PI * 5 * mainsHz * t);
+}
+
+/** 4 s quiet intro, 8 s of loud chords, 4 s quiet outro; hum and hiss throughout */
+function recording(mainsHz: number | null, seconds = 16): Float32Array {
+  const rand = noise(3);
+  return new Float32Array(seconds * SR).map((_, i) => {
+    const t = i / SR;
+    const music = t >= 4 && t < 12
+      ? 0.2 * Math.sin(2 * Math.PI * 440 * t) + 0.15 * Math.sin(2 * Math.PI * 659.3 * t) + 0.1 * Math.sin(2 * Math.PI * 82.4 * t)
+      : 0;
+    return music + 0.0005 * rand() + (mainsHz !== null ? hum(mainsHz, i) : 0);
+  });
+}
+
+/** Quietest 4096-sample window, as estimateEffectiveBitDepth measures it */
+function noiseFloor(x: Float32Array): number {
+  let min = Infinity;
+  for (let i = 0; i + 4096 < x.length; i += 4096) {
+    let e = 0;
+    for (let j = 0; j < 4096; j++) e += x[i + j] * x[i + j];
+    if (e > 0 && e < min) min = e;
+  }
+  return 10 * Math.log10(min / 4096);
+}
+
+describe('Mains hum', () => {
+  it('finds 50 Hz hum and its harmonics in the quiet passages', () => {
+    const x = recording(50);
+    const h = computeHum(x, SR, noiseFloor(x));
+    expect(h.detected).toBe(true);
+    expect(h.frequencyHz!).toBeCloseTo(50, 0);
+    expect(h.harmonics.map(n => n.harmonic)).toEqual([1, 2, 3, 5]);
+    expect(h.harmonicCount).toBe(4);
+    // Hum against a programme around -20 dBFS RMS
+    expect(h.levelDBFS!).toBeCloseTo(-50.9, 0);
+    expect(h.relativeToProgrammeDB!).toBeLessThan(-20);
+    expect(h.exposedRanges[0].startSeconds).toBe(0);
+    expect(h.exposedRanges.at(-1)!.endSeconds).toBeGreaterThan(14);
+    expect(h.exposedRanges.every(r => r.endSeconds <= 4.5 || r.startSeconds >= 11)).toBe(true);
+    expect(h.notches.map(n => Math.round(n.frequencyHz))).toEqual([50, 100, 150, 250]);
+    expect(h.notches.every(n => n.gainDB < 0 && n.q > 0)).toBe(true);
+  });
+
+  it('tells 60 Hz mains apart', () => {
+    const x = recording(60);
+    const h = computeHum(x, SR, noiseFloor(x));
+    expect(h.detected).toBe(true);
+    expect(h.frequencyHz!).toBeCloseTo(60, 0);
+    expect(h.harmonics.map(n => n.harmonic)).toEqual([1, 2, 3, 5]);
+  });
+
+  it('stays quiet without hum', () => {
+    const x = recording(null);
+    expect(computeHum(x, SR, noiseFloor(x)).detected).toBe(false);
+    for (const file of ['pink-noise.wav', 'sine-1k-minus23lufs.wav']) {
+      const wav = readWavFile(join(fixturesDir, file));
+      const mono = wav.samples[0];
+      expect(computeHum(mono, wav.sampleRate, noiseFloor(mono)).detected, file).toBe(false);
+    }
+  });
+
+  it('flags hum and exports notch suggestions', () => {
+    const x = recording(50);
+    const track = analyzeTrack({ filename: 'take.wav', filesize: 0, sampleRate: SR, channels: 2, channelData: [x, x] }, 1);
+    const { enhancedWarnings } = evaluateDistribution(track);
+    expect(enhancedWarnings.find(w => w.ruleId === 'spectral.mains-hum')?.message).toMatch(/^Mains hum at 50\.0 Hz with 4 harmonics/);
+
+    const album = computeAlbumStats('Session', [track], track.parameters.durationSeconds, 0, []);
+    const report = buildExportReport(album);
+    expect(report.trackOverview[0].humNotches.map(n => Math.round(n.frequencyHz))).toEqual([50, 100, 150, 250]);
+
+    // Older exports gain an empty notch list
+    const old = { ...report, version: '1.3', trackOverview: report.trackOverview.map(({ humNotches: _, ...o }) => o) };
+    expect(parseImportedReport(JSON.stringify(old)).report.trackOverview[0].humNotches).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Limiter Activity Tests
+ *
+ * Gain-reduction timeline estimated from block peaks against the unlimited
+ * envelope: open verses read near zero, a squashed chorus shows up as a
+ * worst section.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeLimiterActivity } from '../src/analysis/dsp/limiterActivity';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+const SR = 44100;
+
+/** Deterministic noise in [-1, 1] */
+function noise(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 2147483648 - 1;
+  };
+}
+
+/** Kick-like bursts every quarter second over a bass tone, peaking near -6 dBFS */
+function groove(seconds: number): Float32Array {
+  const rand = noise(7);
+  const beat = Math.round(0.25 * SR);
+  return new Float32Array(Math.round(seconds * SR)).map((_, i) => {
+    const decay = Math.exp(-(i % beat) / (0.03 * SR));
+    return 0.35 * decay * rand() + 0.12 * Math.sin(2 * Math.PI * 55 * i / SR);
+  });
+}
+
+/** Verse as recorded, then a chorus pushed 10 dB into a -1 dBFS brickwall */
+function verseChorus(): Float32Array {
+  const verse = groove(10);
+  const chorus = groove(10).map(v => Math.max(-0.89, Math.min(0.89, v * Math.pow(10, 10 / 20))));
+  const out = new Float32Array(verse.length + chorus.length);
+  out.set(verse);
+  out.set(chorus, verse.length);
+  return out;
+}
+
+describe('Limiter activity', () => {
+  it('follows the limiter through the song', () => {
+    const a = computeLimiterActivity([verseChorus()], SR)!;
+    expect(a.intervalS).toBe(0.1);
+    expect(a.gainReductionDB.length).toBe(200);
+    const verse = a.gainReductionDB.slice(10, 90);
+    const chorus = a.gainReductionDB.slice(110, 190);
+    expect(Math.max(...verse)).toBeLessThan(1);
+    expect(Math.min(...chorus)).toBeGreaterThan(3);
+    expect(a.pctAbove1dB).toBeGreaterThan(45);
+    expect(a.pctAbove1dB).toBeLessThan(55);
+    expect(a.pctAbove3dB).toBeGreaterThan(45);
+    expect(a.pctAbove6dB).toBeLessThanOrEqual(a.pctAbove3dB);
+  });
+
+  it('reports the squashed chorus as the worst section', () => {
+    const a = computeLimiterActivity([verseChorus()], SR)!;
+    expect(a.worstSections.length).toBe(1);
+    expect(a.worstSections[0].startSeconds).toBeCloseTo(10, 0);
+    expect(a.worstSections[0].endSeconds).toBeCloseTo(20, 0);
+    expect(a.worstSections[0].maxGainReductionDB).toBeGreaterThanOrEqual(a.worstSections[0].avgGainReductionDB);
+  });
+
+  it('reads a master limited from start to end', () => {
+    // No open passage to compare against: the whole groove pushed 10 dB into the brickwall
+    const squashed = groove(20).map(v => Math.max(-0.89, Math.min(0.89, v * Math.pow(10, 10 / 20))));
+    const a = computeLimiterActivity([squashed], SR)!;
+    expect(a.avgGainReductionDB).toBeGreaterThan(3);
+    expect(a.pctAbove3dB).toBeGreaterThan(90);
+  });
+
+  it('handles long-form material', () => {
+    // Four hours of 100 ms blocks at a low rate, to keep the buffer small
+    const rate = 1000;
+    const x = new Float32Array(4 * 3600 * rate);
+    for (let i = 0; i < x.length; i++) x[i] = 0.5 * Math.sin(2 * Math.PI * 110 * i / rate + 0.3);
+    expect(computeLimiterActivity([x], rate)!.gainReductionDB.length).toBe(144000);
+  });
+
+  it('reads no limiting on an open mix', () => {
+    const a = computeLimiterActivity([groove(10)], SR)!;
+    expect(a.pctAbove3dB).toBe(0);
+    expect(a.worstSections).toEqual([]);
+    const wav = readWavFile(join(fixturesDir, 'sine-1k-minus14lufs.wav'));
+    expect(computeLimiterActivity(wav.samples, wav.sampleRate)!.maxGainReductionDB).toBeLessThan(1);
+    expect(computeLimiterActivity([new Float32Array(SR / 10)], SR)).toBeNull();
+  });
+});
@@ -20,6 +20,7 @@ import { computeLoudness } from '../src/analysis/loudness';
 import { computeTruePeakStereo, computeSamplePeak } from '../src/analysis/truePeak';
 import { computeDynamics } from '../src/analysis/dsp/dynamics';
 import { computeStereo } from '../src/analysis/dsp/stereo';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
 
 const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
 
@@ -299,3 +300,52 @@ describe('Per-Band Loudness', () => {
     expect(result.perBandLoudness).toBeDefined();
   });
 });
+
+describe('Multichannel Loudness (BS.1770-4)', () => {
+  const sampleRate = 48000;
+
+  function sine(amp: number, seconds = 3): Float32Array {
+    const out = new Float32Array(sampleRate * seconds);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = amp * Math.sin(2 * Math.PI * 1000 * i / sampleRate);
+    }
+    return out;
+  }
+
+  it('excludes the LFE channel from integrated loudness', () => {
+    const silent = new Float32Array(sampleRate * 3);
+    const front = sine(0.25);
+    const withoutLfe = computeLoudness(sampleRate, [front, front, silent, silent, silent, silent]);
+    const withLfe = computeLoudness(sampleRate, [front, front, silent, sine(0.9), silent, silent]);
+
+    expect(withLfe.integratedLUFS).toBeCloseTo(withoutLfe.integratedLUFS, 3);
+  });
+
+  it('weights surround channels +1.5 dB', () => {
+    const silent = new Float32Array(sampleRate * 3);
+    const tone = sine(0.25);
+    const left = computeLoudness(sampleRate, [tone, silent, silent, silent, silent, silent]);
+    const leftSurround = computeLoudness(sampleRate, [silent, silent, silent, silent, tone, silent]);
+
+    expect(leftSurround.integratedLUFS - left.integratedLUFS).toBeCloseTo(1.5, 1);
+  });
+
+  it('reports true peak per channel', () => {
+    const silent = new Float32Array(sampleRate * 3);
+    const result = computeLoudness(sampleRate, [sine(0.5), silent, silent, sine(0.9), silent, silent]);
+
+    expect(result.perChannelTruePeakDBTP).toHaveLength(6);
+    expect(result.perChannelTruePeakDBTP[0]).toBeCloseTo(-6, 0);
+    expect(result.perChannelTruePeakDBTP[3]).toBeGreaterThan(result.perChannelTruePeakDBTP[0]);
+    // LFE peaks still count toward the file's overall true peak
+    expect(result.truePeakDBTP).toBeCloseTo(result.perChannelTruePeakDBTP[3], 3);
+  });
+
+  it('records the speaker of each channel from the channel mask', () => {
+    const channelData = Array.from({ length: 6 }, () => sine(0.25, 1));
+    const decoded = { filename: 'mix.wav', filesize: 0, sampleRate, channels: 6, channelData };
+    // 5.1 with back surrounds (0x3F) rather than the default side surrounds
+    expect(analyzeTrack({ ...decoded, channelMask: 0x3F }, 1).parameters.channelPositions).toEqual(['L', 'R', 'C', 'LFE', 'Lb', 'Rb']);
+    expect(analyzeTrack(decoded, 1).parameters.channelPositions).toEqual(['L', 'R', 'C', 'LFE', 'Ls', 'Rs']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Container Metadata Tests
+ *
+ * mediainfo.js is stubbed with canned reports: field mapping from the General
+ * and Audio tracks, fallbacks between them, and the duration-mismatch rule
+ * driven by the container duration.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeMediaInfo } from '../src/analysis/mediainfo';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+
+const stub = vi.hoisted(() => ({
+  tracks: [] as Record<string, string>[],
+  analyzeData: (_size: number, _read: (chunk: number, offset: number) => Promise<Uint8Array>) => Promise.resolve({}),
+  close: () => {}
+}));
+
+vi.mock('mediainfo.js', () => ({
+  default: async () => ({
+    analyzeData: async (size: number, read: (chunk: number, offset: number) => Promise<Uint8Array>) => {
+      await stub.analyzeData(size, read);
+      return { media: { track: stub.tracks } };
+    },
+    close: () => stub.close()
+  })
+}));
+
+const file = new File([new Uint8Array(16)], 'take.mp3');
+
+beforeEach(() => {
+  stub.analyzeData = vi.fn(() => Promise.resolve({}));
+  stub.close = vi.fn();
+});
+
+describe('mediainfo', () => {
+  it('maps the General and Audio tracks', async () => {
+    stub.tracks = [
+      { '@type': 'General', Format: 'MPEG Audio', OverallBitRate: '245000', OverallBitRate_Mode: 'VBR', Duration: '183.400' },
+      {
+        '@type': 'Audio', Format: 'MPEG Audio', Format_Profile: 'Layer 3', SamplingRate: '44100', Channels: '2',
+        BitRate: '244000', BitRate_Mode: 'VBR', Encoded_Library: 'LAME3.100', Duration: '183.380'
+      }
+    ];
+    expect(await analyzeMediaInfo(file)).toEqual({
+      format: 'MPEG Audio',
+      samplingRate: 44100,
+      channels: 2,
+      bitDepth: undefined,
+      overallBitrate: 245000,
+      durationSeconds: 183.4,
+      containerFormat: 'MPEG Audio',
+      formatProfile: 'Layer 3',
+      encoderLibrary: 'LAME3.100',
+      bitrateMode: 'VBR',
+      audioBitrate: 244000
+    });
+    expect(stub.analyzeData).toHaveBeenCalledWith(16, expect.any(Function));
+    expect(stub.close).toHaveBeenCalledOnce();
+  });
+
+  it('falls back between tracks and drops unusable values', async () => {
+    stub.tracks = [
+      { '@type': 'General', Format: 'MPEG-4', OverallBitRate: '', OverallBitRate_Mode: 'CBR', Encoded_Application: 'Lavf60.3.100' },
+      { '@type': 'Audio', Format: 'AAC', Format_AdditionalFeatures: 'LC', SamplingRate: '48000', BitDepth: 'n/a', Duration: '12.5' }
+    ];
+    expect(await analyzeMediaInfo(file)).toMatchObject({
+      format: 'AAC',
+      containerFormat: 'MPEG-4',
+      formatProfile: 'LC',
+      encoderLibrary: 'Lavf60.3.100',
+      bitrateMode: 'CBR',
+      bitDepth: undefined,
+      overallBitrate: undefined,
+      durationSeconds: 12.5
+    });
+
+    // A mode mediainfo spells out is not one of ours
+    stub.tracks = [{ '@type': 'Audio', BitRate_Mode: 'Variable' }];
+    expect((await analyzeMediaInfo(file)).bitrateMode).toBeUndefined();
+  });
+
+  it('raises the duration-mismatch rule from the container duration', async () => {
+    const wav = readWavFile(join(__dirname, 'fixtures', 'synthetic', 'sine-1k-minus14lufs.wav'));
+    const decodedSeconds = wav.samples[0].length / wav.sampleRate;
+    const analyze = async (containerSeconds: number) => {
+      stub.tracks = [{ '@type': 'General', Format: 'Wave', Duration: String(containerSeconds) }];
+      const mediaInfo = await analyzeMediaInfo(file);
+      return analyzeTrack({
+        filename: 'take.wav', filesize: 0, sampleRate: wav.sampleRate,
+        channels: wav.samples.length, channelData: wav.samples, mediaInfo
+      }, 1);
+    };
+
+    const truncated = await analyze(decodedSeconds + 2);
+    expect(truncated.parameters.durationMismatchSeconds!).toBeCloseTo(2, 6);
+    expect(truncated.enhancedWarnings?.find(w => w.ruleId === 'format.duration-mismatch')?.message)
+      .toMatch(/differs from decoded audio \(\d+\.\d{2}s\) by 2\.00s: file may be truncated/);
+
+    // Within half a second is container rounding, not damage
+    const rounded = await analyze(decodedSeconds - 0.3);
+    expect(rounded.enhancedWarnings?.some(w => w.ruleId === 'format.duration-mismatch')).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Embedded Metadata Tests
+ *
+ * Hand-built ID3v2, FLAC Vorbis comment, MP4 ilst and BWF bext/iXML
+ * payloads checked against the native parsers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseEmbeddedMetadata, normalizeISRC } from '../src/analysis/metadata';
+
+function ascii(s: string): number[] {
+  return Array.from(s, c => c.charCodeAt(0));
+}
+
+function utf8(s: string): number[] {
+  return Array.from(new TextEncoder().encode(s));
+}
+
+function u32be(v: number): number[] { return [(v >>> 24) & 0xFF, (v >> 16) & 0xFF, (v >> 8) & 0xFF, v & 0xFF]; }
+function u32le(v: number): number[] { return [v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >>> 24) & 0xFF]; }
+function i16le(v: number): number[] { return [v & 0xFF, (v >> 8) & 0xFF]; }
+
+function syncsafe(v: number): number[] {
+  return [(v >> 21) & 0x7F, (v >> 14) & 0x7F, (v >> 7) & 0x7F, v & 0x7F];
+}
+
+function toBuffer(bytes: number[]): ArrayBuffer {
+  return new Uint8Array(bytes).buffer;
+}
+
+function id3Frame(id: string, body: number[]): number[] {
+  return [...ascii(id), ...syncsafe(body.length), 0, 0, ...body];
+}
+
+function buildId3v24(frames: number[][]): number[] {
+  const body = frames.flat();
+  return [...ascii('ID3'), 4, 0, 0, ...syncsafe(body.length), ...body];
+}
+
+function fixed(s: string, len: number): number[] {
+  const b = utf8(s).slice(0, len);
+  return [...b, ...new Array(len - b.length).fill(0)];
+}
+
+function mp4Atom(type: string, payload: number[]): number[] {
+  return [...u32be(8 + payload.length), ...Array.from(type, c => c.charCodeAt(0) & 0xFF), ...payload];
+}
+
+function mp4Data(type: number, payload: number[]): number[] {
+  return mp4Atom('data', [...u32be(type), ...u32be(0), ...payload]);
+}
+
+describe('Embedded Metadata', () => {
+  it('parses ID3v2.4 text, ISRC, TXXX barcode and APIC', () => {
+    const tag = buildId3v24([
+      id3Frame('TIT2', [3, ...utf8('Intro — Ünïcode')]),
+      id3Frame('TPE1', [0, ...ascii('Some Artist')]),
+      id3Frame('TRCK', [0, ...ascii('3/12')]),
+      id3Frame('TSRC', [0, ...ascii('USRC17607839')]),
+      id3Frame('TXXX', [0, ...ascii('BARCODE'), 0, ...ascii('0123456789012')]),
+      id3Frame('APIC', [0, ...ascii('image/jpeg'), 0, 3, 0, ...new Array(500).fill(0xAB)])
+    ]);
+    const meta = parseEmbeddedMetadata(toBuffer([...tag, 0xFF, 0xFB, 0x90, 0x00]));
+
+    expect(meta.tagFormats).toContain('ID3v2.4');
+    expect(meta.title).toBe('Intro — Ünïcode');
+    expect(meta.artist).toBe('Some Artist');
+    expect(meta.trackNumber).toBe(3);
+    expect(meta.trackTotal).toBe(12);
+    expect(meta.isrc).toBe('USRC17607839');
+    expect(meta.upc).toBe('0123456789012');
+    expect(meta.artworkBytes).toBe(500);
+    expect(meta.artworkMime).toBe('image/jpeg');
+  });
+
+  it('parses UTF-16 ID3 text frames', () => {
+    const text = [0xFF, 0xFE, ...Array.from('Title').flatMap(c => [c.charCodeAt(0), 0])];
+    const meta = parseEmbeddedMetadata(toBuffer([...buildId3v24([id3Frame('TIT2', [1, ...text])]), 0, 0, 0, 0]));
+    expect(meta.title).toBe('Title');
+  });
+
+  it('parses FLAC Vorbis comments and PICTURE block', () => {
+    const comments = ['TITLE=Song', 'ARTIST=Band', 'ISRC=GB-AAA-24-00001', 'TRACKNUMBER=7', 'TRACKTOTAL=9'];
+    const vc = [
+      ...u32le(6), ...ascii('vendor'),
+      ...u32le(comments.length),
+      ...comments.flatMap(c => [...u32le(utf8(c).length), ...utf8(c)])
+    ];
+    const picture = [
+      ...u32be(3),
+      ...u32be(9), ...ascii('image/png'),
+      ...u32be(0),
+      ...u32be(600), ...u32be(600), ...u32be(24), ...u32be(0),
+      ...u32be(1234), ...new Array(1234).fill(1)
+    ];
+    const streaminfo = new Array(34).fill(0);
+    const flac = [
+      ...ascii('fLaC'),
+      0x00, 0, 0, 34, ...streaminfo,
+      0x04, (vc.length >> 16) & 0xFF, (vc.length >> 8) & 0xFF, vc.length & 0xFF, ...vc,
+      0x86, (picture.length >> 16) & 0xFF, (picture.length >> 8) & 0xFF, picture.length & 0xFF, ...picture
+    ];
+    const meta = parseEmbeddedMetadata(toBuffer(flac));
+
+    expect(meta.title).toBe('Song');
+    expect(meta.artist).toBe('Band');
+    expect(meta.isrc).toBe('GB-AAA-24-00001');
+    expect(meta.trackNumber).toBe(7);
+    expect(meta.trackTotal).toBe(9);
+    expect(meta.artworkBytes).toBe(1234);
+    expect(meta.artworkMime).toBe('image/png');
+  });
+
+  it('parses MP4 ilst items including freeform ISRC', () => {
+    const ilst = mp4Atom('ilst', [
+      ...mp4Atom('©nam', mp4Data(1, utf8('M4A Title'))),
+      ...mp4Atom('trkn', mp4Data(0, [0, 0, 0, 2, 0, 10, 0, 0])),
+      ...mp4Atom('covr', mp4Data(13, new Array(300).fill(0))),
+      ...mp4Atom('----', [
+        ...mp4Atom('mean', [0, 0, 0, 0, ...ascii('com.apple.iTunes')]),
+        ...mp4Atom('name', [0, 0, 0, 0, ...ascii('ISRC')]),
+        ...mp4Data(1, ascii('FRZ039800212'))
+      ])
+    ]);
+    const moov = mp4Atom('moov', mp4Atom('udta', mp4Atom('meta', [0, 0, 0, 0, ...ilst])));
+    const file = [...mp4Atom('ftyp', ascii('M4A \0\0\0\0')), ...moov];
+    const meta = parseEmbeddedMetadata(toBuffer(file));
+
+    expect(meta.title).toBe('M4A Title');
+    expect(meta.trackNumber).toBe(2);
+    expect(meta.trackTotal).toBe(10);
+    expect(meta.artworkBytes).toBe(300);
+    expect(meta.artworkMime).toBe('image/jpeg');
+    expect(meta.isrc).toBe('FRZ039800212');
+  });
+
+  it('parses BWF bext v2 loudness fields and iXML', () => {
+    const bext = [
+      ...fixed('Final master', 256),
+      ...fixed('Mastering House', 32),
+      ...fixed('REF001', 32),
+      ...fixed('2024-05-01', 10),
+      ...fixed('12:30:00', 8),
+      ...u32le(48000 * 3600), ...u32le(0),
+      ...i16le(2),
+      ...new Array(64).fill(0), // UMID
+      ...i16le(-1400), // LoudnessValue
+      ...i16le(650), // LoudnessRange
+      ...i16le(-100), // MaxTruePeakLevel
+      ...i16le(0x7FFF), // MaxMomentaryLoudness (unset)
+      ...i16le(-1050), // MaxShortTermLoudness
+      ...new Array(180).fill(0),
+      ...ascii('A=PCM,F=48000,W=24,M=stereo\r\n')
+    ];
+    const ixml = utf8('<?xml version="1.0"?><BWFXML><PROJECT>Album</PROJECT><SCENE>01</SCENE><TAKE>3</TAKE></BWFXML>');
+    const fmt = new Array(16).fill(0);
+    const chunks = [
+      ...ascii('fmt '), ...u32le(fmt.length), ...fmt,
+      ...ascii('bext'), ...u32le(bext.length), ...bext, ...(bext.length % 2 ? [0] : []),
+      ...ascii('iXML'), ...u32le(ixml.length), ...ixml, ...(ixml.length % 2 ? [0] : []),
+      ...ascii('data'), ...u32le(4), 0, 0, 0, 0
+    ];
+    const wav = [...ascii('RIFF'), ...u32le(4 + chunks.length), ...ascii('WAVE'), ...chunks];
+    const meta = parseEmbeddedMetadata(toBuffer(wav));
+
+    expect(meta.tagFormats).toEqual(['BWF bext', 'iXML']);
+    expect(meta.bext?.originator).toBe('Mastering House');
+    expect(meta.bext?.timeReferenceSamples).toBe(48000 * 3600);
+    expect(meta.bext?.version).toBe(2);
+    expect(meta.bext?.loudnessValueLUFS).toBe(-14);
+    expect(meta.bext?.loudnessRangeLU).toBe(6.5);
+    expect(meta.bext?.maxTruePeakDBTP).toBe(-1);
+    expect(meta.bext?.maxMomentaryLUFS).toBeNull();
+    expect(meta.bext?.maxShortTermLUFS).toBe(-10.5);
+    expect(meta.bext?.codingHistory).toContain('A=PCM');
+    expect(meta.ixml?.project).toBe('Album');
+    expect(meta.ixml?.take).toBe('3');
+    expect(meta.isrc).toBeNull();
+  });
+
+  it('returns empty metadata for untagged or unknown data', () => {
+    const meta = parseEmbeddedMetadata(toBuffer(new Array(64).fill(0)));
+    expect(meta.tagFormats).toEqual([]);
+    expect(meta.isrc).toBeNull();
+  });
+
+  describe('normalizeISRC', () => {
+    it('accepts hyphenated and compact forms', () => {
+      expect(normalizeISRC('US-RC1-76-07839')).toBe('USRC17607839');
+      expect(normalizeISRC('usrc17607839')).toBe('USRC17607839');
+    });
+
+    it('rejects malformed codes', () => {
+      expect(normalizeISRC('USRC1760783')).toBeNull(); // 11 chars
+      expect(normalizeISRC('12RC17607839')).toBeNull(); // numeric country
+      expect(normalizeISRC('USRC17A07839')).toBeNull(); // letter in year
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Delivery Profile Tests
+ *
+ * The selected profile drives the correction note, rules and target simulation;
+ * re-applying a profile must give the same result as analyzing with it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeTrack, applyDeliveryProfile, missingMeasurements } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, findProfile, parseDeliveryProfile } from '../src/core/profiles';
+import type { AlbumAnalysis, DeliveryProfile } from '../src/core/types';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+
+function analyzeFixture(name: string, profile?: DeliveryProfile) {
+  const wav = readWavFile(join(fixturesDir, name));
+  return analyzeTrack({
+    filename: name,
+    filesize: 0,
+    sampleRate: wav.sampleRate,
+    channels: wav.samples.length,
+    channelData: wav.samples
+  }, 1, undefined, profile);
+}
+
+describe('Delivery profiles', () => {
+  const r128 = findProfile('ebu-r128')!;
+
+  it('defaults to the streaming -14 profile', () => {
+    const track = analyzeFixture('sine-1k-minus14lufs.wav');
+    expect(DEFAULT_PROFILE.id).toBe('streaming-14');
+    expect(track.loudness.loudnessCorrectionNote).toContain('-14 LUFS');
+    expect(track.streamingSimulation.target?.referenceLUFS).toBe(-14);
+    expect(track.issues.some(i => i.includes('outside'))).toBe(false);
+  });
+
+  it('enforces broadcast tolerance and retargets the correction', () => {
+    const track = analyzeFixture('sine-1k-minus14lufs.wav', r128);
+    expect(track.loudness.loudnessCorrectionNote).toContain('-23 LUFS');
+    expect(track.loudness.loudnessCorrectionDB).toBeLessThan(-8);
+    expect(track.streamingSimulation.target?.platform).toBe(r128.name);
+    expect(track.issues.some(i => i.includes('outside -23 ±0.5 LU'))).toBe(true);
+    expect(track.distributionReady).toBe(false);
+  });
+
+  it('re-applies a profile without re-analyzing', () => {
+    const streaming = analyzeFixture('sine-1k-minus14lufs.wav');
+    const direct = analyzeFixture('sine-1k-minus14lufs.wav', r128);
+    const reapplied = applyDeliveryProfile(streaming, r128);
+
+    expect(reapplied.issues).toEqual(direct.issues);
+    expect(reapplied.warnings).toEqual(direct.warnings);
+    expect(reapplied.loudness.loudnessCorrectionDB).toBeCloseTo(direct.loudness.loudnessCorrectionDB!, 6);
+    // The original is left untouched
+    expect(streaming.loudness.loudnessCorrectionNote).toContain('-14 LUFS');
+  });
+
+  it('names the passes a profile needs that the analysis skipped', () => {
+    // A quiet track is boosted by Spotify Loud; a CD master skips codec, limiter, speech and vinyl passes
+    const cd = analyzeFixture('sine-1k-minus23lufs.wav', findProfile('cd-loud')!);
+    expect(missingMeasurements(cd, DEFAULT_PROFILE)).toEqual(['codec emulation', 'the platform limiter render']);
+    expect(missingMeasurements(cd, findProfile('podcast-16')!)).toEqual(['speech segmentation', 'codec emulation']);
+    expect(missingMeasurements(cd, findProfile('vinyl-7-45')!)).toEqual(['vinyl measurements']);
+    expect(missingMeasurements(cd, r128)).toEqual([]);
+    expect(missingMeasurements(analyzeFixture('sine-1k-minus23lufs.wav'), DEFAULT_PROFILE)).toEqual([]);
+  });
+
+  it('records the profile on the album', () => {
+    const track = analyzeFixture('sine-1k-minus14lufs.wav', r128);
+    const album = computeAlbumStats('Test', [track], track.parameters.durationSeconds, 0, [], r128);
+    expect(album.deliveryProfile?.id).toBe('ebu-r128');
+    expect(album.distributionReady).toBe(false);
+  });
+
+  it('runs only the validation of the profile\'s mode and names its failure', () => {
+    const cases: [string, keyof AlbumAnalysis | null, string][] = [
+      ['cd-loud', 'redBook', 'Fails Red Book CD checks'],
+      ['acx-audiobook', 'acx', '1 chapter fail ACX checks'],
+      ['streaming-14', null, 'Distribution Ready (with normalization)']
+    ];
+    for (const [id, field, note] of cases) {
+      const profile = findProfile(id)!;
+      const track = analyzeFixture('sine-1k-minus14lufs.wav', profile);
+      const album = computeAlbumStats('Test', [track], track.parameters.durationSeconds, 0, [], profile);
+      expect(album.distributionReadyNote, id).toBe(note);
+      for (const report of ['redBook', 'vinyl', 'acx', 'broadcast'] as const) {
+        expect(album[report] !== null, `${id} ${report}`).toBe(report === field);
+      }
+    }
+  });
+
+  it('ships unique built-in ids', () => {
+    const ids = BUILT_IN_PROFILES.map(p => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('validates custom profiles', () => {
+    const valid = { id: 'custom-1', name: 'Vinyl pre-master', targetLUFS: -12, toleranceLU: null, maxTruePeakDBTP: -0.5, maxLUFS: -8 };
+    expect(parseDeliveryProfile(valid)).toMatchObject({ ...valid, platformChecks: [] });
+    expect(() => parseDeliveryProfile({ ...valid, targetLUFS: 'loud' })).toThrow(/targetLUFS/);
+    expect(() => parseDeliveryProfile({ ...valid, toleranceLU: 0 })).toThrow(/toleranceLU/);
+    expect(() => parseDeliveryProfile({ ...valid, name: '' })).toThrow(/name/);
+    expect(parseDeliveryProfile({ ...valid, spokenWord: true }).spokenWord).toBe(true);
+    expect(parseDeliveryProfile({ ...valid, spokenWord: false })).not.toHaveProperty('spokenWord');
+    expect(() => parseDeliveryProfile({ ...valid, spokenWord: 'yes' })).toThrow(/spokenWord/);
+  });
+});
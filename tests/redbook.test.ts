@@ -0,0 +1,92 @@
+/**
+ * Red Book Validation Tests
+ *
+ * Disc-level CD checks against hand-built tracks, plus the profile switch
+ * that turns them on for an analyzed album.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { findProfile } from '../src/core/profiles';
+import { evaluateRedBook } from '../src/analysis/rules';
+import { buildTrack } from './helpers/analysis-builders';
+import type { TrackAnalysis } from '../src/core/types';
+
+interface TrackSpec {
+  seconds?: number;
+  sampleCount?: number;
+  sampleRate?: number;
+  bitDepth?: number;
+  startMs?: number;
+  endMs?: number;
+  startDBFS?: number | null;
+  endDBFS?: number | null;
+}
+
+function track(n: number, spec: TrackSpec = {}): TrackAnalysis {
+  const seconds = spec.seconds ?? 180;
+  return buildTrack(n, {
+    parameters: {
+      durationSeconds: seconds,
+      sampleRate: spec.sampleRate ?? 44100,
+      bitDepth: spec.bitDepth ?? 16,
+      sampleFormat: 'int',
+      sampleCount: spec.sampleCount ?? 588 * Math.round(seconds * 75),
+      startSampleDBFS: spec.startDBFS ?? null,
+      endSampleDBFS: spec.endDBFS ?? null
+    },
+    dynamics: { silenceAtStartMs: spec.startMs ?? 0, silenceAtEndMs: spec.endMs ?? 500 }
+  });
+}
+
+describe('Red Book validation', () => {
+  it('passes a conforming disc', () => {
+    const v = evaluateRedBook([track(1), track(2)]);
+    expect(v.ready).toBe(true);
+    expect(v.programSeconds).toBe(362);
+    expect(v.gaps).toEqual([{ fromTrack: 1, toTrack: 2, silenceSeconds: 0.5 }]);
+    expect(v.tracks.every(t => t.frameAligned)).toBe(true);
+  });
+
+  it('requires exact 44.1 kHz / 16-bit and 4 s tracks', () => {
+    const v = evaluateRedBook([track(1, { sampleRate: 48000 }), track(2, { bitDepth: 24 }), track(3, { seconds: 3 })]);
+    expect(v.ready).toBe(false);
+    expect(v.tracks[0].issues[0]).toMatch(/48000 Hz/);
+    expect(v.tracks[1].issues[0]).toMatch(/^24-bit/);
+    expect(v.tracks[2].issues[0]).toMatch(/minimum is 4s/);
+  });
+
+  it('enforces the track count and running time limits', () => {
+    expect(evaluateRedBook(Array.from({ length: 100 }, (_, i) => track(i + 1, { seconds: 10 }))).issues[0]).toMatch(/at most 99/);
+    const long = evaluateRedBook([track(1, { seconds: 2400 }), track(2, { seconds: 2400 })]);
+    expect(long.issues[0]).toMatch(/exceeds the 79:57/);
+  });
+
+  it('flags frame padding, boundary clicks and long gaps', () => {
+    const v = evaluateRedBook([
+      track(1, { sampleCount: 588 * 1000 + 100, endDBFS: -12, endMs: 3000, startMs: 2500 }),
+      track(2, { startMs: 1500, startDBFS: -80 })
+    ]);
+    expect(v.ready).toBe(true);
+    expect(v.tracks[0]).toMatchObject({ frameAligned: false, padSamples: 488 });
+    expect(v.tracks[0].warnings.some(w => w.startsWith('Ends on a non-zero sample'))).toBe(true);
+    expect(v.tracks[1].warnings).toEqual([]);
+    expect(v.warnings.some(w => w.includes('leading silence'))).toBe(true);
+    expect(v.warnings.some(w => w.includes('between tracks 1 and 2'))).toBe(true);
+  });
+
+  it('runs only for profiles in Red Book mode', () => {
+    const wav = readWavFile(join(__dirname, 'fixtures', 'synthetic', 'sine-1k-minus14lufs.wav'));
+    const decoded = { filename: 'sine.wav', filesize: 0, sampleRate: wav.sampleRate, channels: wav.samples.length, channelData: wav.samples };
+    const cd = findProfile('cd-loud')!;
+    const t = analyzeTrack(decoded, 1, undefined, cd);
+    expect(t.parameters.sampleCount).toBe(wav.samples[0].length);
+
+    const seconds = t.parameters.durationSeconds;
+    expect(computeAlbumStats('Test', [t], seconds, 0).redBook).toBeNull();
+    expect(computeAlbumStats('Test', [t], seconds, 0, [], cd).redBook?.trackCount).toBe(1);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Album loudness and gain tag tests
+ *
+ * Album-integrated loudness pools gating blocks across tracks (BS.1770), so it
+ * must differ from the arithmetic mean of track values when tracks differ.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { computeLoudness, gatedLoudnessFromHistograms } from '../src/analysis/loudness';
+import { computeGainTags, soundCheckFromGain, formatReplayGainDB } from '../src/analysis/replayGain';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+
+describe('Album-integrated loudness', () => {
+  it('matches track integrated loudness for a single track', () => {
+    const wav = readWavFile(join(fixturesDir, 'sine-1k-minus14lufs.wav'));
+    const result = computeLoudness(wav.sampleRate, wav.samples);
+
+    const album = gatedLoudnessFromHistograms([result.gatingHistogram]);
+    expect(Math.abs(album - result.integratedLUFS)).toBeLessThan(0.1);
+  });
+
+  it('gates blocks across tracks instead of averaging track values', () => {
+    const loud = computeLoudness(...load('sine-1k-minus14lufs.wav'));
+    const quiet = computeLoudness(...load('sine-1k-minus23lufs.wav'));
+
+    const album = gatedLoudnessFromHistograms([loud.gatingHistogram, quiet.gatingHistogram]);
+    const mean = (loud.integratedLUFS + quiet.integratedLUFS) / 2;
+
+    // Equal-length tracks 9 LU apart: energy mean sits ~2.4 LU below the louder track
+    expect(album).toBeGreaterThan(mean + 2);
+    expect(album - loud.integratedLUFS).toBeCloseTo(-2.4, 0);
+  });
+
+  it('returns -Infinity when every block is below the absolute gate', () => {
+    expect(gatedLoudnessFromHistograms([{ minLUFS: -70, binWidthLU: 0.1, counts: [] }])).toBe(-Infinity);
+  });
+});
+
+describe('ReplayGain 2.0 / Sound Check', () => {
+  it('computes gain to -18 LUFS and a linear true peak', () => {
+    const tags = computeGainTags(-9.5, -1)!;
+    expect(tags.gainDB).toBe(-8.5);
+    expect(tags.peak).toBeCloseTo(0.891251, 6);
+    expect(formatReplayGainDB(tags.gainDB)).toBe('-8.50 dB');
+    expect(formatReplayGainDB(2)).toBe('+2.00 dB');
+  });
+
+  it('returns null for unmeasurable loudness', () => {
+    expect(computeGainTags(-Infinity, -1)).toBeNull();
+    expect(computeGainTags(null, null)).toBeNull();
+  });
+
+  it('encodes iTunNORM as ten hex fields', () => {
+    expect(soundCheckFromGain(0, 1)).toBe(' 000003E8 000003E8 000009C4 000009C4 00000000 00000000 00008000 00008000 00000000 00000000');
+    // -10 dB of gain = 10x power reference
+    expect(soundCheckFromGain(-10, 0.5).split(' ')[1]).toBe('00002710');
+  });
+});
+
+function load(name: string): [number, Float32Array[]] {
+  const wav = readWavFile(join(fixturesDir, name));
+  return [wav.sampleRate, wav.samples];
+}
@@ -0,0 +1,100 @@
+/**
+ * Report Import Tests
+ *
+ * Schema detection and migration of exported analyses back to the current version.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseImportedReport,
+  buildExportReport,
+  buildHtmlReport,
+  EXPORT_SCHEMA_VERSION
+} from '../src/ui/export';
+import { buildAlbum, buildTrack } from './helpers/analysis-builders';
+
+/** An album as older exports wrote it: loose JSON, so fields can be set and removed freely */
+interface LegacyAlbum extends Record<string, unknown> {
+  tracks: Record<string, unknown>[];
+}
+
+function makeAlbum(): LegacyAlbum {
+  return {
+    albumName: 'Archive',
+    analysisDateISO: '2024-01-02T03:04:05.000Z',
+    totalTracks: 1,
+    totalDuration: '3:00',
+    overallScore: 8.5,
+    distributionReady: true,
+    summary: { avgLUFS: -14 },
+    tracks: [{
+      trackNumber: 1,
+      parameters: { filename: '01.wav', durationFormatted: '3:00' },
+      loudness: { integratedLUFS: -14, truePeakDBTP: -1.2 },
+      dynamics: { dynamicRangeDB: 9 },
+      stereo: {},
+      spectral: {},
+      issues: [],
+      warnings: []
+    }]
+  };
+}
+
+/** The same album as a current, complete analysis */
+function archive() {
+  return buildAlbum([buildTrack(1, { parameters: { filename: '01.wav' } })], { albumName: 'Archive' });
+}
+
+describe('Report Import', () => {
+  it('migrates a 1.0 export and fills failedTracks', () => {
+    const v10 = { version: '1.0', exportDate: '2024-01-02T00:00:00.000Z', summary: {}, trackOverview: [], analysis: makeAlbum() };
+    const { report, sourceVersion, migrated } = parseImportedReport(JSON.stringify(v10));
+
+    expect(sourceVersion).toBe('1.0');
+    expect(migrated).toBe(true);
+    expect(report.version).toBe(EXPORT_SCHEMA_VERSION);
+    expect(report.exportDate).toBe('2024-01-02T00:00:00.000Z');
+    expect(report.analysis.failedTracks).toEqual([]);
+    expect(report.analysis.tracks[0].parameters.filename).toBe('01.wav');
+  });
+
+  it('wraps a bare AlbumAnalysis', () => {
+    const { report, sourceVersion } = parseImportedReport(JSON.stringify(makeAlbum()));
+    expect(sourceVersion).toBe('0');
+    expect(report.exportDate).toBe('2024-01-02T03:04:05.000Z');
+    expect(report.trackOverview[0].name).toBe('01.wav');
+  });
+
+  it('moves the fixed platform fields of a 1.2 export into the platform list', () => {
+    const album = makeAlbum();
+    const spotify = { platform: 'Spotify', referenceLUFS: -14, gainChangeDB: 0, projectedTruePeakDBTP: -1.2, riskFlags: [], limiterCeilingSuggestion: null };
+    album.tracks[0].streamingSimulation = { spotify, appleMusic: null, youtube: null, tidal: null, recommendation: null };
+    const v12 = { version: '1.2', exportDate: '2024-01-02T00:00:00.000Z', summary: {}, trackOverview: [], analysis: album };
+
+    const sim = parseImportedReport(JSON.stringify(v12)).report.analysis.tracks[0].streamingSimulation;
+    expect(sim).toEqual({ platforms: [spotify], recommendation: null });
+  });
+
+  it('loads the current version unchanged', () => {
+    const current = buildExportReport(archive());
+    const imported = parseImportedReport(JSON.stringify(current));
+    expect(imported.migrated).toBe(false);
+    expect(imported.report).toEqual(current);
+  });
+
+  it('reads the report embedded in an HTML export', () => {
+    const report = buildExportReport(archive());
+    const html = buildHtmlReport({ report, bodyHtml: '' });
+    expect(parseImportedReport(html).report.analysis.albumName).toBe('Archive');
+  });
+
+  it('rejects newer, unknown and malformed exports', () => {
+    expect(() => parseImportedReport(JSON.stringify({ version: '9.0', analysis: makeAlbum() }))).toThrow(/newer/);
+    expect(() => parseImportedReport(JSON.stringify({ hello: 'world' }))).toThrow(/Not an Auralgeek/);
+    expect(() => parseImportedReport('{ nope')).toThrow(/Invalid JSON/);
+
+    const broken = makeAlbum();
+    delete broken.tracks[0].loudness;
+    expect(() => parseImportedReport(JSON.stringify(broken))).toThrow(/missing "loudness"/);
+  });
+});
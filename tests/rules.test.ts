@@ -0,0 +1,173 @@
+/**
+ * Distribution Rule Engine Tests
+ *
+ * Rules are data: thresholds, profile bindings, templates and the enabled flag
+ * all change the findings without touching code.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeTrack, applyDeliveryProfile } from '../src/workers/trackAnalyzer';
+import { findProfile } from '../src/core/profiles';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { emptyMetadata } from '../src/analysis/metadata/common';
+import {
+  BUILT_IN_RULES,
+  evaluateDistribution,
+  findingChain,
+  linkFindings,
+  primaryFinding,
+  mergeWithBuiltIns,
+  parseRuleSet,
+  serializeRuleSet
+} from '../src/analysis/rules';
+import type { AnalysisIssue, DistributionRule } from '../src/core/types';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+
+function analyzeFixture(name: string, trackNumber = 1, isrc: string | null = null) {
+  const wav = readWavFile(join(fixturesDir, name));
+  return analyzeTrack({
+    filename: name,
+    filesize: 0,
+    sampleRate: wav.sampleRate,
+    channels: wav.samples.length,
+    channelData: wav.samples,
+    metadata: isrc !== null ? { ...emptyMetadata(), isrc } : undefined
+  }, trackNumber);
+}
+
+function withRule(id: string, patch: Partial<DistributionRule>): DistributionRule[] {
+  return BUILT_IN_RULES.map(r => r.id === id ? { ...r, ...patch } : r);
+}
+
+describe('Distribution rules', () => {
+  const loud = analyzeFixture('sine-1k-0dbfs.wav');
+
+  it('fills structured findings alongside the message lists', () => {
+    expect(loud.enhancedIssues?.map(i => i.message)).toEqual(loud.issues);
+    const clip = loud.enhancedIssues?.find(i => i.ruleId === 'loudness.codec-clip');
+    expect(clip).toMatchObject({ category: 'loudness', recommendationTier: 'safe' });
+    expect(clip?.message).toMatch(/^Predicted post-encode true peak \d+\.\d dBTP at \d+ kbps/);
+  });
+
+  it('falls back to the true-peak ceiling without codec emulation', () => {
+    const imported = { ...loud, codec: undefined };
+    const res = evaluateDistribution(imported, undefined, BUILT_IN_RULES);
+    expect(res.issues.find(i => i.startsWith('True peak'))).toMatch(/^True peak \d+\.\d dBTP exceeds -1\.0 dBTP \(Streaming/);
+    expect(res.issues.some(i => i.startsWith('Predicted post-encode'))).toBe(false);
+    expect(loud.issues.some(i => i.startsWith('True peak'))).toBe(false);
+  });
+
+  it('fails tracks the decoder read only in part', () => {
+    const cut = { ...loud, parameters: { ...loud.parameters, decodeWarnings: ['FLAC stream stops at an undecodable frame after 1.50s (FLAC: unexpected end of stream)'] } };
+    const finding = evaluateDistribution(cut).enhancedIssues.find(i => i.ruleId === 'format.decode-warning');
+    expect(finding?.message).toMatch(/^FLAC stream stops at an undecodable frame after 1\.50s .*: the file is truncated/);
+  });
+
+  it('drops findings from disabled rules', () => {
+    const rules = withRule('loudness.codec-clip', { enabled: false });
+    const res = evaluateDistribution(loud, undefined, rules);
+    expect(res.issues.some(i => i.startsWith('Predicted post-encode'))).toBe(false);
+  });
+
+  it('uses edited thresholds', () => {
+    const veryLoud = (rules: DistributionRule[]) =>
+      evaluateDistribution(loud, undefined, rules).warnings.some(w => w.startsWith('Very loud'));
+    expect(veryLoud(BUILT_IN_RULES)).toBe(true);
+    expect(veryLoud(withRule('loudness.very-loud', { thresholdFrom: undefined, threshold: 10 }))).toBe(false);
+  });
+
+  it('skips profile-bound rules when the profile leaves the field unset', () => {
+    const r128 = findProfile('ebu-r128')!;
+    const rule = BUILT_IN_RULES.find(r => r.id === 'loudness.target-tolerance')!;
+    expect(evaluateDistribution(loud, undefined, [rule]).issues).toEqual([]);
+    expect(applyDeliveryProfile(loud, r128, [rule]).issues[0]).toMatch(/outside -23 ±0\.5 LU \(EBU R128/);
+  });
+
+  it('renders metric paths, decimals and missing values in templates', () => {
+    const rule: DistributionRule = {
+      id: 'custom.lufs', label: 'Custom', metric: 'loudness.integratedLUFS', comparator: 'exists',
+      level: 'warning', severity: 0.1, confidence: 1, category: 'loudness', enabled: true,
+      message: '{value:0} LUFS vs {profile.targetLUFS} on {profile}, BPM {musicalFeatures.nonexistent}'
+    };
+    const [warning] = evaluateDistribution(loud, undefined, [rule]).warnings;
+    expect(warning).toMatch(/^-?\d+ LUFS vs -14 on Streaming.*, BPM —$/);
+  });
+
+  it('resolves only analysis fields, not object built-ins', () => {
+    const rule: DistributionRule = {
+      id: 'custom.builtin', label: 'Custom', metric: 'constructor', comparator: 'exists',
+      level: 'warning', severity: 0.1, confidence: 1, category: 'format', enabled: true, message: '{value}'
+    };
+    expect(evaluateDistribution(loud, undefined, [rule]).warnings).toEqual([]);
+  });
+
+  it('round-trips and validates rulesets', () => {
+    const rules = withRule('stereo.balance', { threshold: 4 });
+    expect(parseRuleSet(JSON.parse(JSON.stringify(serializeRuleSet(rules))))).toEqual(rules);
+    expect(() => parseRuleSet({ format: 'other', rules: [] })).toThrow(/ruleset/);
+    expect(() => parseRuleSet([{ ...rules[0], comparator: '~' }])).toThrow(/comparator/);
+    expect(() => parseRuleSet([{ ...rules[0], severity: 2 }])).toThrow(/severity/);
+    expect(() => parseRuleSet([rules[0], rules[0]])).toThrow(/Duplicate/);
+  });
+
+  it('keeps built-in order when merging overrides and custom rules', () => {
+    const custom = { ...BUILT_IN_RULES[0], id: 'custom.extra' };
+    const override = { ...BUILT_IN_RULES[2], enabled: false };
+    const merged = mergeWithBuiltIns([custom, override], BUILT_IN_RULES);
+    expect(merged).toHaveLength(BUILT_IN_RULES.length + 1);
+    expect(merged[2].enabled).toBe(false);
+    expect(merged[merged.length - 1].id).toBe('custom.extra');
+  });
+});
+
+describe('Finding chains', () => {
+  const finding = (ruleId: string, severity = 0.4): AnalysisIssue =>
+    ({ message: `${ruleId}: detail`, severity, confidence: 1, category: 'dynamics', ruleId });
+
+  it('links limiting through PLR and peak clustering to ISP risk', () => {
+    const { warnings } = linkFindings([], [
+      finding('loudness.isp-margin'),
+      finding('dynamics.plr'),
+      finding('dynamics.crest-factor'),
+      finding('loudness.persistent-peaks')
+    ]);
+    const chain = findingChain(warnings[0], warnings).map(f => f.ruleId);
+    expect(chain).toEqual(['dynamics.crest-factor', 'dynamics.plr', 'loudness.persistent-peaks', 'loudness.isp-margin']);
+    expect(warnings[1]).toMatchObject({ causedBy: 'dynamics.crest-factor', leadsTo: 'loudness.persistent-peaks' });
+  });
+
+  it('only links findings present on the track', () => {
+    const { warnings } = linkFindings([], [finding('dynamics.plr'), finding('loudness.isp-margin')]);
+    expect(warnings.every(w => !w.causedBy && !w.leadsTo)).toBe(true);
+  });
+
+  it('ranks issues above warnings for the primary concern', () => {
+    const issue = finding('format.bit-depth', 0.2);
+    expect(primaryFinding([issue], [finding('dynamics.plr', 0.9)])).toBe(issue);
+    expect(primaryFinding([], [finding('dynamics.plr', 0.2), finding('stereo.mono-loss', 0.6)])?.ruleId).toBe('stereo.mono-loss');
+    expect(primaryFinding([], [])).toBeNull();
+  });
+
+  it('sets the primary concern on analyzed tracks', () => {
+    const track = analyzeFixture('sine-1k-0dbfs.wav');
+    expect(track.primaryConcern).toBe(primaryFinding(track.enhancedIssues!, track.enhancedWarnings!)?.message);
+    expect(track.enhancedIssues!.map(i => i.message)).toContain(track.primaryConcern);
+  });
+
+  it('carries album-level duplicate ISRCs into the structured findings', () => {
+    const tracks = [1, 2].map(n => analyzeFixture('sine-1k-minus14lufs.wav', n, 'USRC17607839'));
+    const album = computeAlbumStats('Album', tracks, 20, 0);
+    for (const t of album.tracks) {
+      const dup = t.enhancedIssues!.find(i => i.ruleId === 'format.duplicate-isrc');
+      expect(dup).toMatchObject({ category: 'format', severity: 1 });
+      expect(t.issues).toContain(dup!.message);
+      expect(t.primaryConcern).toBe(dup!.message);
+      expect(t.distributionReady).toBe(false);
+    }
+    // The analyzed tracks are left as they were
+    expect(tracks[0].enhancedIssues!.some(i => i.ruleId === 'format.duplicate-isrc')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Streaming Normalisation Tests
+ *
+ * Per-platform playback gain: turn-down only, boost within peak headroom,
+ * boost into a limiter, album normalisation across tracks, and the offline
+ * render of Spotify Loud's limiter.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeTrack, applyDeliveryProfile } from '../src/workers/trackAnalyzer';
+import { findProfile } from '../src/core/profiles';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { computeStreamingSimulation, findPlatform, renderLimiterPlatform, STREAMING_PLATFORMS } from '../src/analysis/musical/streaming';
+import { renderPlatformLimiter } from '../src/analysis/dsp/platformLimiter';
+
+const fixturesDir = join(__dirname, 'fixtures', 'synthetic');
+const SR = 48000;
+
+function sine(seconds: number, amp: number): Float32Array {
+  return new Float32Array(Math.round(seconds * SR)).map((_, i) => amp * Math.sin(2 * Math.PI * 1000 * i / SR));
+}
+
+function analyzeFixture(name: string, n: number) {
+  const wav = readWavFile(join(fixturesDir, name));
+  return analyzeTrack({ filename: name, filesize: 0, sampleRate: wav.sampleRate, channels: wav.samples.length, channelData: wav.samples }, n);
+}
+
+describe('Streaming platforms', () => {
+  it('simulates every platform in the catalogue', () => {
+    const sim = computeStreamingSimulation(-14, -1.5);
+    expect(sim.platforms.map(p => p.platform)).toEqual(STREAMING_PLATFORMS.map(p => p.name));
+    expect(sim.platforms.map(p => p.platformId)).toEqual(expect.arrayContaining([
+      'spotify', 'spotify-loud', 'spotify-quiet', 'amazon-music', 'deezer', 'soundcloud', 'pandora', 'qobuz'
+    ]));
+  });
+
+  it('turns loud masters down everywhere', () => {
+    const sim = computeStreamingSimulation(-8, -0.2);
+    expect(findPlatform(sim, 'youtube')!.gainChangeDB).toBeCloseTo(-6);
+    expect(findPlatform(sim, 'deezer')!.gainChangeDB).toBeCloseTo(-7);
+    expect(findPlatform(sim, 'spotify-loud')!.limiterGainReductionDB).toBeNull();
+  });
+
+  it('follows each platform boost policy for quiet masters', () => {
+    const sim = computeStreamingSimulation(-20, -4);
+    const youtube = findPlatform(sim, 'youtube')!;
+    expect(youtube.gainChangeDB).toBe(0);
+    expect(youtube.requestedGainDB).toBeCloseTo(6);
+    expect(youtube.riskFlags).toContain('Not boosted: plays 6.0 dB below the reference');
+
+    // Normal mode stops at -1 dBTP, Loud boosts fully into its limiter
+    const normal = findPlatform(sim, 'spotify')!;
+    expect(normal.gainChangeDB).toBeCloseTo(3);
+    expect(normal.projectedTruePeakDBTP).toBeCloseTo(-1);
+    const loud = findPlatform(sim, 'spotify-loud')!;
+    expect(loud.gainChangeDB).toBeCloseTo(9);
+    expect(loud.limiterGainReductionDB).toBeCloseTo(6);
+    expect(loud.projectedTruePeakDBTP).toBe(-1);
+    expect(loud.riskFlags.some(f => f.includes('clip'))).toBe(false);
+
+    expect(findPlatform(sim, 'pandora')!.gainChangeDB).toBeCloseTo(3);
+  });
+
+  it('uses album loudness on album-normalising platforms', () => {
+    const loud = analyzeFixture('sine-1k-minus14lufs.wav', 1);
+    const quiet = analyzeFixture('sine-1k-minus23lufs.wav', 2);
+    const trackGain = findPlatform(quiet.streamingSimulation, 'tidal')!.gainChangeDB;
+
+    const album = computeAlbumStats('Album', [loud, quiet], 20, 0);
+    const [a, b] = album.tracks.map(t => findPlatform(t.streamingSimulation, 'tidal')!);
+    expect(a.normalization).toBe('album');
+    expect(a.gainChangeDB).toBeCloseTo(b.gainChangeDB, 5);
+    expect(b.gainChangeDB).not.toBeCloseTo(trackGain, 1);
+
+    const youtube = album.tracks.map(t => findPlatform(t.streamingSimulation, 'youtube')!);
+    expect(youtube.map(p => p.normalization)).toEqual(['track', 'track']);
+  });
+
+  it('judges platform clipping at album gain without touching the analyzed tracks', () => {
+    // A full-scale single in an album of quiet tracks: turned down 11 dB on its own,
+    // played near unity at album gain
+    const loud = analyzeTrack({ filename: 'single.wav', filesize: 0, sampleRate: SR, channels: 1, channelData: [sine(1, 1)] }, 1);
+    const quiet = analyzeTrack({ filename: 'ballad.wav', filesize: 0, sampleRate: SR, channels: 1, channelData: [sine(15, 0.1)] }, 2);
+    const clipWarning = (w: string) => w.startsWith('Spotify: May clip');
+    expect(loud.warnings.some(clipWarning)).toBe(false);
+
+    const album = computeAlbumStats('Album', [loud, quiet], 16, 0);
+    const single = album.tracks[0];
+    expect(findPlatform(single.streamingSimulation, 'spotify')!.normalization).toBe('album');
+    expect(single.warnings.some(clipWarning)).toBe(true);
+    expect(single).not.toBe(loud);
+    expect(findPlatform(loud.streamingSimulation, 'spotify')!.normalization).toBe('track');
+  });
+});
+
+describe('Platform limiter render', () => {
+  it('holds steady gain reduction on a sustained tone', () => {
+    // -6 dBFS peaks boosted 10 dB need 5 dB of reduction to sit at -1
+    const r = renderPlatformLimiter([sine(2, 0.5)], SR, 10, -1);
+    expect(r.maxGainReductionDB).toBeCloseTo(5, 1);
+    expect(r.limitingPct).toBeGreaterThan(99);
+    expect(r.crestFactorAfterDB! - r.crestFactorBeforeDB!).toBeCloseTo(0, 0);
+    expect(r.postTruePeakDBTP!).toBeCloseTo(-1, 0);
+  });
+
+  it('holds the true peak, not just the samples, at the ceiling', () => {
+    // fs/4 sine sampled 45° off its crests: samples at -3 dB of the true peak
+    const x = new Float32Array(SR).map((_, i) => 0.3 * Math.sin(Math.PI / 2 * i + Math.PI / 4));
+    const r = renderPlatformLimiter([x], SR, 12, -1);
+    expect(r.postTruePeakDBTP!).toBeLessThanOrEqual(-0.9);
+    // 0.3 boosted 12 dB is +1.5 dBTP: 2.5 dB to take off, measured on the true peak
+    expect(r.maxGainReductionDB).toBeCloseTo(2.5, 0);
+  });
+
+  it('squashes isolated transients and reports the crest change', () => {
+    const x = sine(4, 0.05);
+    for (let s = 0.5; s < 4; s += 1) x[Math.round(s * SR)] = 0.9;
+    const r = renderPlatformLimiter([x, x], SR, 6, -1);
+    expect(r.maxGainReductionDB).toBeGreaterThan(5);
+    // Each spike is followed by ~0.4 s of release before reduction drops under 0.1 dB
+    expect(r.limitingSeconds).toBeGreaterThan(1);
+    expect(r.limitingSeconds).toBeLessThan(2);
+    expect(r.crestFactorAfterDB! - r.crestFactorBeforeDB!).toBeLessThan(-4);
+  });
+
+  it('renders Spotify Loud only when it would boost', () => {
+    expect(renderLimiterPlatform([sine(1, 0.9)], SR, -8)).toBeNull();
+    // ...and only for profiles that check the platform
+    expect(renderLimiterPlatform([sine(1, 0.5)], SR, -20, findProfile('apple-16')!)).toBeNull();
+    const r = renderLimiterPlatform([sine(1, 0.5)], SR, -20)!;
+    expect(r).toMatchObject({ platformId: 'spotify-loud', gainDB: 9, ceilingDBTP: -1 });
+    expect(r.note).toMatch(/^Spotify Loud limits up to 4\.0 dB .* Mastering 9\.0 dB louder/);
+  });
+
+  it('feeds the render into the track simulation and keeps it on re-evaluation', () => {
+    const t = analyzeFixture('sine-1k-minus23lufs.wav', 1);
+    const render = t.streamingSimulation.limiterRender!;
+    expect(render.platform).toBe('Spotify Loud');
+    const loud = findPlatform(t.streamingSimulation, 'spotify-loud')!;
+    expect(loud.limiterGainReductionDB).toBe(render.maxGainReductionDB);
+    expect(loud.projectedTruePeakDBTP).toBe(render.postTruePeakDBTP);
+
+    const reapplied = applyDeliveryProfile(t, findProfile('ebu-r128')!);
+    expect(reapplied.streamingSimulation.limiterRender).toEqual(render);
+
+    // Album normalisation keeps the rendered projection rather than the peak-over estimate
+    const album = computeAlbumStats('Album', [t, analyzeFixture('sine-1k-minus14lufs.wav', 2)], 20, 0);
+    const inAlbum = findPlatform(album.tracks[0].streamingSimulation, 'spotify-loud')!;
+    expect(inAlbum.limiterGainReductionDB).toBe(render.maxGainReductionDB);
+    expect(inAlbum.projectedTruePeakDBTP).toBe(render.postTruePeakDBTP);
+  });
+});
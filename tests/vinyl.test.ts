@@ -0,0 +1,117 @@
+/**
+ * Vinyl Validation Tests
+ *
+ * Lathe measurements on synthetic stereo signals, side capacity and the
+ * side split, plus the profile switch that turns the checks on.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { readWavFile } from './helpers/wav-reader';
+import { analyzeTrack } from '../src/workers/trackAnalyzer';
+import { computeAlbumStats } from '../src/workers/albumAnalyzer';
+import { findProfile, parseDeliveryProfile } from '../src/core/profiles';
+import { computeVinyl } from '../src/analysis/dsp/vinyl';
+import { evaluateVinyl, suggestSideSplit, vinylSideCapacity } from '../src/analysis/rules';
+import { buildTrack } from './helpers/analysis-builders';
+import type { TrackAnalysis, VinylMetrics } from '../src/core/types';
+
+const SR = 48000;
+
+function sine(freq: number, amp: number, seconds = 2, phase = 0): Float32Array {
+  const out = new Float32Array(SR * seconds);
+  for (let i = 0; i < out.length; i++) out[i] = amp * Math.sin(2 * Math.PI * freq * i / SR + phase);
+  return out;
+}
+
+function track(n: number, seconds: number, vinyl: Partial<VinylMetrics> = {}, sibilanceIndex: number | null = null): TrackAnalysis {
+  return buildTrack(n, {
+    parameters: { durationSeconds: seconds },
+    stereo: { lowEndPhaseIssues: false },
+    spectral: { sibilanceIndex },
+    vinyl: {
+      lowSidePeakDBFS: null, lowSideToMidDB: null, lowSideMaxTimestamp: null,
+      hfRmsDBFS: null, hfMaxShortTermDBFS: null, hfMaxTimestamp: null,
+      ...vinyl
+    }
+  });
+}
+
+describe('Vinyl measurements', () => {
+  it('measures low-frequency side content and ignores it for identical channels', () => {
+    const bass = sine(60, 0.5);
+    expect(computeVinyl([bass, bass], SR).lowSidePeakDBFS).toBeNull();
+
+    // Polarity-inverted bass is pure side signal
+    const inverted = sine(60, 0.5, 2, Math.PI);
+    const v = computeVinyl([bass, inverted], SR);
+    expect(v.lowSidePeakDBFS!).toBeGreaterThan(-8);
+    expect(v.lowSidePeakDBFS!).toBeLessThan(-5);
+  });
+
+  it('measures HF energy above 10 kHz only', () => {
+    const low = computeVinyl([sine(1000, 0.5)], SR);
+    const high = computeVinyl([sine(14000, 0.5)], SR);
+    expect(low.hfMaxShortTermDBFS!).toBeLessThan(-35);
+    expect(high.hfMaxShortTermDBFS!).toBeGreaterThan(-12);
+    expect(high.lowSidePeakDBFS).toBeNull();
+  });
+});
+
+describe('Vinyl validation', () => {
+  it('splits the album order to minimise the longest side', () => {
+    const tracks = [track(1, 300), track(2, 300), track(3, 200), track(4, 400), track(5, 250)];
+    const sides = suggestSideSplit(tracks, { sizeInches: 12, rpm: 33 });
+    expect(sides.map(s => s.trackNumbers)).toEqual([[1, 2, 3], [4, 5]]);
+    expect(sides.map(s => s.seconds)).toEqual([800, 650]);
+  });
+
+  it('adds records when sides run long', () => {
+    const tracks = Array.from({ length: 8 }, (_, i) => track(i + 1, 300));
+    const v = evaluateVinyl(tracks, { sizeInches: 12, rpm: 45 });
+    expect(vinylSideCapacity(v.format)).toEqual({ recommendedSeconds: 720, maxSeconds: 900 });
+    expect(v.records).toBe(2);
+    expect(v.sides.every(s => s.seconds <= 720)).toBe(true);
+    expect(v.ready).toBe(true);
+  });
+
+  it('leaves a blank B side for a single track and flags over-long tracks', () => {
+    const single = evaluateVinyl([track(1, 200)], { sizeInches: 7, rpm: 45 });
+    expect(single.sides.map(s => s.trackNumbers)).toEqual([[1], []]);
+    const tooLong = evaluateVinyl([track(1, 500)], { sizeInches: 7, rpm: 45 });
+    expect(tooLong.ready).toBe(false);
+    expect(tooLong.issues).toHaveLength(1);
+    expect(tooLong.issues[0]).toMatch(/longer than a 7" 45 rpm side/);
+  });
+
+  it('flags vertical modulation, HF energy and inner-groove sibilance', () => {
+    const v = evaluateVinyl([
+      track(1, 200, { lowSidePeakDBFS: -6, lowSideMaxTimestamp: 65 }),
+      track(2, 200, { hfMaxShortTermDBFS: -15 }, 22)
+    ]);
+    expect(v.ready).toBe(false);
+    expect(v.tracks[0].issues[0]).toMatch(/^Low-frequency side content peaks at -6\.0 dBFS at 1:05/);
+    expect(v.tracks[1].warnings[0]).toMatch(/^HF energy above 10 kHz/);
+    expect(v.tracks[1].warnings[1]).toMatch(/last on side B/);
+  });
+
+  it('runs only for profiles in vinyl mode', () => {
+    const wav = readWavFile(join(__dirname, 'fixtures', 'synthetic', 'sine-1k-minus14lufs.wav'));
+    const decoded = { filename: 'sine.wav', filesize: 0, sampleRate: wav.sampleRate, channels: wav.samples.length, channelData: wav.samples };
+    const lp = findProfile('vinyl-12-33')!;
+    const t = analyzeTrack(decoded, 1, undefined, lp);
+    expect(t.vinyl).not.toBeNull();
+    // Lacquer masters never meet a lossy encoder
+    expect(t.codec).toBeNull();
+    const streamed = analyzeTrack(decoded, 1);
+    expect(streamed.vinyl).toBeNull();
+    expect(streamed.codec).not.toBeNull();
+    expect(computeAlbumStats('Test', [streamed], streamed.parameters.durationSeconds, 0, [], lp).vinyl?.tracks[0].warnings[0])
+      .toMatch(/^No vinyl measurements/);
+
+    const seconds = t.parameters.durationSeconds;
+    expect(computeAlbumStats('Test', [t], seconds, 0).vinyl).toBeNull();
+    expect(computeAlbumStats('Test', [t], seconds, 0, [], lp).vinyl?.format).toEqual({ sizeInches: 12, rpm: 33 });
+    expect(() => parseDeliveryProfile({ ...lp, vinylFormat: { sizeInches: 9, rpm: 33 } })).toThrow(/vinylFormat/);
+  });
+});
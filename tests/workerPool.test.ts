@@ -0,0 +1,71 @@
+/**
+ * Worker Pool Tests
+ *
+ * Workers are stubbed: a worker that fails to load or never answers the
+ * warm-up must fail the run instead of leaving analyze() waiting.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createWorkerPool } from '../src/workers/workerPool';
+
+type Behaviour = 'ready' | 'error-event' | 'error-message' | 'silent';
+
+let behaviour: Behaviour = 'ready';
+
+class FakeWorker extends EventTarget {
+  postMessage(msg: { type: string }): void {
+    if (msg.type !== 'warm-up') return;
+    queueMicrotask(() => {
+      if (behaviour === 'ready') {
+        this.dispatchEvent(new MessageEvent('message', { data: { type: 'ready', wasmFFT: true, wasmEbuR128: true } }));
+      } else if (behaviour === 'error-message') {
+        this.dispatchEvent(new MessageEvent('message', { data: { type: 'error', message: 'wasm fetch failed' } }));
+      } else if (behaviour === 'error-event') {
+        // Node has no ErrorEvent; the pool only reads message and calls preventDefault
+        this.dispatchEvent(Object.assign(new Event('error', { cancelable: true }), { message: 'Failed to fetch module' }));
+      }
+    });
+  }
+  terminate(): void {}
+}
+
+async function drain(pool: ReturnType<typeof createWorkerPool>): Promise<unknown[]> {
+  const results: unknown[] = [];
+  for await (const r of pool.analyze([])) results.push(r);
+  return results;
+}
+
+describe('Worker pool warm-up', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs once every worker is ready', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    behaviour = 'ready';
+    expect(await drain(createWorkerPool({ poolSize: 2 }))).toEqual([]);
+  });
+
+  it.each(['error-event', 'error-message'] as const)('fails the run when a worker fails to load (%s)', async (b) => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    behaviour = b;
+    await expect(drain(createWorkerPool({ poolSize: 2 }))).rejects.toThrow(/^Analysis worker failed to load: (Failed to fetch module|wasm fetch failed)$/);
+  });
+
+  it('fails the run when a worker never answers', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    behaviour = 'silent';
+    const run = drain(createWorkerPool({ poolSize: 1 }));
+    const failed = expect(run).rejects.toThrow(/no response after 30 s/);
+    await vi.advanceTimersByTimeAsync(30_000);
+    await failed;
+  });
+});
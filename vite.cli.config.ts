@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import wasm from 'vite-plugin-wasm';
+
+// Node build of the headless CLI (src/cli/bin.ts -> dist-cli/auralgeek.js)
+export default defineConfig({
+  plugins: [
+    wasm()
+  ],
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/bin.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      // Optional dependency; fft-wasm falls back to JS when it is missing
+      external: ['kissfft-wasm'],
+      output: {
+        entryFileNames: 'auralgeek.js'
+      }
+    }
+  },
+  ssr: {
+    // ebur128-wasm only ships a bundler entry, so it is inlined rather than resolved by Node
+    noExternal: ['ebur128-wasm']
+  }
+});